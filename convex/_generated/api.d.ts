@@ -8,11 +8,24 @@
  * @module
  */
 
+import type * as aircraftRegistry from "../aircraftRegistry.js";
+import type * as aircraftRegistryTypes from "../aircraftRegistryTypes.js";
 import type * as airports from "../airports.js";
+import type * as crons from "../crons.js";
+import type * as geofences from "../geofences.js";
+import type * as geofencesTypes from "../geofencesTypes.js";
+import type * as lib_airports from "../lib/airports.js";
+import type * as lib_geohash from "../lib/geohash.js";
 import type * as lib_opensky from "../lib/opensky.js";
+import type * as lib_routeInference from "../lib/routeInference.js";
+import type * as liveStates from "../liveStates.js";
+import type * as positions from "../positions.js";
+import type * as positionsTypes from "../positionsTypes.js";
+import type * as routes from "../routes.js";
 import type * as states from "../states.js";
 import type * as statesTypes from "../statesTypes.js";
-import type * as todos from "../todos.js";
+import type * as watchlists from "../watchlists.js";
+import type * as watchlistsTypes from "../watchlistsTypes.js";
 
 import type {
   ApiFromModules,
@@ -21,11 +34,24 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  aircraftRegistry: typeof aircraftRegistry;
+  aircraftRegistryTypes: typeof aircraftRegistryTypes;
   airports: typeof airports;
+  crons: typeof crons;
+  geofences: typeof geofences;
+  geofencesTypes: typeof geofencesTypes;
+  "lib/airports": typeof lib_airports;
+  "lib/geohash": typeof lib_geohash;
   "lib/opensky": typeof lib_opensky;
+  "lib/routeInference": typeof lib_routeInference;
+  liveStates: typeof liveStates;
+  positions: typeof positions;
+  positionsTypes: typeof positionsTypes;
+  routes: typeof routes;
   states: typeof states;
   statesTypes: typeof statesTypes;
-  todos: typeof todos;
+  watchlists: typeof watchlists;
+  watchlistsTypes: typeof watchlistsTypes;
 }>;
 
 /**
@@ -0,0 +1,56 @@
+/** Convex queries for the aircraft registry (registration, type, operator by hex). */
+
+import { query } from './_generated/server'
+import type { QueryCtx } from './_generated/server'
+import { v } from 'convex/values'
+import { MAX_REGISTRY_LOOKUP } from './aircraftRegistryTypes'
+import type { AircraftRecord } from './aircraftRegistryTypes'
+
+async function findRecord(
+  ctx: QueryCtx,
+  icao24: string,
+): Promise<AircraftRecord | null> {
+  const row = await ctx.db
+    .query('aircraftRegistry')
+    .withIndex('by_icao24', (q) => q.eq('icao24', icao24))
+    .first()
+  if (!row) return null
+  const { _id, _creationTime, ...record } = row
+  return record
+}
+
+/** Registry record for one transponder address, or null when unknown. */
+export const get = query({
+  args: { icao24: v.string() },
+  handler: async (ctx, args) => {
+    const icao24 = args.icao24.trim().toLowerCase()
+    if (!icao24) return null
+    return await findRecord(ctx, icao24)
+  },
+})
+
+/**
+ * Registry records for up to MAX_REGISTRY_LOOKUP addresses. Unknown
+ * addresses are simply absent from the result.
+ */
+export const getMany = query({
+  args: { icao24s: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const icao24s = Array.from(
+      new Set(
+        args.icao24s
+          .map((icao24) => icao24.trim().toLowerCase())
+          .filter(Boolean),
+      ),
+    )
+    if (icao24s.length > MAX_REGISTRY_LOOKUP) {
+      throw new Error(
+        `getMany accepts at most ${MAX_REGISTRY_LOOKUP} addresses, got ${icao24s.length}`,
+      )
+    }
+    const records = await Promise.all(
+      icao24s.map((icao24) => findRecord(ctx, icao24)),
+    )
+    return records.filter((record): record is AircraftRecord => !!record)
+  },
+})
@@ -0,0 +1,49 @@
+/** Shared types and Convex validators for the aircraft registry.
+ *  Imported by both convex/ functions and src/ components.
+ */
+
+import { v } from 'convex/values'
+
+/** Most addresses one aircraftRegistry.getMany call looks up; callers batch above this. */
+export const MAX_REGISTRY_LOOKUP = 200
+
+// ─── Domain type ──────────────────────────────────────────────────────────────
+
+/**
+ * Static facts about one airframe, keyed by its transponder address.
+ * Field meanings follow the ADS-B Exchange aircraft database the import
+ * script reads (and the `r` / `t` / `desc` / `ownOp` / `year` / `dbFlags`
+ * fields of traces and live records).
+ */
+export interface AircraftRecord {
+  /** ICAO 24-bit transponder address (lowercase hex string). */
+  icao24: string
+  /** Registration / tail number (e.g. "EC-ORK"). */
+  registration?: string
+  /** ICAO aircraft type designator (e.g. "B38M"). */
+  typeCode?: string
+  /** Full type description (e.g. "BOEING 737 MAX 8"). */
+  description?: string
+  /** Registered owner or operator. */
+  operator?: string
+  /** Year built, as the database reports it. */
+  year?: string
+  /** Bit flags: 1 military, 2 interesting, 4 PIA, 8 LADD. */
+  dbFlags?: number
+}
+
+// ─── Convex validator ─────────────────────────────────────────────────────────
+
+/**
+ * Convex PropertyValidators matching the AircraftRecord interface.
+ * Used in the schema table definition.
+ */
+export const aircraftRecordFields = {
+  icao24: v.string(),
+  registration: v.optional(v.string()),
+  typeCode: v.optional(v.string()),
+  description: v.optional(v.string()),
+  operator: v.optional(v.string()),
+  year: v.optional(v.string()),
+  dbFlags: v.optional(v.number()),
+}
@@ -1,7 +1,21 @@
 /** Convex queries for airport data (OurAirports). */
 
-import { query } from './_generated/server'
+import { internalMutation, query } from './_generated/server'
+import type { QueryCtx } from './_generated/server'
+import { internal } from './_generated/api'
+import type { Doc } from './_generated/dataModel'
 import { v } from 'convex/values'
+import { haversineNm } from '../src/lib/geo'
+import {
+  AIRPORT_TYPE_RANK,
+  AIRPORT_GEOHASH_PRECISION,
+  getAirportDerivedFields,
+} from './lib/airports'
+import {
+  GEOHASH_PREFIX_END,
+  geohashCellSize,
+  geohashNeighborhood,
+} from './lib/geohash'
 
 /** Get a single airport by document ID. */
 export const get = query({
@@ -38,3 +52,192 @@ export const getByCode = query({
     return byIcao
   },
 })
+
+/** Most results one search returns. */
+const MAX_SEARCH_RESULTS = 50
+
+/** Largest radius a nearest-airport query covers. */
+const MAX_NEAREST_RADIUS_NM = 500
+
+/** Types nearest-airport queries consider unless told otherwise. */
+const DEFAULT_NEAREST_TYPES = ['large_airport', 'medium_airport']
+
+/** Rows updated per backfill mutation. */
+const BACKFILL_BATCH_SIZE = 500
+
+/** Airports whose IATA, ICAO or ident is exactly `text` (case-insensitive). */
+async function findByExactCode(ctx: QueryCtx, text: string) {
+  const code = text.trim().toUpperCase()
+  if (!/^[A-Z0-9-]{3,7}$/.test(code)) return []
+  const [byIata, byIdent, byIcao] = await Promise.all([
+    ctx.db
+      .query('airports')
+      .withIndex('by_iata_code', (q) => q.eq('iata_code', code))
+      .take(5),
+    ctx.db
+      .query('airports')
+      .withIndex('by_ident', (q) => q.eq('ident', code))
+      .take(5),
+    ctx.db
+      .query('airports')
+      .withIndex('by_icao_code', (q) => q.eq('icao_code', code))
+      .take(5),
+  ])
+  return [...byIata, ...byIdent, ...byIcao]
+}
+
+function getTypeRank(type: string) {
+  const rank = AIRPORT_TYPE_RANK.indexOf(type)
+  return rank === -1 ? AIRPORT_TYPE_RANK.length : rank
+}
+
+/** Full-text search over name, municipality, IATA / ICAO codes and keywords.
+ *  Exact code matches come first, then results grouped by type (large and
+ *  medium airports first), by relevance within each type. */
+export const search = query({
+  args: {
+    text: v.string(),
+    types: v.optional(v.array(v.string())),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const text = args.text.trim()
+    if (!text) return []
+    const limit = Math.min(Math.max(args.limit ?? 20, 1), MAX_SEARCH_RESULTS)
+    const types = [...(args.types ?? AIRPORT_TYPE_RANK)].sort(
+      (a, b) => getTypeRank(a) - getTypeRank(b),
+    )
+
+    const [exact, ...byType] = await Promise.all([
+      findByExactCode(ctx, text),
+      ...types.map((type) =>
+        ctx.db
+          .query('airports')
+          .withSearchIndex('search_text', (q) =>
+            q.search('searchText', text).eq('type', type),
+          )
+          .take(limit),
+      ),
+    ])
+
+    const typeSet = new Set(types)
+    const seen = new Set<string>()
+    const results: Doc<'airports'>[] = []
+    for (const airport of [...exact, ...byType.flat()]) {
+      if (!typeSet.has(airport.type) || seen.has(airport._id)) continue
+      seen.add(airport._id)
+      results.push(airport)
+      if (results.length === limit) break
+    }
+    return results
+  },
+})
+
+/** Geohash precision whose cells are at least `radiusNm` across near `lat`. */
+function getNearestQueryPrecision(lat: number, radiusNm: number) {
+  const cosLat = Math.cos((Math.min(Math.abs(lat), 89) * Math.PI) / 180)
+  for (let precision = AIRPORT_GEOHASH_PRECISION; precision > 1; precision--) {
+    const { latDeg, lonDeg } = geohashCellSize(precision)
+    if (latDeg * 60 >= radiusNm && lonDeg * 60 * cosLat >= radiusNm) {
+      return precision
+    }
+  }
+  return 1
+}
+
+/** The `k` closest airports of `types` within `radiusNm` of a position,
+ *  nearest first. Reads the geohash cells around the position (sized to the
+ *  radius) for each type, then ranks the candidates by great-circle distance. */
+export async function findNearestAirports(
+  ctx: QueryCtx,
+  args: {
+    lat: number
+    lon: number
+    radiusNm: number
+    k?: number
+    types?: string[]
+  },
+) {
+  const radiusNm = Math.min(Math.max(args.radiusNm, 0), MAX_NEAREST_RADIUS_NM)
+  const k = Math.max(1, Math.floor(args.k ?? 5))
+  const types = args.types ?? DEFAULT_NEAREST_TYPES
+  const cells = geohashNeighborhood(
+    args.lat,
+    args.lon,
+    getNearestQueryPrecision(args.lat, radiusNm),
+  )
+
+  const candidates = await Promise.all(
+    types.flatMap((type) =>
+      cells.map((cell) =>
+        ctx.db
+          .query('airports')
+          .withIndex('by_type_geohash', (q) =>
+            q
+              .eq('type', type)
+              .gte('geohash', cell)
+              .lt('geohash', cell + GEOHASH_PREFIX_END),
+          )
+          .collect(),
+      ),
+    ),
+  )
+
+  return candidates
+    .flat()
+    .flatMap((airport) => {
+      if (airport.latitude_deg == null || airport.longitude_deg == null) {
+        return []
+      }
+      const distanceNm = haversineNm(
+        args.lat,
+        args.lon,
+        airport.latitude_deg,
+        airport.longitude_deg,
+      )
+      return distanceNm <= radiusNm ? [{ ...airport, distanceNm }] : []
+    })
+    .sort((a, b) => a.distanceNm - b.distanceNm)
+    .slice(0, k)
+}
+
+/** The `k` closest airports within `radiusNm` of a position, nearest first.
+ *  Large and medium airports only unless `types` says otherwise. */
+export const nearest = query({
+  args: {
+    lat: v.number(),
+    lon: v.number(),
+    radiusNm: v.number(),
+    k: v.optional(v.number()),
+    types: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    return await findNearestAirports(ctx, args)
+  },
+})
+
+/** Fills searchText and geohash on rows imported before they existed, one
+ *  page at a time; schedules itself until the table is done. Run once with
+ *  `npx convex run airports:backfillSearchFields`. */
+export const backfillSearchFields = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query('airports')
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH_SIZE })
+    for (const airport of page.page) {
+      const fields = getAirportDerivedFields(airport)
+      if (
+        airport.searchText !== fields.searchText ||
+        airport.geohash !== fields.geohash
+      ) {
+        await ctx.db.patch(airport._id, fields)
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.airports.backfillSearchFields, {
+        cursor: page.continueCursor,
+      })
+    }
+  },
+})
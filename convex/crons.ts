@@ -0,0 +1,26 @@
+/** Scheduled Convex jobs. */
+
+import { cronJobs } from 'convex/server'
+import { internal } from './_generated/api'
+
+const crons = cronJobs()
+
+// OpenSky's states/all costs 4 credits per call; every 2 minutes stays within
+// the daily allowance of a registered account.
+crons.interval(
+  'ingest live states',
+  { minutes: 2 },
+  internal.liveStates.ingest,
+  {},
+)
+
+crons.interval('prune positions', { hours: 1 }, internal.positions.prune, {})
+
+crons.interval(
+  'prune geofence events',
+  { hours: 1 },
+  internal.geofences.pruneEvents,
+  {},
+)
+
+export default crons
@@ -0,0 +1,237 @@
+/** Convex queries, mutations, ingest hook and webhook action for geofences. */
+
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from './_generated/server'
+import type { MutationCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+import { internal } from './_generated/api'
+import { v } from 'convex/values'
+import { geofenceEventValidator, geofenceFields } from './geofencesTypes'
+import type { GeofenceEvent } from './geofencesTypes'
+import type { State } from './statesTypes'
+import { doesStepTouchShape, evaluateGeofences } from '../src/lib/geofence'
+import type { GeofenceSample, GeofenceStep } from '../src/lib/geofence'
+
+/** How many events to return / delete in a single call. */
+const BATCH_SIZE = 500
+
+/** Events returned to the log panel. */
+const RECENT_EVENT_COUNT = 100
+
+/** How long recorded events are kept. */
+const EVENT_RETENTION_MS = 24 * 60 * 60 * 1000
+
+const METERS_TO_FEET = 3.28084
+
+function isHttpsUrl(value: string) {
+  try {
+    return new URL(value).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/** A fence sample from a state vector; type codes are filled in on demand. */
+export function stateToGeofenceSample(state: State): GeofenceSample {
+  return {
+    icao24: state.icao24.toLowerCase(),
+    callsign: state.callsign ?? '',
+    typeCode: null,
+    altitudeFt: state.onGround
+      ? 0
+      : state.baroAltitude != null
+        ? Math.round(state.baroAltitude * METERS_TO_FEET)
+        : null,
+    lon: state.longitude,
+    lat: state.latitude,
+    time: (state.timePosition ?? state.lastContact) * 1000,
+  }
+}
+
+/**
+ * Records the crossings caused by one ingest batch and schedules a webhook
+ * per fence that has one. Type codes come from the aircraft registry, looked
+ * up only for aircraft whose path touches a fence that filters by type.
+ */
+export async function recordGeofenceCrossings(
+  ctx: MutationCtx,
+  steps: GeofenceStep[],
+) {
+  if (steps.length === 0) return
+  const fences = await ctx.db.query('geofences').collect()
+  if (fences.length === 0) return
+
+  const typedShapes = fences
+    .filter((fence) => fence.typeCodes && fence.typeCodes.length > 0)
+    .map((fence) => fence.shape)
+  const typedSteps = await Promise.all(
+    steps.map(async (step): Promise<GeofenceStep> => {
+      if (!typedShapes.some((shape) => doesStepTouchShape(shape, step))) {
+        return step
+      }
+      const icao24 = (step.current ?? step.previous).icao24
+      const record = await ctx.db
+        .query('aircraftRegistry')
+        .withIndex('by_icao24', (q) => q.eq('icao24', icao24))
+        .first()
+      const typeCode = record?.typeCode ?? null
+      const withType = (sample: GeofenceSample) => ({ ...sample, typeCode })
+      return step.current
+        ? {
+            previous: step.previous && withType(step.previous),
+            current: withType(step.current),
+          }
+        : { previous: withType(step.previous), current: null }
+    }),
+  )
+
+  const crossings = evaluateGeofences(
+    fences.map((fence) => ({ ...fence, id: fence._id })),
+    typedSteps,
+  )
+  const webhookFenceIds = new Set(
+    fences.filter((fence) => fence.webhookUrl).map((fence) => fence._id),
+  )
+  const webhookEvents = new Map<Id<'geofences'>, GeofenceEvent[]>()
+  for (const { fenceId, ...event } of crossings) {
+    const id = fenceId as Id<'geofences'>
+    await ctx.db.insert('geofenceEvents', { ...event, fenceId: id })
+    if (!webhookFenceIds.has(id)) continue
+    webhookEvents.set(id, [...(webhookEvents.get(id) ?? []), event])
+  }
+  for (const [id, events] of webhookEvents) {
+    await ctx.scheduler.runAfter(0, internal.geofences.notifyWebhook, {
+      id,
+      events,
+    })
+  }
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+/** Every geofence, oldest first. */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query('geofences').order('asc').collect()
+  },
+})
+
+/** The most recent enter/exit events across all fences, newest first. */
+export const events = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db
+      .query('geofenceEvents')
+      .withIndex('by_time')
+      .order('desc')
+      .take(RECENT_EVENT_COUNT)
+  },
+})
+
+export const get = internalQuery({
+  args: { id: v.id('geofences') },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id)
+  },
+})
+
+// ─── Mutations ────────────────────────────────────────────────────────────────
+
+export const create = mutation({
+  args: geofenceFields,
+  handler: async (ctx, args) => {
+    const name = args.name.trim()
+    if (!name) {
+      throw new Error('Geofence name is empty')
+    }
+    const { shape } = args
+    if (shape.kind === 'polygon' && shape.ring.length < 3) {
+      throw new Error('A polygon geofence needs at least three points')
+    }
+    if (shape.kind === 'circle' && !(shape.radiusNm > 0)) {
+      throw new Error('A circle geofence needs a positive radius')
+    }
+    const webhookUrl = args.webhookUrl?.trim() || undefined
+    if (webhookUrl && !isHttpsUrl(webhookUrl)) {
+      throw new Error('Webhook URL must be an https:// URL')
+    }
+    const typeCodes = args.typeCodes
+      ?.map((typeCode) => typeCode.trim().toUpperCase())
+      .filter(Boolean)
+    return await ctx.db.insert('geofences', {
+      ...args,
+      name,
+      typeCodes,
+      webhookUrl,
+    })
+  },
+})
+
+export const remove = mutation({
+  args: { id: v.id('geofences') },
+  handler: async (ctx, args) => {
+    return await ctx.db.delete(args.id)
+  },
+})
+
+/** Empties the event log. */
+export const clearEvents = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await ctx.scheduler.runAfter(0, internal.geofences.pruneEvents, {
+      before: Date.now(),
+    })
+  },
+})
+
+/**
+ * Deletes up to BATCH_SIZE events older than `before` (default: the
+ * retention window), and schedules itself again while more remain.
+ */
+export const pruneEvents = internalMutation({
+  args: { before: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const before = args.before ?? Date.now() - EVENT_RETENTION_MS
+    const docs = await ctx.db
+      .query('geofenceEvents')
+      .withIndex('by_time', (q) => q.lt('time', before))
+      .take(BATCH_SIZE)
+    await Promise.all(docs.map((doc) => ctx.db.delete(doc._id)))
+    if (docs.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.geofences.pruneEvents, {
+        before,
+      })
+    }
+  },
+})
+
+// ─── Internal action ──────────────────────────────────────────────────────────
+
+/**
+ * POSTs a batch of enter/exit events to the fence's webhook. Scheduled by
+ * the ingest, so each crossing is sent once however many clients are open.
+ */
+export const notifyWebhook = internalAction({
+  args: { id: v.id('geofences'), events: v.array(geofenceEventValidator) },
+  handler: async (ctx, args) => {
+    const fence = await ctx.runQuery(internal.geofences.get, { id: args.id })
+    if (!fence?.webhookUrl || args.events.length === 0) return
+
+    const response = await fetch(fence.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ geofence: fence.name, events: args.events }),
+    })
+    if (!response.ok) {
+      throw new Error(
+        `Geofence webhook failed: ${response.status} ${response.statusText}`,
+      )
+    }
+  },
+})
@@ -0,0 +1,95 @@
+/** Shared types and Convex validators for geofences.
+ *  Imported by both convex/ functions and src/ components.
+ */
+
+import { v } from 'convex/values'
+
+// ─── Domain types ─────────────────────────────────────────────────────────────
+
+/**
+ * [longitude, latitude] in degrees, GeoJSON order. A plain array, as
+ * Convex stores it.
+ */
+export type LonLat = number[]
+
+export type GeofenceShape =
+  | { kind: 'circle'; center: LonLat; radiusNm: number }
+  /** Open ring: the last vertex joins the first implicitly. */
+  | { kind: 'polygon'; ring: LonLat[] }
+
+/**
+ * A named area around a facility. Only aircraft inside the altitude band
+ * (inclusive, feet) and, when `typeCodes` is non-empty, of one of those
+ * ICAO types are counted as inside.
+ */
+export interface Geofence {
+  name: string
+  shape: GeofenceShape
+  minAltitudeFt?: number
+  maxAltitudeFt?: number
+  typeCodes?: string[]
+  /** Receives enter/exit events as JSON POSTs when set. */
+  webhookUrl?: string
+}
+
+/** One aircraft crossing a fence boundary. */
+export interface GeofenceEvent {
+  kind: 'enter' | 'exit'
+  fenceName: string
+  icao24: string
+  callsign: string
+  typeCode: string | null
+  altitudeFt: number | null
+  lon: number
+  lat: number
+  /** Unix epoch milliseconds. */
+  time: number
+}
+
+// ─── Convex validators ────────────────────────────────────────────────────────
+
+const lonLatValidator = v.array(v.number())
+
+export const geofenceShapeValidator = v.union(
+  v.object({
+    kind: v.literal('circle'),
+    center: lonLatValidator,
+    radiusNm: v.number(),
+  }),
+  v.object({
+    kind: v.literal('polygon'),
+    ring: v.array(lonLatValidator),
+  }),
+)
+
+/**
+ * Convex PropertyValidators matching the Geofence interface.
+ * Used in the schema table definition and the create mutation.
+ */
+export const geofenceFields = {
+  name: v.string(),
+  shape: geofenceShapeValidator,
+  minAltitudeFt: v.optional(v.number()),
+  maxAltitudeFt: v.optional(v.number()),
+  typeCodes: v.optional(v.array(v.string())),
+  webhookUrl: v.optional(v.string()),
+}
+
+/** Fields of a recorded crossing, matching GeofenceEvent plus its fence. */
+export const geofenceEventFields = {
+  fenceId: v.id('geofences'),
+  kind: v.union(v.literal('enter'), v.literal('exit')),
+  fenceName: v.string(),
+  icao24: v.string(),
+  callsign: v.string(),
+  typeCode: v.union(v.string(), v.null()),
+  altitudeFt: v.union(v.number(), v.null()),
+  lon: v.number(),
+  lat: v.number(),
+  time: v.number(),
+}
+
+const { fenceId: _fenceId, ...webhookEventFields } = geofenceEventFields
+
+/** A GeofenceEvent as posted to a webhook. */
+export const geofenceEventValidator = v.object(webhookEventFields)
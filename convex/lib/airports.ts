@@ -0,0 +1,66 @@
+/** Derived airport fields backing the search and nearest-airport indexes.
+ *  Shared by convex/airports.ts and scripts/airports-csv-to-jsonl.ts.
+ */
+
+import { encodeGeohash } from './geohash'
+
+/** Geohash characters stored per airport (~1.2 km cells); queries use prefixes. */
+export const AIRPORT_GEOHASH_PRECISION = 6
+
+/** OurAirports `type` values in the order search results rank them. */
+export const AIRPORT_TYPE_RANK = [
+  'large_airport',
+  'medium_airport',
+  'small_airport',
+  'seaplane_base',
+  'heliport',
+  'balloonport',
+  'closed',
+]
+
+type AirportSource = {
+  name: string
+  ident: string
+  municipality?: string
+  iata_code?: string
+  icao_code?: string
+  gps_code?: string
+  keywords?: string
+  latitude_deg?: number
+  longitude_deg?: number
+}
+
+/**
+ * `searchText` joins everything a user might type (name, city, codes,
+ * keywords) for the search index; `geohash` buckets the position for
+ * nearest-airport queries and is omitted without coordinates.
+ */
+export function getAirportDerivedFields(airport: AirportSource): {
+  searchText: string
+  geohash?: string
+} {
+  const terms = [
+    airport.name,
+    airport.municipality,
+    airport.iata_code,
+    airport.icao_code,
+    airport.ident,
+    airport.gps_code,
+    airport.keywords?.replace(/\s*,\s*/g, ' '),
+  ]
+  const searchText = Array.from(
+    new Set(terms.filter((term): term is string => !!term?.trim())),
+  ).join(' ')
+
+  if (airport.latitude_deg == null || airport.longitude_deg == null) {
+    return { searchText }
+  }
+  return {
+    searchText,
+    geohash: encodeGeohash(
+      airport.latitude_deg,
+      airport.longitude_deg,
+      AIRPORT_GEOHASH_PRECISION,
+    ),
+  }
+}
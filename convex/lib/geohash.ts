@@ -0,0 +1,81 @@
+/** Geohash encoding and neighbour lookup for bucketed geospatial indexes.
+ *  Pure helpers, safe to import from convex/ functions and scripts.
+ */
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz'
+
+/** Character sorting after every geohash character, for prefix range scans. */
+export const GEOHASH_PREFIX_END = '{'
+
+/** Encodes a position as a geohash of `precision` characters. */
+export function encodeGeohash(lat: number, lon: number, precision: number) {
+  let latMin = -90
+  let latMax = 90
+  let lonMin = -180
+  let lonMax = 180
+  let hash = ''
+  let bits = 0
+  let value = 0
+  let evenBit = true
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2
+      if (lon >= mid) {
+        value = value * 2 + 1
+        lonMin = mid
+      } else {
+        value = value * 2
+        lonMax = mid
+      }
+    } else {
+      const mid = (latMin + latMax) / 2
+      if (lat >= mid) {
+        value = value * 2 + 1
+        latMin = mid
+      } else {
+        value = value * 2
+        latMax = mid
+      }
+    }
+    evenBit = !evenBit
+    if (++bits === 5) {
+      hash += BASE32[value]
+      bits = 0
+      value = 0
+    }
+  }
+  return hash
+}
+
+/** Size in degrees of a geohash cell at `precision`. */
+export function geohashCellSize(precision: number) {
+  const totalBits = precision * 5
+  const lonBits = Math.ceil(totalBits / 2)
+  const latBits = Math.floor(totalBits / 2)
+  return { latDeg: 180 / 2 ** latBits, lonDeg: 360 / 2 ** lonBits }
+}
+
+/**
+ * The cell containing a position plus its eight neighbours, at `precision`.
+ * When each cell is at least `r` across, these cover a circle of radius `r`
+ * around the position. Cells collapse at the poles, hence the dedupe.
+ */
+export function geohashNeighborhood(
+  lat: number,
+  lon: number,
+  precision: number,
+) {
+  const { latDeg, lonDeg } = geohashCellSize(precision)
+  const cells = new Set<string>()
+  for (const dLat of [-1, 0, 1]) {
+    for (const dLon of [-1, 0, 1]) {
+      const cellLat = Math.max(-90, Math.min(90, lat + dLat * latDeg))
+      let cellLon = lon + dLon * lonDeg
+      if (cellLon < -180) cellLon += 360
+      if (cellLon >= 180) cellLon -= 360
+      cells.add(encodeGeohash(cellLat, cellLon, precision))
+    }
+  }
+  return Array.from(cells)
+}
@@ -2,6 +2,8 @@
  *  All fetch calls to OpenSky (auth, states, flights, tracks) live here.
  */
 
+import type { State } from '../statesTypes'
+
 const OPENSKY_API_BASE = 'https://opensky-network.org/api'
 const OPENSKY_AUTH_URL =
   'https://auth.opensky-network.org/auth/realms/opensky-network/protocol/openid-connect/token'
@@ -116,7 +118,8 @@ export type RawStateVector = [
   /* 14 */ squawk: string | null,
   /* 15 */ spi: boolean,
   /* 16 */ positionSource: number,
-  /* 17 */ category: number,
+  /** Only sent when the request asks for `extended=1`. */
+  /* 17 */ category?: number,
 ]
 
 /** Response shape from OpenSky /states/all. */
@@ -125,6 +128,35 @@ export interface OpenSkyResponse {
   states: RawStateVector[] | null
 }
 
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/** Converts a raw OpenSky state vector into a state, or null if no position. */
+export function parseStateVector(raw: RawStateVector): State | null {
+  const longitude = raw[5]
+  const latitude = raw[6]
+  if (longitude === null || latitude === null) return null
+
+  return {
+    icao24: raw[0],
+    callsign: raw[1]?.trim() || undefined,
+    originCountry: raw[2],
+    timePosition: raw[3] ?? undefined,
+    lastContact: raw[4],
+    longitude,
+    latitude,
+    baroAltitude: raw[7] ?? undefined,
+    onGround: raw[8],
+    velocity: raw[9] ?? undefined,
+    trueTrack: raw[10] ?? undefined,
+    verticalRate: raw[11] ?? undefined,
+    geoAltitude: raw[13] ?? undefined,
+    squawk: raw[14] ?? undefined,
+    spi: raw[15],
+    positionSource: raw[16],
+    ...(raw[17] != null && { category: raw[17] }),
+  }
+}
+
 // ─── API wrappers ──────────────────────────────────────────────────────────────
 
 /** Fetches flights for a time interval [begin, end]. Max 2 hours per OpenSky API. Returns [] on 404. */
@@ -0,0 +1,181 @@
+/** Route inference from ADS-B position history.
+ *  Finds takeoff and landing events in a series of samples (a stored
+ *  positions track or a replay trace) and scores airport matches for them.
+ *  Pure helpers, safe to import from convex/ functions and src/.
+ */
+
+/** One position report, in map units (feet, knots). */
+export type RouteSample = {
+  /** Unix ms. */
+  time: number
+  lat: number
+  lon: number
+  /** Barometric altitude in feet; null when unknown or reported as ground. */
+  altitude?: number | null
+  /** Ground speed in knots. */
+  groundSpeed?: number | null
+  /** Explicit surface flag, when the source reports one. */
+  onGround?: boolean
+}
+
+export type FlightEventKind = 'takeoff' | 'landing'
+
+/** A takeoff or landing found in the samples, before airport matching. */
+export type FlightEvent = {
+  kind: FlightEventKind
+  time: number
+  lat: number
+  lon: number
+  altitude: number | null
+  groundSpeed: number | null
+  /**
+   * `transition` when the samples show the aircraft on the ground on one
+   * side of the event; `low-altitude` when the track merely starts or ends
+   * low and slow (the ground part was not observed).
+   */
+  evidence: 'transition' | 'low-altitude'
+}
+
+/** Below this ground speed an aircraft without a surface flag counts as taxiing. */
+const TAXI_SPEED_KT = 50
+/** A track starting or ending below this altitude may be a takeoff / landing. */
+const LOW_ALTITUDE_FT = 3000
+/** ...and below this speed for an approach. */
+const APPROACH_SPEED_KT = 200
+/** A gap this long splits the samples into separate flights. */
+const MAX_SAMPLE_GAP_MS = 30 * 60 * 1000
+/** A track that stopped updating this long ago has ended rather than being current. */
+const TRACK_ENDED_AFTER_MS = 10 * 60 * 1000
+
+function isGrounded(sample: RouteSample) {
+  if (sample.onGround != null) return sample.onGround
+  if (sample.altitude != null) return false
+  return sample.groundSpeed != null && sample.groundSpeed < TAXI_SPEED_KT
+}
+
+function toEvent(
+  kind: FlightEventKind,
+  sample: RouteSample,
+  evidence: FlightEvent['evidence'],
+): FlightEvent {
+  return {
+    kind,
+    time: sample.time,
+    lat: sample.lat,
+    lon: sample.lon,
+    altitude: sample.altitude ?? null,
+    groundSpeed: sample.groundSpeed ?? null,
+    evidence,
+  }
+}
+
+function isLowAndSlow(sample: RouteSample) {
+  return (
+    sample.altitude != null &&
+    sample.altitude < LOW_ALTITUDE_FT &&
+    (sample.groundSpeed == null || sample.groundSpeed < APPROACH_SPEED_KT)
+  )
+}
+
+/**
+ * Takeoff and landing events in time order. Ground/air transitions give
+ * strong events; a flight segment (split at long gaps) that starts or ends
+ * low and slow without a ground sample gives a weaker one. The end of the
+ * newest segment only counts once it is older than TRACK_ENDED_AFTER_MS
+ * at `now` (Unix ms), so a live aircraft's current position is not taken
+ * for a landing.
+ */
+export function detectFlightEvents(
+  samples: RouteSample[],
+  now: number,
+): FlightEvent[] {
+  const sorted = [...samples].sort((a, b) => a.time - b.time)
+  const events: FlightEvent[] = []
+
+  let segmentStart = 0
+  for (let i = 0; i <= sorted.length; i++) {
+    const atGap =
+      i === sorted.length ||
+      (i > 0 && sorted[i].time - sorted[i - 1].time > MAX_SAMPLE_GAP_MS)
+    if (!atGap) continue
+
+    const segment = sorted.slice(segmentStart, i)
+    segmentStart = i
+    if (segment.length === 0) continue
+
+    const first = segment[0]
+    if (!isGrounded(first) && isLowAndSlow(first)) {
+      events.push(toEvent('takeoff', first, 'low-altitude'))
+    }
+
+    for (let j = 1; j < segment.length; j++) {
+      const before = isGrounded(segment[j - 1])
+      const after = isGrounded(segment[j])
+      if (before && !after) {
+        events.push(toEvent('takeoff', segment[j - 1], 'transition'))
+      } else if (!before && after) {
+        events.push(toEvent('landing', segment[j], 'transition'))
+      }
+    }
+
+    const last = segment[segment.length - 1]
+    const ended = i < sorted.length || now - last.time > TRACK_ENDED_AFTER_MS
+    if (ended && !isGrounded(last) && isLowAndSlow(last)) {
+      events.push(toEvent('landing', last, 'low-altitude'))
+    }
+  }
+  return events
+}
+
+/**
+ * The events bounding the most recent flight: its takeoff (if seen) and the
+ * landing after it (if it has landed). Without a takeoff, the history began
+ * mid-flight and the latest landing is the one that matters.
+ */
+export function getLatestFlightEvents(events: FlightEvent[]) {
+  let takeoff: FlightEvent | null = null
+  let landing: FlightEvent | null = null
+  for (const event of events) {
+    if (event.kind === 'takeoff') {
+      takeoff = event
+      landing = null
+    } else if (!takeoff || !landing) {
+      // Keep the first landing after the takeoff; before any, the latest.
+      landing = event
+    }
+  }
+  return { takeoff, landing }
+}
+
+/** Extra weight for bigger airports when candidates are similarly close. */
+const AIRPORT_TYPE_BONUS: Record<string, number> = {
+  large_airport: 0.15,
+  medium_airport: 0.1,
+  small_airport: 0.03,
+}
+
+/**
+ * Confidence (0–1) that `event` happened at `airport`, a candidate found
+ * within `radiusNm` of it.
+ * Strong evidence, proximity, an altitude near field elevation and a low
+ * speed each add to it.
+ */
+export function scoreAirportMatch(
+  event: FlightEvent,
+  airport: { type: string; elevation_ft?: number; distanceNm: number },
+  radiusNm: number,
+) {
+  let score = event.evidence === 'transition' ? 0.5 : 0.25
+  score += 0.25 * Math.max(0, 1 - airport.distanceNm / radiusNm)
+  if (event.altitude != null && airport.elevation_ft != null) {
+    const aboveField = Math.abs(event.altitude - airport.elevation_ft)
+    score += 0.1 * Math.max(0, 1 - aboveField / LOW_ALTITUDE_FT)
+  } else if (event.evidence === 'transition') {
+    score += 0.05
+  }
+  if (event.groundSpeed != null && event.groundSpeed < APPROACH_SPEED_KT) {
+    score += 0.05
+  }
+  score += AIRPORT_TYPE_BONUS[airport.type] ?? 0
+  return Math.min(0.99, Math.round(score * 100) / 100)
+}
@@ -0,0 +1,387 @@
+/** Convex action, mutations, and queries for the incrementally updated live state table. */
+
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  query,
+} from './_generated/server'
+import { internal } from './_generated/api'
+import type { Doc, Id } from './_generated/dataModel'
+import { v } from 'convex/values'
+import { ingestStatsFields, stateDataFields } from './statesTypes'
+import type { State } from './statesTypes'
+import { fetchOpenSky, parseStateVector } from './lib/opensky'
+import type { OpenSkyResponse } from './lib/opensky'
+import { stateToPosition } from './positions'
+import { recordGeofenceCrossings, stateToGeofenceSample } from './geofences'
+import type { GeofenceStep } from '../src/lib/geofence'
+import type { Position } from './positionsTypes'
+
+/** How many rows to upsert / scan / delete in a single mutation call. */
+const BATCH_SIZE = 500
+
+/** How long a vanished aircraft's row lingers before it is deleted. */
+const EXPIRY_MS = 5 * 60 * 1000
+
+/** Upper bound on states returned by one bbox query. */
+const MAX_BOUNDS_RESULTS = 5000
+
+/** Width of the longitude bands rows are indexed by, alongside latitude. */
+const LON_BAND_DEGREES = 10
+const LON_BAND_COUNT = 360 / LON_BAND_DEGREES
+
+/**
+ * Fields a state vector carries. The departure / arrival fields are left
+ * alone by upserts, so info merged in from elsewhere survives.
+ */
+const STATE_VECTOR_FIELDS = [
+  'icao24',
+  'callsign',
+  'originCountry',
+  'timePosition',
+  'lastContact',
+  'longitude',
+  'latitude',
+  'baroAltitude',
+  'onGround',
+  'velocity',
+  'trueTrack',
+  'verticalRate',
+  'geoAltitude',
+  'squawk',
+  'spi',
+  'positionSource',
+  'category',
+] as const satisfies ReadonlyArray<keyof State>
+
+/** Longitude band a position falls in, 0 … LON_BAND_COUNT − 1. */
+function lonBandOf(longitude: number) {
+  return Math.min(
+    Math.floor((longitude + 180) / LON_BAND_DEGREES),
+    LON_BAND_COUNT - 1,
+  )
+}
+
+/** Bands covering `west` … `east`, wrapping when the box crosses the antimeridian. */
+function lonBandsBetween(west: number, east: number) {
+  const first = lonBandOf(west)
+  let count = ((lonBandOf(east) - first + LON_BAND_COUNT) % LON_BAND_COUNT) + 1
+  // A box that wraps almost all the way round starts and ends in one band.
+  if (west > east && count === 1) count = LON_BAND_COUNT
+  return Array.from({ length: count }, (_, i) => (first + i) % LON_BAND_COUNT)
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+/**
+ * Returns the aircraft currently in the feed inside a bounding box. Reactive:
+ * subscribers are pushed the new result after each ingest. `west > east`
+ * means the box crosses the antimeridian.
+ */
+export const inBounds = query({
+  args: {
+    south: v.number(),
+    west: v.number(),
+    north: v.number(),
+    east: v.number(),
+  },
+  handler: async (ctx, { south, west, north, east }): Promise<State[]> => {
+    const crossesAntimeridian = west > east
+    const docs: Doc<'liveStates'>[] = []
+    // One index range per longitude band; only the band edges are filtered.
+    for (const lonBand of lonBandsBetween(west, east)) {
+      const remaining = MAX_BOUNDS_RESULTS - docs.length
+      if (remaining <= 0) break
+      const bandDocs = await ctx.db
+        .query('liveStates')
+        .withIndex('by_lonBand_latitude', (q) =>
+          q
+            .eq('lonBand', lonBand)
+            .gte('latitude', south)
+            .lte('latitude', north),
+        )
+        .filter((q) =>
+          q.and(
+            q.eq(q.field('expiresAt'), undefined),
+            crossesAntimeridian
+              ? q.or(
+                  q.gte(q.field('longitude'), west),
+                  q.lte(q.field('longitude'), east),
+                )
+              : q.and(
+                  q.gte(q.field('longitude'), west),
+                  q.lte(q.field('longitude'), east),
+                ),
+          ),
+        )
+        .take(remaining)
+      docs.push(...bandDocs)
+    }
+
+    return docs.map(
+      ({
+        _id: _id,
+        _creationTime: _ct,
+        updatedAt: _ua,
+        expiresAt: _ea,
+        lonBand: _lb,
+        ...state
+      }) => state,
+    )
+  },
+})
+
+/** Returns counts and timings of the most recent ingest, or null before the first. */
+export const lastIngest = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query('lastIngest').first()
+  },
+})
+
+// ─── Action ───────────────────────────────────────────────────────────────────
+
+/**
+ * Fetches live state vectors from OpenSky and applies them incrementally:
+ * new aircraft are inserted, changed fields patched, and aircraft missing
+ * from the feed given an expiry. Also appends position samples, records
+ * geofence crossings, and records the run in lastIngest. Run by the
+ * live-state cron.
+ */
+export const ingest = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const startedAt = Date.now()
+    const statesData = await fetchOpenSky<OpenSkyResponse>('states/all')
+    const fetchMs = Date.now() - startedAt
+
+    const latestByIcao = new Map<string, State>()
+    for (const raw of statesData.states ?? []) {
+      const s = parseStateVector(raw)
+      if (!s) continue
+      const state = { ...s, icao24: s.icao24.toLowerCase() }
+      const existing = latestByIcao.get(state.icao24)
+      if (!existing || state.lastContact > existing.lastContact) {
+        latestByIcao.set(state.icao24, state)
+      }
+    }
+    const states = Array.from(latestByIcao.values())
+    const batchCount = Math.ceil(states.length / BATCH_SIZE)
+    const batches = Array.from({ length: batchCount }, (_, idx) =>
+      states.slice(idx * BATCH_SIZE, (idx + 1) * BATCH_SIZE),
+    )
+
+    const upserts = await Promise.all(
+      batches.map((batch) =>
+        ctx.runMutation(internal.liveStates.upsertBatch, {
+          states: batch,
+          now: startedAt,
+        }),
+      ),
+    )
+
+    const positionCounts = await Promise.all(
+      batches.map((batch) =>
+        ctx.runMutation(internal.positions.insertBatch, {
+          positions: batch.flatMap((state): Position[] => {
+            const position = stateToPosition(state)
+            return position ? [position] : []
+          }),
+        }),
+      ),
+    )
+
+    // `seen` stays in the action: Convex arguments cap arrays at 8192 items,
+    // fewer than states/all often returns, so only ids are passed, a page at a time.
+    const seen = new Set(states.map((state) => state.icao24))
+    let expired = 0
+    let cursor: string | null = null
+    for (;;) {
+      const page: {
+        rows: Array<{ _id: Id<'liveStates'>; icao24: string }>
+        isDone: boolean
+        continueCursor: string
+      } = await ctx.runQuery(internal.liveStates.presentPage, { cursor })
+      const missing = page.rows
+        .filter((row) => !seen.has(row.icao24))
+        .map((row) => row._id)
+      if (missing.length > 0) {
+        expired += await ctx.runMutation(internal.liveStates.expireRows, {
+          ids: missing,
+          now: startedAt,
+        })
+      }
+      if (page.isDone) break
+      cursor = page.continueCursor
+    }
+
+    let deleted = 0
+    for (;;) {
+      const count: number = await ctx.runMutation(
+        internal.liveStates.deleteExpired,
+        { now: Date.now() },
+      )
+      deleted += count
+      if (count < BATCH_SIZE) break
+    }
+
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+    const stats = {
+      startedAt,
+      fetchMs,
+      durationMs: Date.now() - startedAt,
+      aircraft: states.length,
+      inserted: sum(upserts.map((u) => u.inserted)),
+      updated: sum(upserts.map((u) => u.updated)),
+      unchanged: sum(upserts.map((u) => u.unchanged)),
+      expired,
+      deleted,
+      positions: sum(positionCounts),
+    }
+    await ctx.runMutation(internal.liveStates.recordIngest, stats)
+    console.log('[liveStates ingest]', JSON.stringify(stats))
+  },
+})
+
+// ─── Internal functions ───────────────────────────────────────────────────────
+
+/**
+ * Inserts unknown aircraft and patches only the state vector fields that
+ * changed on known ones (clearing any pending expiry). Also keeps `lonBand`
+ * in step with the longitude, filling it in on rows written before it existed.
+ * Moved aircraft are checked against the geofences, old row against new
+ * state; new and returning ones count as first sightings.
+ */
+export const upsertBatch = internalMutation({
+  args: { states: v.array(v.object(stateDataFields)), now: v.number() },
+  returns: v.object({
+    inserted: v.number(),
+    updated: v.number(),
+    unchanged: v.number(),
+  }),
+  handler: async (ctx, { states, now }) => {
+    const counts = { inserted: 0, updated: 0, unchanged: 0 }
+    const geofenceSteps: GeofenceStep[] = []
+    for (const state of states) {
+      const existing = await ctx.db
+        .query('liveStates')
+        .withIndex('by_icao24', (q) => q.eq('icao24', state.icao24))
+        .first()
+      const lonBand = lonBandOf(state.longitude)
+      if (!existing) {
+        await ctx.db.insert('liveStates', { ...state, lonBand, updatedAt: now })
+        geofenceSteps.push({
+          previous: null,
+          current: stateToGeofenceSample(state),
+        })
+        counts.inserted++
+        continue
+      }
+
+      const patch: Partial<State> = {}
+      for (const field of STATE_VECTOR_FIELDS) {
+        if (existing[field] !== state[field]) {
+          Object.assign(patch, { [field]: state[field] })
+        }
+      }
+      if (
+        Object.keys(patch).length === 0 &&
+        existing.lonBand === lonBand &&
+        existing.expiresAt == null
+      ) {
+        counts.unchanged++
+        continue
+      }
+      // An expiring row already had its exit; coming back is a new sighting.
+      geofenceSteps.push({
+        previous:
+          existing.expiresAt == null ? stateToGeofenceSample(existing) : null,
+        current: stateToGeofenceSample(state),
+      })
+      await ctx.db.patch(existing._id, {
+        ...patch,
+        lonBand,
+        updatedAt: now,
+        expiresAt: undefined,
+      })
+      counts.updated++
+    }
+    await recordGeofenceCrossings(ctx, geofenceSteps)
+    return counts
+  },
+})
+
+/**
+ * One page of rows still in the feed (no expiry yet), by ICAO address.
+ * Call again with `continueCursor` until `isDone`.
+ */
+export const presentPage = internalQuery({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, { cursor }) => {
+    const page = await ctx.db
+      .query('liveStates')
+      .withIndex('by_icao24')
+      .paginate({ cursor, numItems: BATCH_SIZE })
+    return {
+      rows: page.page
+        .filter((doc) => doc.expiresAt == null)
+        .map(({ _id, icao24 }) => ({ _id, icao24 })),
+      isDone: page.isDone,
+      continueCursor: page.continueCursor,
+    }
+  },
+})
+
+/**
+ * Gives rows for aircraft missing from the feed an expiry, which exits them
+ * from any fence they were inside. Rows re-seen or already expiring since the
+ * page was read are left alone. Returns how many.
+ */
+export const expireRows = internalMutation({
+  args: { ids: v.array(v.id('liveStates')), now: v.number() },
+  returns: v.number(),
+  handler: async (ctx, { ids, now }) => {
+    const geofenceSteps: GeofenceStep[] = []
+    for (const id of ids) {
+      const doc = await ctx.db.get(id)
+      if (!doc || doc.expiresAt != null || doc.updatedAt >= now) continue
+      await ctx.db.patch(id, { expiresAt: now + EXPIRY_MS })
+      geofenceSteps.push({
+        previous: stateToGeofenceSample(doc),
+        current: null,
+      })
+    }
+    await recordGeofenceCrossings(ctx, geofenceSteps)
+    return geofenceSteps.length
+  },
+})
+
+/** Deletes up to BATCH_SIZE rows whose expiry has passed. Returns how many. */
+export const deleteExpired = internalMutation({
+  args: { now: v.number() },
+  returns: v.number(),
+  handler: async (ctx, { now }) => {
+    const docs = await ctx.db
+      .query('liveStates')
+      .withIndex('by_expiresAt', (q) =>
+        q.gt('expiresAt', 0).lte('expiresAt', now),
+      )
+      .take(BATCH_SIZE)
+    await Promise.all(docs.map((doc) => ctx.db.delete(doc._id)))
+    return docs.length
+  },
+})
+
+/** Replaces the lastIngest singleton. */
+export const recordIngest = internalMutation({
+  args: ingestStatsFields,
+  handler: async (ctx, stats) => {
+    const meta = await ctx.db.query('lastIngest').first()
+    if (meta) {
+      await ctx.db.patch(meta._id, stats)
+    } else {
+      await ctx.db.insert('lastIngest', stats)
+    }
+  },
+})
@@ -0,0 +1,130 @@
+/** Convex mutations and query for rolling aircraft position history.
+ *  Samples are appended by the live-state ingest (see liveStates.ts).
+ */
+
+import { internalMutation, query } from './_generated/server'
+import { internal } from './_generated/api'
+import { v } from 'convex/values'
+import { positionFields } from './positionsTypes'
+import type { Position } from './positionsTypes'
+import type { State } from './statesTypes'
+
+/** How many positions to insert / delete in a single mutation call. */
+const BATCH_SIZE = 500
+
+/** Hours of history kept when POSITION_RETENTION_HOURS is unset. */
+const DEFAULT_RETENTION_HOURS = 12
+
+/** Upper bound on samples returned by one track query. */
+const MAX_TRACK_POINTS = 5000
+
+const METERS_TO_FEET = 3.28084
+const MPS_TO_KNOTS = 1.943844
+
+/** Hours of history to keep (POSITION_RETENTION_HOURS). */
+function getRetentionHours() {
+  const value = Number(process.env.POSITION_RETENTION_HOURS)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_RETENTION_HOURS
+}
+
+/** A position sample from a parsed state vector; null without a position time. */
+export function stateToPosition(state: State): Position | null {
+  if (state.timePosition == null) return null
+  return {
+    icao24: state.icao24.toLowerCase(),
+    time: state.timePosition * 1000,
+    latitude: state.latitude,
+    longitude: state.longitude,
+    altitude:
+      state.baroAltitude != null
+        ? Math.round(state.baroAltitude * METERS_TO_FEET)
+        : undefined,
+    groundSpeed:
+      state.velocity != null
+        ? Math.round(state.velocity * MPS_TO_KNOTS)
+        : undefined,
+    track: state.trueTrack,
+    onGround: state.onGround,
+  }
+}
+
+// ─── Query ────────────────────────────────────────────────────────────────────
+
+/**
+ * Returns an aircraft's samples from the last `hours` (capped at the
+ * retention window), oldest first.
+ */
+export const track = query({
+  args: { icao24: v.string(), hours: v.number() },
+  handler: async (ctx, args): Promise<Position[]> => {
+    const icao24 = args.icao24.trim().toLowerCase()
+    if (!icao24) return []
+
+    const hours = Math.min(Math.max(args.hours, 0), getRetentionHours())
+    const since = Date.now() - hours * 60 * 60 * 1000
+    const docs = await ctx.db
+      .query('positions')
+      .withIndex('by_icao_time', (q) =>
+        q.eq('icao24', icao24).gte('time', since),
+      )
+      .order('desc')
+      .take(MAX_TRACK_POINTS)
+
+    return docs
+      .reverse()
+      .map(({ _id: _id, _creationTime: _ct, ...position }) => position)
+  },
+})
+
+// ─── Internal mutations ───────────────────────────────────────────────────────
+
+/**
+ * Inserts the positions that are newer than each aircraft's latest stored
+ * sample. Aircraft parked at the same spot are not sampled again.
+ * Returns how many rows were written.
+ */
+export const insertBatch = internalMutation({
+  args: { positions: v.array(v.object(positionFields)) },
+  returns: v.number(),
+  handler: async (ctx, { positions }) => {
+    let inserted = 0
+    for (const position of positions) {
+      const latest = await ctx.db
+        .query('positions')
+        .withIndex('by_icao_time', (q) => q.eq('icao24', position.icao24))
+        .order('desc')
+        .first()
+      if (latest && latest.time >= position.time) continue
+      if (
+        latest?.onGround &&
+        position.onGround &&
+        latest.latitude === position.latitude &&
+        latest.longitude === position.longitude
+      ) {
+        continue
+      }
+      await ctx.db.insert('positions', position)
+      inserted++
+    }
+    return inserted
+  },
+})
+
+/**
+ * Deletes up to BATCH_SIZE positions older than the retention window, and
+ * schedules itself again while more remain.
+ */
+export const prune = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - getRetentionHours() * 60 * 60 * 1000
+    const docs = await ctx.db
+      .query('positions')
+      .withIndex('by_time', (q) => q.lt('time', cutoff))
+      .take(BATCH_SIZE)
+    await Promise.all(docs.map((doc) => ctx.db.delete(doc._id)))
+    if (docs.length === BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.positions.prune, {})
+    }
+  },
+})
@@ -0,0 +1,47 @@
+/** Shared types and Convex validators for stored position samples.
+ *  Imported by both convex/ functions and src/ components.
+ */
+
+import { v } from 'convex/values'
+
+// ─── Domain type ──────────────────────────────────────────────────────────────
+
+/**
+ * One position report for an aircraft, in the units the map uses
+ * (feet, knots) rather than OpenSky's SI units.
+ */
+export interface Position {
+  /** ICAO 24-bit transponder address (lowercase hex string). */
+  icao24: string
+  /** Unix ms timestamp of the position report. */
+  time: number
+  /** WGS-84 latitude in decimal degrees. */
+  latitude: number
+  /** WGS-84 longitude in decimal degrees. */
+  longitude: number
+  /** Barometric altitude in feet. */
+  altitude?: number
+  /** Ground speed in knots. */
+  groundSpeed?: number
+  /** Track angle in degrees clockwise from north (0–360). */
+  track?: number
+  /** True when a surface position report is active. */
+  onGround: boolean
+}
+
+// ─── Convex validator ─────────────────────────────────────────────────────────
+
+/**
+ * Convex PropertyValidators matching the Position interface.
+ * Used in both the schema table definition and internal mutation args.
+ */
+export const positionFields = {
+  icao24: v.string(),
+  time: v.number(),
+  latitude: v.number(),
+  longitude: v.number(),
+  altitude: v.optional(v.number()),
+  groundSpeed: v.optional(v.number()),
+  track: v.optional(v.number()),
+  onGround: v.boolean(),
+}
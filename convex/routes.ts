@@ -0,0 +1,150 @@
+/** Convex queries for routes inferred from position history. */
+
+import { query } from './_generated/server'
+import type { QueryCtx } from './_generated/server'
+import { v } from 'convex/values'
+import { findNearestAirports } from './airports'
+import {
+  detectFlightEvents,
+  getLatestFlightEvents,
+  scoreAirportMatch,
+} from './lib/routeInference'
+import type { FlightEvent, RouteSample } from './lib/routeInference'
+
+/** How much position history inference looks at. */
+const ROUTE_HISTORY_HOURS = 12
+
+/** Airports further than this from a takeoff / landing are not considered. */
+const MATCH_RADIUS_NM = 8
+
+const MATCH_AIRPORT_TYPES = ['large_airport', 'medium_airport', 'small_airport']
+
+const flightEventValidator = v.object({
+  kind: v.union(v.literal('takeoff'), v.literal('landing')),
+  time: v.number(),
+  lat: v.number(),
+  lon: v.number(),
+  altitude: v.union(v.number(), v.null()),
+  groundSpeed: v.union(v.number(), v.null()),
+  evidence: v.union(v.literal('transition'), v.literal('low-altitude')),
+})
+
+/** An airport matched to a takeoff or landing event. */
+export type InferredAirport = {
+  ident: string
+  name: string
+  iata_code?: string
+  icao_code?: string
+  municipality?: string
+  iso_country?: string
+  latitude_deg?: number
+  longitude_deg?: number
+  distanceNm: number
+  /** 0–1; see scoreAirportMatch. */
+  confidence: number
+  /** Unix ms of the takeoff / landing. */
+  time: number
+  evidence: FlightEvent['evidence']
+}
+
+export type InferredRoute = {
+  departure: InferredAirport | null
+  arrival: InferredAirport | null
+}
+
+/** The best-scoring airport near an event, or null when none is in range. */
+async function matchEventToAirport(
+  ctx: QueryCtx,
+  event: FlightEvent | null,
+): Promise<InferredAirport | null> {
+  if (!event) return null
+  const candidates = await findNearestAirports(ctx, {
+    lat: event.lat,
+    lon: event.lon,
+    radiusNm: MATCH_RADIUS_NM,
+    k: 5,
+    types: MATCH_AIRPORT_TYPES,
+  })
+
+  let best: InferredAirport | null = null
+  for (const airport of candidates) {
+    const confidence = scoreAirportMatch(event, airport, MATCH_RADIUS_NM)
+    if (best && best.confidence >= confidence) continue
+    best = {
+      ident: airport.ident,
+      name: airport.name,
+      iata_code: airport.iata_code,
+      icao_code: airport.icao_code,
+      municipality: airport.municipality,
+      iso_country: airport.iso_country,
+      latitude_deg: airport.latitude_deg,
+      longitude_deg: airport.longitude_deg,
+      distanceNm: airport.distanceNm,
+      confidence,
+      time: event.time,
+      evidence: event.evidence,
+    }
+  }
+  return best
+}
+
+async function matchFlightEvents(
+  ctx: QueryCtx,
+  takeoff: FlightEvent | null,
+  landing: FlightEvent | null,
+): Promise<InferredRoute> {
+  const [departure, arrival] = await Promise.all([
+    matchEventToAirport(ctx, takeoff),
+    matchEventToAirport(ctx, landing),
+  ])
+  return { departure, arrival }
+}
+
+/**
+ * Estimated departure and arrival airports for an aircraft's latest flight,
+ * from takeoff and landing events in its position history. For aircraft
+ * without a published schedule (GA, cargo, military). `now` (Unix ms) comes
+ * from the client, rounded so the result stays cached between ticks.
+ */
+export const infer = query({
+  args: { icao24: v.string(), now: v.number() },
+  handler: async (ctx, args): Promise<InferredRoute> => {
+    const icao24 = args.icao24.trim().toLowerCase()
+    if (!icao24) return { departure: null, arrival: null }
+
+    const since = args.now - ROUTE_HISTORY_HOURS * 60 * 60 * 1000
+    const positions = await ctx.db
+      .query('positions')
+      .withIndex('by_icao_time', (q) =>
+        q.eq('icao24', icao24).gte('time', since),
+      )
+      .collect()
+
+    const samples: RouteSample[] = positions.map((position) => ({
+      time: position.time,
+      lat: position.latitude,
+      lon: position.longitude,
+      altitude: position.altitude,
+      groundSpeed: position.groundSpeed,
+      onGround: position.onGround,
+    }))
+    const { takeoff, landing } = getLatestFlightEvents(
+      detectFlightEvents(samples, args.now),
+    )
+    return await matchFlightEvents(ctx, takeoff, landing)
+  },
+})
+
+/**
+ * Airports for takeoff / landing events detected on the client, for replay
+ * traces that are not in the positions table.
+ */
+export const matchEvents = query({
+  args: {
+    takeoff: v.union(flightEventValidator, v.null()),
+    landing: v.union(flightEventValidator, v.null()),
+  },
+  handler: async (ctx, args): Promise<InferredRoute> => {
+    return await matchFlightEvents(ctx, args.takeoff, args.landing)
+  },
+})
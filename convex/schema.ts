@@ -1,6 +1,10 @@
 import { defineSchema, defineTable } from 'convex/server'
 import { v } from 'convex/values'
-import { stateDataFields } from './statesTypes'
+import { ingestStatsFields, stateDataFields } from './statesTypes'
+import { positionFields } from './positionsTypes'
+import { aircraftRecordFields } from './aircraftRegistryTypes'
+import { watchlistFields } from './watchlistsTypes'
+import { geofenceEventFields, geofenceFields } from './geofencesTypes'
 
 export default defineSchema({
   // ADSB Exchange traces
@@ -35,12 +39,58 @@ export default defineSchema({
     home_link: v.optional(v.string()),
     wikipedia_link: v.optional(v.string()),
     keywords: v.optional(v.string()),
+    /** Name, city, codes and keywords joined for the search index (see convex/lib/airports.ts). */
+    searchText: v.optional(v.string()),
+    /** Geohash of the position, for nearest-airport lookups. */
+    geohash: v.optional(v.string()),
   })
     .index('by_ident', ['ident'])
-    .index('by_icao_code', ['icao_code']),
+    .index('by_icao_code', ['icao_code'])
+    .index('by_iata_code', ['iata_code'])
+    .index('by_type_geohash', ['type', 'geohash'])
+    .searchIndex('search_text', {
+      searchField: 'searchText',
+      filterFields: ['type'],
+    }),
 
 
-  // Deprecated
+  /** Registration, type and operator per airframe, imported by scripts/aircraft-db-to-jsonl.ts. */
+  aircraftRegistry: defineTable(aircraftRecordFields).index('by_icao24', [
+    'icao24',
+  ]),
+
+  /** Named lists of watched aircraft (hexes, registrations, callsigns, type codes). */
+  watchlists: defineTable(watchlistFields),
+
+  /** User-drawn circles and polygons watched for aircraft entering and leaving. */
+  geofences: defineTable(geofenceFields),
+
+  /** Enter/exit crossings found by the live-state ingest, pruned after a day. */
+  geofenceEvents: defineTable(geofenceEventFields).index('by_time', ['time']),
+
+  /** Current state per aircraft, upserted by the live-state ingest cron. */
+  liveStates: defineTable({
+    ...stateDataFields,
+    /** Unix ms of the ingest that last changed this row. */
+    updatedAt: v.number(),
+    /** Unix ms after which a vanished aircraft's row is deleted; unset while it is in the feed. */
+    expiresAt: v.optional(v.number()),
+    /** Longitude band (see liveStates.ts) so bbox queries narrow both axes by index; set by the ingest. */
+    lonBand: v.optional(v.number()),
+  })
+    .index('by_icao24', ['icao24'])
+    .index('by_lonBand_latitude', ['lonBand', 'latitude'])
+    .index('by_expiresAt', ['expiresAt']),
+
+  /** Singleton — counts and timings of the most recent live-state ingest. */
+  lastIngest: defineTable(ingestStatsFields),
+
+  /** Append-only position samples per aircraft, written by the live-state ingest cron. */
+  positions: defineTable(positionFields)
+    .index('by_icao_time', ['icao24', 'time'])
+    .index('by_time', ['time']),
+
+  // Deprecated: superseded by liveStates
   // Used for storing /states/all from OpenSky
   /** One row per aircraft in the active (or pending) snapshot. */
   states: defineTable({
@@ -50,7 +100,7 @@ export default defineSchema({
   }).index('by_snapshotTime', ['snapshotTime']),
 
 
-  // Deprecated
+  // Deprecated: superseded by lastIngest
   // OpenSky /states/all snapshot metadata
   /** Singleton — tracks which snapshotTime is currently active (fully inserted). */
   stateMeta: defineTable({
@@ -10,11 +10,11 @@ import {
   fetchFlightsAll,
   fetchFlightsAircraft,
   fetchTrack,
+  parseStateVector,
 } from './lib/opensky'
 import type {
   OpenSkyFlight,
   OpenSkyResponse,
-  RawStateVector,
   OpenSkyTrack,
 } from './lib/opensky'
 
@@ -42,35 +42,6 @@ export type OpenSkyRouteDetail = {
 /** How many states to insert / delete in a single mutation call. */
 const BATCH_SIZE = 1000
 
-// ─── Parsing ──────────────────────────────────────────────────────────────────
-
-/** Converts a raw OpenSky state vector into a state, or null if no position. */
-function parseStateVector(raw: RawStateVector): State | null {
-  const longitude = raw[5]
-  const latitude = raw[6]
-  if (longitude === null || latitude === null) return null
-
-  return {
-    icao24: raw[0],
-    callsign: raw[1]?.trim() || undefined,
-    originCountry: raw[2],
-    timePosition: raw[3] ?? undefined,
-    lastContact: raw[4],
-    longitude,
-    latitude,
-    baroAltitude: raw[7] ?? undefined,
-    onGround: raw[8],
-    velocity: raw[9] ?? undefined,
-    trueTrack: raw[10] ?? undefined,
-    verticalRate: raw[11] ?? undefined,
-    geoAltitude: raw[13] ?? undefined,
-    squawk: raw[14] ?? undefined,
-    spi: raw[15],
-    positionSource: raw[16],
-    ...(raw[17] != null && { category: raw[17] }),
-  }
-}
-
 // ─── Query ────────────────────────────────────────────────────────────────────
 
 /** Returns all states in the currently active snapshot. */
@@ -100,6 +71,7 @@ export const list = query({
  * Fetches live state data from OpenSky, merges with flight departure/arrival
  * info, stores in Convex, then atomically activates the new snapshot and cleans
  * up the previous one.
+ * Deprecated: the liveStates ingest cron keeps an incrementally updated table.
  */
 export const refresh = action({
   args: {},
@@ -103,3 +103,20 @@ export const stateDataFields = {
   firstSeen: v.optional(v.number()),
   lastSeen: v.optional(v.number()),
 }
+
+/**
+ * Counts and timings of one live-state ingest run (Unix ms / ms).
+ * Used in both the lastIngest table definition and its mutation args.
+ */
+export const ingestStatsFields = {
+  startedAt: v.number(),
+  fetchMs: v.number(),
+  durationMs: v.number(),
+  aircraft: v.number(),
+  inserted: v.number(),
+  updated: v.number(),
+  unchanged: v.number(),
+  expired: v.number(),
+  deleted: v.number(),
+  positions: v.number(),
+}
@@ -0,0 +1,103 @@
+/** Convex queries and mutations for watchlists (named lists of watched aircraft). */
+
+import { mutation, query } from './_generated/server'
+import type { MutationCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+import { v } from 'convex/values'
+import { normalizeWatchValue, watchKindValidator } from './watchlistsTypes'
+import type { WatchEntry } from './watchlistsTypes'
+
+const entryArgs = {
+  id: v.id('watchlists'),
+  kind: watchKindValidator,
+  value: v.string(),
+}
+
+async function getWatchlist(ctx: MutationCtx, id: Id<'watchlists'>) {
+  const watchlist = await ctx.db.get(id)
+  if (!watchlist) {
+    throw new Error('Watchlist not found')
+  }
+  return watchlist
+}
+
+function toEntry(args: { kind: WatchEntry['kind']; value: string }) {
+  const value = normalizeWatchValue(args.kind, args.value)
+  if (!value) {
+    throw new Error('Watch value is empty')
+  }
+  return { kind: args.kind, value }
+}
+
+function isSameEntry(a: WatchEntry, b: WatchEntry) {
+  return a.kind === b.kind && a.value === b.value
+}
+
+/** Every watchlist, oldest first. */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query('watchlists').order('asc').collect()
+  },
+})
+
+export const create = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const name = args.name.trim()
+    if (!name) {
+      throw new Error('Watchlist name is empty')
+    }
+    return await ctx.db.insert('watchlists', { name, entries: [] })
+  },
+})
+
+export const remove = mutation({
+  args: { id: v.id('watchlists') },
+  handler: async (ctx, args) => {
+    return await ctx.db.delete(args.id)
+  },
+})
+
+/** Adds an entry; adding one that is already on the list is a no-op. */
+export const addEntry = mutation({
+  args: entryArgs,
+  handler: async (ctx, args) => {
+    const watchlist = await getWatchlist(ctx, args.id)
+    const entry = toEntry(args)
+    if (watchlist.entries.some((existing) => isSameEntry(existing, entry))) {
+      return
+    }
+    await ctx.db.patch(args.id, { entries: [...watchlist.entries, entry] })
+  },
+})
+
+export const removeEntry = mutation({
+  args: entryArgs,
+  handler: async (ctx, args) => {
+    const watchlist = await getWatchlist(ctx, args.id)
+    const entry = toEntry(args)
+    await ctx.db.patch(args.id, {
+      entries: watchlist.entries.filter(
+        (existing) => !isSameEntry(existing, entry),
+      ),
+    })
+  },
+})
+
+/** Adds the entry when it is missing, removes it when present. */
+export const toggleEntry = mutation({
+  args: entryArgs,
+  handler: async (ctx, args) => {
+    const watchlist = await getWatchlist(ctx, args.id)
+    const entry = toEntry(args)
+    const present = watchlist.entries.some((existing) =>
+      isSameEntry(existing, entry),
+    )
+    await ctx.db.patch(args.id, {
+      entries: present
+        ? watchlist.entries.filter((existing) => !isSameEntry(existing, entry))
+        : [...watchlist.entries, entry],
+    })
+  },
+})
@@ -0,0 +1,58 @@
+/** Shared types and Convex validators for watchlists.
+ *  Imported by both convex/ functions and src/ components.
+ */
+
+import { v } from 'convex/values'
+
+// ─── Enums ────────────────────────────────────────────────────────────────────
+
+/** What a watchlist entry matches against on a live aircraft. */
+export const WATCH_KINDS = [
+  'icao24',
+  'registration',
+  'callsign',
+  'typeCode',
+] as const
+
+export type WatchKind = (typeof WATCH_KINDS)[number]
+
+// ─── Domain type ──────────────────────────────────────────────────────────────
+
+/**
+ * One watched value. Values are stored normalized (see normalizeWatchValue):
+ * lowercase hex for icao24, uppercase without spaces for the rest.
+ */
+export interface WatchEntry {
+  kind: WatchKind
+  value: string
+}
+
+/** A named list of watched aircraft. */
+export interface Watchlist {
+  name: string
+  entries: WatchEntry[]
+}
+
+/** Canonical form of a watched value, so "ual 123" and "UAL123" are one entry. */
+export function normalizeWatchValue(kind: WatchKind, value: string) {
+  const compact = value.replace(/\s+/g, '')
+  return kind === 'icao24' ? compact.toLowerCase() : compact.toUpperCase()
+}
+
+// ─── Convex validator ─────────────────────────────────────────────────────────
+
+export const watchKindValidator = v.union(
+  v.literal('icao24'),
+  v.literal('registration'),
+  v.literal('callsign'),
+  v.literal('typeCode'),
+)
+
+/**
+ * Convex PropertyValidators matching the Watchlist interface.
+ * Used in the schema table definition.
+ */
+export const watchlistFields = {
+  name: v.string(),
+  entries: v.array(v.object({ kind: watchKindValidator, value: v.string() })),
+}
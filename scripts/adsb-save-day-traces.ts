@@ -9,7 +9,7 @@
  *
  * Options:
  *   --limit N    Only fetch first N ICAOs (for testing)
- *   --condense   Strip verbose fields from trace points (keep t, lat, lon, alt, gs, track only)
+ *   --condense   Strip verbose fields from trace points (keep t, lat, lon, alt, gs, track, vertical rate only)
  */
 
 import { writeFileSync, mkdirSync } from 'node:fs'
@@ -51,10 +51,19 @@ type Trace = {
   trace: TracePoint[]
 }
 
-type CondensedPoint = [number, number, number, number | null, number, number]
+type CondensedPoint = [
+  number,
+  number,
+  number,
+  number | null,
+  number,
+  number,
+  number | null,
+]
 
 function condensePoint(p: TracePoint): CondensedPoint {
-  return [p[0], p[1], p[2], typeof p[3] === 'number' ? p[3] : null, p[4], p[5]]
+  const alt = typeof p[3] === 'number' ? p[3] : p[3] === 'ground' ? 0 : null
+  return [p[0], p[1], p[2], alt, p[4], p[5], p[7] ?? p[11]]
 }
 
 async function fetchTraceIndex(year: number, month: number, day: number) {
@@ -130,7 +139,7 @@ async function main() {
   console.log(`Date: ${dateStr}`)
   console.log(`Output: ${outFile}`)
   if (limit) console.log(`Limit: first ${limit} ICAOs`)
-  if (condense) console.log('Condensed trace format (t, lat, lon, alt, gs, track)')
+  if (condense) console.log('Condensed trace format (t, lat, lon, alt, gs, track, rate)')
   console.log('')
 
   const icaos = await fetchTraceIndex(year, month, day)
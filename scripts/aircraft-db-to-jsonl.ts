@@ -0,0 +1,113 @@
+#!/usr/bin/env bun
+// Run: bun run scripts/aircraft-db-to-jsonl.ts
+/**
+ * Converts the ADS-B Exchange basic aircraft database (ODbL) to JSONL for a
+ * Convex import into the aircraftRegistry table:
+ *   npx convex import --table aircraftRegistry --replace convex/data/aircraftRegistry.jsonl
+ * Empty fields are omitted; the PIA / LADD / military booleans are folded
+ * into `dbFlags` with the same bits traces use.
+ */
+
+import { writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { gunzipSync } from 'node:zlib'
+
+const DB_URL =
+  'https://downloads.adsbexchange.com/downloads/basic-ac-db.json.gz'
+const OUT_PATH = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '../convex/data/aircraftRegistry.jsonl',
+)
+
+const DB_FLAG_MILITARY = 1
+const DB_FLAG_PIA = 4
+const DB_FLAG_LADD = 8
+
+type BasicAircraftRow = {
+  icao?: string
+  reg?: string | null
+  icaotype?: string | null
+  year?: string | number | null
+  manufacturer?: string | null
+  model?: string | null
+  ownop?: string | null
+  faa_pia?: boolean
+  faa_ladd?: boolean
+  mil?: boolean
+}
+
+function clean(value: string | number | null | undefined) {
+  if (value == null) return undefined
+  const text = String(value).trim()
+  return text === '' ? undefined : text
+}
+
+/** "Boeing" + "737-8 MAX" → "Boeing 737-8 MAX"; models often repeat the maker. */
+function getDescription(row: BasicAircraftRow) {
+  const manufacturer = clean(row.manufacturer)
+  const model = clean(row.model)
+  if (!model) return manufacturer
+  if (
+    !manufacturer ||
+    model.toLowerCase().startsWith(manufacturer.toLowerCase())
+  ) {
+    return model
+  }
+  return `${manufacturer} ${model}`
+}
+
+function toRecord(row: BasicAircraftRow) {
+  const icao24 = clean(row.icao)?.toLowerCase()
+  if (!icao24 || !/^[0-9a-f]{6}$/.test(icao24)) return null
+
+  const dbFlags =
+    (row.mil ? DB_FLAG_MILITARY : 0) |
+    (row.faa_pia ? DB_FLAG_PIA : 0) |
+    (row.faa_ladd ? DB_FLAG_LADD : 0)
+  const record: Record<string, unknown> = {
+    icao24,
+    registration: clean(row.reg),
+    typeCode: clean(row.icaotype)?.toUpperCase(),
+    description: getDescription(row),
+    operator: clean(row.ownop),
+    year: clean(row.year),
+    dbFlags: dbFlags || undefined,
+  }
+  return record
+}
+
+async function main() {
+  const res = await fetch(DB_URL, {
+    headers: { 'Accept-Encoding': 'identity' },
+  })
+  if (!res.ok) throw new Error(`Failed to fetch: ${res.status}`)
+  const body = Buffer.from(await res.arrayBuffer())
+  // Served as a .gz file; some mirrors decompress on the fly.
+  const isGzip = body[0] === 0x1f && body[1] === 0x8b
+  const text = (isGzip ? gunzipSync(body) : body).toString('utf-8')
+
+  const lines: string[] = []
+  let skipped = 0
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue
+    let record: Record<string, unknown> | null = null
+    try {
+      record = toRecord(JSON.parse(line) as BasicAircraftRow)
+    } catch {
+      record = null
+    }
+    if (!record) {
+      skipped++
+      continue
+    }
+    lines.push(JSON.stringify(record))
+  }
+
+  writeFileSync(OUT_PATH, lines.join('\n'), 'utf-8')
+  console.log(
+    `Wrote ${lines.length} aircraft to ${OUT_PATH} (${skipped} rows skipped)`,
+  )
+}
+
+main().catch(console.error)
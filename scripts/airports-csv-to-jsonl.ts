@@ -2,11 +2,13 @@
 // Run: bun run scripts/airports-csv-to-jsonl.ts
 /**
  * Converts OurAirports airports.csv to JSONL for Convex import.
- * Handles empty cells by omitting optional fields.
+ * Handles empty cells by omitting optional fields, and adds the derived
+ * searchText / geohash fields the airport search and nearest queries use.
  */
 
 import { readFileSync, writeFileSync } from 'node:fs'
 import { join } from 'node:path'
+import { getAirportDerivedFields } from '../convex/lib/airports'
 
 const CSV_URL =
   'https://raw.githubusercontent.com/davidmegginson/ourairports-data/main/airports.csv'
@@ -63,6 +65,14 @@ async function main() {
         row[key] = val
       }
     }
+    if (typeof row.name === 'string' && typeof row.ident === 'string') {
+      Object.assign(
+        row,
+        getAirportDerivedFields(
+          row as Parameters<typeof getAirportDerivedFields>[0],
+        ),
+      )
+    }
     rows.push(row)
   }
 
@@ -0,0 +1,102 @@
+#!/usr/bin/env bun
+// Run: bun run scripts/test-sbs-replay.ts [--file capture.sbs] [--port 30003] [--interval 50] [--serve-only]
+/**
+ * Replays a BaseStation (SBS-1) capture over a local TCP port, like dump1090's
+ * port 30003. Unless --serve-only is given, it also connects the app's SBS feed
+ * to that port and prints the aggregated aircraft table once the replay ends.
+ *
+ * Point the dev server at it with SBS_HOST=127.0.0.1 SBS_PORT=<port>.
+ */
+
+import { readFileSync } from 'node:fs'
+import { createServer } from 'node:net'
+import type { Socket } from 'node:net'
+import { createSbsFeed } from '../src/actions/receiver/sbs'
+
+const SAMPLE_CAPTURE = `MSG,1,1,1,4840D6,1,2026/01/01,12:00:00.000,2026/01/01,12:00:00.000,KLM1023,,,,,,,,,,,0
+MSG,3,1,1,4840D6,1,2026/01/01,12:00:00.100,2026/01/01,12:00:00.100,,38000,,,52.25720,3.91937,,,0,0,0,0
+MSG,4,1,1,4840D6,1,2026/01/01,12:00:00.200,2026/01/01,12:00:00.200,,,159,182.9,,,-832,,,,,0
+MSG,6,1,1,4840D6,1,2026/01/01,12:00:00.300,2026/01/01,12:00:00.300,,,,,,,,1234,0,0,0,0
+MSG,1,1,1,A3BB04,1,2026/01/01,12:00:00.400,2026/01/01,12:00:00.400,UAL123,,,,,,,,,,,0
+MSG,3,1,1,A3BB04,1,2026/01/01,12:00:00.500,2026/01/01,12:00:00.500,,12025,,,37.61902,-122.37498,,,0,0,0,0
+MSG,4,1,1,A3BB04,1,2026/01/01,12:00:00.600,2026/01/01,12:00:00.600,,,245,287.4,,,1600,,,,,0
+MSG,6,1,1,A3BB04,1,2026/01/01,12:00:00.700,2026/01/01,12:00:00.700,,,,,,,,7700,0,-1,0,0
+MSG,3,1,1,4840D6,1,2026/01/01,12:00:01.000,2026/01/01,12:00:01.000,,37975,,,52.25610,3.91920,,,0,0,0,0
+MSG,8,1,1,4840D6,1,2026/01/01,12:00:01.100,2026/01/01,12:00:01.100,,,,,,,,,,,,0
+`
+
+function getArg(name: string) {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+const file = getArg('file')
+const port = Number(getArg('port') ?? 30003)
+const intervalMs = Number(getArg('interval') ?? 50)
+const serveOnly = process.argv.includes('--serve-only')
+
+const lines = (file ? readFileSync(file, 'latin1') : SAMPLE_CAPTURE)
+  .split('\n')
+  .map((line) => line.trim())
+  .filter(Boolean)
+
+console.log(
+  `Replaying ${lines.length} lines from ${file ?? 'embedded sample'} on 127.0.0.1:${port}`,
+)
+
+const clients = new Set<Socket>()
+let replayStarted = false
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function replay() {
+  for (const line of lines) {
+    for (const client of clients) client.write(`${line}\r\n`)
+    await sleep(intervalMs)
+  }
+}
+
+const server = createServer((socket) => {
+  clients.add(socket)
+  socket.on('close', () => clients.delete(socket))
+  socket.on('error', () => clients.delete(socket))
+  console.log(`Client connected (${clients.size} total)`)
+
+  if (replayStarted) return
+  replayStarted = true
+  void replay().then(finish)
+})
+
+const feed = serveOnly ? null : createSbsFeed({ host: '127.0.0.1', port })
+
+function finish() {
+  console.log('Replay finished')
+  if (feed) {
+    const aircraft = feed.table.snapshot(Date.now())
+    console.table(
+      aircraft.map((item) => ({
+        hex: item.hex,
+        flight: item.flight,
+        alt_baro: item.alt_baro,
+        gs: item.gs,
+        track: item.track,
+        lat: item.lat,
+        lon: item.lon,
+        baro_rate: item.baro_rate,
+        squawk: item.squawk,
+        emergency: item.emergency,
+        messages: item.messages,
+      })),
+    )
+    feed.stop()
+  }
+  for (const client of clients) client.end()
+  server.close()
+}
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`Listening on 127.0.0.1:${port}`)
+  feed?.start()
+})
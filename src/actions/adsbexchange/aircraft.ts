@@ -1,6 +1,8 @@
 import { createServerFn } from '@tanstack/react-start'
 import z from 'zod'
 import { getOrSet } from '#/lib/cache'
+import { rapidApiFetch } from '#/lib/rapidapi-budget'
+import type { RapidApiPriority } from '#/lib/rapidapi-budget'
 
 /** Aircraft from ADS-B Exchange API (v2) */
 export interface AdsbAircraft {
@@ -14,6 +16,10 @@ export interface AdsbAircraft {
   baro_rate: number
   /** ICAO aircraft category (e.g. A3 = 15–19m wingspan, jet) */
   category: string
+  /** Aircraft database flags: 1 military, 2 interesting, 4 PIA, 8 LADD */
+  dbFlags?: number
+  /** Full aircraft type description (e.g. "BOEING 737 MAX 8") */
+  desc?: string
   /** Emergency state (e.g. "none") */
   emergency: string
   /** Flight callsign (8 chars, may be padded) */
@@ -58,6 +64,8 @@ export interface AdsbAircraft {
   nic_baro: number
   /** Outside air temperature in °C */
   oat?: number
+  /** Registered owner / operator */
+  ownOp?: string
   /** Aircraft registration (e.g. EC-ORK) */
   r: string
   /** Receiver/antenna channel identifier */
@@ -102,6 +110,8 @@ export interface AdsbAircraft {
   wd?: number
   /** Wind speed in knots */
   ws?: number
+  /** Year built */
+  year?: string
 }
 
 export interface AdsbExchangeResponse {
@@ -119,22 +129,26 @@ function getRapidApiConfig() {
   return { key, host }
 }
 
-async function fetchNearbyAircraft(
+export function isAdsbExchangeConfigured() {
+  return !!process.env.RAPIDAPI_KEY && !!process.env.RAPIDAPI_HOST_ADSBECHANGE
+}
+
+/** Goes through the shared RapidAPI budget; throws RapidApiBudgetError when it is spent. */
+export async function fetchNearbyAircraft(
   lat: number,
   lon: number,
   dist: number,
+  priority: RapidApiPriority = 'viewport',
 ): Promise<AdsbAircraft[]> {
   // console.log(`[ADS-B Exchange] Fetching nearby aircraft... lat: ${lat.toFixed(2)}, lon: ${lon.toFixed(2)}, dist: ${dist.toFixed(2)}`)
   const { key, host } = getRapidApiConfig()
   const url = `https://${host}/v2/lat/${lat}/lon/${lon}/dist/${dist}/`
   const start = performance.now()
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-rapidapi-key': key,
-      'x-rapidapi-host': host,
-      'Content-Type': 'application/json',
-    },
+  const res = await rapidApiFetch('adsbexchange', url, {
+    apiKey: key,
+    host,
+    priority,
+    headers: { 'Content-Type': 'application/json' },
   })
   const fetchMs = Math.round(performance.now() - start)
   if (!res.ok) {
@@ -178,12 +192,3 @@ export const getNearbyAircraftAction = createServerFn()
   .handler(async ({ data }) => {
     return fetchNearbyAircraftWithCache(data.lat, data.lon, data.dist)
   })
-
-/**
- * Fetches all aircraft from ADS-B Exchange (global coverage).
- */
-export const getAircraftAllAction = createServerFn().handler(async () => {
-  // return fetchNearbyAircraft(0, 0, 1000000)
-  // return await fetchNearbyAircraft(0, 0, 1000000)
-  return await fetchNearbyAircraft(38, 6, 500)
-})
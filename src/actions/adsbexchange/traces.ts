@@ -1,9 +1,50 @@
 import { createServerFn } from '@tanstack/react-start'
 import z from 'zod'
-import { getOrSet, getOrSetMany } from '#/lib/cache'
+import { CachedFetchError, getOrSet, getOrSetMany } from '#/lib/cache'
+import type { CacheManyResult, CachePolicy } from '#/lib/cache'
 
 const BASE_URL = 'https://samples.adsbexchange.com'
 
+/** Non-OK response from the trace host. */
+class TraceFetchError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = 'TraceFetchError'
+  }
+}
+
+function isTraceNotFound(error: unknown) {
+  return error instanceof TraceFetchError && error.status === 404
+}
+
+/** Past days' traces never change; a missing trace is retried after a few minutes. */
+const TRACE_CACHE_POLICY: CachePolicy = {
+  ttlSeconds: 7 * 86400,
+  errorTtlSeconds: 10 * 60,
+  cacheError: isTraceNotFound,
+  compress: true,
+}
+
+/**
+ * A batch entry holds the keys of the batch's traces, never the traces
+ * themselves, so each trace is stored once under its own key. Sample days
+ * are in the past, so a trace that was not found stays missing.
+ */
+const TRACES_BATCH_CACHE_POLICY: CachePolicy = {
+  ttlSeconds: 7 * 86400,
+}
+
+/** The day's index can still grow; refresh it in the background once an hour. */
+const TRACE_INDEX_CACHE_POLICY: CachePolicy = {
+  ttlSeconds: 86400,
+  staleAfterSeconds: 3600,
+  errorTtlSeconds: 10 * 60,
+  cacheError: isTraceNotFound,
+}
+
 export type Trace = {
   icao: string
   r: string
@@ -31,6 +72,45 @@ export type Trace = {
   ][]
 }
 
+/** A trace point reduced to what replay uses: t, lat, lon, alt, gs, track, rate. */
+export type CondensedTracePoint = [
+  number, // timestamp
+  number, // latitude
+  number, // longitude
+  number | null, // altitude (feet); 0 on the ground, null when missing
+  number, // ground speed
+  number, // track
+  (number | null)?, // vertical rate (ft/min); absent in entries cached before it was kept
+]
+
+/** A Trace as stored and served for replay, without the verbose point fields. */
+export type CondensedTrace = Pick<
+  Trace,
+  'icao' | 'r' | 't' | 'desc' | 'timestamp'
+> & {
+  trace: CondensedTracePoint[]
+}
+
+/** Same reduction as `--condense` in scripts/adsb-save-day-traces.ts. */
+function condenseTrace(trace: Trace): CondensedTrace {
+  return {
+    icao: trace.icao,
+    r: trace.r,
+    t: trace.t,
+    desc: trace.desc,
+    timestamp: trace.timestamp,
+    trace: trace.trace.map((p) => [
+      p[0],
+      p[1],
+      p[2],
+      typeof p[3] === 'number' ? p[3] : p[3] === 'ground' ? 0 : null,
+      p[4],
+      p[5],
+      p[7] ?? p[11],
+    ]),
+  }
+}
+
 type TraceIndex = {
   traces: string[]
 }
@@ -47,7 +127,8 @@ async function getTraceIndex(year: number, month: number, day: number) {
   })
 
   if (!response.ok) {
-    throw new Error(
+    throw new TraceFetchError(
+      response.status,
       `Failed to fetch trace index: ${response.status} ${response.statusText}`,
     )
   }
@@ -68,9 +149,10 @@ async function getTraceIndex(year: number, month: number, day: number) {
   }
 }
 
+/** Versioned: v2 entries hold condensed traces, not the raw trace files. */
 function traceCacheKey(icao24: string, year: number, month: number, day: number) {
   const icao = icao24.toLowerCase()
-  return `trace:${icao}:${year}:${month}:${day}`
+  return `trace:v2:${icao}:${year}:${month}:${day}`
 }
 
 function tracesBatchCacheKey(
@@ -79,8 +161,8 @@ function tracesBatchCacheKey(
   month: number,
   day: number,
 ) {
-  const sorted = [...icao24List].map((s) => s.toLowerCase()).sort()
-  return `traces:${year}:${month}:${day}:${sorted.join(',')}`
+  const sorted = icao24List.map((s) => s.toLowerCase()).sort()
+  return `traces:refs:v2:${year}:${month}:${day}:${sorted.join(',')}`
 }
 
 async function fetchTraces(
@@ -99,7 +181,8 @@ async function fetchTraces(
   })
 
   if (!response.ok) {
-    throw new Error(
+    throw new TraceFetchError(
+      response.status,
       `Failed to fetch traces: ${response.status} ${response.statusText}`,
     )
   }
@@ -115,6 +198,51 @@ async function fetchTraces(
   }
 }
 
+/** Only 404s are negative-cached, so a cached failure is a missing trace too. */
+function isMissingTrace(error: unknown) {
+  return isTraceNotFound(error) || error instanceof CachedFetchError
+}
+
+/**
+ * Traces for the ICAOs that have one; missing or failed ones are skipped.
+ * The batch entry lists the trace keys to read, leaving out missing traces
+ * so repeat loads do not ask for them again. Failed fetches stay listed.
+ */
+async function getTraces(
+  icao24List: string[],
+  year: number,
+  month: number,
+  day: number,
+) {
+  const entries = icao24List.map((icao24) => ({
+    key: traceCacheKey(icao24, year, month, day),
+    fetcher: async () =>
+      condenseTrace(await fetchTraces(icao24, year, month, day)),
+  }))
+  // Filled when the batch entry is built, so the traces are not read twice.
+  const built: { results?: CacheManyResult<CondensedTrace>[] } = {}
+  const refs = await getOrSet(
+    tracesBatchCacheKey(icao24List, year, month, day),
+    async () => {
+      const results = await getOrSetMany(entries, TRACE_CACHE_POLICY)
+      built.results = results
+      return entries.flatMap(({ key }, index) => {
+        const result = results[index]
+        return result.ok || !isMissingTrace(result.error) ? [key] : []
+      })
+    },
+    TRACES_BATCH_CACHE_POLICY,
+  )
+  const referenced = new Set(refs)
+  const results =
+    built.results ??
+    (await getOrSetMany(
+      entries.filter(({ key }) => referenced.has(key)),
+      TRACE_CACHE_POLICY,
+    ))
+  return results.flatMap((result) => (result.ok ? [result.value] : []))
+}
+
 export const getTracesAction = createServerFn()
   .inputValidator(
     z.object({
@@ -124,24 +252,9 @@ export const getTracesAction = createServerFn()
       day: z.number(),
     }),
   )
-  .handler(async ({ data }) => {
-    const batchKey = tracesBatchCacheKey(
-      data.icao24,
-      data.year,
-      data.month,
-      data.day,
-    )
-    const traces = await getOrSet(batchKey, async () => {
-      return getOrSetMany(
-        data.icao24.map((icao24) => ({
-          key: traceCacheKey(icao24, data.year, data.month, data.day),
-          fetcher: () => fetchTraces(icao24, data.year, data.month, data.day),
-        })),
-      )
-    })
-    console.log(`[getTracesAction] Loaded ${traces.length} traces`)
-    return traces
-  })
+  .handler(({ data }) =>
+    getTraces(data.icao24, data.year, data.month, data.day),
+  )
 
 export const getTracesIndexAction = createServerFn()
   .inputValidator(
@@ -152,7 +265,11 @@ export const getTracesIndexAction = createServerFn()
     }),
   )
   .handler(async ({ data }) => {
-    const index = await getTraceIndex(data.year, data.month, data.day)
+    const index = await getOrSet(
+      `trace-index:${data.year}:${data.month}:${data.day}`,
+      () => getTraceIndex(data.year, data.month, data.day),
+      TRACE_INDEX_CACHE_POLICY,
+    )
     console.log(`[getTracesIndexAction] Loaded ${index.traces.length} traces`)
     return index.traces
   })
@@ -1,6 +1,7 @@
 import { createServerFn } from '@tanstack/react-start'
 import z from 'zod'
-import { getOrSet } from '#/lib/cache'
+import { getOrSetWithFallback } from '#/lib/cache'
+import { isRapidApiBudgetError, rapidApiFetch } from '#/lib/rapidapi-budget'
 
 /** AeroDataBox airport location (lat/lon) */
 export interface AerodataboxLocation {
@@ -184,6 +185,41 @@ export interface AerodataboxFlight {
 
 export type AerodataboxFlightByIcao24Response = AerodataboxFlight[]
 
+/** Flights for an ICAO24, flagged `stale` when served from cache because the API budget ran out. */
+export interface AerodataboxFlightLookup {
+  flights: AerodataboxFlight[]
+  stale: boolean
+  updatedAt: number | null
+}
+
+/** Schedules change slowly; serve a cached answer this old and refresh it behind the scenes. */
+const FLIGHT_STALE_AFTER_SECONDS = 60
+const FLIGHT_CACHE_TTL_SECONDS = 30 * 60
+/** Unknown or invalid ICAO24s are not retried for this long. */
+const FLIGHT_ERROR_TTL_SECONDS = 60
+/** How long the last answer for an aircraft is kept to fall back on. */
+const FALLBACK_TTL_SECONDS = 6 * 60 * 60
+
+/** Non-OK response from AeroDataBox. */
+export class AerodataboxApiError extends Error {
+  constructor(
+    readonly status: number,
+    body: string,
+  ) {
+    super(`AeroDataBox API error: ${status}: ${body}`)
+    this.name = 'AerodataboxApiError'
+  }
+}
+
+/** Client errors (bad or unknown ICAO24) won't change on retry; 429s are handled by the budget. */
+function isCacheableAerodataboxError(error: unknown) {
+  return (
+    error instanceof AerodataboxApiError &&
+    error.status >= 400 &&
+    error.status < 500
+  )
+}
+
 function getRapidApiConfig() {
   const key = process.env.RAPIDAPI_KEY
   const host = process.env.RAPIDAPI_HOST_AERODATABOX
@@ -195,55 +231,102 @@ function getRapidApiConfig() {
   return { key, host }
 }
 
+export function isAerodataboxConfigured() {
+  return !!process.env.RAPIDAPI_KEY && !!process.env.RAPIDAPI_HOST_AERODATABOX
+}
+
+/** How `fetchAerodataboxFlights` identifies the flight: `/flights/{searchBy}/{value}`. */
+type AerodataboxFlightSearchBy = 'Icao24' | 'Number'
+
+const flightLookupInput = z.object({
+  dateLocalRole: z.enum(['Departure', 'Arrival', 'Both']).optional(),
+  withAircraftImage: z.boolean().optional(),
+})
+
+/**
+ * Looks flights up by `searchBy` at interactive priority; when the RapidAPI
+ * budget is spent, the last cached answer is returned with `stale: true`.
+ */
+async function fetchAerodataboxFlights(
+  searchBy: AerodataboxFlightSearchBy,
+  value: string,
+  options: z.infer<typeof flightLookupInput>,
+): Promise<AerodataboxFlightLookup> {
+  const dateLocalRole = options.dateLocalRole ?? 'Both'
+  const withAircraftImage = options.withAircraftImage ?? true
+  // Receiver-only deployments run without RapidAPI; treat as "no schedule".
+  if (!isAerodataboxConfigured()) {
+    return { flights: [], stale: false, updatedAt: null }
+  }
+
+  const cacheKey = `aerodatabox:flight:${searchBy.toLowerCase()}:${value}:${dateLocalRole}:${withAircraftImage}`
+
+  const result = await getOrSetWithFallback(
+    cacheKey,
+    async () => {
+      const { key, host } = getRapidApiConfig()
+      const params = new URLSearchParams({
+        dateLocalRole,
+        withAircraftImage: String(withAircraftImage),
+      })
+      const url = `https://${host}/flights/${searchBy}/${encodeURIComponent(value)}?${params}`
+      const res = await rapidApiFetch('aerodatabox', url, {
+        apiKey: key,
+        host,
+        priority: 'interactive',
+        headers: { Accept: 'application/json' },
+      })
+      if (!res.ok) {
+        throw new AerodataboxApiError(res.status, await res.text())
+      }
+      // No flights known for this aircraft or number.
+      if (res.status === 204) return []
+
+      const text = await res.text()
+      try {
+        const flights = JSON.parse(text) as AerodataboxFlightByIcao24Response
+        return flights
+      } catch (error) {
+        console.error(
+          '[fetchAerodataboxFlights] error parsing response:',
+          error,
+        )
+        throw error
+      }
+    },
+    {
+      ttlSeconds: FLIGHT_CACHE_TTL_SECONDS,
+      staleAfterSeconds: FLIGHT_STALE_AFTER_SECONDS,
+      errorTtlSeconds: FLIGHT_ERROR_TTL_SECONDS,
+      cacheError: isCacheableAerodataboxError,
+      fallbackTtlSeconds: FALLBACK_TTL_SECONDS,
+      canFallback: isRapidApiBudgetError,
+    },
+  )
+  return {
+    flights: result.value,
+    stale: result.stale,
+    updatedAt: result.updatedAt,
+  }
+}
+
 /**
  * Fetches flight(s) by ICAO 24-bit transponder address from AeroDataBox.
  * @see https://doc.aerodatabox.com/rapidapi.html#/operations/GetFlight_FlightNearest
  */
 export const getFlightByIcao24Action = createServerFn()
-  .inputValidator(
-    z.object({
-      icao24: z.string(),
-      dateLocalRole: z.enum(['Departure', 'Arrival', 'Both']).optional(),
-      withAircraftImage: z.boolean().optional(),
-    }),
-  )
-  .handler(async ({ data }) => {
-    const dateLocalRole = data.dateLocalRole ?? 'Both'
-    const withAircraftImage = data.withAircraftImage ?? true
-    const cacheKey = `aerodatabox:flight:icao24:${data.icao24}:${dateLocalRole}:${withAircraftImage}`
-
-    return getOrSet<AerodataboxFlightByIcao24Response>(
-      cacheKey,
-      async () => {
-        const { key, host } = getRapidApiConfig()
-        const params = new URLSearchParams({
-          dateLocalRole,
-          withAircraftImage: String(withAircraftImage),
-        })
-        const url = `https://${host}/flights/Icao24/${data.icao24}?${params}`
-        const res = await fetch(url, {
-          method: 'GET',
-          headers: {
-            Accept: 'application/json',
-            'X-RapidAPI-Key': key,
-            'X-RapidAPI-Host': host,
-          },
-        })
-        if (!res.ok) {
-          throw new Error(
-            `AeroDataBox API error: ${res.status}: ${await res.text()}`,
-          )
-        }
-
-        const text = await res.text()
-        try {
-          const flights = JSON.parse(text) as AerodataboxFlightByIcao24Response
-          return flights
-        } catch (error) {
-          console.error('[getFlightByIcao24Action] error parsing response:', error)
-          throw error
-        }
-      },
-      2,
-    )
+  .inputValidator(flightLookupInput.extend({ icao24: z.string() }))
+  .handler(async ({ data }): Promise<AerodataboxFlightLookup> => {
+    return fetchAerodataboxFlights('Icao24', data.icao24, data)
+  })
+
+/**
+ * Fetches flight(s) by IATA flight number ("UA123") from AeroDataBox; the
+ * fallback when the transponder address is unknown to it.
+ * @see https://doc.aerodatabox.com/rapidapi.html#/operations/GetFlight_FlightNearest
+ */
+export const getFlightByNumberAction = createServerFn()
+  .inputValidator(flightLookupInput.extend({ number: z.string() }))
+  .handler(async ({ data }): Promise<AerodataboxFlightLookup> => {
+    return fetchAerodataboxFlights('Number', data.number, data)
   })
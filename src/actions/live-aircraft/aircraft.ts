@@ -0,0 +1,146 @@
+import { createServerFn } from '@tanstack/react-start'
+import z from 'zod'
+import { normalizeBounds } from '#/lib/geo'
+import { createWatchMatcher } from '#/lib/watchlists'
+import { WATCH_KINDS } from '../../../convex/watchlistsTypes'
+import { readGlobalAircraftSnapshot } from './global-snapshot'
+import { liveAircraftHub } from './hub'
+import {
+  fetchLiveAircraft,
+  getDefaultLiveAircraftProviderId,
+  listLiveAircraftProviders,
+} from './registry'
+import { fetchLiveAircraftTiles } from './tiles'
+
+export const geoBoundsSchema = z.object({
+  south: z.number(),
+  west: z.number(),
+  north: z.number(),
+  east: z.number(),
+})
+
+/**
+ * Fetches aircraft around lat/lon from the selected live provider
+ * (server default when `provider` is omitted).
+ */
+export const getLiveAircraftAction = createServerFn()
+  .inputValidator(
+    z.object({
+      provider: z.string().optional(),
+      lat: z.number(),
+      lon: z.number(),
+      dist: z.number(),
+      bounds: geoBoundsSchema.optional(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const { provider, ...query } = data
+    return fetchLiveAircraft(provider, query)
+  })
+
+/**
+ * Fetches every aircraft in a viewport from the selected live provider,
+ * split into cached grid tiles so zoomed-out views are fully covered.
+ */
+export const getLiveAircraftTilesAction = createServerFn()
+  .inputValidator(
+    z.object({
+      provider: z.string().optional(),
+      bounds: geoBoundsSchema,
+    }),
+  )
+  .handler(async ({ data }) => {
+    return fetchLiveAircraftTiles(data.provider, data.bounds)
+  })
+
+/**
+ * Every aircraft on the globe from the selected live provider, read from the
+ * cached world snapshot. Never triggers upstream calls of its own; the
+ * snapshot is filled by a budgeted background sweep of a global covering.
+ */
+export const getAircraftAllAction = createServerFn()
+  .inputValidator(
+    z.object({
+      provider: z.string().optional(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const snapshot = await readGlobalAircraftSnapshot(data.provider)
+    return snapshot.aircraft
+  })
+
+/**
+ * Aircraft anywhere on the globe that match a watchlist, with the names of
+ * the matching lists. Read from the cached world snapshot like
+ * getAircraftAllAction, so watched aircraft outside the viewport are found.
+ */
+export const getWatchedAircraftAction = createServerFn()
+  .inputValidator(
+    z.object({
+      provider: z.string().optional(),
+      watchlists: z.array(
+        z.object({
+          name: z.string(),
+          entries: z.array(
+            z.object({ kind: z.enum(WATCH_KINDS), value: z.string() }),
+          ),
+        }),
+      ),
+    }),
+  )
+  .handler(async ({ data }) => {
+    const matchWatchlists = createWatchMatcher(data.watchlists)
+    const snapshot = await readGlobalAircraftSnapshot(data.provider)
+    return snapshot.aircraft.flatMap((aircraft) => {
+      const listNames = matchWatchlists(aircraft)
+      return listNames.length > 0 ? [{ aircraft, listNames }] : []
+    })
+  })
+
+/**
+ * Moves an open `/api/live-aircraft/stream` subscription to a new viewport.
+ * Returns `{ ok: false }` when the subscription is gone (the client reconnects).
+ */
+export const setLiveAircraftStreamBoundsAction = createServerFn()
+  .inputValidator(
+    z.object({
+      subscriptionId: z.string(),
+      bounds: geoBoundsSchema,
+    }),
+  )
+  .handler(async ({ data }) => {
+    return {
+      ok: liveAircraftHub.setBounds(
+        data.subscriptionId,
+        normalizeBounds(data.bounds),
+      ),
+    }
+  })
+
+/**
+ * Full record for one streamed aircraft. The stream only carries the fields
+ * the map draws; tooltips and the flight sheet fetch the rest through this.
+ */
+export const getLiveAircraftDetailAction = createServerFn()
+  .inputValidator(
+    z.object({
+      provider: z.string().optional(),
+      hex: z.string(),
+    }),
+  )
+  .handler(async ({ data }) => {
+    return liveAircraftHub.findAircraft(data.provider, data.hex)
+  })
+
+/**
+ * Lists registered live providers with their capabilities and whether
+ * they are configured on this server.
+ */
+export const getLiveAircraftProvidersAction = createServerFn().handler(
+  async () => {
+    return {
+      defaultProviderId: getDefaultLiveAircraftProviderId(),
+      providers: listLiveAircraftProviders(),
+    }
+  },
+)
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getGlobalCovering } from '#/lib/geo-covering'
+import { createGlobalSnapshotScheduler } from './global-snapshot'
+import { createAdsbAircraft } from './normalize'
+import type { LiveAircraftProvider } from './types'
+
+const MAX_RADIUS_NM = 250
+const REQUESTS_PER_MINUTE = 20
+
+/** Reports one aircraft at the center of every cell it is asked about. */
+function createFakeProvider(): LiveAircraftProvider {
+  let next = 0
+  return {
+    id: 'fake',
+    label: 'Fake',
+    capabilities: {
+      queryModes: ['radius'],
+      maxRadiusNm: MAX_RADIUS_NM,
+      fields: [],
+    },
+    isConfigured: () => true,
+    fetchAircraft: ({ lat, lon }) =>
+      Promise.resolve([
+        createAdsbAircraft((next++).toString(16).padStart(6, '0'), {
+          lat,
+          lon,
+        }),
+      ]),
+  }
+}
+
+describe('createGlobalSnapshotScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('covers the whole globe after one sweep at the default rate', async () => {
+    const cellCount = getGlobalCovering(MAX_RADIUS_NM).length
+    const scheduler = createGlobalSnapshotScheduler({
+      provider: createFakeProvider(),
+      requestsPerMinute: REQUESTS_PER_MINUTE,
+    })
+    const sweepMinutes = Math.ceil(cellCount / REQUESTS_PER_MINUTE)
+
+    // A reader polling once a minute keeps the sweep from idling out.
+    for (let minute = 0; minute <= sweepMinutes; minute++) {
+      scheduler.touch()
+      await vi.advanceTimersByTimeAsync(60_000)
+    }
+    scheduler.stop()
+
+    const snapshot = scheduler.getSnapshot()
+    expect(scheduler.getStats()).toMatchObject({
+      cells: cellCount,
+      fetched: cellCount,
+    })
+    expect(snapshot.coverage).toBe(1)
+    expect(snapshot.sweepPeriodMs).toBe((cellCount * 60_000) / 20)
+    expect(snapshot.aircraft).toHaveLength(cellCount)
+    expect(snapshot.oldestCellAgeMs).toBeGreaterThan(10 * 60_000)
+    expect(snapshot.oldestCellAgeMs).toBeLessThanOrEqual(
+      (sweepMinutes + 1) * 60_000,
+    )
+  })
+})
@@ -0,0 +1,231 @@
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import { getCached, setCached } from '#/lib/cache'
+import { getGlobalCovering } from '#/lib/geo-covering'
+import type { CoveringCell } from '#/lib/geo-covering'
+import { isRapidApiBudgetError } from '#/lib/rapidapi-budget'
+import {
+  ageAircraft,
+  filterAircraftToQuery,
+  mergeAircraftByHex,
+} from './normalize'
+import { getLiveAircraftProvider } from './registry'
+import type { LiveAircraftProvider } from './types'
+
+const DEFAULT_REQUESTS_PER_MINUTE = 20
+/** Empty cells (oceans, poles) are revisited this much less often. */
+const EMPTY_CELL_WEIGHT = 0.1
+const SNAPSHOT_WRITE_INTERVAL_MS = 15_000
+const SNAPSHOT_CACHE_TTL_SECONDS = 300
+/** The scheduler stops when nobody has read the snapshot for this long. */
+const IDLE_TIMEOUT_MS = 10 * 60_000
+
+/** Every aircraft on the globe as last seen by the covering sweep. */
+export type GlobalAircraftSnapshot = {
+  providerId: string
+  updatedAt: number
+  /** Share of covering cells fetched at least once (0–1). */
+  coverage: number
+  /**
+   * Time one pass over every cell takes at the configured rate. A full
+   * global covering takes tens of minutes, so every fetched cell is kept
+   * and its aircraft aged (`seen`, `seen_pos`) by how long ago it was read.
+   */
+  sweepPeriodMs: number
+  /** Age of the stalest included cell; null before the first fetch. */
+  oldestCellAgeMs: number | null
+  aircraft: AdsbAircraft[]
+}
+
+type CellState = {
+  cell: CoveringCell
+  aircraft: AdsbAircraft[]
+  fetchedAt: number | null
+}
+
+function getSnapshotCacheKey(providerId: string) {
+  return `${providerId}:global:snapshot`
+}
+
+/** Upstream requests per minute the sweep may spend (GLOBAL_SNAPSHOT_REQUESTS_PER_MINUTE, 0 disables it). */
+function getRequestsPerMinute() {
+  const value = Number(process.env.GLOBAL_SNAPSHOT_REQUESTS_PER_MINUTE)
+  return Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_REQUESTS_PER_MINUTE
+}
+
+/**
+ * Sweeps a provider's global covering one cell at a time, at most
+ * `requestsPerMinute` upstream calls, and keeps a stitched world snapshot in
+ * the cache. Unvisited cells go first, then the stalest, with empty cells
+ * weighted down so busy airspace refreshes more often. Requests run at
+ * background priority and pause while the shared API budget says so.
+ */
+export function createGlobalSnapshotScheduler({
+  provider,
+  requestsPerMinute,
+}: {
+  provider: LiveAircraftProvider
+  requestsPerMinute: number
+}) {
+  const cells: CellState[] = getGlobalCovering(
+    provider.capabilities.maxRadiusNm,
+  ).map((cell) => ({ cell, aircraft: [], fetchedAt: null }))
+  const intervalMs = 60_000 / requestsPerMinute
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let running = false
+  let lastReadAt = 0
+  let lastWriteAt = 0
+
+  const pickCell = (now: number) => {
+    let best: CellState | null = null
+    let bestScore = -1
+    for (const state of cells) {
+      if (state.fetchedAt == null) return state
+      const weight = state.aircraft.length > 0 ? 1 : EMPTY_CELL_WEIGHT
+      const score = (now - state.fetchedAt) * weight
+      if (score > bestScore) {
+        best = state
+        bestScore = score
+      }
+    }
+    return best
+  }
+
+  const buildSnapshot = (now: number): GlobalAircraftSnapshot => {
+    const lists: AdsbAircraft[][] = []
+    let oldestCellAgeMs: number | null = null
+    for (const state of cells) {
+      if (state.fetchedAt == null) continue
+      const ageMs = now - state.fetchedAt
+      oldestCellAgeMs = Math.max(oldestCellAgeMs ?? 0, ageMs)
+      // Age positions by how long ago the cell was fetched, so the freshest
+      // report wins where neighbouring cells overlap.
+      lists.push(ageAircraft(state.aircraft, ageMs / 1000))
+    }
+    return {
+      providerId: provider.id,
+      updatedAt: now,
+      coverage: lists.length / cells.length,
+      sweepPeriodMs: cells.length * intervalMs,
+      oldestCellAgeMs,
+      aircraft: mergeAircraftByHex(lists),
+    }
+  }
+
+  const tick = async () => {
+    timer = null
+    const startedAt = Date.now()
+    if (startedAt - lastReadAt > IDLE_TIMEOUT_MS) {
+      running = false
+      return
+    }
+
+    let delayMs = intervalMs
+    const state = pickCell(startedAt)
+    if (state) {
+      const { lat, lon, radiusNm, bounds } = state.cell
+      try {
+        const aircraft = await provider.fetchAircraft({
+          lat,
+          lon,
+          dist: radiusNm,
+          priority: 'background',
+        })
+        // Keep only the cell's own share; neighbours report the overlap.
+        state.aircraft = filterAircraftToQuery(aircraft, {
+          lat,
+          lon,
+          dist: radiusNm,
+          bounds,
+        })
+        state.fetchedAt = Date.now()
+      } catch (error) {
+        if (isRapidApiBudgetError(error)) {
+          delayMs = Math.max(intervalMs, error.retryAfterMs)
+        } else {
+          console.error(
+            `[global-snapshot] ${provider.id} cell ${state.cell.id} failed:`,
+            error,
+          )
+        }
+      }
+    }
+
+    const now = Date.now()
+    if (now - lastWriteAt >= SNAPSHOT_WRITE_INTERVAL_MS) {
+      lastWriteAt = now
+      await setCached(
+        getSnapshotCacheKey(provider.id),
+        buildSnapshot(now),
+        SNAPSHOT_CACHE_TTL_SECONDS,
+      )
+    }
+
+    timer = setTimeout(
+      () => void tick(),
+      Math.max(0, startedAt + delayMs - Date.now()),
+    )
+  }
+
+  return {
+    /** Marks the snapshot as wanted, starting the sweep if it was idle. */
+    touch() {
+      lastReadAt = Date.now()
+      if (running || requestsPerMinute <= 0) return
+      running = true
+      void tick()
+    },
+    stop() {
+      running = false
+      if (timer) clearTimeout(timer)
+      timer = null
+    },
+    getSnapshot() {
+      return buildSnapshot(Date.now())
+    },
+    getStats() {
+      const fetched = cells.filter((state) => state.fetchedAt != null).length
+      return { running, cells: cells.length, fetched }
+    },
+  }
+}
+
+export type GlobalSnapshotScheduler = ReturnType<
+  typeof createGlobalSnapshotScheduler
+>
+
+const schedulers = new Map<string, GlobalSnapshotScheduler>()
+
+function getGlobalSnapshotScheduler(provider: LiveAircraftProvider) {
+  let scheduler = schedulers.get(provider.id)
+  if (!scheduler) {
+    scheduler = createGlobalSnapshotScheduler({
+      provider,
+      requestsPerMinute: getRequestsPerMinute(),
+    })
+    schedulers.set(provider.id, scheduler)
+  }
+  return scheduler
+}
+
+/**
+ * Reads the world snapshot for a provider. Never calls the upstream itself:
+ * it returns what the background sweep last stored (kept running while
+ * someone reads), falling back to this process's sweep without Redis.
+ */
+export async function readGlobalAircraftSnapshot(
+  providerId: string | null | undefined,
+): Promise<GlobalAircraftSnapshot> {
+  const provider = getLiveAircraftProvider(providerId)
+  if (!provider.isConfigured()) {
+    throw new Error(`Live aircraft provider ${provider.id} is not configured`)
+  }
+
+  const scheduler = getGlobalSnapshotScheduler(provider)
+  scheduler.touch()
+  const cached = await getCached<GlobalAircraftSnapshot>(
+    getSnapshotCacheKey(provider.id),
+  )
+  return cached ?? scheduler.getSnapshot()
+}
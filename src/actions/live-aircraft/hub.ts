@@ -0,0 +1,336 @@
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import { isInBounds } from '#/lib/geo'
+import type { GeoBounds } from '#/lib/geo'
+import { getTileKey, getViewportTiles } from '#/lib/geo-tiles'
+import type { GeoTile } from '#/lib/geo-tiles'
+import { readGlobalAircraftSnapshot } from './global-snapshot'
+import { mergeAircraftByHex } from './normalize'
+import { getLiveAircraftProvider } from './registry'
+import {
+  MAX_TILES_PER_VIEWPORT,
+  fetchLiveAircraftTile,
+  isGlobalViewport,
+} from './tiles'
+import type { LiveAircraftProvider } from './types'
+
+/** Fastest a tile region is re-polled, when its provider has few regions open. */
+const REGION_POLL_INTERVAL_MS = 1500
+/**
+ * Upstream tile polls per second across all of a provider's regions. Each
+ * region's interval grows with the provider's open tile regions to stay under it.
+ */
+const MAX_TILE_POLLS_PER_SECOND = 4
+/** The global region only re-reads the cached snapshot. */
+const GLOBAL_REGION_POLL_INTERVAL_MS = 5000
+
+/**
+ * Changes since the last diff a subscriber received. `stale` is true while
+ * any of the subscriber's regions is served from a fallback copy because the
+ * upstream budget is spent.
+ */
+export type LiveAircraftDiff = {
+  added: AdsbAircraft[]
+  updated: AdsbAircraft[]
+  removed: string[]
+  stale: boolean
+}
+
+export type LiveAircraftSubscription = {
+  id: string
+  setBounds: (bounds: GeoBounds) => void
+  close: () => void
+}
+
+type Region = {
+  key: string
+  provider: LiveAircraftProvider
+  /** Null for the provider's global-snapshot region. */
+  tile: GeoTile | null
+  aircraft: AdsbAircraft[]
+  stale: boolean
+  subscribers: Set<Subscriber>
+  timer: ReturnType<typeof setTimeout> | null
+  closed: boolean
+}
+
+type Subscriber = {
+  id: string
+  provider: LiveAircraftProvider
+  bounds: GeoBounds
+  regions: Set<Region>
+  /** Signature of every aircraft last sent, by hex */
+  sent: Map<string, string>
+  sentStale: boolean
+  flushScheduled: boolean
+  onDiff: (diff: LiveAircraftDiff) => void
+}
+
+/** The fields the map renders; `seen`/`messages` churn alone is not an update. */
+function getAircraftSignature(aircraft: AdsbAircraft) {
+  return [
+    aircraft.lat,
+    aircraft.lon,
+    aircraft.alt_baro,
+    aircraft.gs,
+    aircraft.track,
+    aircraft.baro_rate,
+    aircraft.flight,
+    aircraft.squawk,
+    aircraft.emergency,
+  ].join('|')
+}
+
+function isSameAircraftList(a: AdsbAircraft[], b: AdsbAircraft[]) {
+  if (a.length !== b.length) return false
+  const signatures = new Map(
+    a.map((aircraft) => [aircraft.hex, getAircraftSignature(aircraft)]),
+  )
+  return b.every(
+    (aircraft) =>
+      signatures.get(aircraft.hex) === getAircraftSignature(aircraft),
+  )
+}
+
+/**
+ * Server-side fan-out for live aircraft. Each (provider, tile) region has a
+ * single upstream poller shared by every subscriber whose viewport covers it,
+ * paced so a provider sees at most MAX_TILE_POLLS_PER_SECOND tile polls
+ * however many regions are open; subscribers receive only what changed in
+ * their regions. Viewports too
+ * large for tiles share one region per provider that reads the global
+ * snapshot.
+ */
+export function createLiveAircraftHub() {
+  const regions = new Map<string, Region>()
+  const subscribers = new Map<string, Subscriber>()
+
+  const flush = (subscriber: Subscriber) => {
+    subscriber.flushScheduled = false
+    if (!subscribers.has(subscriber.id)) return
+
+    const current = mergeAircraftByHex(
+      Array.from(subscriber.regions, (region) =>
+        region.tile
+          ? region.aircraft
+          : region.aircraft.filter((aircraft) =>
+              isInBounds(aircraft.lat, aircraft.lon, subscriber.bounds),
+            ),
+      ),
+    )
+    const stale = Array.from(subscriber.regions).some((region) => region.stale)
+    const diff: LiveAircraftDiff = {
+      added: [],
+      updated: [],
+      removed: [],
+      stale,
+    }
+    const seen = new Set<string>()
+
+    for (const aircraft of current) {
+      seen.add(aircraft.hex)
+      const signature = getAircraftSignature(aircraft)
+      const previous = subscriber.sent.get(aircraft.hex)
+      if (previous === signature) continue
+      if (previous == null) diff.added.push(aircraft)
+      else diff.updated.push(aircraft)
+      subscriber.sent.set(aircraft.hex, signature)
+    }
+    for (const hex of subscriber.sent.keys()) {
+      if (seen.has(hex)) continue
+      diff.removed.push(hex)
+      subscriber.sent.delete(hex)
+    }
+
+    if (
+      diff.added.length ||
+      diff.updated.length ||
+      diff.removed.length ||
+      stale !== subscriber.sentStale
+    ) {
+      subscriber.sentStale = stale
+      subscriber.onDiff(diff)
+    }
+  }
+
+  // Several regions usually update in the same tick; send one diff for them.
+  const scheduleFlush = (subscriber: Subscriber) => {
+    if (subscriber.flushScheduled) return
+    subscriber.flushScheduled = true
+    setTimeout(() => flush(subscriber), 0)
+  }
+
+  const getPollIntervalMs = (region: Region) => {
+    if (!region.tile) return GLOBAL_REGION_POLL_INTERVAL_MS
+    let tileRegions = 0
+    for (const other of regions.values()) {
+      if (other.provider === region.provider && other.tile) tileRegions++
+    }
+    return Math.max(
+      REGION_POLL_INTERVAL_MS,
+      (tileRegions * 1000) / MAX_TILE_POLLS_PER_SECOND,
+    )
+  }
+
+  const pollRegion = async (region: Region) => {
+    region.timer = null
+    try {
+      const { aircraft, stale } = region.tile
+        ? await fetchLiveAircraftTile(region.provider, region.tile)
+        : {
+            aircraft: (await readGlobalAircraftSnapshot(region.provider.id))
+              .aircraft,
+            stale: false,
+          }
+      if (region.closed) return
+      if (
+        stale !== region.stale ||
+        !isSameAircraftList(region.aircraft, aircraft)
+      ) {
+        region.aircraft = aircraft
+        region.stale = stale
+        region.subscribers.forEach(scheduleFlush)
+      }
+    } catch (error) {
+      console.error(`[live-aircraft] Region ${region.key} poll failed:`, error)
+    }
+    if (!region.closed) {
+      region.timer = setTimeout(
+        () => void pollRegion(region),
+        getPollIntervalMs(region),
+      )
+    }
+  }
+
+  const acquireRegion = (
+    provider: LiveAircraftProvider,
+    tile: GeoTile | null,
+  ) => {
+    const key = `${provider.id}:${tile ? getTileKey(tile) : 'global'}`
+    let region = regions.get(key)
+    if (!region) {
+      region = {
+        key,
+        provider,
+        tile,
+        aircraft: [],
+        stale: false,
+        subscribers: new Set(),
+        timer: null,
+        closed: false,
+      }
+      regions.set(key, region)
+      void pollRegion(region)
+    }
+    return region
+  }
+
+  const releaseRegion = (region: Region, subscriber: Subscriber) => {
+    region.subscribers.delete(subscriber)
+    if (region.subscribers.size > 0) return
+    region.closed = true
+    if (region.timer) clearTimeout(region.timer)
+    regions.delete(region.key)
+  }
+
+  const setSubscriberBounds = (subscriber: Subscriber, bounds: GeoBounds) => {
+    const { provider } = subscriber
+    // Zoomed-out viewers share one region backed by the global snapshot.
+    const tiles = isGlobalViewport(provider, bounds)
+      ? [null]
+      : getViewportTiles(bounds, {
+          maxTiles: MAX_TILES_PER_VIEWPORT,
+          maxRadiusNm: provider.capabilities.maxRadiusNm,
+        })
+    const nextRegions = new Set(
+      tiles.map((tile) => acquireRegion(provider, tile)),
+    )
+    for (const region of subscriber.regions) {
+      if (!nextRegions.has(region)) releaseRegion(region, subscriber)
+    }
+    for (const region of nextRegions) region.subscribers.add(subscriber)
+    subscriber.regions = nextRegions
+    subscriber.bounds = bounds
+    // Regions shared with other viewers already have data to send.
+    scheduleFlush(subscriber)
+  }
+
+  return {
+    /**
+     * Starts streaming diffs for a viewport. Throws if the provider is
+     * unknown or not configured.
+     */
+    subscribe({
+      providerId,
+      bounds,
+      onDiff,
+    }: {
+      providerId?: string | null
+      bounds: GeoBounds
+      onDiff: (diff: LiveAircraftDiff) => void
+    }): LiveAircraftSubscription {
+      const provider = getLiveAircraftProvider(providerId)
+      if (!provider.isConfigured()) {
+        throw new Error(
+          `Live aircraft provider ${provider.id} is not configured`,
+        )
+      }
+
+      const subscriber: Subscriber = {
+        id: crypto.randomUUID(),
+        provider,
+        bounds,
+        regions: new Set(),
+        sent: new Map(),
+        sentStale: false,
+        flushScheduled: false,
+        onDiff,
+      }
+      subscribers.set(subscriber.id, subscriber)
+      setSubscriberBounds(subscriber, bounds)
+
+      return {
+        id: subscriber.id,
+        setBounds: (next) => setSubscriberBounds(subscriber, next),
+        close: () => {
+          if (!subscribers.delete(subscriber.id)) return
+          for (const region of subscriber.regions) {
+            releaseRegion(region, subscriber)
+          }
+          subscriber.regions.clear()
+        },
+      }
+    },
+
+    /** Moves an open subscription to a new viewport. False if it no longer exists. */
+    setBounds(subscriptionId: string, bounds: GeoBounds) {
+      const subscriber = subscribers.get(subscriptionId)
+      if (!subscriber) return false
+      setSubscriberBounds(subscriber, bounds)
+      return true
+    },
+
+    /** Latest full record for an aircraft any viewer is watching, or null. */
+    findAircraft(providerId: string | null | undefined, hex: string) {
+      const provider = getLiveAircraftProvider(providerId)
+      const key = hex.toLowerCase()
+      let found: AdsbAircraft | null = null
+      for (const region of regions.values()) {
+        if (region.provider !== provider) continue
+        for (const aircraft of region.aircraft) {
+          if (aircraft.hex !== key) continue
+          if (!found || aircraft.seen_pos < found.seen_pos) found = aircraft
+        }
+      }
+      return found
+    },
+
+    getStats() {
+      return { regions: regions.size, subscribers: subscribers.size }
+    },
+  }
+}
+
+export type LiveAircraftHub = ReturnType<typeof createLiveAircraftHub>
+
+/** Process-wide hub shared by all stream connections. */
+export const liveAircraftHub = createLiveAircraftHub()
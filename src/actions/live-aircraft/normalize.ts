@@ -0,0 +1,106 @@
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import { haversineNm, isInBounds } from '#/lib/geo'
+import type { LiveAircraftQuery } from './types'
+
+export const FEET_PER_METER = 3.28084
+export const KNOTS_PER_MPS = 1.943844
+export const FPM_PER_MPS = 196.850394
+
+/**
+ * Builds a complete AdsbAircraft from the fields a non-ADS-B Exchange feed knows.
+ * Unknown measurements are NaN (rendered as "N/A"); track defaults to 0 so
+ * markers still have an angle.
+ */
+export function createAdsbAircraft(
+  hex: string,
+  fields: Partial<AdsbAircraft>,
+): AdsbAircraft {
+  return {
+    alert: 0,
+    alt_baro: Number.NaN,
+    alt_geom: Number.NaN,
+    baro_rate: Number.NaN,
+    category: '',
+    emergency: 'none',
+    flight: '',
+    geom_rate: Number.NaN,
+    gs: Number.NaN,
+    gva: Number.NaN,
+    ias: Number.NaN,
+    lat: Number.NaN,
+    lon: Number.NaN,
+    mach: Number.NaN,
+    mag_heading: Number.NaN,
+    messages: 0,
+    mlat: [],
+    nac_p: Number.NaN,
+    nac_v: Number.NaN,
+    nic: Number.NaN,
+    nic_baro: Number.NaN,
+    r: '',
+    rc: Number.NaN,
+    roll: Number.NaN,
+    rssi: Number.NaN,
+    sda: Number.NaN,
+    seen: 0,
+    seen_pos: 0,
+    sil: Number.NaN,
+    sil_type: '',
+    spi: 0,
+    squawk: '',
+    t: '',
+    tas: Number.NaN,
+    tisb: [],
+    track: 0,
+    track_rate: Number.NaN,
+    true_heading: Number.NaN,
+    type: 'unknown',
+    version: Number.NaN,
+    ...fields,
+    hex: hex.toLowerCase(),
+  }
+}
+
+/** True when the aircraft has a usable position. */
+export function hasPosition(aircraft: AdsbAircraft) {
+  return Number.isFinite(aircraft.lat) && Number.isFinite(aircraft.lon)
+}
+
+/** Keeps aircraft inside the query's bounds (when given) or its radius. */
+export function filterAircraftToQuery(
+  aircraft: AdsbAircraft[],
+  { lat, lon, dist, bounds }: LiveAircraftQuery,
+) {
+  return aircraft.filter((item) =>
+    bounds
+      ? isInBounds(item.lat, item.lon, bounds)
+      : haversineNm(lat, lon, item.lat, item.lon) <= dist,
+  )
+}
+
+/** Copies of `aircraft` as they would read `seconds` later (older `seen` / `seen_pos`). */
+export function ageAircraft(aircraft: AdsbAircraft[], seconds: number) {
+  if (seconds <= 0) return aircraft
+  return aircraft.map((item) => ({
+    ...item,
+    seen: item.seen + seconds,
+    seen_pos: item.seen_pos + seconds,
+  }))
+}
+
+/**
+ * Flattens per-request results into one entry per hex. When an aircraft
+ * appears more than once, the report with the freshest position wins.
+ */
+export function mergeAircraftByHex(lists: AdsbAircraft[][]): AdsbAircraft[] {
+  const byHex = new Map<string, AdsbAircraft>()
+  for (const list of lists) {
+    for (const aircraft of list) {
+      const existing = byHex.get(aircraft.hex)
+      if (!existing || aircraft.seen_pos < existing.seen_pos) {
+        byHex.set(aircraft.hex, aircraft)
+      }
+    }
+  }
+  return Array.from(byHex.values())
+}
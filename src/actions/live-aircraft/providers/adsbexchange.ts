@@ -0,0 +1,20 @@
+import {
+  fetchNearbyAircraft,
+  isAdsbExchangeConfigured,
+} from '#/actions/adsbexchange/aircraft'
+import { V2_AIRCRAFT_FIELDS } from '../types'
+import type { LiveAircraftProvider } from '../types'
+
+/** ADS-B Exchange v2 via RapidAPI (the original live source). */
+export const adsbExchangeProvider: LiveAircraftProvider = {
+  id: 'adsbexchange',
+  label: 'ADS-B Exchange',
+  capabilities: {
+    queryModes: ['radius'],
+    maxRadiusNm: 250,
+    fields: V2_AIRCRAFT_FIELDS,
+  },
+  isConfigured: isAdsbExchangeConfigured,
+  fetchAircraft: ({ lat, lon, dist, priority }) =>
+    fetchNearbyAircraft(lat, lon, dist, priority),
+}
@@ -0,0 +1,146 @@
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import {
+  boundsFromRadius,
+  haversineNm,
+  splitBoundsAtAntimeridian,
+} from '#/lib/geo'
+import {
+  FEET_PER_METER,
+  FPM_PER_MPS,
+  KNOTS_PER_MPS,
+  createAdsbAircraft,
+} from '../normalize'
+import type { LiveAircraftProvider } from '../types'
+import { fetchOpenSky, parseStateVector } from '../../../../convex/lib/opensky'
+import type { OpenSkyResponse } from '../../../../convex/lib/opensky'
+import { PositionSource } from '../../../../convex/statesTypes'
+import type { State } from '../../../../convex/statesTypes'
+
+/** OpenSky category numbers (index) → ADS-B emitter category codes. */
+const OPENSKY_CATEGORY_CODES = [
+  '',
+  '',
+  'A1',
+  'A2',
+  'A3',
+  'A4',
+  'A5',
+  'A6',
+  'A7',
+  'B1',
+  'B2',
+  'B3',
+  'B4',
+  'B5',
+  'B6',
+  'B7',
+  'C1',
+  'C2',
+  'C3',
+  'C4',
+  'C5',
+]
+
+function positionSourceToType(source: number) {
+  switch (source) {
+    case PositionSource.ADSB:
+      return 'adsb_icao'
+    case PositionSource.MLAT:
+      return 'mlat'
+    default:
+      return 'other'
+  }
+}
+
+/** Maps an OpenSky state (SI units) into the AdsbAircraft shape (ft, kt, ft/min). */
+export function openSkyStateToAdsbAircraft(
+  state: State,
+  nowSec: number,
+): AdsbAircraft {
+  const altitudeFt = (meters: number | undefined) =>
+    meters == null ? Number.NaN : Math.round(meters * FEET_PER_METER)
+
+  return createAdsbAircraft(state.icao24, {
+    alt_baro: state.onGround ? 0 : altitudeFt(state.baroAltitude),
+    alt_geom: altitudeFt(state.geoAltitude),
+    baro_rate:
+      state.verticalRate == null
+        ? Number.NaN
+        : Math.round(state.verticalRate * FPM_PER_MPS),
+    category: OPENSKY_CATEGORY_CODES[state.category ?? 0] ?? '',
+    flight: state.callsign ?? '',
+    gs: state.velocity == null ? Number.NaN : state.velocity * KNOTS_PER_MPS,
+    lat: state.latitude,
+    lon: state.longitude,
+    seen: Math.max(0, nowSec - state.lastContact),
+    seen_pos: Math.max(0, nowSec - (state.timePosition ?? state.lastContact)),
+    spi: state.spi ? 1 : 0,
+    squawk: state.squawk ?? '',
+    track: state.trueTrack ?? 0,
+    true_heading: state.trueTrack ?? Number.NaN,
+    type: positionSourceToType(state.positionSource),
+  })
+}
+
+/** OpenSky /states/all with a bounding box (OAuth client credentials). */
+export const openSkyProvider: LiveAircraftProvider = {
+  id: 'opensky',
+  label: 'OpenSky Network',
+  capabilities: {
+    queryModes: ['bbox', 'radius'],
+    maxRadiusNm: null,
+    fields: [
+      'alt_baro',
+      'alt_geom',
+      'baro_rate',
+      'category',
+      'flight',
+      'gs',
+      'hex',
+      'lat',
+      'lon',
+      'seen',
+      'seen_pos',
+      'spi',
+      'squawk',
+      'track',
+      'true_heading',
+      'type',
+    ],
+  },
+  isConfigured: () =>
+    !!process.env.OPENSKY_CLIENT_ID && !!process.env.OPENSKY_CLIENT_SECRET,
+  fetchAircraft: async ({ lat, lon, dist, bounds }) => {
+    const queryBounds = bounds ?? boundsFromRadius(lat, lon, dist)
+    const responses = await Promise.all(
+      splitBoundsAtAntimeridian(queryBounds).map((box) =>
+        fetchOpenSky<OpenSkyResponse>('states/all', {
+          lamin: box.south,
+          lomin: box.west,
+          lamax: box.north,
+          lomax: box.east,
+          extended: 1,
+        }),
+      ),
+    )
+
+    const nowSec = Math.floor(Date.now() / 1000)
+    const aircraft: AdsbAircraft[] = []
+    for (const response of responses) {
+      for (const raw of response.states ?? []) {
+        const state = parseStateVector(raw)
+        if (!state) continue
+        // Radius queries get a circle, not the enclosing box.
+        if (
+          !bounds &&
+          haversineNm(lat, lon, state.latitude, state.longitude) > dist
+        ) {
+          continue
+        }
+        aircraft.push(openSkyStateToAdsbAircraft(state, nowSec))
+      }
+    }
+    console.log(`[OpenSky] ${aircraft.length} aircraft`)
+    return aircraft
+  },
+}
@@ -0,0 +1,83 @@
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import { V2_AIRCRAFT_FIELDS } from '../types'
+import type { LiveAircraftProvider } from '../types'
+
+/**
+ * Options for a feed that serves readsb v2 JSON (`{ ac: [...] }`).
+ * `urlTemplate` may contain `{lat}`, `{lon}` and `{dist}` placeholders.
+ */
+type V2FeedOptions = {
+  id: string
+  label: string
+  urlTemplate: string | (() => string | undefined)
+  maxRadiusNm: number | null
+}
+
+function resolveUrlTemplate(template: V2FeedOptions['urlTemplate']) {
+  return typeof template === 'function' ? template() : template
+}
+
+/** Creates a provider for an ADS-B Exchange v2-compatible public feed. */
+export function createV2FeedProvider({
+  id,
+  label,
+  urlTemplate,
+  maxRadiusNm,
+}: V2FeedOptions): LiveAircraftProvider {
+  return {
+    id,
+    label,
+    capabilities: {
+      queryModes: ['radius'],
+      maxRadiusNm,
+      fields: V2_AIRCRAFT_FIELDS,
+    },
+    isConfigured: () => !!resolveUrlTemplate(urlTemplate),
+    fetchAircraft: async ({ lat, lon, dist }) => {
+      const template = resolveUrlTemplate(urlTemplate)
+      if (!template) {
+        throw new Error(`No feed URL configured for provider ${id}`)
+      }
+      const url = template
+        .replace('{lat}', lat.toFixed(4))
+        .replace('{lon}', lon.toFixed(4))
+        .replace('{dist}', String(Math.round(dist)))
+
+      const start = performance.now()
+      const res = await fetch(url, { headers: { Accept: 'application/json' } })
+      if (!res.ok) {
+        throw new Error(
+          `${label} API error: ${res.status}: ${await res.text()}`,
+        )
+      }
+      const body = (await res.json()) as { ac?: AdsbAircraft[] | null }
+      const aircraft = body.ac ?? []
+      console.log(
+        `[${label}] API call completed in ${Math.round(performance.now() - start)}ms | ${aircraft.length} aircraft`,
+      )
+      return aircraft
+    },
+  }
+}
+
+export const adsbLolProvider = createV2FeedProvider({
+  id: 'adsblol',
+  label: 'adsb.lol',
+  urlTemplate: 'https://api.adsb.lol/v2/lat/{lat}/lon/{lon}/dist/{dist}',
+  maxRadiusNm: 250,
+})
+
+export const airplanesLiveProvider = createV2FeedProvider({
+  id: 'airplaneslive',
+  label: 'airplanes.live',
+  urlTemplate: 'https://api.airplanes.live/v2/point/{lat}/{lon}/{dist}',
+  maxRadiusNm: 250,
+})
+
+/** Any other v2-compatible endpoint, configured with LIVE_AIRCRAFT_V2_URL. */
+export const customV2Provider = createV2FeedProvider({
+  id: 'custom-v2',
+  label: 'Custom v2 feed',
+  urlTemplate: () => process.env.LIVE_AIRCRAFT_V2_URL,
+  maxRadiusNm: null,
+})
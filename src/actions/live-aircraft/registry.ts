@@ -0,0 +1,95 @@
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import { getOrSet } from '#/lib/cache'
+import { receiverProvider } from '#/actions/receiver/aircraft-json'
+import { modeSProvider } from '#/actions/receiver/mode-s'
+import { sbsProvider } from '#/actions/receiver/sbs'
+import { adsbExchangeProvider } from './providers/adsbexchange'
+import { openSkyProvider } from './providers/opensky'
+import {
+  adsbLolProvider,
+  airplanesLiveProvider,
+  customV2Provider,
+} from './providers/v2-feed'
+import type {
+  LiveAircraftProvider,
+  LiveAircraftProviderInfo,
+  LiveAircraftQuery,
+} from './types'
+
+export const DEFAULT_LIVE_AIRCRAFT_PROVIDER_ID = adsbExchangeProvider.id
+
+const LIVE_AIRCRAFT_CACHE_TTL_SECONDS = 1
+
+const providers = new Map<string, LiveAircraftProvider>()
+
+/** Adds a provider to the registry. Later registrations replace earlier ones with the same id. */
+export function registerLiveAircraftProvider(provider: LiveAircraftProvider) {
+  providers.set(provider.id, provider)
+}
+
+registerLiveAircraftProvider(adsbExchangeProvider)
+registerLiveAircraftProvider(openSkyProvider)
+registerLiveAircraftProvider(adsbLolProvider)
+registerLiveAircraftProvider(airplanesLiveProvider)
+registerLiveAircraftProvider(customV2Provider)
+registerLiveAircraftProvider(receiverProvider)
+registerLiveAircraftProvider(sbsProvider)
+registerLiveAircraftProvider(modeSProvider)
+
+/** Provider used when the client doesn't pick one (LIVE_AIRCRAFT_PROVIDER, else ADS-B Exchange). */
+export function getDefaultLiveAircraftProviderId() {
+  return (
+    process.env.LIVE_AIRCRAFT_PROVIDER?.trim() ||
+    DEFAULT_LIVE_AIRCRAFT_PROVIDER_ID
+  )
+}
+
+export function getLiveAircraftProvider(
+  id?: string | null,
+): LiveAircraftProvider {
+  const resolvedId = id ?? getDefaultLiveAircraftProviderId()
+  const provider = providers.get(resolvedId)
+  if (!provider) {
+    throw new Error(`Unknown live aircraft provider: ${resolvedId}`)
+  }
+  return provider
+}
+
+export function listLiveAircraftProviders(): LiveAircraftProviderInfo[] {
+  return Array.from(providers.values(), (provider) => ({
+    id: provider.id,
+    label: provider.label,
+    capabilities: provider.capabilities,
+    configured: provider.isConfigured(),
+  }))
+}
+
+/**
+ * Fetches live aircraft from a provider, clamping the radius to what it
+ * supports and dropping the bounds for radius-only upstreams.
+ */
+export async function fetchLiveAircraft(
+  providerId: string | null | undefined,
+  query: LiveAircraftQuery,
+): Promise<AdsbAircraft[]> {
+  const provider = getLiveAircraftProvider(providerId)
+  if (!provider.isConfigured()) {
+    throw new Error(`Live aircraft provider ${provider.id} is not configured`)
+  }
+
+  const { maxRadiusNm, queryModes } = provider.capabilities
+  const dist =
+    maxRadiusNm == null ? query.dist : Math.min(query.dist, maxRadiusNm)
+  const bounds = queryModes.includes('bbox') ? query.bounds : undefined
+  const boundsKey = bounds
+    ? `:${bounds.south}:${bounds.west}:${bounds.north}:${bounds.east}`
+    : ''
+  const cacheKey = `${provider.id}:nearby:${query.lat}:${query.lon}:${dist}${boundsKey}`
+
+  return getOrSet<AdsbAircraft[]>(
+    cacheKey,
+    () =>
+      provider.fetchAircraft({ lat: query.lat, lon: query.lon, dist, bounds }),
+    LIVE_AIRCRAFT_CACHE_TTL_SECONDS,
+  )
+}
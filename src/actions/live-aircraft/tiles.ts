@@ -0,0 +1,160 @@
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import { getOrSetWithFallback } from '#/lib/cache'
+import { isInBounds } from '#/lib/geo'
+import type { GeoBounds } from '#/lib/geo'
+import {
+  getTileBounds,
+  getTileCenter,
+  getTileKey,
+  getTileRadiusNm,
+  getViewportTileLevel,
+  getViewportTiles,
+} from '#/lib/geo-tiles'
+import type { GeoTile } from '#/lib/geo-tiles'
+import { readGlobalAircraftSnapshot } from './global-snapshot'
+import { isRapidApiBudgetError } from '#/lib/rapidapi-budget'
+import {
+  ageAircraft,
+  filterAircraftToQuery,
+  mergeAircraftByHex,
+} from './normalize'
+import { getLiveAircraftProvider } from './registry'
+import type { LiveAircraftProvider } from './types'
+
+/*
+ * Upstream call budget: a viewport costs at most MAX_TILES_PER_VIEWPORT
+ * requests per TILE_CACHE_TTL_SECONDS, i.e. 16 / 5s = 3.2 requests/second
+ * while it keeps refreshing, however often the map polls. Viewers whose
+ * tiles overlap share the cached copies, so each extra viewer only costs the
+ * tiles nobody else is looking at. Larger viewports read the global snapshot
+ * and cost nothing upstream.
+ */
+
+/** Several map refreshes reuse one fetch; bounds a viewport's upstream rate. */
+const TILE_CACHE_TTL_SECONDS = 5
+/** Last good copy of a tile, served (aged) while the upstream budget is spent. */
+const TILE_FALLBACK_TTL_SECONDS = 300
+/** Upstream requests in flight at once for one viewport. */
+const TILE_FETCH_CONCURRENCY = 4
+export const MAX_TILES_PER_VIEWPORT = 16
+
+/**
+ * True when a viewport is too large to fetch as tiles within
+ * `MAX_TILES_PER_VIEWPORT`; such views read the global snapshot instead.
+ */
+export function isGlobalViewport(
+  provider: LiveAircraftProvider,
+  viewport: GeoBounds,
+) {
+  const { maxRadiusNm } = provider.capabilities
+  if (maxRadiusNm == null) return false
+  return (
+    getViewportTileLevel(viewport, { maxRadiusNm }).length >
+    MAX_TILES_PER_VIEWPORT
+  )
+}
+
+/** One tile's aircraft as served from cache, `stale` when it is a fallback copy. */
+export type LiveAircraftTileResult = {
+  aircraft: AdsbAircraft[]
+  stale: boolean
+}
+
+/**
+ * One tile's aircraft, cached per provider and tile. When the upstream's
+ * API budget is spent, the last good copy is returned instead, aged to its
+ * real age and flagged stale.
+ */
+export async function fetchLiveAircraftTile(
+  provider: LiveAircraftProvider,
+  tile: GeoTile,
+): Promise<LiveAircraftTileResult> {
+  const bounds = getTileBounds(tile)
+  const { lat, lon } = getTileCenter(tile)
+  const { maxRadiusNm, queryModes } = provider.capabilities
+  const radius = getTileRadiusNm(tile)
+  const query = {
+    lat,
+    lon,
+    dist: maxRadiusNm == null ? radius : Math.min(radius, maxRadiusNm),
+    bounds: queryModes.includes('bbox') ? bounds : undefined,
+  }
+
+  const result = await getOrSetWithFallback<AdsbAircraft[]>(
+    `${provider.id}:tile:${getTileKey(tile)}`,
+    async () => {
+      const aircraft = await provider.fetchAircraft(query)
+      // Radius queries overlap neighbouring tiles; keep only this tile's share.
+      return filterAircraftToQuery(aircraft, { ...query, bounds })
+    },
+    {
+      ttlSeconds: TILE_CACHE_TTL_SECONDS,
+      fallbackTtlSeconds: TILE_FALLBACK_TTL_SECONDS,
+      canFallback: isRapidApiBudgetError,
+    },
+  )
+  return {
+    aircraft: result.stale
+      ? ageAircraft(result.value, (Date.now() - result.updatedAt) / 1000)
+      : result.value,
+    stale: result.stale,
+  }
+}
+
+/**
+ * Fetches a viewport as a set of grid tiles, each cached on its own, and
+ * merges them (one entry per hex, freshest position wins). Failed tiles are
+ * skipped; the call only fails when every tile does. Viewports too large for
+ * tiles are cut from the global snapshot without any upstream call.
+ */
+export async function fetchLiveAircraftTiles(
+  providerId: string | null | undefined,
+  viewport: GeoBounds,
+): Promise<AdsbAircraft[]> {
+  const provider = getLiveAircraftProvider(providerId)
+  if (!provider.isConfigured()) {
+    throw new Error(`Live aircraft provider ${provider.id} is not configured`)
+  }
+
+  if (isGlobalViewport(provider, viewport)) {
+    const snapshot = await readGlobalAircraftSnapshot(provider.id)
+    return snapshot.aircraft.filter((aircraft) =>
+      isInBounds(aircraft.lat, aircraft.lon, viewport),
+    )
+  }
+
+  const tiles = getViewportTiles(viewport, {
+    maxTiles: MAX_TILES_PER_VIEWPORT,
+    maxRadiusNm: provider.capabilities.maxRadiusNm,
+  })
+
+  const results: AdsbAircraft[][] = []
+  const errors: unknown[] = []
+  let next = 0
+  const worker = async () => {
+    while (next < tiles.length) {
+      const tile = tiles[next++]
+      try {
+        results.push((await fetchLiveAircraftTile(provider, tile)).aircraft)
+      } catch (error) {
+        errors.push(error)
+      }
+    }
+  }
+  await Promise.all(
+    Array.from(
+      { length: Math.min(TILE_FETCH_CONCURRENCY, tiles.length) },
+      worker,
+    ),
+  )
+
+  if (results.length === 0 && errors.length > 0) throw errors[0]
+  if (errors.length > 0) {
+    console.error(
+      `[live-aircraft] ${errors.length}/${tiles.length} tiles failed for ${provider.id}:`,
+      errors[0],
+    )
+  }
+
+  return mergeAircraftByHex(results)
+}
@@ -0,0 +1,98 @@
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import type { GeoBounds } from '#/lib/geo'
+import type { RapidApiPriority } from '#/lib/rapidapi-budget'
+
+/** How a provider's upstream API selects aircraft. */
+export type LiveAircraftQueryMode = 'radius' | 'bbox'
+
+/**
+ * A live-aircraft request. `dist` is a radius in nautical miles around
+ * lat/lon; `bounds` is the exact box it was derived from, when known.
+ * `priority` is the budget class for metered upstreams (default viewport).
+ */
+export type LiveAircraftQuery = {
+  lat: number
+  lon: number
+  dist: number
+  bounds?: GeoBounds
+  priority?: RapidApiPriority
+}
+
+export type LiveAircraftProviderCapabilities = {
+  /** Query shapes the upstream accepts natively. */
+  queryModes: LiveAircraftQueryMode[]
+  /** Largest radius (nm) the upstream accepts, or null if unbounded. */
+  maxRadiusNm: number | null
+  /** AdsbAircraft fields the provider actually populates. */
+  fields: Array<keyof AdsbAircraft>
+}
+
+export type LiveAircraftProvider = {
+  id: string
+  label: string
+  capabilities: LiveAircraftProviderCapabilities
+  /** Whether the env vars / endpoints this provider needs are present. */
+  isConfigured: () => boolean
+  fetchAircraft: (query: LiveAircraftQuery) => Promise<AdsbAircraft[]>
+}
+
+/** Serializable provider description sent to the client. */
+export type LiveAircraftProviderInfo = Pick<
+  LiveAircraftProvider,
+  'id' | 'label' | 'capabilities'
+> & {
+  configured: boolean
+}
+
+/** Every field of the readsb-derived v2 JSON (ADS-B Exchange and compatible feeds). */
+export const V2_AIRCRAFT_FIELDS: Array<keyof AdsbAircraft> = [
+  'alert',
+  'alt_baro',
+  'alt_geom',
+  'baro_rate',
+  'category',
+  'emergency',
+  'flight',
+  'geom_rate',
+  'gs',
+  'gva',
+  'hex',
+  'ias',
+  'lat',
+  'lon',
+  'mach',
+  'mag_heading',
+  'messages',
+  'mlat',
+  'nac_p',
+  'nac_v',
+  'nav_altitude_fms',
+  'nav_altitude_mcp',
+  'nav_heading',
+  'nav_qnh',
+  'nic',
+  'nic_baro',
+  'oat',
+  'r',
+  'rc',
+  'roll',
+  'rssi',
+  'sda',
+  'seen',
+  'seen_pos',
+  'sil',
+  'sil_type',
+  'spi',
+  'squawk',
+  't',
+  'tas',
+  'tat',
+  'tisb',
+  'track',
+  'track_rate',
+  'true_heading',
+  'type',
+  'version',
+  'wd',
+  'ws',
+]
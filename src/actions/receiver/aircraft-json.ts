@@ -0,0 +1,113 @@
+/** Local ADS-B receiver source: readsb / dump1090-fa / tar1090 `aircraft.json`. */
+
+import { readFile } from 'node:fs/promises'
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import {
+  createAdsbAircraft,
+  filterAircraftToQuery,
+  hasPosition,
+} from '../live-aircraft/normalize'
+import { V2_AIRCRAFT_FIELDS } from '../live-aircraft/types'
+import type { LiveAircraftProvider } from '../live-aircraft/types'
+
+/**
+ * One entry of `aircraft.json`. readsb emits the same field names as the
+ * ADS-B Exchange v2 API; older dump1090 builds use `altitude`, `speed` and
+ * `vert_rate` instead, and `alt_baro` is the string "ground" on the surface.
+ */
+type ReceiverAircraftJsonEntry = Partial<
+  Omit<AdsbAircraft, 'alt_baro' | 'hex'>
+> & {
+  hex: string
+  alt_baro?: number | 'ground'
+  altitude?: number | 'ground'
+  speed?: number
+  vert_rate?: number
+}
+
+type ReceiverAircraftJson = {
+  /** Receiver clock (Unix seconds) when the file was written. */
+  now?: number
+  messages?: number
+  aircraft?: ReceiverAircraftJsonEntry[]
+}
+
+/** Entries older than this are dropped (readsb keeps them around for a while). */
+const RECEIVER_MAX_SEEN_POS_SECONDS = 60
+
+function getReceiverSource() {
+  return process.env.RECEIVER_AIRCRAFT_JSON?.trim() || null
+}
+
+export function isReceiverConfigured() {
+  return getReceiverSource() != null
+}
+
+function toAltitude(value: number | 'ground' | undefined) {
+  if (value === 'ground') return 0
+  return value ?? Number.NaN
+}
+
+/** Converts one receiver entry into AdsbAircraft, or null without a position. */
+export function normalizeReceiverAircraft(
+  entry: ReceiverAircraftJsonEntry,
+): AdsbAircraft | null {
+  const { alt_baro, altitude, speed, vert_rate, ...fields } = entry
+  const aircraft = createAdsbAircraft(entry.hex, {
+    ...fields,
+    alt_baro: toAltitude(alt_baro ?? altitude),
+    baro_rate: fields.baro_rate ?? vert_rate ?? Number.NaN,
+    gs: fields.gs ?? speed ?? Number.NaN,
+    type: fields.type ?? 'adsb_icao',
+  })
+  if (!hasPosition(aircraft)) return null
+  if (aircraft.seen_pos > RECEIVER_MAX_SEEN_POS_SECONDS) return null
+  return aircraft
+}
+
+/** Reads aircraft.json from an http(s) URL or a local file path. */
+async function readReceiverAircraftJson(
+  source: string,
+): Promise<ReceiverAircraftJson> {
+  if (/^https?:\/\//i.test(source)) {
+    const res = await fetch(source, { headers: { Accept: 'application/json' } })
+    if (!res.ok) {
+      throw new Error(`Receiver aircraft.json error: ${res.status}: ${source}`)
+    }
+    return (await res.json()) as ReceiverAircraftJson
+  }
+  const raw = await readFile(source, 'utf-8')
+  return JSON.parse(raw) as ReceiverAircraftJson
+}
+
+/** Polls the configured receiver and returns every aircraft with a position. */
+export async function fetchReceiverAircraft(): Promise<AdsbAircraft[]> {
+  const source = getReceiverSource()
+  if (!source) {
+    throw new Error('Missing RECEIVER_AIRCRAFT_JSON environment variable')
+  }
+  const start = performance.now()
+  const body = await readReceiverAircraftJson(source)
+  const aircraft = (body.aircraft ?? []).flatMap((entry) => {
+    const normalized = normalizeReceiverAircraft(entry)
+    return normalized ? [normalized] : []
+  })
+  console.log(
+    `[Receiver] aircraft.json read in ${Math.round(performance.now() - start)}ms | ${aircraft.length} aircraft`,
+  )
+  return aircraft
+}
+
+/** A local receiver returns everything it hears; the query only filters. */
+export const receiverProvider: LiveAircraftProvider = {
+  id: 'receiver',
+  label: 'Local receiver',
+  capabilities: {
+    queryModes: ['bbox', 'radius'],
+    maxRadiusNm: null,
+    fields: V2_AIRCRAFT_FIELDS,
+  },
+  isConfigured: isReceiverConfigured,
+  fetchAircraft: async (query) =>
+    filterAircraftToQuery(await fetchReceiverAircraft(), query),
+}
@@ -0,0 +1,94 @@
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import { createAdsbAircraft, hasPosition } from '../live-aircraft/normalize'
+
+/** Aircraft not heard from for this long are removed from the table. */
+const DEFAULT_EXPIRE_AFTER_MS = 60_000
+/** Positions older than this are not included in snapshots. */
+const DEFAULT_POSITION_MAX_AGE_MS = 60_000
+
+type AircraftTableEntry = {
+  aircraft: AdsbAircraft
+  lastSeenMs: number
+  lastPositionMs: number | null
+}
+
+export type AircraftTable = {
+  /** Merges decoded fields for one ICAO address. lat/lon refresh the position age. */
+  update: (hex: string, fields: Partial<AdsbAircraft>, nowMs: number) => void
+  /** Drops aircraft not heard from within the expiry window. */
+  expire: (nowMs: number) => void
+  /** Aircraft with a recent position, with `seen` / `seen_pos` relative to `nowMs`. */
+  snapshot: (nowMs: number) => AdsbAircraft[]
+  get: (hex: string) => AdsbAircraft | null
+  size: () => number
+  clear: () => void
+}
+
+/**
+ * In-memory per-ICAO aircraft table for feeds that deliver partial updates
+ * (SBS-1 messages, decoded Mode-S frames) instead of full aircraft records.
+ */
+export function createAircraftTable({
+  expireAfterMs = DEFAULT_EXPIRE_AFTER_MS,
+  positionMaxAgeMs = DEFAULT_POSITION_MAX_AGE_MS,
+}: {
+  expireAfterMs?: number
+  positionMaxAgeMs?: number
+} = {}): AircraftTable {
+  const entries = new Map<string, AircraftTableEntry>()
+
+  return {
+    update(hex, fields, nowMs) {
+      const key = hex.toLowerCase()
+      let entry = entries.get(key)
+      if (!entry) {
+        entry = {
+          aircraft: createAdsbAircraft(key, { type: 'mode_s' }),
+          lastSeenMs: nowMs,
+          lastPositionMs: null,
+        }
+        entries.set(key, entry)
+      }
+
+      Object.assign(entry.aircraft, fields)
+      entry.aircraft.messages += 1
+      entry.lastSeenMs = nowMs
+      if (fields.lat != null && fields.lon != null) {
+        entry.lastPositionMs = nowMs
+      }
+    },
+
+    expire(nowMs) {
+      for (const [key, entry] of entries) {
+        if (nowMs - entry.lastSeenMs > expireAfterMs) entries.delete(key)
+      }
+    },
+
+    snapshot(nowMs) {
+      const aircraft: AdsbAircraft[] = []
+      for (const entry of entries.values()) {
+        if (entry.lastPositionMs == null) continue
+        if (nowMs - entry.lastPositionMs > positionMaxAgeMs) continue
+        if (!hasPosition(entry.aircraft)) continue
+        aircraft.push({
+          ...entry.aircraft,
+          seen: (nowMs - entry.lastSeenMs) / 1000,
+          seen_pos: (nowMs - entry.lastPositionMs) / 1000,
+        })
+      }
+      return aircraft
+    },
+
+    get(hex) {
+      return entries.get(hex.toLowerCase())?.aircraft ?? null
+    },
+
+    size() {
+      return entries.size
+    },
+
+    clear() {
+      entries.clear()
+    },
+  }
+}
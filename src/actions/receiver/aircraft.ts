@@ -0,0 +1,30 @@
+import { createServerFn } from '@tanstack/react-start'
+import z from 'zod'
+import { filterAircraftToQuery } from '../live-aircraft/normalize'
+import { getModeSFeed } from './mode-s'
+import { getSbsFeed } from './sbs'
+
+const nearbyInputSchema = z.object({
+  lat: z.number(),
+  lon: z.number(),
+  dist: z.number(),
+})
+
+/**
+ * Aircraft near lat/lon from the SBS-1 BaseStation feed.
+ * Same input contract as getNearbyAircraftAction.
+ */
+export const getSbsAircraftAction = createServerFn()
+  .inputValidator(nearbyInputSchema)
+  .handler(async ({ data }) => {
+    const aircraft = getSbsFeed().table.snapshot(Date.now())
+    return filterAircraftToQuery(aircraft, data)
+  })
+
+/** Aircraft near lat/lon decoded from the raw Mode-S (AVR / Beast) feed. */
+export const getModeSAircraftAction = createServerFn()
+  .inputValidator(nearbyInputSchema)
+  .handler(async ({ data }) => {
+    const aircraft = getModeSFeed().table.snapshot(Date.now())
+    return filterAircraftToQuery(aircraft, data)
+  })
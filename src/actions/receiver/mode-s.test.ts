@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { modeSChecksum } from '#/lib/mode-s/crc'
+import { hexToBytes } from '#/lib/mode-s/frames'
+import { createAircraftTable } from './aircraft-table'
+import { createModeSTracker } from './mode-s'
+
+const EVEN = '8D40621D58C382D690C8AC2863A7'
+const ODD = '8D40621D58C386435CC412692AD6'
+
+function frame(hex: string) {
+  const bytes = hexToBytes(hex)
+  if (!bytes) throw new Error(`Bad hex ${hex}`)
+  return bytes
+}
+
+/** A copy of an airborne position frame with another CPR latitude, re-signed. */
+function withCprLat(hex: string, lat: number) {
+  const bytes = frame(hex)
+  for (let i = 0; i < 17; i++) {
+    const bit = 54 + i
+    const mask = 1 << (7 - (bit & 7))
+    if ((lat >> (16 - i)) & 1) bytes[bit >> 3] |= mask
+    else bytes[bit >> 3] &= ~mask
+  }
+  const parity = modeSChecksum(bytes)
+  bytes.set([parity >> 16, (parity >> 8) & 0xff, parity & 0xff], 11)
+  return bytes
+}
+
+function setup() {
+  const table = createAircraftTable()
+  const tracker = createModeSTracker(table)
+  const position = () => {
+    const aircraft = table.get('40621d')
+    return aircraft && { lat: aircraft.lat, lon: aircraft.lon }
+  }
+  return { table, tracker, position }
+}
+
+describe('createModeSTracker', () => {
+  it('takes the first fix from an even/odd pair', () => {
+    const { tracker, position } = setup()
+    expect(tracker.handleFrame(frame(ODD), 0)).toBe(true)
+    expect(position()?.lat).toBeNaN()
+    tracker.handleFrame(frame(EVEN), 1000)
+    expect(position()?.lat).toBeCloseTo(52.2572, 4)
+    expect(position()?.lon).toBeCloseTo(3.91937, 4)
+  })
+
+  it('does not pair frames too far apart', () => {
+    const { tracker, position } = setup()
+    tracker.handleFrame(frame(ODD), 0)
+    tracker.handleFrame(frame(EVEN), 20_000)
+    expect(position()?.lat).toBeNaN()
+  })
+
+  it('rejects a global fix the aircraft could not have reached', () => {
+    const { tracker, position } = setup()
+    tracker.handleFrame(frame(ODD), 0)
+    tracker.handleFrame(frame(EVEN), 1000)
+
+    // The last fix is too old for local decoding, so the next pair is
+    // decoded globally; a corrupt odd frame puts it near the equator.
+    tracker.handleFrame(frame(EVEN), 40_000)
+    expect(tracker.handleFrame(withCprLat(ODD, 94158), 41_000)).toBe(true)
+    expect(position()?.lat).toBeCloseTo(52.2572, 4)
+
+    // A consistent pair afterwards is accepted.
+    tracker.handleFrame(frame(EVEN), 42_000)
+    tracker.handleFrame(frame(ODD), 43_000)
+    expect(position()?.lat).toBeCloseTo(52.26578, 4)
+  })
+})
@@ -0,0 +1,273 @@
+/** Raw Mode-S feed (AVR or Beast, e.g. dump1090 ports 30002/30005): decoding, aggregation and provider. */
+
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import {
+  decodeCprGlobal,
+  decodeCprLocal,
+  isPlausibleCprMove,
+} from '#/lib/mode-s/cpr'
+import type { CprFrame, CprPosition } from '#/lib/mode-s/cpr'
+import { decodeModeSFrame } from '#/lib/mode-s/decode'
+import type { ModeSMessage } from '#/lib/mode-s/decode'
+import { createBeastDecoder, parseAvrLine } from '#/lib/mode-s/frames'
+import type { ModeSFrameFormat } from '#/lib/mode-s/frames'
+import { filterAircraftToQuery } from '../live-aircraft/normalize'
+import type { LiveAircraftProvider } from '../live-aircraft/types'
+import { createAircraftTable } from './aircraft-table'
+import type { AircraftTable } from './aircraft-table'
+import { createLineSplitter, createTcpFeed } from './tcp-feed'
+
+const DEFAULT_PORTS: Record<ModeSFrameFormat, number> = {
+  avr: 30002,
+  beast: 30005,
+}
+const EXPIRE_INTERVAL_MS = 10_000
+/** Even/odd CPR frames further apart than this are not paired. */
+const CPR_PAIR_MAX_AGE_MS = 10_000
+/** Local CPR decoding only trusts a reference position this recent. */
+const CPR_REFERENCE_MAX_AGE_MS = 30_000
+
+type CprState = {
+  even: { frame: CprFrame; timeMs: number } | null
+  odd: { frame: CprFrame; timeMs: number } | null
+  last: { position: CprPosition; timeMs: number } | null
+}
+
+/** The AdsbAircraft fields a decoded message carries (position excluded). */
+export function modeSMessageToFields(
+  message: ModeSMessage,
+): Partial<AdsbAircraft> {
+  const fields: Partial<AdsbAircraft> = {}
+  // Only extended squitter says what kind of transmitter this is.
+  if (message.df === 17 || message.df === 18) fields.type = message.sourceType
+
+  if (message.callsign) fields.flight = message.callsign
+  if (message.category) fields.category = message.category
+  if (message.altitude != null) fields.alt_baro = message.altitude
+  else if (message.onGround) fields.alt_baro = 0
+  if (message.geometricAltitude != null) {
+    fields.alt_geom = message.geometricAltitude
+  }
+  if (message.groundSpeed != null) fields.gs = message.groundSpeed
+  if (message.track != null) fields.track = message.track
+  if (message.baroRate != null) fields.baro_rate = message.baroRate
+  if (message.geomRate != null) fields.geom_rate = message.geomRate
+  if (message.ias != null) fields.ias = message.ias
+  if (message.tas != null) fields.tas = message.tas
+  if (message.heading != null) fields.mag_heading = message.heading
+  if (message.squawk) fields.squawk = message.squawk
+  if (message.emergency) fields.emergency = message.emergency
+  if (message.alert != null) fields.alert = message.alert ? 1 : 0
+  if (message.spi != null) fields.spi = message.spi ? 1 : 0
+  return fields
+}
+
+export type ModeSTracker = {
+  /** Decodes one raw frame and merges it into the table. Returns false if it was rejected. */
+  handleFrame: (frame: Uint8Array, nowMs: number) => boolean
+  /** Drops CPR state for aircraft the table has expired. */
+  prune: () => void
+}
+
+/**
+ * Turns decoded frames into aircraft table updates. Keeps per-aircraft CPR
+ * state to resolve positions: an even/odd pair for the first fix, then local
+ * decoding against the previous fix. A pair decoded after the previous fix
+ * went stale must still be reachable from it, or it is dropped.
+ */
+export function createModeSTracker(table: AircraftTable): ModeSTracker {
+  const cprStates = new Map<string, CprState>()
+
+  const resolvePosition = (
+    icao: string,
+    frame: CprFrame,
+    nowMs: number,
+  ): CprPosition | null => {
+    let state = cprStates.get(icao)
+    if (!state) {
+      state = { even: null, odd: null, last: null }
+      cprStates.set(icao, state)
+    }
+
+    if (frame.odd) state.odd = { frame, timeMs: nowMs }
+    else state.even = { frame, timeMs: nowMs }
+
+    let position: CprPosition | null = null
+    if (state.last && nowMs - state.last.timeMs <= CPR_REFERENCE_MAX_AGE_MS) {
+      position = decodeCprLocal(frame, state.last.position)
+    } else if (
+      state.even &&
+      state.odd &&
+      Math.abs(state.even.timeMs - state.odd.timeMs) <= CPR_PAIR_MAX_AGE_MS
+    ) {
+      position = decodeCprGlobal(state.even.frame, state.odd.frame, frame.odd)
+      const { last } = state
+      if (
+        position &&
+        last &&
+        !isPlausibleCprMove(last.position, position, nowMs - last.timeMs)
+      ) {
+        // Too far from the last fix to be real: wait for a fresh pair.
+        state.even = null
+        state.odd = null
+        position = null
+      }
+    }
+
+    if (position) state.last = { position, timeMs: nowMs }
+    return position
+  }
+
+  return {
+    handleFrame(frame, nowMs) {
+      const message = decodeModeSFrame(frame)
+      if (!message) return false
+      // Address/parity replies carry no checkable address: a corrupted frame
+      // would invent an aircraft, so only accept them for known aircraft.
+      if (!message.addressVerified && !table.get(message.icao)) return false
+
+      const fields = modeSMessageToFields(message)
+      if (message.cpr) {
+        const position = resolvePosition(message.icao, message.cpr, nowMs)
+        if (position) {
+          fields.lat = position.lat
+          fields.lon = position.lon
+        }
+      }
+
+      table.update(message.icao, fields, nowMs)
+      return true
+    },
+
+    prune() {
+      for (const icao of cprStates.keys()) {
+        if (!table.get(icao)) cprStates.delete(icao)
+      }
+    },
+  }
+}
+
+export type ModeSFeed = {
+  table: AircraftTable
+  start: () => void
+  stop: () => void
+  isConnected: () => boolean
+}
+
+/** Connects to an AVR or Beast port and aggregates decoded frames into an aircraft table. */
+export function createModeSFeed({
+  host,
+  port,
+  format,
+  table = createAircraftTable(),
+}: {
+  host: string
+  port: number
+  format: ModeSFrameFormat
+  table?: AircraftTable
+}): ModeSFeed {
+  const tracker = createModeSTracker(table)
+  const handleFrame = (frame: Uint8Array) => {
+    tracker.handleFrame(frame, Date.now())
+  }
+  let expireTimer: ReturnType<typeof setInterval> | null = null
+
+  const avrLines = createLineSplitter((line) => {
+    const frame = parseAvrLine(line)
+    if (frame) handleFrame(frame)
+  })
+  const tcpFeed = createTcpFeed({
+    host,
+    port,
+    label: `Mode-S ${format}`,
+    onData:
+      format === 'beast' ? createBeastDecoder(handleFrame) : avrLines.push,
+    onDisconnect: avrLines.reset,
+  })
+
+  return {
+    table,
+    start() {
+      tcpFeed.start()
+      expireTimer ??= setInterval(() => {
+        table.expire(Date.now())
+        tracker.prune()
+      }, EXPIRE_INTERVAL_MS)
+    },
+    stop() {
+      tcpFeed.stop()
+      if (expireTimer) {
+        clearInterval(expireTimer)
+        expireTimer = null
+      }
+    },
+    isConnected: tcpFeed.isConnected,
+  }
+}
+
+let sharedFeed: ModeSFeed | null = null
+
+function getModeSEndpoint() {
+  const host = process.env.MODES_HOST?.trim()
+  if (!host) return null
+  const format: ModeSFrameFormat =
+    process.env.MODES_FORMAT?.trim().toLowerCase() === 'avr' ? 'avr' : 'beast'
+  const port = Number(process.env.MODES_PORT ?? DEFAULT_PORTS[format])
+  return {
+    host,
+    format,
+    port: Number.isFinite(port) ? port : DEFAULT_PORTS[format],
+  }
+}
+
+export function isModeSConfigured() {
+  return getModeSEndpoint() != null
+}
+
+/** Process-wide Mode-S feed, connected lazily on first use. */
+export function getModeSFeed(): ModeSFeed {
+  if (sharedFeed) return sharedFeed
+  const endpoint = getModeSEndpoint()
+  if (!endpoint) {
+    throw new Error('Missing MODES_HOST environment variable')
+  }
+  sharedFeed = createModeSFeed(endpoint)
+  sharedFeed.start()
+  return sharedFeed
+}
+
+export const modeSProvider: LiveAircraftProvider = {
+  id: 'mode-s',
+  label: 'Mode-S decoder',
+  capabilities: {
+    queryModes: ['bbox', 'radius'],
+    maxRadiusNm: null,
+    fields: [
+      'alert',
+      'alt_baro',
+      'alt_geom',
+      'baro_rate',
+      'category',
+      'emergency',
+      'flight',
+      'geom_rate',
+      'gs',
+      'hex',
+      'ias',
+      'lat',
+      'lon',
+      'mag_heading',
+      'messages',
+      'seen',
+      'seen_pos',
+      'spi',
+      'squawk',
+      'tas',
+      'track',
+      'type',
+    ],
+  },
+  isConfigured: isModeSConfigured,
+  fetchAircraft: async (query) =>
+    filterAircraftToQuery(getModeSFeed().table.snapshot(Date.now()), query),
+}
@@ -0,0 +1,96 @@
+import { createServer } from 'node:net'
+import type { Server } from 'node:net'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createSbsFeed, parseSbsMessage, sbsMessageToFields } from './sbs'
+import type { SbsFeed } from './sbs'
+
+const CAPTURE = `MSG,1,1,1,4840D6,1,2026/01/01,12:00:00.000,2026/01/01,12:00:00.000,KLM1023,,,,,,,,,,,0
+MSG,3,1,1,4840D6,1,2026/01/01,12:00:00.100,2026/01/01,12:00:00.100,,38000,,,52.25720,3.91937,,,0,0,0,0
+MSG,4,1,1,4840D6,1,2026/01/01,12:00:00.200,2026/01/01,12:00:00.200,,,159,182.9,,,-832,,,,,0
+MSG,6,1,1,A3BB04,1,2026/01/01,12:00:00.700,2026/01/01,12:00:00.700,,,,,,,,7700,0,-1,0,0
+MSG,3,1,1,A3BB04,1,2026/01/01,12:00:00.500,2026/01/01,12:00:00.500,,12025,,,37.61902,-122.37498,,,0,0,0,0
+STA,,1,1,4840D6,1,2026/01/01,12:00:01.000,2026/01/01,12:00:01.000,RM
+`
+
+describe('parseSbsMessage', () => {
+  it('reads an airborne position message', () => {
+    expect(parseSbsMessage(CAPTURE.split('\n')[1])).toMatchObject({
+      transmissionType: 3,
+      hex: '4840d6',
+      altitude: 38000,
+      lat: 52.2572,
+      lon: 3.91937,
+      alert: false,
+      isOnGround: false,
+    })
+  })
+
+  it('rejects non-MSG records and bad addresses', () => {
+    expect(parseSbsMessage(CAPTURE.split('\n')[5])).toBeNull()
+    expect(
+      parseSbsMessage('MSG,3,1,1,48D6,1,2026/01/01,,2026/01/01,,,38000'),
+    ).toBeNull()
+    expect(
+      parseSbsMessage('MSG,9,1,1,4840D6,1,2026/01/01,,2026/01/01,,,38000'),
+    ).toBeNull()
+  })
+
+  it('maps the emergency flag to the squawk', () => {
+    const message = parseSbsMessage(CAPTURE.split('\n')[3])
+    expect(message && sbsMessageToFields(message)).toEqual({
+      squawk: '7700',
+      alert: 0,
+      spi: 0,
+      emergency: 'general',
+    })
+  })
+})
+
+describe('createSbsFeed', () => {
+  let server: Server | null = null
+  let feed: SbsFeed | null = null
+
+  afterEach(async () => {
+    feed?.stop()
+    feed = null
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null))
+    server = null
+  })
+
+  it('aggregates a capture streamed over TCP in arbitrary chunks', async () => {
+    server = createServer((socket) => {
+      // Chunk boundaries that fall mid-line, as a real socket delivers them.
+      for (let start = 0; start < CAPTURE.length; start += 37) {
+        socket.write(CAPTURE.slice(start, start + 37))
+      }
+    })
+    await new Promise<void>((resolve) =>
+      server?.listen(0, '127.0.0.1', resolve),
+    )
+    const address = server.address()
+    if (!address || typeof address === 'string') {
+      throw new Error('Server has no port')
+    }
+
+    feed = createSbsFeed({ host: '127.0.0.1', port: address.port })
+    feed.start()
+
+    const { table } = feed
+    await vi.waitFor(() => expect(table.get('a3bb04')?.lat).toBeDefined())
+    expect(table.get('4840d6')).toMatchObject({
+      flight: 'KLM1023',
+      alt_baro: 38000,
+      gs: 159,
+      track: 182.9,
+      baro_rate: -832,
+      messages: 3,
+      type: 'adsb_icao',
+    })
+    expect(table.get('a3bb04')).toMatchObject({
+      squawk: '7700',
+      lat: 37.61902,
+      lon: -122.37498,
+    })
+    expect(table.size()).toBe(2)
+  })
+})
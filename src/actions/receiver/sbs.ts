@@ -0,0 +1,222 @@
+/** SBS-1 BaseStation (port 30003) feed: CSV parser, aggregation and provider. */
+
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import { filterAircraftToQuery } from '../live-aircraft/normalize'
+import type { LiveAircraftProvider } from '../live-aircraft/types'
+import { createAircraftTable } from './aircraft-table'
+import type { AircraftTable } from './aircraft-table'
+import { createLineSplitter, createTcpFeed } from './tcp-feed'
+import type { TcpFeed } from './tcp-feed'
+
+const DEFAULT_SBS_PORT = 30003
+const EXPIRE_INTERVAL_MS = 10_000
+
+/** One decoded `MSG,<1-8>,...` BaseStation record. Empty CSV cells are undefined. */
+export type SbsMessage = {
+  transmissionType: number
+  hex: string
+  callsign?: string
+  altitude?: number
+  groundSpeed?: number
+  track?: number
+  lat?: number
+  lon?: number
+  verticalRate?: number
+  squawk?: string
+  alert?: boolean
+  emergency?: boolean
+  spi?: boolean
+  isOnGround?: boolean
+}
+
+function parseNumber(value: string | undefined) {
+  if (!value) return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/** BaseStation flags are "-1" (true) / "0" (false). */
+function parseFlag(value: string | undefined) {
+  if (!value) return undefined
+  return value !== '0'
+}
+
+/** Parses one BaseStation line. Returns null for non-MSG or malformed records. */
+export function parseSbsMessage(line: string): SbsMessage | null {
+  const fields = line.split(',')
+  if (fields[0] !== 'MSG' || fields.length < 11) return null
+
+  const transmissionType = Number(fields[1])
+  const hex = fields[4]?.trim().toLowerCase()
+  if (
+    !Number.isInteger(transmissionType) ||
+    transmissionType < 1 ||
+    transmissionType > 8 ||
+    !hex ||
+    !/^[0-9a-f]{6}$/.test(hex)
+  ) {
+    return null
+  }
+
+  return {
+    transmissionType,
+    hex,
+    callsign: fields[10]?.trim() || undefined,
+    altitude: parseNumber(fields[11]),
+    groundSpeed: parseNumber(fields[12]),
+    track: parseNumber(fields[13]),
+    lat: parseNumber(fields[14]),
+    lon: parseNumber(fields[15]),
+    verticalRate: parseNumber(fields[16]),
+    squawk: fields[17]?.trim() || undefined,
+    alert: parseFlag(fields[18]),
+    emergency: parseFlag(fields[19]),
+    spi: parseFlag(fields[20]),
+    isOnGround: parseFlag(fields[21]),
+  }
+}
+
+function emergencyFromSquawk(squawk: string | undefined) {
+  switch (squawk) {
+    case '7500':
+      return 'unlawful'
+    case '7600':
+      return 'nordo'
+    default:
+      return 'general'
+  }
+}
+
+/** The AdsbAircraft fields a BaseStation message carries. */
+export function sbsMessageToFields(message: SbsMessage): Partial<AdsbAircraft> {
+  const fields: Partial<AdsbAircraft> = {}
+  // MSG 1-4 come from extended squitter; 5-8 are plain Mode-S replies.
+  if (message.transmissionType <= 4) fields.type = 'adsb_icao'
+
+  if (message.callsign) fields.flight = message.callsign
+  if (message.altitude != null) fields.alt_baro = message.altitude
+  else if (message.isOnGround) fields.alt_baro = 0
+  if (message.groundSpeed != null) fields.gs = message.groundSpeed
+  if (message.track != null) fields.track = message.track
+  if (message.lat != null && message.lon != null) {
+    fields.lat = message.lat
+    fields.lon = message.lon
+  }
+  if (message.verticalRate != null) fields.baro_rate = message.verticalRate
+  if (message.squawk) fields.squawk = message.squawk
+  if (message.alert != null) fields.alert = message.alert ? 1 : 0
+  if (message.spi != null) fields.spi = message.spi ? 1 : 0
+  if (message.emergency != null) {
+    fields.emergency = message.emergency
+      ? emergencyFromSquawk(message.squawk)
+      : 'none'
+  }
+  return fields
+}
+
+export type SbsFeed = {
+  table: AircraftTable
+  start: () => void
+  stop: () => void
+  isConnected: () => boolean
+}
+
+/** Connects to a BaseStation port and aggregates its messages into an aircraft table. */
+export function createSbsFeed({
+  host,
+  port,
+  table = createAircraftTable(),
+}: {
+  host: string
+  port: number
+  table?: AircraftTable
+}): SbsFeed {
+  let expireTimer: ReturnType<typeof setInterval> | null = null
+
+  const lines = createLineSplitter((line) => {
+    const message = parseSbsMessage(line)
+    if (!message) return
+    table.update(message.hex, sbsMessageToFields(message), Date.now())
+  })
+  const tcpFeed: TcpFeed = createTcpFeed({
+    host,
+    port,
+    label: 'SBS',
+    onData: lines.push,
+    onDisconnect: lines.reset,
+  })
+
+  return {
+    table,
+    start() {
+      tcpFeed.start()
+      expireTimer ??= setInterval(
+        () => table.expire(Date.now()),
+        EXPIRE_INTERVAL_MS,
+      )
+    },
+    stop() {
+      tcpFeed.stop()
+      if (expireTimer) {
+        clearInterval(expireTimer)
+        expireTimer = null
+      }
+    },
+    isConnected: tcpFeed.isConnected,
+  }
+}
+
+let sharedFeed: SbsFeed | null = null
+
+function getSbsEndpoint() {
+  const host = process.env.SBS_HOST?.trim()
+  if (!host) return null
+  const port = Number(process.env.SBS_PORT ?? DEFAULT_SBS_PORT)
+  return { host, port: Number.isFinite(port) ? port : DEFAULT_SBS_PORT }
+}
+
+export function isSbsConfigured() {
+  return getSbsEndpoint() != null
+}
+
+/** Process-wide SBS feed, connected lazily on first use. */
+export function getSbsFeed(): SbsFeed {
+  if (sharedFeed) return sharedFeed
+  const endpoint = getSbsEndpoint()
+  if (!endpoint) {
+    throw new Error('Missing SBS_HOST environment variable')
+  }
+  sharedFeed = createSbsFeed(endpoint)
+  sharedFeed.start()
+  return sharedFeed
+}
+
+export const sbsProvider: LiveAircraftProvider = {
+  id: 'sbs',
+  label: 'SBS-1 BaseStation',
+  capabilities: {
+    queryModes: ['bbox', 'radius'],
+    maxRadiusNm: null,
+    fields: [
+      'alert',
+      'alt_baro',
+      'baro_rate',
+      'emergency',
+      'flight',
+      'gs',
+      'hex',
+      'lat',
+      'lon',
+      'messages',
+      'seen',
+      'seen_pos',
+      'spi',
+      'squawk',
+      'track',
+      'type',
+    ],
+  },
+  isConfigured: isSbsConfigured,
+  fetchAircraft: async (query) =>
+    filterAircraftToQuery(getSbsFeed().table.snapshot(Date.now()), query),
+}
@@ -0,0 +1,90 @@
+import { createServer } from 'node:net'
+import type { Server, Socket } from 'node:net'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createLineSplitter, createTcpFeed } from './tcp-feed'
+import type { TcpFeed } from './tcp-feed'
+
+function collectLines() {
+  const lines: string[] = []
+  return { lines, splitter: createLineSplitter((line) => lines.push(line)) }
+}
+
+/** A local TCP server; each accepted connection is handed to `onConnection`. */
+async function listen(onConnection: (socket: Socket) => void) {
+  const server = createServer(onConnection)
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const address = server.address()
+  if (!address || typeof address === 'string') {
+    throw new Error('Server has no port')
+  }
+  return { server, port: address.port }
+}
+
+describe('createLineSplitter', () => {
+  it('joins lines split across chunks and skips blank ones', () => {
+    const { lines, splitter } = collectLines()
+    splitter.push(Buffer.from('MSG,1,a\r\nMS'))
+    splitter.push(Buffer.from('G,3,b\n\n  \nMSG'))
+    expect(lines).toEqual(['MSG,1,a', 'MSG,3,b'])
+    splitter.push(Buffer.from(',4,c\n'))
+    expect(lines).toEqual(['MSG,1,a', 'MSG,3,b', 'MSG,4,c'])
+  })
+
+  it('drops the partial line on reset', () => {
+    const { lines, splitter } = collectLines()
+    splitter.push(Buffer.from('MSG,3,half'))
+    splitter.reset()
+    splitter.push(Buffer.from('MSG,4,whole\n'))
+    expect(lines).toEqual(['MSG,4,whole'])
+  })
+
+  it('drops overlong lines whole, even across chunks', () => {
+    const { lines, splitter } = collectLines()
+    splitter.push(Buffer.from(`${'x'.repeat(2000)}\nMSG,1,a\n`))
+    splitter.push(Buffer.from('y'.repeat(800)))
+    splitter.push(Buffer.from('y'.repeat(800)))
+    splitter.push(Buffer.from('yyy\nMSG,3,b\n'))
+    expect(lines).toEqual(['MSG,1,a', 'MSG,3,b'])
+  })
+})
+
+describe('createTcpFeed', () => {
+  let server: Server | null = null
+  let feed: TcpFeed | null = null
+
+  afterEach(async () => {
+    feed?.stop()
+    feed = null
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(null))
+    server = null
+  })
+
+  it('does not carry a partial line over a reconnect', async () => {
+    const sends = ['MSG,1,first\nMSG,3,cut of', 'f\nMSG,4,second\n']
+    let connections = 0
+    const listening = await listen((socket) => {
+      const data = sends[connections++]
+      // The first connection drops in the middle of a line.
+      if (connections === 1) socket.end(data)
+      else socket.write(data)
+    })
+    server = listening.server
+
+    const { lines, splitter } = collectLines()
+    const onDisconnect = vi.fn(splitter.reset)
+    feed = createTcpFeed({
+      host: '127.0.0.1',
+      port: listening.port,
+      label: 'test',
+      onData: splitter.push,
+      onDisconnect,
+      reconnectDelayMs: 10,
+    })
+    feed.start()
+
+    await vi.waitFor(() => expect(lines).toHaveLength(3))
+    expect(lines).toEqual(['MSG,1,first', 'f', 'MSG,4,second'])
+    expect(onDisconnect).toHaveBeenCalledTimes(1)
+    expect(feed.isConnected()).toBe(true)
+  })
+})
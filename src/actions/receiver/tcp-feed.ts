@@ -0,0 +1,146 @@
+import { Socket } from 'node:net'
+
+const RECONNECT_DELAY_MS = 5_000
+/**
+ * Longest line the splitter keeps. Real SBS and AVR lines are a few hundred
+ * bytes at most; anything longer is a wrong port or a corrupt stream.
+ */
+const MAX_LINE_LENGTH = 1024
+
+export type TcpFeed = {
+  start: () => void
+  stop: () => void
+  isConnected: () => boolean
+}
+
+/**
+ * Keeps a TCP connection to a receiver port open, reconnecting after errors
+ * or disconnects. Raw chunks are handed to `onData`; framing is up to the
+ * caller, which should drop any partial frame in `onDisconnect`.
+ */
+export function createTcpFeed({
+  host,
+  port,
+  label,
+  onData,
+  onDisconnect,
+  reconnectDelayMs = RECONNECT_DELAY_MS,
+}: {
+  host: string
+  port: number
+  label: string
+  onData: (chunk: Buffer) => void
+  /** Called whenever a connection goes away, including on `stop`. */
+  onDisconnect?: () => void
+  reconnectDelayMs?: number
+}): TcpFeed {
+  let socket: Socket | null = null
+  let connected = false
+  let stopped = true
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) return
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      connect()
+    }, reconnectDelayMs)
+  }
+
+  const connect = () => {
+    if (stopped) return
+    const next = new Socket()
+    socket = next
+
+    next.on('connect', () => {
+      connected = true
+      console.log(`[${label}] Connected to ${host}:${port}`)
+    })
+    next.on('data', onData)
+    next.on('error', (err) => {
+      console.error(`[${label}] Connection error:`, err.message)
+    })
+    next.on('close', () => {
+      if (socket !== next) return
+      if (connected) console.log(`[${label}] Disconnected from ${host}:${port}`)
+      connected = false
+      socket = null
+      onDisconnect?.()
+      scheduleReconnect()
+    })
+
+    next.connect(port, host)
+  }
+
+  return {
+    start() {
+      if (!stopped) return
+      stopped = false
+      connect()
+    },
+
+    stop() {
+      stopped = true
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer)
+        reconnectTimer = null
+      }
+      const current = socket
+      socket = null
+      connected = false
+      if (current) {
+        current.destroy()
+        onDisconnect?.()
+      }
+    },
+
+    isConnected() {
+      return connected
+    },
+  }
+}
+
+export type LineSplitter = {
+  push: (chunk: Buffer) => void
+  /** Drops the partial line; call it when the connection goes away. */
+  reset: () => void
+}
+
+/**
+ * Splits a byte stream into text lines, buffering partial lines between
+ * chunks. Lines longer than MAX_LINE_LENGTH are dropped whole.
+ */
+export function createLineSplitter(
+  onLine: (line: string) => void,
+): LineSplitter {
+  let pending = ''
+  // Inside an overlong line: skip everything up to the next newline.
+  let discarding = false
+
+  return {
+    push(chunk) {
+      const parts = chunk.toString('latin1').split('\n')
+      const tail = parts.pop() ?? ''
+      for (const part of parts) {
+        const line = pending + part
+        const skip = discarding || line.length > MAX_LINE_LENGTH
+        pending = ''
+        discarding = false
+        if (skip) continue
+        const trimmed = line.trim()
+        if (trimmed) onLine(trimmed)
+      }
+      if (discarding) return
+      pending += tail
+      if (pending.length > MAX_LINE_LENGTH) {
+        pending = ''
+        discarding = true
+      }
+    },
+
+    reset() {
+      pending = ''
+      discarding = false
+    },
+  }
+}
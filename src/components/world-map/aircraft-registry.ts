@@ -0,0 +1,91 @@
+import type { ConvexReactClient } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import { MAX_REGISTRY_LOOKUP } from '../../../convex/aircraftRegistryTypes'
+import type { AircraftRecord } from '../../../convex/aircraftRegistryTypes'
+import type { AdsbAircraft } from './flights'
+
+export type AircraftRegistry = {
+  clear: () => void
+  /**
+   * Fills registry fields the feed left out from records already loaded,
+   * and queues lookups for aircraft not seen before. Queued aircraft are
+   * enriched from the next update on.
+   */
+  enrich: (aircraft: AdsbAircraft[]) => AdsbAircraft[]
+}
+
+/** Registration, type, description, operator and year the feed is missing, from `record`. */
+export function applyAircraftRecord(
+  aircraft: AdsbAircraft,
+  record: AircraftRecord | null | undefined,
+): AdsbAircraft {
+  if (!record) return aircraft
+  const patch: Partial<AdsbAircraft> = {}
+  if (!aircraft.r && record.registration) patch.r = record.registration
+  if (!aircraft.t && record.typeCode) patch.t = record.typeCode
+  if (!aircraft.desc && record.description) patch.desc = record.description
+  if (!aircraft.ownOp && record.operator) patch.ownOp = record.operator
+  if (!aircraft.year && record.year) patch.year = record.year
+  if (aircraft.dbFlags == null && record.dbFlags != null) {
+    patch.dbFlags = record.dbFlags
+  }
+  return Object.keys(patch).length > 0 ? { ...aircraft, ...patch } : aircraft
+}
+
+/**
+ * Client-side cache over the Convex aircraft registry. Each address is
+ * looked up once per session (null when the registry has no record), in
+ * batches of MAX_REGISTRY_LOOKUP.
+ */
+export function createAircraftRegistry(
+  client: ConvexReactClient,
+): AircraftRegistry {
+  const recordByIcao = new Map<string, AircraftRecord | null>()
+  const pending = new Set<string>()
+  let flushing = false
+
+  const flush = async () => {
+    if (flushing) return
+    flushing = true
+    try {
+      while (pending.size > 0) {
+        const batch = Array.from(pending).slice(0, MAX_REGISTRY_LOOKUP)
+        for (const icao of batch) pending.delete(icao)
+        try {
+          const records = await client.query(api.aircraftRegistry.getMany, {
+            icao24s: batch,
+          })
+          for (const icao of batch) recordByIcao.set(icao, null)
+          for (const record of records) recordByIcao.set(record.icao24, record)
+        } catch (error) {
+          // Don't retry on every update; these aircraft just stay unenriched.
+          for (const icao of batch) recordByIcao.set(icao, null)
+          console.error('[aircraft-registry] Lookup failed', error)
+        }
+      }
+    } finally {
+      flushing = false
+    }
+  }
+
+  return {
+    clear() {
+      recordByIcao.clear()
+      pending.clear()
+    },
+
+    enrich(aircraft) {
+      const enriched = aircraft.map((item) => {
+        const icao = item.hex.toLowerCase()
+        const record = recordByIcao.get(icao)
+        if (record === undefined) {
+          pending.add(icao)
+          return item
+        }
+        return applyAircraftRecord(item, record)
+      })
+      if (pending.size > 0) void flush()
+      return enriched
+    },
+  }
+}
@@ -0,0 +1,67 @@
+import { getAircraftTypeInfo } from '#/lib/aircraft-types'
+import type { AircraftTypeInfo } from '#/lib/aircraft-types'
+
+export const AIRCRAFT_SILHOUETTES = [
+  'narrowbody',
+  'widebody',
+  'quad',
+  'regional',
+  'turboprop',
+  'light',
+  'helicopter',
+  'glider',
+  'drone',
+  'ground',
+] as const
+
+export type AircraftSilhouette = (typeof AIRCRAFT_SILHOUETTES)[number]
+
+function getTypeSilhouette(info: AircraftTypeInfo): AircraftSilhouette {
+  if (info.engineType === 'turboshaft') return 'helicopter'
+  if (info.engineType === 'piston') return 'light'
+  if (info.engines >= 4) return 'quad'
+  if (info.engineType === 'turboprop') {
+    return info.engines === 1 ? 'light' : 'turboprop'
+  }
+  if (info.wake === 'H' || info.wake === 'J') return 'widebody'
+  return info.wingspanM < 30 ? 'regional' : 'narrowbody'
+}
+
+function getCategorySilhouette(
+  category: string | null | undefined,
+): AircraftSilhouette {
+  switch (category?.trim().toUpperCase()) {
+    case 'A1':
+    case 'B4':
+      return 'light'
+    case 'A2':
+      return 'regional'
+    case 'A5':
+      return 'widebody'
+    case 'A7':
+      return 'helicopter'
+    case 'B1':
+    case 'B2':
+      return 'glider'
+    case 'B6':
+      return 'drone'
+    case 'C1':
+    case 'C2':
+      return 'ground'
+    default:
+      return 'narrowbody'
+  }
+}
+
+/**
+ * Marker shape from the ICAO type designator when it is known, else from
+ * the ADS-B emitter category; unknown aircraft get the narrowbody shape.
+ */
+export function getAircraftSilhouette(
+  category?: string | null,
+  typeCode?: string | null,
+): AircraftSilhouette {
+  const typeInfo = getAircraftTypeInfo(typeCode)
+  if (typeInfo) return getTypeSilhouette(typeInfo)
+  return getCategorySilhouette(category)
+}
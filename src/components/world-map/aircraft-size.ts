@@ -1,3 +1,6 @@
+import { getAircraftTypeInfo } from '#/lib/aircraft-types'
+import type { AircraftTypeInfo } from '#/lib/aircraft-types'
+
 export type AircraftSizeCategory =
   | 'unknown'
   | 'small'
@@ -11,9 +14,28 @@ function normalizeAdsbCategory(category?: string | null) {
   return normalized.length > 0 ? normalized : null
 }
 
+/**
+ * Size class from type facts, approximating the emitter categories: A5
+ * heavy, A4 (757-sized) large, A3 medium, A1/A2 small.
+ */
+function getTypeSizeCategory(info: AircraftTypeInfo): AircraftSizeCategory {
+  if (info.wake === 'H' || info.wake === 'J') return 'heavy'
+  if (info.wake === 'L') return 'small'
+  if (info.wingspanM >= 38) return 'large'
+  return info.engineType === 'jet' && info.wingspanM >= 25 ? 'medium' : 'small'
+}
+
+/**
+ * Size class from the ICAO type designator when it is known, else from the
+ * ADS-B emitter category (which many aircraft leave at A0 or omit).
+ */
 export function getAircraftSizeCategory(
   category?: string | null,
+  typeCode?: string | null,
 ): AircraftSizeCategory {
+  const typeInfo = getAircraftTypeInfo(typeCode)
+  if (typeInfo) return getTypeSizeCategory(typeInfo)
+
   switch (normalizeAdsbCategory(category)) {
     case 'A1':
     case 'A2':
@@ -58,8 +80,11 @@ export function getAircraftSizeCategory(
   }
 }
 
-export function getAircraftSizeScale(category?: string | null) {
-  switch (getAircraftSizeCategory(category)) {
+export function getAircraftSizeScale(
+  category?: string | null,
+  typeCode?: string | null,
+) {
+  switch (getAircraftSizeCategory(category, typeCode)) {
     case 'small':
       return 0.5
     case 'medium':
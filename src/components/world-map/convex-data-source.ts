@@ -0,0 +1,71 @@
+import type { ConvexReactClient } from 'convex/react'
+import { openSkyStateToAdsbAircraft } from '#/actions/live-aircraft/providers/opensky'
+import type { LiveAircraftQuery } from '#/actions/live-aircraft/types'
+import { boundsFromRadius, normalizeBounds } from '#/lib/geo'
+import type { GeoBounds } from '#/lib/geo'
+import { api } from '../../../convex/_generated/api'
+import type { State } from '../../../convex/statesTypes'
+import { createWorldMapDataSource } from './data-source'
+import type { WorldMapDataSource } from './data-source'
+
+/**
+ * Provider id the live-provider switch stores to read from Convex instead of
+ * a server provider; never sent to the server.
+ */
+export const CONVEX_PROVIDER_ID = 'convex'
+
+function getQueryBounds(query: LiveAircraftQuery): GeoBounds {
+  return normalizeBounds(
+    query.bounds ?? boundsFromRadius(query.lat, query.lon, query.dist),
+  )
+}
+
+function toAircraft(states: State[]) {
+  const nowSec = Math.floor(Date.now() / 1000)
+  return states.map((state) => openSkyStateToAdsbAircraft(state, nowSec))
+}
+
+/**
+ * World map data from the Convex live-state table (filled by the ingest
+ * cron) instead of the server's live providers. Subscriptions are reactive
+ * Convex queries for the viewport, so updates arrive after each ingest
+ * without polling. Pass the client from `useConvex()`.
+ */
+export function createConvexWorldMapDataSource(
+  client: ConvexReactClient,
+): WorldMapDataSource {
+  return createWorldMapDataSource({
+    loadAircraft: async (query) =>
+      toAircraft(
+        await client.query(api.liveStates.inBounds, getQueryBounds(query)),
+      ),
+    subscribeAircraft: ({ query, onAircraft }) => {
+      const watch = (bounds: GeoBounds) => {
+        const watcher = client.watchQuery(api.liveStates.inBounds, bounds)
+        const emit = () => {
+          try {
+            const states = watcher.localQueryResult()
+            if (states) onAircraft(toAircraft(states))
+          } catch (error) {
+            console.error(
+              '[convex-data-source] Live states query failed',
+              error,
+            )
+          }
+        }
+        const unsubscribe = watcher.onUpdate(emit)
+        emit()
+        return unsubscribe
+      }
+
+      let unsubscribe = watch(getQueryBounds(query))
+      return {
+        setQuery: (next) => {
+          unsubscribe()
+          unsubscribe = watch(getQueryBounds(next))
+        },
+        close: () => unsubscribe(),
+      }
+    },
+  })
+}
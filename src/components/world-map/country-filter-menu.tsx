@@ -0,0 +1,105 @@
+import { useMemo } from 'react'
+import { DropdownMenu as DropdownMenuPrimitive } from 'radix-ui'
+import { Check, Flag } from 'lucide-react'
+import { Button } from '#/components/ui/button'
+import { cn } from '#/lib/utils'
+import { getFlagEmoji, getIcaoCountry } from '#/lib/icao-country'
+import { useCountryFilterStore } from '#/store/country-filter-store'
+import { useFlightsStore } from '#/store/flights-store'
+
+const ITEM_CLASS_NAME =
+  'flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 outline-none data-highlighted:bg-white/8'
+
+type CountryOption = { name: string; iso: string | null; count: number }
+
+/**
+ * Toolbar dropdown for showing only aircraft registered in chosen
+ * countries. Lists the countries of aircraft currently in view, busiest
+ * first, plus any selected country that has left the view.
+ */
+export function CountryFilterMenu() {
+  const flightsMap = useFlightsStore((state) => state.map)
+  const countries = useCountryFilterStore((state) => state.countries)
+  const toggleCountry = useCountryFilterStore((state) => state.toggleCountry)
+  const clearCountries = useCountryFilterStore((state) => state.clearCountries)
+
+  const options = useMemo(() => {
+    const byName = new Map<string, CountryOption>()
+    for (const icao of flightsMap.keys()) {
+      const country = getIcaoCountry(icao)
+      if (!country) continue
+      const option = byName.get(country.name)
+      if (option) option.count++
+      else byName.set(country.name, { ...country, count: 1 })
+    }
+    for (const name of countries) {
+      if (!byName.has(name)) byName.set(name, { name, iso: null, count: 0 })
+    }
+    return Array.from(byName.values()).sort(
+      (a, b) => b.count - a.count || a.name.localeCompare(b.name),
+    )
+  }, [countries, flightsMap])
+
+  return (
+    <DropdownMenuPrimitive.Root>
+      <DropdownMenuPrimitive.Trigger asChild>
+        <Button
+          variant={countries.length > 0 ? 'default' : 'ghost'}
+          size="icon"
+          aria-label="Registration countries"
+        >
+          <Flag className="size-4" />
+        </Button>
+      </DropdownMenuPrimitive.Trigger>
+      <DropdownMenuPrimitive.Portal>
+        <DropdownMenuPrimitive.Content
+          align="start"
+          sideOffset={8}
+          className="z-100 max-h-[min(60vh,28rem)] min-w-56 overflow-y-auto rounded-lg border border-neutral-500/20 bg-neutral-900/95 p-1 text-sm text-white shadow-xl backdrop-blur-sm"
+        >
+          <DropdownMenuPrimitive.Label className="flex items-center justify-between px-2 py-1.5 text-[11px] font-semibold tracking-[0.14em] text-neutral-400 uppercase">
+            Registered in
+            {countries.length > 0 && (
+              <button
+                type="button"
+                onClick={clearCountries}
+                className="cursor-pointer tracking-normal normal-case text-cyan-200 hover:text-cyan-100"
+              >
+                Show all
+              </button>
+            )}
+          </DropdownMenuPrimitive.Label>
+          {options.length === 0 && (
+            <div className="px-2 py-1.5 text-neutral-500">
+              No aircraft in view
+            </div>
+          )}
+          {options.map((option) => {
+            const selected = countries.includes(option.name)
+            return (
+              <DropdownMenuPrimitive.CheckboxItem
+                key={option.name}
+                checked={selected}
+                onCheckedChange={() => toggleCountry(option.name)}
+                onSelect={(event) => event.preventDefault()}
+                className={ITEM_CLASS_NAME}
+              >
+                <Check
+                  className={cn(
+                    'size-3.5',
+                    selected ? 'opacity-100' : 'opacity-0',
+                  )}
+                />
+                <span className="w-5">{getFlagEmoji(option.iso)}</span>
+                <span className="flex-1 truncate">{option.name}</span>
+                <span className="tabular-nums text-neutral-500">
+                  {option.count}
+                </span>
+              </DropdownMenuPrimitive.CheckboxItem>
+            )
+          })}
+        </DropdownMenuPrimitive.Content>
+      </DropdownMenuPrimitive.Portal>
+    </DropdownMenuPrimitive.Root>
+  )
+}
@@ -1,4 +1,5 @@
 import type { AdsbAircraft } from './flights'
+import type { LiveAircraftQuery } from '#/actions/live-aircraft/types'
 import type { NormalFlightManager } from './normal-flight-manager'
 
 export type WorldMapDataSnapshot = {
@@ -8,15 +9,33 @@ export type WorldMapDataSnapshot = {
   normalFlightManager: NormalFlightManager
 }
 
+/** Out-of-band state of a live subscription; `stale` while the upstream budget is spent. */
+export type WorldMapAircraftStatus = {
+  stale: boolean
+}
+
+export type WorldMapAircraftSubscription = {
+  setQuery: (query: LiveAircraftQuery) => void
+  close: () => void
+}
+
 export type WorldMapDataSource = {
-  loadAircraft: ({ lat, lon, dist }: { lat: number, lon: number, dist: number }) => Promise<AdsbAircraft[]>
+  loadAircraft: (query: LiveAircraftQuery) => Promise<AdsbAircraft[]>
+  /** Push-based alternative to polling `loadAircraft`; used when present. */
+  subscribeAircraft?: (options: {
+    query: LiveAircraftQuery
+    onAircraft: (aircraft: AdsbAircraft[]) => void
+    onStatus?: (status: WorldMapAircraftStatus) => void
+  }) => WorldMapAircraftSubscription
 }
 
 export function createWorldMapDataSource({
   loadAircraft,
+  subscribeAircraft,
 }: Partial<WorldMapDataSource> &
   Pick<WorldMapDataSource, 'loadAircraft'>): WorldMapDataSource {
   return {
     loadAircraft,
+    subscribeAircraft,
   }
 }
@@ -0,0 +1,56 @@
+import { useMemo } from 'react'
+import { Marker } from 'react-map-gl/maplibre'
+import { cn } from '#/lib/utils'
+import { useEmergencyStore } from '#/store/emergency-store'
+import { useFlightsStore } from '#/store/flights-store'
+import type { EmergencyEpisode } from './emergency-tracker'
+
+/**
+ * Pulsing rings under aircraft with an active emergency episode, red for
+ * emergencies and amber for advisories. Drawn as map markers so the CSS
+ * animation runs without re-rendering the deck.gl layers.
+ */
+export function EmergencyMarkers() {
+  const episodes = useEmergencyStore((state) => state.episodes)
+  const flightsMap = useFlightsStore((state) => state.map)
+
+  // Episodes are sorted most urgent first; keep one ring per aircraft.
+  const markers = useMemo(() => {
+    const byIcao = new Map<string, EmergencyEpisode>()
+    for (const episode of episodes) {
+      if (!byIcao.has(episode.icao24)) byIcao.set(episode.icao24, episode)
+    }
+    return Array.from(byIcao.values()).flatMap((episode) => {
+      const aircraft = flightsMap.get(episode.icao24)
+      if (!aircraft) return []
+      return [{ episode, lon: aircraft.lon, lat: aircraft.lat }]
+    })
+  }, [episodes, flightsMap])
+
+  return markers.map(({ episode, lon, lat }) => (
+    <Marker
+      key={episode.icao24}
+      longitude={lon}
+      latitude={lat}
+      anchor="center"
+      style={{ pointerEvents: 'none' }}
+    >
+      <span className="relative flex size-10 items-center justify-center">
+        <span
+          className={cn(
+            'absolute inline-flex size-full animate-ping rounded-full opacity-60',
+            episode.severity === 'emergency' ? 'bg-red-500' : 'bg-amber-400',
+          )}
+        />
+        <span
+          className={cn(
+            'relative inline-flex size-7 rounded-full border-2',
+            episode.severity === 'emergency'
+              ? 'border-red-500'
+              : 'border-amber-400',
+          )}
+        />
+      </span>
+    </Marker>
+  ))
+}
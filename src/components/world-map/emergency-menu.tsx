@@ -0,0 +1,88 @@
+import { DropdownMenu as DropdownMenuPrimitive } from 'radix-ui'
+import { Siren } from 'lucide-react'
+import { Button } from '#/components/ui/button'
+import { cn } from '#/lib/utils'
+import { useEmergencyStore } from '#/store/emergency-store'
+import { useSelectedFlightStore } from '#/store/selected-flight.store'
+
+const ITEM_CLASS_NAME =
+  'flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 outline-none data-highlighted:bg-white/8'
+
+function formatStartedAt(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/** Toolbar dropdown listing active emergency and alert episodes. */
+export function EmergencyMenu() {
+  const episodes = useEmergencyStore((state) => state.episodes)
+  const setSelectedIcao24 = useSelectedFlightStore(
+    (state) => state.setSelectedIcao24,
+  )
+  const hasEmergency = episodes.some(
+    (episode) => episode.severity === 'emergency',
+  )
+
+  return (
+    <DropdownMenuPrimitive.Root>
+      <DropdownMenuPrimitive.Trigger asChild>
+        <Button
+          variant={hasEmergency ? 'destructive' : 'ghost'}
+          size="icon"
+          aria-label="Active emergencies"
+          className="relative"
+        >
+          <Siren className="size-4" />
+          {episodes.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 rounded-full bg-red-500 px-1 text-[10px] leading-4 font-semibold text-white tabular-nums">
+              {episodes.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuPrimitive.Trigger>
+      <DropdownMenuPrimitive.Portal>
+        <DropdownMenuPrimitive.Content
+          align="start"
+          sideOffset={8}
+          className="z-100 max-h-[min(60vh,28rem)] min-w-72 overflow-y-auto rounded-lg border border-neutral-500/20 bg-neutral-900/95 p-1 text-sm text-white shadow-xl backdrop-blur-sm"
+        >
+          <DropdownMenuPrimitive.Label className="px-2 py-1.5 text-[11px] font-semibold tracking-[0.14em] text-neutral-400 uppercase">
+            Active emergencies
+          </DropdownMenuPrimitive.Label>
+          {episodes.length === 0 && (
+            <div className="px-2 py-1.5 text-neutral-500">
+              No emergencies or alerts in view
+            </div>
+          )}
+          {episodes.map((episode) => (
+            <DropdownMenuPrimitive.Item
+              key={episode.id}
+              onSelect={() => setSelectedIcao24(episode.icao24)}
+              className={ITEM_CLASS_NAME}
+            >
+              <span
+                className={cn(
+                  'size-2 shrink-0 rounded-full',
+                  episode.severity === 'emergency'
+                    ? 'bg-red-500'
+                    : 'bg-amber-400',
+                )}
+              />
+              <span className="font-mono font-semibold">
+                {episode.callsign || episode.icao24.toUpperCase()}
+              </span>
+              <span className="flex-1 truncate text-neutral-300">
+                {episode.label}
+              </span>
+              <span className="text-xs text-neutral-500 tabular-nums">
+                {formatStartedAt(episode.startedAt)}
+              </span>
+            </DropdownMenuPrimitive.Item>
+          ))}
+        </DropdownMenuPrimitive.Content>
+      </DropdownMenuPrimitive.Portal>
+    </DropdownMenuPrimitive.Root>
+  )
+}
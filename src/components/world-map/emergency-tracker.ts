@@ -0,0 +1,87 @@
+import { detectEmergencies } from '#/lib/emergency'
+import type { EmergencyReason, EmergencySeverity } from '#/lib/emergency'
+import type { AdsbAircraft } from './flights'
+import { getCallsign } from './flights'
+
+/** An episode ends once its reason has gone unseen for this long. */
+export const EMERGENCY_EPISODE_GRACE_MS = 60_000
+
+/** One continuous stretch of an aircraft flagged for one reason. */
+export type EmergencyEpisode = {
+  /** `${icao24}:${reason}`, stable for the life of the episode. */
+  id: string
+  icao24: string
+  reason: EmergencyReason
+  severity: EmergencySeverity
+  label: string
+  callsign: string
+  startedAt: number
+  lastSeenAt: number
+}
+
+export type EmergencyTracker = {
+  clear: () => void
+  /** Active episodes, emergencies before advisories, newest first. */
+  getEpisodes: () => EmergencyEpisode[]
+  /** Feeds one refresh; returns the episodes that started with it. */
+  update: (aircraft: AdsbAircraft[], now?: number) => EmergencyEpisode[]
+}
+
+/**
+ * Deduplicates detections into episodes so a squawk held across many
+ * refreshes alerts once. Briefly losing the aircraft or the flag (a
+ * dropped message, leaving the viewport) does not restart the episode.
+ */
+export function createEmergencyTracker(): EmergencyTracker {
+  const episodesById = new Map<string, EmergencyEpisode>()
+
+  return {
+    clear() {
+      episodesById.clear()
+    },
+
+    getEpisodes() {
+      return Array.from(episodesById.values()).sort(
+        (a, b) =>
+          Number(a.severity === 'advisory') -
+            Number(b.severity === 'advisory') || b.startedAt - a.startedAt,
+      )
+    },
+
+    update(aircraft, now = Date.now()) {
+      const started: EmergencyEpisode[] = []
+      for (const item of aircraft) {
+        const icao24 = item.hex.toLowerCase()
+        for (const detection of detectEmergencies(item)) {
+          const id = `${icao24}:${detection.reason}`
+          const episode = episodesById.get(id)
+          if (episode) {
+            episodesById.set(id, {
+              ...episode,
+              label: detection.label,
+              callsign: getCallsign(item) || episode.callsign,
+              lastSeenAt: now,
+            })
+            continue
+          }
+          const next: EmergencyEpisode = {
+            id,
+            icao24,
+            ...detection,
+            callsign: getCallsign(item),
+            startedAt: now,
+            lastSeenAt: now,
+          }
+          episodesById.set(id, next)
+          started.push(next)
+        }
+      }
+      for (const [id, episode] of episodesById) {
+        if (now - episode.lastSeenAt > EMERGENCY_EPISODE_GRACE_MS) {
+          episodesById.delete(id)
+        }
+      }
+      return started
+    },
+  }
+}
@@ -0,0 +1,36 @@
+import { cn } from '#/lib/utils'
+import { FLIGHT_PHASE_LABELS } from '#/lib/flight-phase'
+import type { FlightPhase } from '#/lib/flight-phase'
+import { FLIGHT_PHASE_COLORS } from '#/lib/world-map-colors'
+import { useFlightPhaseStore } from '#/store/flight-phase-store'
+
+/** Live phase of an aircraft, or null before its first classified poll. */
+export function useFlightPhase(icao24: string | null | undefined) {
+  return useFlightPhaseStore((state) =>
+    icao24 ? (state.phases.get(icao24.toLowerCase()) ?? null) : null,
+  )
+}
+
+/** Phase label with the marker color used when coloring by phase. */
+export function FlightPhaseBadge({
+  phase,
+  className,
+}: {
+  phase: FlightPhase
+  className?: string
+}) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1.5 text-neutral-300',
+        className,
+      )}
+    >
+      <span
+        className="size-2 shrink-0 rounded-full"
+        style={{ background: FLIGHT_PHASE_COLORS[phase] }}
+      />
+      {FLIGHT_PHASE_LABELS[phase]}
+    </span>
+  )
+}
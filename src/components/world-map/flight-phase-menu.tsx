@@ -0,0 +1,114 @@
+import { DropdownMenu as DropdownMenuPrimitive } from 'radix-ui'
+import { Check, Layers } from 'lucide-react'
+import { Button } from '#/components/ui/button'
+import { cn } from '#/lib/utils'
+import { FLIGHT_PHASES } from '#/lib/flight-phase'
+import { useFlightPhaseStore } from '#/store/flight-phase-store'
+import { useMarkerColorStore } from '#/store/marker-color-store'
+import type { MarkerColorMode } from '#/store/marker-color-store'
+import { FlightPhaseBadge } from './flight-phase-badge'
+
+const ITEM_CLASS_NAME =
+  'flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 outline-none data-highlighted:bg-white/8'
+
+const COLOR_MODE_LABELS: Record<MarkerColorMode, string> = {
+  default: 'Plain',
+  phase: 'Flight phase',
+  airline: 'Airline',
+}
+
+/** Toolbar dropdown for the marker color mode and hiding flight phases. */
+export function FlightPhaseMenu() {
+  const colorMode = useMarkerColorStore((state) => state.colorMode)
+  const setColorMode = useMarkerColorStore((state) => state.setColorMode)
+  const hiddenPhases = useFlightPhaseStore((state) => state.hiddenPhases)
+  const togglePhaseHidden = useFlightPhaseStore(
+    (state) => state.togglePhaseHidden,
+  )
+  const showAllPhases = useFlightPhaseStore((state) => state.showAllPhases)
+
+  return (
+    <DropdownMenuPrimitive.Root>
+      <DropdownMenuPrimitive.Trigger asChild>
+        <Button
+          variant={
+            colorMode !== 'default' || hiddenPhases.length > 0
+              ? 'default'
+              : 'ghost'
+          }
+          size="icon"
+          aria-label="Marker color and flight phases"
+        >
+          <Layers className="size-4" />
+        </Button>
+      </DropdownMenuPrimitive.Trigger>
+      <DropdownMenuPrimitive.Portal>
+        <DropdownMenuPrimitive.Content
+          align="start"
+          sideOffset={8}
+          className="z-100 min-w-52 rounded-lg border border-neutral-500/20 bg-neutral-900/95 p-1 text-sm text-white shadow-xl backdrop-blur-sm"
+        >
+          <DropdownMenuPrimitive.Label className="px-2 py-1.5 text-[11px] font-semibold tracking-[0.14em] text-neutral-400 uppercase">
+            Color by
+          </DropdownMenuPrimitive.Label>
+          <DropdownMenuPrimitive.RadioGroup
+            value={colorMode}
+            onValueChange={(value) => setColorMode(value as MarkerColorMode)}
+          >
+            {(Object.keys(COLOR_MODE_LABELS) as MarkerColorMode[]).map(
+              (mode) => (
+                <DropdownMenuPrimitive.RadioItem
+                  key={mode}
+                  value={mode}
+                  onSelect={(event) => event.preventDefault()}
+                  className={ITEM_CLASS_NAME}
+                >
+                  <Check
+                    className={cn(
+                      'size-3.5',
+                      colorMode === mode ? 'opacity-100' : 'opacity-0',
+                    )}
+                  />
+                  {COLOR_MODE_LABELS[mode]}
+                </DropdownMenuPrimitive.RadioItem>
+              ),
+            )}
+          </DropdownMenuPrimitive.RadioGroup>
+          <DropdownMenuPrimitive.Separator className="my-1 h-px bg-white/10" />
+          <DropdownMenuPrimitive.Label className="flex items-center justify-between px-2 py-1.5 text-[11px] font-semibold tracking-[0.14em] text-neutral-400 uppercase">
+            Show phases
+            {hiddenPhases.length > 0 && (
+              <button
+                type="button"
+                onClick={showAllPhases}
+                className="cursor-pointer tracking-normal normal-case text-cyan-200 hover:text-cyan-100"
+              >
+                Show all
+              </button>
+            )}
+          </DropdownMenuPrimitive.Label>
+          {FLIGHT_PHASES.map((phase) => {
+            const visible = !hiddenPhases.includes(phase)
+            return (
+              <DropdownMenuPrimitive.CheckboxItem
+                key={phase}
+                checked={visible}
+                onCheckedChange={() => togglePhaseHidden(phase)}
+                onSelect={(event) => event.preventDefault()}
+                className={ITEM_CLASS_NAME}
+              >
+                <Check
+                  className={cn(
+                    'size-3.5',
+                    visible ? 'opacity-100' : 'opacity-0',
+                  )}
+                />
+                <FlightPhaseBadge phase={phase} />
+              </DropdownMenuPrimitive.CheckboxItem>
+            )
+          })}
+        </DropdownMenuPrimitive.Content>
+      </DropdownMenuPrimitive.Portal>
+    </DropdownMenuPrimitive.Root>
+  )
+}
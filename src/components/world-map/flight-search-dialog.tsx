@@ -3,6 +3,7 @@ import { Dialog as DialogPrimitive } from 'radix-ui'
 import { Search } from 'lucide-react'
 import type { AdsbAircraft } from './flights'
 import { cn } from '#/lib/utils'
+import { getFlagEmoji } from '#/lib/icao-country'
 import { useFlightSearchStore } from '#/store/flight-search-store'
 import { searchFlightsLocally, useFlightSearchIndex } from './use-flight-search'
 
@@ -60,7 +61,7 @@ export function FlightSearchDialog({
 
   const emptyState =
     normalizedQuery.length === 0
-      ? 'Type an ICAO24 or flight number to filter the flights already on the map.'
+      ? 'Type an ICAO24, flight number, airline or country to filter the flights already on the map.'
       : `No local flight matches "${normalizedQuery}".`
 
   return (
@@ -78,7 +79,8 @@ export function FlightSearchDialog({
               Flight Search
             </DialogPrimitive.Title>
             <DialogPrimitive.Description className="mt-1 text-sm text-white/65">
-              Search locally by ICAO24 or flight number.
+              Search locally by ICAO24, flight number, airline or country of
+              registration.
             </DialogPrimitive.Description>
             <div className="mt-4 flex items-center gap-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
               <Search className="size-4 shrink-0 text-cyan-200" />
@@ -90,7 +92,7 @@ export function FlightSearchDialog({
                 ref={inputRef}
                 value={query}
                 onChange={(event) => setQuery(event.target.value)}
-                placeholder="A84D7B or DAL123"
+                placeholder="A84D7B, DAL123 or DL123"
                 autoComplete="off"
                 spellCheck={false}
                 className="w-full bg-transparent text-base text-white outline-none placeholder:text-white/35"
@@ -126,8 +128,17 @@ export function FlightSearchDialog({
                             {result.icao24}
                           </span>
                         </div>
+                        {result.airline && (
+                          <div className="mt-1 truncate text-sm text-white/80">
+                            {[result.airline.name, result.iataFlightNumber]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </div>
+                        )}
                         <div className="mt-1 truncate text-sm text-white/60">
                           {registration} · {aircraftType}
+                          {result.country &&
+                            ` · ${getFlagEmoji(result.country.iso)} ${result.country.name}`}
                         </div>
                       </div>
                       <div className="shrink-0 text-right text-xs text-white/45">
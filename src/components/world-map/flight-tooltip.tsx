@@ -1,4 +1,11 @@
 import { useTooltipStore } from '#/store/tooltip-store'
+import {
+  mergeAircraftDetail,
+  useLiveAircraftDetail,
+} from './use-live-aircraft-detail'
+import { FlightPhaseBadge, useFlightPhase } from './flight-phase-badge'
+import { getFlagEmoji, getIcaoCountry } from '#/lib/icao-country'
+import { getAirlineFromCallsign, getIataFlightNumber } from '#/lib/airlines'
 
 // ─── Tooltip ──────────────────────────────────────────────────────────────────
 
@@ -13,12 +20,18 @@ export function FlightTooltip() {
   const tooltip = useTooltipStore((s) => s.tooltip)
   const cancelScheduledHide = useTooltipStore((s) => s.cancelScheduledHide)
   const scheduleHide = useTooltipStore((s) => s.scheduleHide)
+  const { data: detail } = useLiveAircraftDetail(tooltip?.aircraft.hex)
+  const phase = useFlightPhase(tooltip?.aircraft.hex)
 
   if (!tooltip) return null
 
-  const { aircraft, x, y } = tooltip
+  const { x, y } = tooltip
+  const aircraft = mergeAircraftDetail(tooltip.aircraft, detail)
   const callsign = aircraft.flight?.trim() ?? ''
   const icao24 = aircraft.hex.toUpperCase()
+  const country = getIcaoCountry(aircraft.hex)
+  const airline = getAirlineFromCallsign(callsign)
+  const iataFlightNumber = getIataFlightNumber(callsign)
   const altFt = fmt(aircraft.alt_baro)
   const spdKts = fmt(aircraft.gs)
   const vrFpm = Math.round(aircraft.baro_rate)
@@ -45,8 +58,20 @@ export function FlightTooltip() {
         {callsign && (
           <span className="font-mono text-neutral-500">{icao24}</span>
         )}
+        {country && (
+          <span className="ml-auto text-neutral-400" title={country.name}>
+            {getFlagEmoji(country.iso)} {country.iso ?? country.name}
+          </span>
+        )}
       </div>
 
+      {/* Airline and IATA flight number, from the callsign */}
+      {airline && (
+        <div className="mt-0.5 text-neutral-300">
+          {[airline.name, iataFlightNumber].filter(Boolean).join(' · ')}
+        </div>
+      )}
+
       {/* Registration / type */}
       {(aircraft.r || aircraft.t) && (
         <div className="mt-0.5 text-neutral-400">
@@ -54,6 +79,13 @@ export function FlightTooltip() {
         </div>
       )}
 
+      {/* Type description / operator, from the feed or the registry */}
+      {(aircraft.desc || aircraft.ownOp) && (
+        <div className="max-w-56 truncate text-neutral-500">
+          {[aircraft.desc, aircraft.ownOp].filter(Boolean).join(' · ')}
+        </div>
+      )}
+
       {/* Altitude · speed · vertical rate */}
       {(altFt || spdKts || vrArrow) && (
         <div className="mt-1.5 flex flex-wrap gap-x-3 gap-y-0.5 tabular-nums text-neutral-300">
@@ -67,6 +99,8 @@ export function FlightTooltip() {
         </div>
       )}
 
+      {phase && <FlightPhaseBadge phase={phase} className="mt-1" />}
+
       {/* ADBS does not provide route info */}
       <div className="mt-2 rounded border border-neutral-700/80 bg-neutral-800/60 px-2.5 py-2 text-neutral-500 text-[10px]">
         No route information available
@@ -4,3 +4,8 @@
  */
 
 export type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+
+/** Trimmed callsign. v2 feeds omit `flight` for aircraft that never sent one. */
+export function getCallsign(aircraft: { flight?: string | null }) {
+  return aircraft.flight?.trim() ?? ''
+}
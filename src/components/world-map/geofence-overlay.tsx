@@ -0,0 +1,143 @@
+import { useMemo } from 'react'
+import { Layer, Source } from 'react-map-gl/maplibre'
+import type { ExpressionSpecification, FilterSpecification } from 'maplibre-gl'
+import { WORLD_MAP_COLORS } from '@/lib/world-map-colors'
+import { circleToRing, shapeFromPoints } from '#/lib/geofence'
+import type { IdentifiedGeofence } from '#/lib/geofence'
+import { useGeofenceStore } from '#/store/geofence-store'
+import type { GeofenceShape, LonLat } from '../../../convex/geofencesTypes'
+
+const GEOFENCES_SOURCE_ID = 'geofences'
+const GEOFENCE_DRAFT_SOURCE_ID = 'geofence-draft'
+
+const GEOFENCE_FILL_LAYER = {
+  id: 'geofences-fill',
+  type: 'fill' as const,
+  paint: {
+    'fill-color': WORLD_MAP_COLORS.geofence,
+    'fill-opacity': 0.08,
+  },
+}
+
+const GEOFENCE_LINE_LAYER = {
+  id: 'geofences-line',
+  type: 'line' as const,
+  paint: {
+    'line-color': WORLD_MAP_COLORS.geofence,
+    'line-width': 1.5,
+    'line-opacity': 0.8,
+  },
+}
+
+const GEOFENCE_LABEL_LAYER = {
+  id: 'geofences-label',
+  type: 'symbol' as const,
+  layout: {
+    'text-field': ['get', 'name'] satisfies ExpressionSpecification,
+    'text-size': 11,
+  },
+  paint: {
+    'text-color': WORLD_MAP_COLORS.geofence,
+    'text-halo-color': WORLD_MAP_COLORS.background,
+    'text-halo-width': 1,
+  },
+}
+
+const GEOFENCE_DRAFT_LINE_LAYER = {
+  id: 'geofence-draft-line',
+  type: 'line' as const,
+  filter: ['!=', ['geometry-type'], 'Point'] satisfies FilterSpecification,
+  paint: {
+    'line-color': WORLD_MAP_COLORS.geofenceDraft,
+    'line-width': 1.5,
+    'line-dasharray': [2, 2],
+  },
+}
+
+const GEOFENCE_DRAFT_POINT_LAYER = {
+  id: 'geofence-draft-points',
+  type: 'circle' as const,
+  filter: ['==', ['geometry-type'], 'Point'] satisfies FilterSpecification,
+  paint: {
+    'circle-color': WORLD_MAP_COLORS.geofenceDraft,
+    'circle-radius': 4,
+  },
+}
+
+function toLineFeature(coordinates: LonLat[]) {
+  return {
+    type: 'Feature' as const,
+    properties: {},
+    geometry: { type: 'LineString' as const, coordinates },
+  }
+}
+
+function toPointFeature(coordinates: LonLat) {
+  return {
+    type: 'Feature' as const,
+    properties: {},
+    geometry: { type: 'Point' as const, coordinates },
+  }
+}
+
+/** Closed ring for a fence shape, circles approximated as polygons. */
+function getShapeRing(shape: GeofenceShape) {
+  if (shape.kind === 'circle') return circleToRing(shape.center, shape.radiusNm)
+  return [...shape.ring, shape.ring[0]]
+}
+
+/** Saved geofences and the fence being drawn, as MapLibre layers. */
+export function GeofenceOverlay({
+  geofences,
+}: {
+  geofences: IdentifiedGeofence[]
+}) {
+  const draft = useGeofenceStore((state) => state.draft)
+
+  const fenceData = useMemo(
+    () => ({
+      type: 'FeatureCollection' as const,
+      features: geofences.map((fence) => ({
+        type: 'Feature' as const,
+        properties: { id: fence.id, name: fence.name },
+        geometry: {
+          type: 'Polygon' as const,
+          coordinates: [getShapeRing(fence.shape)],
+        },
+      })),
+    }),
+    [geofences],
+  )
+
+  const draftData = useMemo(() => {
+    const points = draft?.points ?? []
+    const shape = draft ? shapeFromPoints(draft.kind, points) : null
+    // Until the shape is complete, connect the polygon vertices placed so far.
+    const outline = shape
+      ? getShapeRing(shape)
+      : points.length >= 2
+        ? points
+        : null
+    return {
+      type: 'FeatureCollection' as const,
+      features: [
+        ...(outline ? [toLineFeature(outline)] : []),
+        ...points.map(toPointFeature),
+      ],
+    }
+  }, [draft])
+
+  return (
+    <>
+      <Source id={GEOFENCES_SOURCE_ID} type="geojson" data={fenceData}>
+        <Layer {...GEOFENCE_FILL_LAYER} />
+        <Layer {...GEOFENCE_LINE_LAYER} />
+        <Layer {...GEOFENCE_LABEL_LAYER} />
+      </Source>
+      <Source id={GEOFENCE_DRAFT_SOURCE_ID} type="geojson" data={draftData}>
+        <Layer {...GEOFENCE_DRAFT_LINE_LAYER} />
+        <Layer {...GEOFENCE_DRAFT_POINT_LAYER} />
+      </Source>
+    </>
+  )
+}
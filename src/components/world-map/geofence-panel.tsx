@@ -0,0 +1,314 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { Popover as PopoverPrimitive } from 'radix-ui'
+import { useMutation, useQuery } from 'convex/react'
+import { Circle, Fence, Hexagon, Trash2, Undo2, Webhook } from 'lucide-react'
+import { Button } from '#/components/ui/button'
+import { cn } from '#/lib/utils'
+import { shapeFromPoints } from '#/lib/geofence'
+import type { IdentifiedGeofence } from '#/lib/geofence'
+import { useGeofenceStore } from '#/store/geofence-store'
+import type { GeofenceDraft } from '#/store/geofence-store'
+import { useSelectedFlightStore } from '#/store/selected-flight.store'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import type { GeofenceShape } from '../../../convex/geofencesTypes'
+import { useGeofences } from './use-geofences'
+
+const LABEL_CLASS_NAME =
+  'flex items-center justify-between px-2 py-1.5 text-[11px] font-semibold tracking-[0.14em] text-neutral-400 uppercase'
+
+const INPUT_CLASS_NAME =
+  'min-w-0 flex-1 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-white outline-none placeholder:text-white/35 focus:border-cyan-300/40'
+
+function describeShape(shape: GeofenceShape) {
+  return shape.kind === 'circle'
+    ? `Circle · ${shape.radiusNm.toFixed(1)} nm`
+    : `Polygon · ${shape.ring.length} points`
+}
+
+function describeFilters(fence: IdentifiedGeofence) {
+  const parts: string[] = []
+  if (fence.minAltitudeFt != null || fence.maxAltitudeFt != null) {
+    parts.push(`${fence.minAltitudeFt ?? 0}–${fence.maxAltitudeFt ?? '∞'} ft`)
+  }
+  if (fence.typeCodes && fence.typeCodes.length > 0) {
+    parts.push(fence.typeCodes.join(', '))
+  }
+  return parts.join(' · ')
+}
+
+function formatEventTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+function parseOptionalNumber(value: string) {
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+function GeofenceDraftForm({ draft }: { draft: GeofenceDraft }) {
+  const createGeofence = useMutation(api.geofences.create)
+  const undoDraftPoint = useGeofenceStore((state) => state.undoDraftPoint)
+  const cancelDraft = useGeofenceStore((state) => state.cancelDraft)
+  const [name, setName] = useState('')
+  const [minAltitude, setMinAltitude] = useState('')
+  const [maxAltitude, setMaxAltitude] = useState('')
+  const [typeCodes, setTypeCodes] = useState('')
+  const [webhookUrl, setWebhookUrl] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const shape = shapeFromPoints(draft.kind, draft.points)
+  const hint =
+    draft.kind === 'circle'
+      ? draft.points.length === 0
+        ? 'Click the map to place the center.'
+        : 'Click again to set the radius.'
+      : draft.points.length < 3
+        ? 'Click the map to add at least three points.'
+        : 'Keep clicking to add points, or save.'
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (!shape || !name.trim()) return
+    const parsedTypeCodes = typeCodes.split(/[\s,]+/).filter(Boolean)
+    createGeofence({
+      name,
+      shape,
+      minAltitudeFt: parseOptionalNumber(minAltitude),
+      maxAltitudeFt: parseOptionalNumber(maxAltitude),
+      typeCodes: parsedTypeCodes.length > 0 ? parsedTypeCodes : undefined,
+      webhookUrl: webhookUrl.trim() || undefined,
+    })
+      .then(() => cancelDraft())
+      .catch((createError: unknown) => {
+        setError(
+          createError instanceof Error
+            ? createError.message
+            : 'Failed to save geofence',
+        )
+      })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1.5 px-2 pb-2">
+      <div className="text-xs text-amber-200/80">{hint}</div>
+      <input
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        placeholder="Fence name"
+        aria-label="Fence name"
+        autoComplete="off"
+        className={cn(INPUT_CLASS_NAME, 'w-full')}
+      />
+      <div className="flex gap-1.5">
+        <input
+          value={minAltitude}
+          onChange={(event) => setMinAltitude(event.target.value)}
+          placeholder="Min ft"
+          aria-label="Minimum altitude in feet"
+          inputMode="numeric"
+          className={INPUT_CLASS_NAME}
+        />
+        <input
+          value={maxAltitude}
+          onChange={(event) => setMaxAltitude(event.target.value)}
+          placeholder="Max ft"
+          aria-label="Maximum altitude in feet"
+          inputMode="numeric"
+          className={INPUT_CLASS_NAME}
+        />
+      </div>
+      <input
+        value={typeCodes}
+        onChange={(event) => setTypeCodes(event.target.value)}
+        placeholder="Types, e.g. B738 A320 (optional)"
+        aria-label="Aircraft type codes"
+        autoComplete="off"
+        spellCheck={false}
+        className={cn(INPUT_CLASS_NAME, 'w-full')}
+      />
+      <input
+        value={webhookUrl}
+        onChange={(event) => setWebhookUrl(event.target.value)}
+        placeholder="Webhook https:// URL (optional)"
+        aria-label="Webhook URL"
+        type="url"
+        autoComplete="off"
+        className={cn(INPUT_CLASS_NAME, 'w-full')}
+      />
+      {error && <div className="text-xs text-red-300">{error}</div>}
+      <div className="flex items-center justify-end gap-1.5 pt-0.5">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={undoDraftPoint}
+          disabled={draft.points.length === 0}
+          aria-label="Undo last point"
+        >
+          <Undo2 className="size-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={cancelDraft}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!shape || !name.trim()}>
+          Save
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Toolbar popover for drawing geofences and reading their enter/exit
+ * event log. Stays open while drawing so map clicks place points.
+ */
+export function GeofencePanel() {
+  const geofences = useGeofences()
+  const removeGeofence = useMutation(api.geofences.remove)
+  const draft = useGeofenceStore((state) => state.draft)
+  const startDraft = useGeofenceStore((state) => state.startDraft)
+  // Recorded by the live-state ingest; the query returns the newest ones.
+  const events = useQuery(api.geofences.events) ?? []
+  const clearEvents = useMutation(api.geofences.clearEvents)
+  const setSelectedIcao24 = useSelectedFlightStore(
+    (state) => state.setSelectedIcao24,
+  )
+
+  return (
+    <PopoverPrimitive.Root>
+      <PopoverPrimitive.Trigger asChild>
+        <Button
+          variant={draft || geofences.length > 0 ? 'default' : 'ghost'}
+          size="icon"
+          aria-label="Geofences"
+        >
+          <Fence className="size-4" />
+        </Button>
+      </PopoverPrimitive.Trigger>
+      <PopoverPrimitive.Portal>
+        <PopoverPrimitive.Content
+          align="start"
+          sideOffset={8}
+          onInteractOutside={(event) => {
+            if (draft) event.preventDefault()
+          }}
+          className="z-100 max-h-[min(75vh,40rem)] w-80 overflow-y-auto rounded-lg border border-neutral-500/20 bg-neutral-900/95 p-1 text-sm text-white shadow-xl backdrop-blur-sm"
+        >
+          <div className={LABEL_CLASS_NAME}>Geofences</div>
+          {geofences.length === 0 && !draft && (
+            <div className="px-2 py-1.5 text-neutral-500">No geofences yet</div>
+          )}
+          {geofences.map((fence) => {
+            const filters = describeFilters(fence)
+            return (
+              <div
+                key={fence.id}
+                className="flex items-start justify-between gap-2 rounded-md px-2 py-1.5"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1.5 truncate font-medium">
+                    {fence.name}
+                    {fence.webhookUrl && (
+                      <Webhook
+                        className="size-3 text-neutral-500"
+                        aria-label="Sends webhooks"
+                      />
+                    )}
+                  </div>
+                  <div className="truncate text-xs text-neutral-500">
+                    {describeShape(fence.shape)}
+                    {filters && ` · ${filters}`}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    void removeGeofence({ id: fence.id as Id<'geofences'> })
+                  }
+                  aria-label={`Delete ${fence.name}`}
+                  className="mt-0.5 cursor-pointer text-neutral-500 hover:text-red-300"
+                >
+                  <Trash2 className="size-3.5" />
+                </button>
+              </div>
+            )
+          })}
+          {draft ? (
+            <GeofenceDraftForm draft={draft} />
+          ) : (
+            <div className="flex gap-1.5 px-2 pt-0.5 pb-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => startDraft('circle')}
+              >
+                <Circle className="size-3.5" />
+                Draw circle
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => startDraft('polygon')}
+              >
+                <Hexagon className="size-3.5" />
+                Draw polygon
+              </Button>
+            </div>
+          )}
+          <div className="my-1 h-px bg-white/10" />
+          <div className={LABEL_CLASS_NAME}>
+            Events
+            {events.length > 0 && (
+              <button
+                type="button"
+                onClick={() => void clearEvents()}
+                className="cursor-pointer tracking-normal normal-case text-cyan-200 hover:text-cyan-100"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          {events.length === 0 && (
+            <div className="px-2 py-1.5 text-neutral-500">
+              No aircraft have crossed a fence yet
+            </div>
+          )}
+          {events.map((event) => (
+            <button
+              key={event._id}
+              type="button"
+              onClick={() => setSelectedIcao24(event.icao24)}
+              className="flex w-full cursor-pointer items-center gap-2 rounded-md px-2 py-1 text-left hover:bg-white/8"
+            >
+              <span className="text-xs text-neutral-500 tabular-nums">
+                {formatEventTime(event.time)}
+              </span>
+              <span
+                className={cn(
+                  'rounded px-1 text-[10px] font-semibold tracking-wide uppercase',
+                  event.kind === 'enter'
+                    ? 'bg-emerald-400/15 text-emerald-300'
+                    : 'bg-neutral-400/15 text-neutral-300',
+                )}
+              >
+                {event.kind}
+              </span>
+              <span className="font-mono font-semibold">
+                {event.callsign || event.icao24.toUpperCase()}
+              </span>
+              <span className="flex-1 truncate text-right text-neutral-400">
+                {event.fenceName}
+              </span>
+            </button>
+          ))}
+        </PopoverPrimitive.Content>
+      </PopoverPrimitive.Portal>
+    </PopoverPrimitive.Root>
+  )
+}
@@ -15,6 +15,13 @@ import type { MapRef, ViewStateChangeEvent } from 'react-map-gl/maplibre'
 import { useCameraStateStore } from '#/store/camera-state-store'
 import { useReplayTimelineStore } from '#/store/replay-timeline-store'
 import { useTooltipStore } from '#/store/tooltip-store'
+import { useFlightPhaseStore } from '#/store/flight-phase-store'
+import { useMarkerColorStore } from '#/store/marker-color-store'
+import { useCountryFilterStore } from '#/store/country-filter-store'
+import { useEmergencyStore } from '#/store/emergency-store'
+import { useGeofenceStore } from '#/store/geofence-store'
+import { getIcaoCountry } from '#/lib/icao-country'
+import { createWatchMatcher } from '#/lib/watchlists'
 import { useReplayData } from './use-replay-data'
 import { FlightTooltip } from './flight-tooltip'
 import { SelectedFlightSheet } from './selected-flight-sheet'
@@ -23,6 +30,7 @@ import { MapLegend } from './map-legend'
 import type { CameraState } from './map-legend'
 import type { WorldMapDataSource } from './data-source'
 import { useWorldMapData } from './use-world-map-data'
+import { useWatchedAircraft, useWatchlists } from './use-watchlists'
 import {
   buildRouteSegments,
   createReplayMapLayers,
@@ -31,7 +39,11 @@ import {
 import type { RouteSegment } from './world-map-layers'
 import type { AdsbAircraft } from './flights'
 import { useWeatherRadar } from './use-weather-radar'
+import { usePositionTrack } from './use-position-track'
 import { WorldMapDeckOverlay } from './world-map-deck-overlay'
+import { EmergencyMarkers } from './emergency-markers'
+import { GeofenceOverlay } from './geofence-overlay'
+import { useGeofences } from './use-geofences'
 import { ReplayTimeline } from './replay-timeline'
 import {
   INITIAL_VIEW_STATE,
@@ -101,6 +113,15 @@ export default function WorldMap({
   const replayTimestamp = useReplayTimelineStore(
     (state) => state.currentTimestamp,
   )
+  const colorMode = useMarkerColorStore((state) => state.colorMode)
+  const hiddenPhases = useFlightPhaseStore((state) => state.hiddenPhases)
+  const countryFilter = useCountryFilterStore((state) => state.countries)
+  const emergencyEpisodes = useEmergencyStore((state) => state.episodes)
+  const geofences = useGeofences()
+  const geofenceDraft = useGeofenceStore((state) => state.draft)
+  const addGeofenceDraftPoint = useGeofenceStore((state) => state.addDraftPoint)
+  const watchlists = useWatchlists()
+  const watchedAircraft = useWatchedAircraft(watchlists)
   const { data: weatherTileUrl } = useWeatherRadar(isClient, WEATHER_TILE_SIZE)
   const deferredAircraft = useDeferredValue(aircraft)
 
@@ -129,6 +150,8 @@ export default function WorldMap({
     [flightsMap, selectedIcao24],
   )
 
+  const trail = usePositionTrack(replayActive ? null : selectedIcao24)
+
   // const routeSegments: RouteSegment[] = [];
   const routeSegments = useMemo<RouteSegment[]>(() => {
     if (!selectedIcao24) return []
@@ -140,7 +163,7 @@ export default function WorldMap({
       : undefined
     const track = selectedAircraft?.track
 
-    if (!departure && !arrival) return []
+    if (!departure && !arrival && trail.length === 0) return []
     if (!departure && !currentPosition) return []
     if (!arrival && !currentPosition) return []
 
@@ -149,8 +172,15 @@ export default function WorldMap({
       arrivalLocation: arrival,
       currentPosition,
       track,
+      trail,
     })
-  }, [aerodataFlight, selectedAircraft, selectedIcao24])
+  }, [aerodataFlight, selectedAircraft, selectedIcao24, trail])
+
+  // Clicks place fence points while drawing, so they don't select aircraft.
+  const handleSelect = useEffectEvent((icao24: string | null) => {
+    if (useGeofenceStore.getState().draft) return
+    setSelectedIcao24(icao24)
+  })
 
   const handleHover = useEffectEvent((info: PickingInfo<string | AdsbAircraft>) => {
     const pickedObject = info.object
@@ -189,46 +219,133 @@ export default function WorldMap({
     }
   }, [setSelectedIcao24])
 
+  const emergencyIcaos = useMemo(
+    () => new Set(emergencyEpisodes.map((episode) => episode.icao24)),
+    [emergencyEpisodes],
+  )
+
+  // The selected aircraft and aircraft in an emergency stay on the map
+  // whatever the filters.
+  const isPinned = useCallback(
+    (icao: string) => icao === selectedIcao24 || emergencyIcaos.has(icao),
+    [emergencyIcaos, selectedIcao24],
+  )
+
+  const isCountryShown = useCallback(
+    (icao: string) => {
+      if (countryFilter.length === 0 || isPinned(icao)) return true
+      const country = getIcaoCountry(icao)
+      return country != null && countryFilter.includes(country.name)
+    },
+    [countryFilter, isPinned],
+  )
+
+  const visibleFlightIcaos = useMemo(() => {
+    if (hiddenPhases.length === 0 && countryFilter.length === 0) {
+      return normalFlightIcaos
+    }
+    return normalFlightIcaos.filter((icao) => {
+      if (isPinned(icao)) return true
+      if (!isCountryShown(icao)) return false
+      const phase = normalFlightManager.getPhase(icao)
+      return phase == null || !hiddenPhases.includes(phase)
+    })
+  }, [
+    countryFilter,
+    hiddenPhases,
+    isCountryShown,
+    isPinned,
+    normalFlightIcaos,
+    normalFlightManager,
+  ])
+
+  const visibleReplayIcaos = useMemo(
+    () =>
+      countryFilter.length === 0
+        ? replayIcaos
+        : replayIcaos.filter(isCountryShown),
+    [countryFilter, isCountryShown, replayIcaos],
+  )
+
+  const watchedFlightIcaos = useMemo(
+    () => new Set(watchedAircraft.keys()),
+    [watchedAircraft],
+  )
+
+  // Traces carry no callsign; replay matches on hex, registration and type.
+  const watchedReplayIcaos = useMemo(() => {
+    const matchWatchlists = createWatchMatcher(watchlists)
+    return new Set(
+      replayIcaos.filter(
+        (icao) =>
+          matchWatchlists({
+            hex: icao,
+            r: replayManager.getRegistration(icao),
+            t: replayManager.getTypeCode(icao),
+          }).length > 0,
+      ),
+    )
+  }, [replayIcaos, replayManager, watchlists])
+
+  // replayIcaos changes whenever the manager is given new traces.
+  const selectedReplayTrace = useMemo(
+    () =>
+      replayActive && selectedIcao24 && replayIcaos.length > 0
+        ? replayManager.getTrace(selectedIcao24)
+        : null,
+    [replayActive, replayIcaos, replayManager, selectedIcao24],
+  )
+
   const layers = useMemo(() => {
     if (lastUpdatedTimestamp === 0) return []
 
     if (replayActive) {
       return createReplayMapLayers({
+        colorMode,
+        hiddenPhases,
         hoveredIcao24,
-        replayIcaos,
+        onSelect: handleSelect,
+        replayIcaos: visibleReplayIcaos,
         replayManager,
         selectedIcao24,
         timestampMs: replayTimestamp,
+        watchedIcaos: watchedReplayIcaos,
       })
     }
 
     return createWorldMapLayers({
+      colorMode,
       hoveredIcao24,
       lastUpdatedTimestamp,
-      normalFlightIcaos,
+      normalFlightIcaos: visibleFlightIcaos,
       normalFlightManager,
       onHover: handleHover,
-      onSelect: setSelectedIcao24,
+      onSelect: handleSelect,
       routeSegments,
       selectedAircraft,
       selectedIcao24,
+      watchedIcaos: watchedFlightIcaos,
     })
   }, [
+    colorMode,
     handleHover,
+    handleSelect,
+    hiddenPhases,
     hoveredIcao24,
     lastUpdatedTimestamp,
-    normalFlightIcaos,
     normalFlightManager,
 
     replayActive,
-    replayIcaos,
     replayManager,
     replayTimestamp,
 
     routeSegments,
     selectedAircraft,
     selectedIcao24,
-    setSelectedIcao24,
+    visibleFlightIcaos,
+    visibleReplayIcaos,
+    watchedFlightIcaos,
+    watchedReplayIcaos,
   ])
 
   useEffect(() => {
@@ -290,6 +407,11 @@ export default function WorldMap({
             })
           }}
           onMouseLeave={() => setCursorCoord(null)}
+          onClick={(event) => {
+            if (!geofenceDraft) return
+            addGeofenceDraftPoint([event.lngLat.lng, event.lngLat.lat])
+          }}
+          cursor={geofenceDraft ? 'crosshair' : undefined}
         >
           {weatherTileUrl ? (
             <Source
@@ -315,7 +437,9 @@ export default function WorldMap({
             <Layer {...AIRSPACE_BOUNDARY_GLOW_LAYER} />
             <Layer {...AIRSPACE_BOUNDARY_LINE_LAYER} />
           </Source>
+          <GeofenceOverlay geofences={geofences} />
           <WorldMapDeckOverlay layers={layers} interleaved />
+          {!replayActive && <EmergencyMarkers />}
         </Map>
       </div>
       <FlightTooltip />
@@ -328,7 +452,7 @@ export default function WorldMap({
       </div>
       <WorldMapToolbar />
       <ReplayTimeline />
-      <SelectedFlightSheet />
+      <SelectedFlightSheet replayTrace={selectedReplayTrace} />
     </>
   )
 }
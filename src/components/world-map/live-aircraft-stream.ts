@@ -0,0 +1,119 @@
+import { setLiveAircraftStreamBoundsAction } from '#/actions/live-aircraft/aircraft'
+import { createAdsbAircraft } from '#/actions/live-aircraft/normalize'
+import type { LiveAircraftQuery } from '#/actions/live-aircraft/types'
+import { base64ToBytes, createAircraftDeltaDecoder } from '#/lib/aircraft-codec'
+import type { CompactAircraft } from '#/lib/aircraft-codec'
+import { boundsFromRadius } from '#/lib/geo'
+import type { GeoBounds } from '#/lib/geo'
+import type {
+  WorldMapAircraftStatus,
+  WorldMapAircraftSubscription,
+} from './data-source'
+import type { AdsbAircraft } from './flights'
+
+const STREAM_URL = '/api/live-aircraft/stream'
+
+function getQueryBounds(query: LiveAircraftQuery): GeoBounds {
+  return query.bounds ?? boundsFromRadius(query.lat, query.lon, query.dist)
+}
+
+/**
+ * Subscribes to the server's live-aircraft SSE stream and keeps the aircraft
+ * list in sync from its binary delta frames. Aircraft carry only the compact
+ * wire fields; see useLiveAircraftDetail for the rest. Viewport
+ * changes are sent to the open subscription rather than reconnecting.
+ */
+export function createLiveAircraftStream({
+  providerId,
+  query,
+  onAircraft,
+  onStatus,
+}: {
+  providerId: string | null
+  query: LiveAircraftQuery
+  onAircraft: (aircraft: AdsbAircraft[]) => void
+  onStatus?: (status: WorldMapAircraftStatus) => void
+}): WorldMapAircraftSubscription {
+  const decoder = createAircraftDeltaDecoder()
+  // Rows the decoder did not touch keep their identity, and so do their hydrated copies.
+  const hydrated = new WeakMap<CompactAircraft, AdsbAircraft>()
+  const hydrate = (compact: CompactAircraft) => {
+    let aircraft = hydrated.get(compact)
+    if (!aircraft) {
+      aircraft = createAdsbAircraft(compact.hex, compact)
+      hydrated.set(compact, aircraft)
+    }
+    return aircraft
+  }
+  let bounds = getQueryBounds(query)
+  let source: EventSource | null = null
+  let subscriptionId: string | null = null
+  let closed = false
+
+  const connect = () => {
+    source?.close()
+    subscriptionId = null
+    const params = new URLSearchParams({
+      south: String(bounds.south),
+      west: String(bounds.west),
+      north: String(bounds.north),
+      east: String(bounds.east),
+    })
+    if (providerId) params.set('provider', providerId)
+    const connectedBounds = bounds
+    const next = new EventSource(`${STREAM_URL}?${params}`)
+    source = next
+
+    // Sent on every (re)connect; the next frame is a reset frame.
+    next.addEventListener('ready', (event) => {
+      const data = JSON.parse(event.data) as { subscriptionId: string }
+      subscriptionId = data.subscriptionId
+      decoder.reset()
+      // EventSource reconnects with its original URL; catch up if we moved.
+      if (bounds !== connectedBounds) pushBounds()
+    })
+
+    next.addEventListener('frame', (event) => {
+      let compact: CompactAircraft[]
+      try {
+        compact = decoder.apply(base64ToBytes(event.data))
+      } catch (error) {
+        // Missed or corrupt frame: deltas no longer line up, start over.
+        console.error('Live aircraft stream out of sync:', error)
+        connect()
+        return
+      }
+      onAircraft(compact.map(hydrate))
+    })
+
+    next.addEventListener('status', (event) => {
+      onStatus?.(JSON.parse(event.data) as WorldMapAircraftStatus)
+    })
+  }
+
+  const pushBounds = () => {
+    const id = subscriptionId
+    if (!id) return
+    setLiveAircraftStreamBoundsAction({ data: { subscriptionId: id, bounds } })
+      .then(({ ok }) => {
+        if (!ok && !closed && subscriptionId === id) connect()
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to update live aircraft viewport:', error)
+      })
+  }
+
+  connect()
+
+  return {
+    setQuery(nextQuery) {
+      bounds = getQueryBounds(nextQuery)
+      pushBounds()
+    },
+    close() {
+      closed = true
+      source?.close()
+      source = null
+    },
+  }
+}
@@ -0,0 +1,85 @@
+import { DropdownMenu as DropdownMenuPrimitive } from 'radix-ui'
+import { Check, RadioTower } from 'lucide-react'
+import { Button } from '#/components/ui/button'
+import { cn } from '#/lib/utils'
+import { useLiveProviderStore } from '#/store/live-provider-store'
+import { CONVEX_PROVIDER_ID } from './convex-data-source'
+import { useLiveProviders } from './use-live-providers'
+
+/** Toolbar dropdown for switching the live-aircraft provider. */
+export function LiveProviderSwitch() {
+  const providerId = useLiveProviderStore((state) => state.providerId)
+  const setProviderId = useLiveProviderStore((state) => state.setProviderId)
+  const { data } = useLiveProviders()
+
+  const activeProviderId = providerId ?? data?.defaultProviderId ?? null
+
+  return (
+    <DropdownMenuPrimitive.Root>
+      <DropdownMenuPrimitive.Trigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Live data provider">
+          <RadioTower className="size-4" />
+        </Button>
+      </DropdownMenuPrimitive.Trigger>
+      <DropdownMenuPrimitive.Portal>
+        <DropdownMenuPrimitive.Content
+          align="start"
+          sideOffset={8}
+          className="z-100 min-w-56 rounded-lg border border-neutral-500/20 bg-neutral-900/95 p-1 text-sm text-white shadow-xl backdrop-blur-sm"
+        >
+          <DropdownMenuPrimitive.Label className="px-2 py-1.5 text-[11px] font-semibold tracking-[0.14em] text-neutral-400 uppercase">
+            Live data
+          </DropdownMenuPrimitive.Label>
+          {(data?.providers ?? []).map((provider) => {
+            const isActive = provider.id === activeProviderId
+            const maxRadius = provider.capabilities.maxRadiusNm
+            return (
+              <DropdownMenuPrimitive.Item
+                key={provider.id}
+                disabled={!provider.configured}
+                onSelect={() => setProviderId(provider.id)}
+                className={cn(
+                  'flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 outline-none data-disabled:cursor-default data-disabled:opacity-40 data-highlighted:bg-white/8',
+                  isActive && 'text-cyan-200',
+                )}
+              >
+                <Check
+                  className={cn(
+                    'size-3.5',
+                    isActive ? 'opacity-100' : 'opacity-0',
+                  )}
+                />
+                <span className="flex-1">{provider.label}</span>
+                <span className="font-mono text-[10px] text-neutral-500">
+                  {provider.capabilities.queryModes.join('/')}
+                  {maxRadius != null ? ` ≤${maxRadius}nm` : ''}
+                </span>
+              </DropdownMenuPrimitive.Item>
+            )
+          })}
+          <DropdownMenuPrimitive.Separator className="my-1 h-px bg-white/10" />
+          <DropdownMenuPrimitive.Item
+            onSelect={() => setProviderId(CONVEX_PROVIDER_ID)}
+            className={cn(
+              'flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 outline-none data-highlighted:bg-white/8',
+              activeProviderId === CONVEX_PROVIDER_ID && 'text-cyan-200',
+            )}
+          >
+            <Check
+              className={cn(
+                'size-3.5',
+                activeProviderId === CONVEX_PROVIDER_ID
+                  ? 'opacity-100'
+                  : 'opacity-0',
+              )}
+            />
+            <span className="flex-1">Convex</span>
+            <span className="font-mono text-[10px] text-neutral-500">
+              OpenSky ingest
+            </span>
+          </DropdownMenuPrimitive.Item>
+        </DropdownMenuPrimitive.Content>
+      </DropdownMenuPrimitive.Portal>
+    </DropdownMenuPrimitive.Root>
+  )
+}
@@ -1,21 +1,29 @@
 import { toast } from 'sonner'
 import type { AdsbAircraft } from './flights'
+import { getAircraftPhaseSample, updateFlightPhase } from '#/lib/flight-phase'
+import type { FlightPhase, FlightPhaseState } from '#/lib/flight-phase'
 
 export type NormalFlightManager = {
   clear: () => void
   getAircraft: (icao: string) => AdsbAircraft | null
   getAngle: (icao: string) => number | null
   getIcaos: () => string[]
+  getPhase: (icao: string) => FlightPhase | null
+  /** Current phase of every aircraft, keyed by lowercase icao24. */
+  getPhases: () => Map<string, FlightPhase>
   getPosition: (icao: string) => [number, number] | null
   setAircraft: (aircraft: AdsbAircraft[]) => void
 }
 
 export function createNormalFlightManager(): NormalFlightManager {
   const aircraftByIcao = new Map<string, AdsbAircraft>()
+  // Kept across updates: the classifier needs each aircraft's history.
+  const phaseStateByIcao = new Map<string, FlightPhaseState>()
 
   return {
     clear() {
       aircraftByIcao.clear()
+      phaseStateByIcao.clear()
     },
 
     getAircraft(icao) {
@@ -31,6 +39,18 @@ export function createNormalFlightManager(): NormalFlightManager {
       return Array.from(aircraftByIcao.keys())
     },
 
+    getPhase(icao) {
+      return phaseStateByIcao.get(icao.toLowerCase())?.phase ?? null
+    },
+
+    getPhases() {
+      const phases = new Map<string, FlightPhase>()
+      for (const [icao, state] of phaseStateByIcao) {
+        phases.set(icao, state.phase)
+      }
+      return phases
+    },
+
     getPosition(icao) {
       const aircraft = aircraftByIcao.get(icao.toLowerCase())
       return aircraft ? [aircraft.lon, aircraft.lat] : null
@@ -39,8 +59,20 @@ export function createNormalFlightManager(): NormalFlightManager {
     setAircraft(aircraft) {
       aircraftByIcao.clear()
 
+      const now = Date.now()
       for (const item of aircraft) {
-        aircraftByIcao.set(item.hex.toLowerCase(), item)
+        const icao = item.hex.toLowerCase()
+        aircraftByIcao.set(icao, item)
+        phaseStateByIcao.set(
+          icao,
+          updateFlightPhase(
+            phaseStateByIcao.get(icao) ?? null,
+            getAircraftPhaseSample(item, now),
+          ),
+        )
+      }
+      for (const icao of phaseStateByIcao.keys()) {
+        if (!aircraftByIcao.has(icao)) phaseStateByIcao.delete(icao)
       }
     },
   }
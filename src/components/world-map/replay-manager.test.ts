@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import {
+  detectFlightEvents,
+  getLatestFlightEvents,
+} from '../../../convex/lib/routeInference'
+import { createReplayManager, traceToRouteSamples } from './replay-manager'
+import type { CondensedTrace, Trace } from '#/actions/adsbexchange/traces'
+
+/** 2024-06-01 00:00 UTC, in seconds like trace timestamps. */
+const DAY_START_SEC = 1_717_200_000
+
+function condensedTrace(trace: CondensedTrace['trace']): CondensedTrace {
+  return {
+    icao: '4ca7b5',
+    r: 'EI-ABC',
+    t: 'B738',
+    desc: 'BOEING 737-800',
+    timestamp: DAY_START_SEC,
+    trace,
+  }
+}
+
+describe('traceToRouteSamples', () => {
+  it('reads condensed points relative to the trace timestamp', () => {
+    const samples = traceToRouteSamples(
+      condensedTrace([
+        [0, 53.42, -6.27, 0, 12, 280],
+        [60, 53.43, -6.3, 1500, 160, 280, 2000],
+        [120, 53.45, -6.35, null, 200, 280],
+      ]),
+    )
+    expect(samples).toEqual([
+      {
+        time: DAY_START_SEC * 1000,
+        lat: 53.42,
+        lon: -6.27,
+        altitude: null,
+        groundSpeed: 12,
+        onGround: true,
+      },
+      {
+        time: (DAY_START_SEC + 60) * 1000,
+        lat: 53.43,
+        lon: -6.3,
+        altitude: 1500,
+        groundSpeed: 160,
+        onGround: false,
+      },
+      {
+        time: (DAY_START_SEC + 120) * 1000,
+        lat: 53.45,
+        lon: -6.35,
+        altitude: null,
+        groundSpeed: 200,
+        onGround: undefined,
+      },
+    ])
+  })
+
+  it("reads 'ground' altitudes and absolute times from full traces", () => {
+    const point = (
+      time: number,
+      altitude: number | string,
+    ): Trace['trace'][number] => [
+      time,
+      53.42,
+      -6.27,
+      altitude,
+      10,
+      0,
+      0,
+      null,
+      null,
+      'adsb_icao',
+      null,
+      null,
+      null,
+      null,
+    ]
+    const trace: Trace = {
+      ...condensedTrace([]),
+      dbFlags: 0,
+      ownOp: '',
+      year: '',
+      trace: [point(DAY_START_SEC + 30, 'ground'), point(45, 800)],
+    }
+    expect(
+      traceToRouteSamples(trace).map(({ time, altitude, onGround }) => ({
+        time,
+        altitude,
+        onGround,
+      })),
+    ).toEqual([
+      { time: (DAY_START_SEC + 30) * 1000, altitude: null, onGround: true },
+      { time: (DAY_START_SEC + 45) * 1000, altitude: 800, onGround: false },
+    ])
+  })
+
+  it('gives route inference the takeoff and landing of a replayed flight', () => {
+    const trace = condensedTrace([
+      [0, 53.42, -6.27, 0, 15, 280],
+      [60, 53.43, -6.3, 1200, 150, 280],
+      [1800, 52, -3, 35000, 450, 120],
+      [3600, 51.47, -0.45, 1000, 140, 90],
+      [3660, 51.47, -0.46, 0, 30, 90],
+    ])
+    const { takeoff, landing } = getLatestFlightEvents(
+      detectFlightEvents(traceToRouteSamples(trace), DAY_START_SEC * 1000),
+    )
+    expect(takeoff).toMatchObject({
+      lat: 53.42,
+      time: DAY_START_SEC * 1000,
+      evidence: 'transition',
+    })
+    expect(landing).toMatchObject({
+      lat: 51.47,
+      time: (DAY_START_SEC + 3660) * 1000,
+      evidence: 'transition',
+    })
+  })
+})
+
+describe('createReplayManager', () => {
+  it('keeps each loaded trace for the selected-flight sheet', () => {
+    const trace = condensedTrace([[0, 53.42, -6.27, 0, 12, 280]])
+    const manager = createReplayManager()
+    manager.setTraces([trace])
+    expect(manager.getTrace('4CA7B5')).toBe(trace)
+    expect(manager.getTrace('000000')).toBeNull()
+  })
+})
@@ -1,10 +1,21 @@
-import type { Trace } from '#/actions/adsbexchange/traces'
+import type { CondensedTrace, Trace } from '#/actions/adsbexchange/traces'
+import { FLIGHT_PHASES, classifyFlightPhases } from '#/lib/flight-phase'
+import type { FlightPhase, FlightPhaseSample } from '#/lib/flight-phase'
+import type { RouteSample } from '../../../convex/lib/routeInference'
 
 type TrackSeries = {
   t: Float64Array
   lat: Float32Array
   lon: Float32Array
   trk: Float32Array | null
+  /** Index into FLIGHT_PHASES per sample. */
+  phase: Uint8Array
+  /** ICAO type designator from the trace, for marker sizing. */
+  typeCode: string | null
+  /** Registration from the trace, for watchlist matching. */
+  registration: string | null
+  /** The trace this series was built from, for route inference. */
+  source: CondensedTrace
   lastIdx: number
   minTimestamp: number
   maxTimestamp: number
@@ -21,7 +32,12 @@ export type ReplayManager = {
   getLoadedRange: () => [number, number] | null
   getPosition: (icao: string, tsMs: number) => [number, number] | null
   getAngle: (icao: string, tsMs: number) => number | null
-  setTraces: (traces: Trace[]) => void
+  getPhase: (icao: string, tsMs: number) => FlightPhase | null
+  getTypeCode: (icao: string) => string | null
+  getRegistration: (icao: string) => string | null
+  /** The loaded trace, for route inference in the selected-flight sheet. */
+  getTrace: (icao: string) => CondensedTrace | null
+  setTraces: (traces: CondensedTrace[]) => void
 }
 
 function normalizeTimestampMs(baseTimestampSec: number, sampleTimestamp: number) {
@@ -49,7 +65,39 @@ function lerpLongitude(start: number, end: number, alpha: number) {
   return ((next + 540) % 360) - 180
 }
 
-function normalizeTrace(trace: Trace): TrackSeries | null {
+/**
+ * A full or condensed trace as route inference samples. Altitude is reported
+ * as 'ground' in full traces and as 0 in condensed ones.
+ */
+export function traceToRouteSamples(
+  trace: Trace | CondensedTrace,
+): RouteSample[] {
+  const samples: RouteSample[] = []
+  for (const row of trace.trace) {
+    const time = normalizeTimestampMs(trace.timestamp, row[0])
+    if (
+      !Number.isFinite(time) ||
+      !Number.isFinite(row[1]) ||
+      !Number.isFinite(row[2])
+    ) {
+      continue
+    }
+    const altitude = row[3]
+    const onGround = altitude === 'ground' || altitude === 0
+    samples.push({
+      time,
+      lat: row[1],
+      lon: row[2],
+      altitude: !onGround && typeof altitude === 'number' ? altitude : null,
+      groundSpeed: Number.isFinite(row[4]) ? row[4] : null,
+      // A missing altitude says nothing about the surface state.
+      onGround: altitude == null ? undefined : onGround,
+    })
+  }
+  return samples
+}
+
+function normalizeTrace(trace: CondensedTrace): TrackSeries | null {
   const sampleCount = trace.trace.length
   if (sampleCount === 0) return null
 
@@ -57,6 +105,7 @@ function normalizeTrace(trace: Trace): TrackSeries | null {
   const latitudes = new Float32Array(sampleCount)
   const longitudes = new Float32Array(sampleCount)
   const tracks = new Float32Array(sampleCount)
+  const phaseSamples: FlightPhaseSample[] = []
 
   let validCount = 0
 
@@ -78,6 +127,13 @@ function normalizeTrace(trace: Trace): TrackSeries | null {
     latitudes[validCount] = latitude
     longitudes[validCount] = longitude
     tracks[validCount] = Number.isFinite(track) ? track : Number.NaN
+    phaseSamples.push({
+      time: timestampMs,
+      onGround: row[3] === 0,
+      altitude: row[3],
+      verticalRate: row[6] ?? null,
+      groundSpeed: Number.isFinite(row[4]) ? row[4] : null,
+    })
     validCount += 1
   }
 
@@ -87,12 +143,19 @@ function normalizeTrace(trace: Trace): TrackSeries | null {
   const normalizedLatitudes = latitudes.slice(0, validCount)
   const normalizedLongitudes = longitudes.slice(0, validCount)
   const normalizedTracks = tracks.slice(0, validCount)
+  const phases = Uint8Array.from(classifyFlightPhases(phaseSamples), (phase) =>
+    FLIGHT_PHASES.indexOf(phase),
+  )
 
   return {
     t: normalizedTimestamps,
     lat: normalizedLatitudes,
     lon: normalizedLongitudes,
     trk: normalizedTracks,
+    phase: phases,
+    typeCode: trace.t || null,
+    registration: trace.r || null,
+    source: trace,
     lastIdx: 0,
     minTimestamp: normalizedTimestamps[0],
     maxTimestamp: normalizedTimestamps[validCount - 1],
@@ -220,6 +283,35 @@ export function createReplayManager(): ReplayManager {
       )
     },
 
+    getPhase(icao, timestampMs) {
+      const series = seriesByIcao.get(icao.toLowerCase())
+      if (
+        !series ||
+        timestampMs < series.minTimestamp ||
+        timestampMs > series.maxTimestamp
+      ) {
+        return null
+      }
+      // Phases change at samples; use the latest sample at or before now.
+      const index =
+        series.t.length === 1 ? 0 : findBracketIndex(series, timestampMs)
+      const sampleIndex =
+        series.t[index + 1] === timestampMs ? index + 1 : index
+      return FLIGHT_PHASES[series.phase[sampleIndex]]
+    },
+
+    getTypeCode(icao) {
+      return seriesByIcao.get(icao.toLowerCase())?.typeCode ?? null
+    },
+
+    getRegistration(icao) {
+      return seriesByIcao.get(icao.toLowerCase())?.registration ?? null
+    },
+
+    getTrace(icao) {
+      return seriesByIcao.get(icao.toLowerCase())?.source ?? null
+    },
+
     setTraces(traces) {
       seriesByIcao.clear()
       loadedRange = null
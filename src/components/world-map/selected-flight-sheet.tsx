@@ -24,11 +24,25 @@ import {
   formatTimeForDisplay,
   parseUtc,
 } from '#/lib/flight-time'
+import { getFlagEmoji, getIcaoCountry } from '#/lib/icao-country'
+import { getAirlineFromCallsign, getIataFlightNumber } from '#/lib/airlines'
+import { WAKE_CATEGORY_LABELS, getAircraftTypeInfo } from '#/lib/aircraft-types'
 import type { AerodataboxFlight } from '#/actions/aerodatabox/flight'
+import type { CondensedTrace } from '#/actions/adsbexchange/traces'
 import type { AdsbAircraft } from '#/components/world-map/flights'
+import { getCallsign } from '#/components/world-map/flights'
 import { useFlightsStore } from '#/store/flights-store'
 import { useSelectedFlightStore } from '#/store/selected-flight.store'
 import { useSelectedFlightData } from './use-selected-flight-data'
+import {
+  mergeAircraftDetail,
+  useLiveAircraftDetail,
+} from './use-live-aircraft-detail'
+import { useInferredRoute } from './use-inferred-route'
+import { useAircraftRecord } from './use-aircraft-record'
+import { applyAircraftRecord } from './aircraft-registry'
+import { FlightPhaseBadge, useFlightPhase } from './flight-phase-badge'
+import type { InferredAirport, InferredRoute } from '../../../convex/routes'
 import {
   Sheet,
   SheetContent,
@@ -101,6 +115,8 @@ function MetricCard({
 type SectionProps = {
   aerodataFlight: AerodataboxFlight | null
   selectedAircraft: AdsbAircraft | null
+  /** Estimated from ADS-B history; only loaded when there is no schedule. */
+  inferredRoute: InferredRoute | null
 }
 
 /** Derive status from Aerodatabox when available, else ADS-B altitude */
@@ -142,7 +158,12 @@ function HeaderSection({
   selectedAircraft,
   onClose,
 }: SectionProps & { onClose: () => void }) {
-  if (!selectedAircraft || !aerodataFlight) {
+  const aerodataStaleSince = useSelectedFlightStore(
+    (state) => state.aerodataStaleSince,
+  )
+  const phase = useFlightPhase(selectedAircraft?.hex)
+
+  if (!selectedAircraft) {
     return (
       <div className="text-sm text-neutral-400">
         No flight data available.
@@ -154,8 +175,17 @@ function HeaderSection({
     selectedAircraft?.hex.toUpperCase() ??
     aerodataFlight?.aircraft?.modeS?.toUpperCase() ??
     ''
+  // Without an AeroDataBox match (or key), fall back to what the feed reports.
+  const title =
+    aerodataFlight?.number.replace(' ', '') ||
+    getCallsign(selectedAircraft) ||
+    icao24
   const statusLabel = getStatusLabel(aerodataFlight, selectedAircraft)
+  // Registry description when AeroDataBox has no model for the flight.
+  const aircraftType =
+    aerodataFlight?.aircraft?.model?.trim() || selectedAircraft.desc
   const hasStatus = aerodataFlight?.status?.trim() || selectedAircraft != null
+  const country = getIcaoCountry(selectedAircraft.hex)
 
   return (
     <>
@@ -163,7 +193,7 @@ function HeaderSection({
         <div className="flex-1 flex flex-col gap-2">
           <SheetTitle className="font-mono text-xl font-semibold text-white">
             {/* Flight number */}
-            {aerodataFlight.number.replace(' ', '')}
+            {title}
           </SheetTitle>
           <div className="flex flex-col items-start gap-1">
             <div className="text-xs text-neutral-500">
@@ -172,14 +202,38 @@ function HeaderSection({
                 {icao24}
               </span>
             </div>
-            {aerodataFlight?.aircraft?.model?.trim() && (
+            {country && (
+              <div className="text-xs text-neutral-500">
+                Registered in:{' '}
+                <span className="text-foreground/80 font-semibold">
+                  {getFlagEmoji(country.iso)} {country.name}
+                </span>
+              </div>
+            )}
+            {aircraftType && (
               <div className="text-xs text-neutral-500">
                 Aircraft Type:{' '}
                 <span className="text-foreground/80 font-semibold">
-                  {aerodataFlight.aircraft.model.trim()}
+                  {aircraftType}
+                </span>
+              </div>
+            )}
+            {selectedAircraft.ownOp && (
+              <div className="text-xs text-neutral-500">
+                Operator:{' '}
+                <span className="text-foreground/80 font-semibold">
+                  {selectedAircraft.ownOp}
+                  {selectedAircraft.year && ` · built ${selectedAircraft.year}`}
                 </span>
               </div>
             )}
+            {aerodataFlight && aerodataStaleSince != null && (
+              <div className="text-xs text-amber-300/80">
+                Schedule from cache (
+                {fmtRelativeTime((Date.now() - aerodataStaleSince) / 1000)}),
+                API budget exhausted
+              </div>
+            )}
           </div>
         </div>
 
@@ -202,6 +256,11 @@ function HeaderSection({
           {[selectedAircraft.r, selectedAircraft.t].filter(Boolean).join(' · ')}
         </div>
       )}
+      {phase && (
+        <div className="relative mt-2 ml-2 inline-flex items-center rounded-lg border border-white/10 bg-black/20 px-2.5 py-2 text-sm">
+          <FlightPhaseBadge phase={phase} />
+        </div>
+      )}
     </>
   )
 }
@@ -265,8 +324,72 @@ function DelayBadge({ minutes }: { minutes: number }) {
   )
 }
 
-function RouteSection({ aerodataFlight, selectedAircraft }: SectionProps) {
+function InferredAirportRow({
+  airport,
+  variant,
+}: {
+  airport: InferredAirport | null
+  variant: 'departure' | 'arrival'
+}) {
+  const Icon = variant === 'departure' ? PlaneTakeoff : PlaneLanding
+  const event = variant === 'departure' ? 'Took off' : 'Landed'
+  return (
+    <div className="flex min-w-0 items-center gap-2 text-sm">
+      <Icon className="size-4 shrink-0 text-neutral-500" />
+      {airport ? (
+        <>
+          <div className="min-w-0 flex-1 truncate">
+            <span className="font-bold text-white">
+              {airport.iata_code ?? airport.icao_code ?? airport.ident}
+            </span>
+            <span className="text-neutral-400">
+              {' '}
+              • {airport.name}
+            </span>
+            <span className="text-neutral-500">
+              {' '}
+              · {event} {fmtRelativeTime((Date.now() - airport.time) / 1000)}
+            </span>
+          </div>
+          <span className="shrink-0 rounded bg-neutral-800 px-1.5 py-0.5 text-[10px] font-semibold tabular-nums text-neutral-300">
+            {Math.round(airport.confidence * 100)}%
+          </span>
+        </>
+      ) : (
+        <span className="text-neutral-500">
+          {variant === 'departure' ? 'Departure not seen' : 'Not landed yet'}
+        </span>
+      )}
+    </div>
+  )
+}
+
+/** Route estimated from takeoff / landing events, for flights without a schedule. */
+function InferredRouteSection({ route }: { route: InferredRoute }) {
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="text-xs text-amber-300/80">
+        No schedule found. Airports estimated from the ADS-B track.
+      </div>
+      <InferredAirportRow airport={route.departure} variant="departure" />
+      <InferredAirportRow airport={route.arrival} variant="arrival" />
+    </div>
+  )
+}
+
+function hasInferredAirports(route: InferredRoute | null) {
+  return route != null && (route.departure != null || route.arrival != null)
+}
+
+function RouteSection({
+  aerodataFlight,
+  selectedAircraft,
+  inferredRoute,
+}: SectionProps) {
   if (!aerodataFlight) {
+    if (inferredRoute && hasInferredAirports(inferredRoute)) {
+      return <InferredRouteSection route={inferredRoute} />
+    }
     return (
       <div className="text-sm text-neutral-400">
         No route information available.
@@ -515,11 +638,14 @@ function MetricsSection({ selectedAircraft }: SectionProps) {
   )
 }
 
-function AirlineSection({ aerodataFlight }: SectionProps) {
-  if (!aerodataFlight?.airline) return null
+function AirlineSection({ aerodataFlight, selectedAircraft }: SectionProps) {
+  // Without an AeroDataBox match, name the airline from the callsign prefix.
+  const callsign = selectedAircraft ? getCallsign(selectedAircraft) : ''
+  const airline = aerodataFlight?.airline ?? getAirlineFromCallsign(callsign)
+  if (!airline) return null
 
-  const airline = aerodataFlight.airline
   const codes = [airline.iata, airline.icao].filter(Boolean).join(' · ')
+  const iataFlightNumber = aerodataFlight ? null : getIataFlightNumber(callsign)
 
   return (
     <div className="rounded-xl border border-white/10 bg-neutral-900/70 p-3.5">
@@ -532,7 +658,15 @@ function AirlineSection({ aerodataFlight }: SectionProps) {
         {codes && (
           <div className="text-xs font-mono text-neutral-500">{codes}</div>
         )}
-        {aerodataFlight.isCargo && (
+        {iataFlightNumber && (
+          <div className="text-xs text-neutral-500">
+            Likely flight{' '}
+            <span className="font-mono text-neutral-300">
+              {iataFlightNumber}
+            </span>
+          </div>
+        )}
+        {aerodataFlight?.isCargo && (
           <span className="inline-block rounded border border-amber-300/40 bg-amber-300/15 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-amber-200">
             Cargo
           </span>
@@ -542,6 +676,51 @@ function AirlineSection({ aerodataFlight }: SectionProps) {
   )
 }
 
+function AircraftTypeSection({ selectedAircraft }: SectionProps) {
+  const typeInfo = getAircraftTypeInfo(selectedAircraft?.t)
+  if (!typeInfo) return null
+
+  const isHelicopter = typeInfo.engineType === 'turboshaft'
+  const facts = [
+    { label: 'Wake category', value: WAKE_CATEGORY_LABELS[typeInfo.wake] },
+    {
+      label: isHelicopter ? 'Rotor diameter' : 'Wingspan',
+      value: `${typeInfo.wingspanM.toFixed(1)} m`,
+    },
+    {
+      label: 'Engines',
+      value: `${typeInfo.engines} × ${typeInfo.engineType}`,
+    },
+    { label: 'Typical cruise', value: `${typeInfo.cruiseKts} kts` },
+  ]
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-neutral-900/70 p-3.5">
+      <div className="mb-2 flex items-center gap-2 text-[11px] font-semibold tracking-[0.14em] text-neutral-400 uppercase">
+        <Plane className="size-3.5" />
+        Aircraft Type
+      </div>
+      <div className="mb-2 text-base font-semibold text-white">
+        {typeInfo.name}{' '}
+        <span className="font-mono text-xs text-neutral-500">
+          {typeInfo.typeCode}
+        </span>
+      </div>
+      <div className="space-y-2 text-sm text-neutral-300">
+        {facts.map((fact) => (
+          <div
+            key={fact.label}
+            className="flex items-center justify-between gap-3"
+          >
+            <span className="text-neutral-500">{fact.label}</span>
+            <span className="tabular-nums">{fact.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 function TimelineSection({ selectedAircraft }: SectionProps) {
   const lastContactAgo =
     selectedAircraft?.seen != null
@@ -576,7 +755,12 @@ function TimelineSection({ selectedAircraft }: SectionProps) {
   )
 }
 
-export function SelectedFlightSheet() {
+export function SelectedFlightSheet({
+  replayTrace = null,
+}: {
+  /** The selected aircraft's trace while replaying, for the inferred route. */
+  replayTrace?: CondensedTrace | null
+}) {
   const selectedIcao24 = useSelectedFlightStore((state) => state.selectedIcao24)
   const setSelectedIcao24 = useSelectedFlightStore(
     (state) => state.setSelectedIcao24,
@@ -586,9 +770,21 @@ export function SelectedFlightSheet() {
     (state) => state.aerodataLoading,
   )
   const aerodataError = useSelectedFlightStore((state) => state.aerodataError)
-  const selectedAircraft = useFlightsStore((state) =>
+  const liveAircraft = useFlightsStore((state) =>
     selectedIcao24 ? state.map.get(selectedIcao24) : null,
   )
+  const { data: aircraftDetail } = useLiveAircraftDetail(selectedIcao24)
+  const aircraftRecord = useAircraftRecord(selectedIcao24)
+  const selectedAircraft = liveAircraft
+    ? applyAircraftRecord(
+        mergeAircraftDetail(liveAircraft, aircraftDetail),
+        aircraftRecord,
+      )
+    : null
+  const inferredRoute = useInferredRoute(
+    aerodataLoading || aerodataFlight ? null : selectedIcao24,
+    replayTrace,
+  )
 
   useSelectedFlightData()
 
@@ -640,6 +836,7 @@ export function SelectedFlightSheet() {
   const sectionProps: SectionProps = {
     aerodataFlight,
     selectedAircraft: selectedAircraft ?? null,
+    inferredRoute,
   }
 
   return (
@@ -666,9 +863,15 @@ export function SelectedFlightSheet() {
         </SheetHeader>
 
         {!selectedAircraft ? (
-          <div className="m-4 rounded-xl border border-dashed border-neutral-700 bg-neutral-900/60 p-5 text-sm text-neutral-400">
-            Flight data is currently unavailable for this aircraft.
-          </div>
+          inferredRoute && hasInferredAirports(inferredRoute) ? (
+            <div className="m-4 rounded-xl border border-neutral-800 bg-neutral-900/80 p-4">
+              <InferredRouteSection route={inferredRoute} />
+            </div>
+          ) : (
+            <div className="m-4 rounded-xl border border-dashed border-neutral-700 bg-neutral-900/60 p-5 text-sm text-neutral-400">
+              Flight data is currently unavailable for this aircraft.
+            </div>
+          )
         ) : (
           <div className="space-y-4 overflow-y-auto p-4">
             <div className="rounded-xl border border-neutral-800 bg-neutral-900/80 p-4">
@@ -677,7 +880,7 @@ export function SelectedFlightSheet() {
                   <Loader2 className="size-4 animate-spin" />
                   Loading route…
                 </div>
-              ) : aerodataError ? (
+              ) : aerodataError && !hasInferredAirports(inferredRoute) ? (
                 <div className="text-sm text-amber-400">{aerodataError}</div>
               ) : (
                 <RouteSection {...sectionProps} />
@@ -685,6 +888,7 @@ export function SelectedFlightSheet() {
             </div>
 
             <AirlineSection {...sectionProps} />
+            <AircraftTypeSection {...sectionProps} />
             <MetricsSection {...sectionProps} />
             <TimelineSection {...sectionProps} />
           </div>
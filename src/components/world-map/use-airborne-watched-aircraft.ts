@@ -0,0 +1,67 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { getWatchedAircraftAction } from '#/actions/live-aircraft/aircraft'
+import { getAircraftPhaseSample } from '#/lib/flight-phase'
+import { useFlightsStore } from '#/store/flights-store'
+import { useLiveProviderStore } from '#/store/live-provider-store'
+import type { Doc } from '../../../convex/_generated/dataModel'
+import { CONVEX_PROVIDER_ID } from './convex-data-source'
+import type { AdsbAircraft } from './flights'
+import { useWatchedAircraft } from './use-watchlists'
+
+/** How often the world snapshot is searched for watched aircraft. */
+const GLOBAL_WATCH_REFRESH_MS = 30_000
+
+export type AirborneWatchedAircraft = {
+  icao: string
+  listNames: string[]
+  aircraft: AdsbAircraft
+}
+
+/**
+ * Watched aircraft in the air anywhere on the globe. The server matches the
+ * watchlists against its world snapshot; aircraft also in the viewport use
+ * the fresher record from the flights store.
+ */
+export function useAirborneWatchedAircraft(
+  watchlists: Doc<'watchlists'>[],
+): AirborneWatchedAircraft[] {
+  const selectedProviderId = useLiveProviderStore((state) => state.providerId)
+  // Convex rows cover the viewport only; the server's default provider has the world.
+  const providerId =
+    selectedProviderId === CONVEX_PROVIDER_ID ? null : selectedProviderId
+  const flightsMap = useFlightsStore((state) => state.map)
+  const viewportWatched = useWatchedAircraft(watchlists)
+  const watchedLists = useMemo(
+    () =>
+      watchlists
+        .filter((watchlist) => watchlist.entries.length > 0)
+        .map(({ name, entries }) => ({ name, entries })),
+    [watchlists],
+  )
+
+  const { data: globalWatched } = useQuery({
+    queryKey: ['watched-aircraft', providerId, watchedLists],
+    enabled: watchedLists.length > 0,
+    refetchInterval: GLOBAL_WATCH_REFRESH_MS,
+    queryFn: () =>
+      getWatchedAircraftAction({
+        data: { provider: providerId ?? undefined, watchlists: watchedLists },
+      }),
+  })
+
+  return useMemo(() => {
+    const watched = new Map<string, AirborneWatchedAircraft>()
+    for (const { aircraft, listNames } of globalWatched ?? []) {
+      const icao = aircraft.hex.toLowerCase()
+      watched.set(icao, { icao, listNames, aircraft })
+    }
+    for (const [icao, listNames] of viewportWatched) {
+      const aircraft = flightsMap.get(icao)
+      if (aircraft) watched.set(icao, { icao, listNames, aircraft })
+    }
+    return Array.from(watched.values()).filter(
+      ({ aircraft }) => !getAircraftPhaseSample(aircraft).onGround,
+    )
+  }, [flightsMap, globalWatched, viewportWatched])
+}
@@ -0,0 +1,15 @@
+import { useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { AircraftRecord } from '../../../convex/aircraftRegistryTypes'
+
+/**
+ * Registry record (registration, type, operator, ...) for one aircraft.
+ * Null while loading, when unknown, or when `icao24` is null.
+ */
+export function useAircraftRecord(
+  icao24: string | null,
+): AircraftRecord | null {
+  return (
+    useQuery(api.aircraftRegistry.get, icao24 ? { icao24 } : 'skip') ?? null
+  )
+}
@@ -1,5 +1,7 @@
 import { useMemo } from 'react'
 import type { AdsbAircraft } from './flights'
+import { getIcaoCountry } from '#/lib/icao-country'
+import { getAirlineFromCallsign, getIataFlightNumber } from '#/lib/airlines'
 
 function normalizeFlightNumber(value: string) {
   return value.replace(/\s+/g, '').toUpperCase()
@@ -16,6 +18,9 @@ export function useFlightSearchIndex(aircraft: AdsbAircraft[]) {
         aircraft: item,
         icao24: item.hex.trim().toUpperCase(),
         flightNumber: normalizeFlightNumber(item.flight ?? ""),
+        country: getIcaoCountry(item.hex),
+        airline: getAirlineFromCallsign(item.flight),
+        iataFlightNumber: getIataFlightNumber(item.flight) ?? '',
       })),
     [aircraft],
   )
@@ -32,7 +37,10 @@ export function searchFlightsLocally(
     .filter(
       (item) =>
         item.icao24.includes(normalizedQuery) ||
-        item.flightNumber.includes(normalizedQuery),
+        item.flightNumber.includes(normalizedQuery) ||
+        item.iataFlightNumber.includes(normalizedQuery) ||
+        isAirlineMatch(item, normalizedQuery) ||
+        isCountryMatch(item, normalizedQuery),
     )
     .sort((a, b) => {
       const scoreDiff =
@@ -43,14 +51,44 @@ export function searchFlightsLocally(
     .slice(0, 12)
 }
 
+/** Airline names and telephony callsigns match by prefix ("UNITED", "SPEEDBIRD"). */
+function isAirlineMatch(
+  item: ReturnType<typeof useFlightSearchIndex>[number],
+  query: string,
+) {
+  if (!item.airline) return false
+  return (
+    item.airline.name.toUpperCase().startsWith(query) ||
+    item.airline.telephony.startsWith(query)
+  )
+}
+
+/** Country names and ISO codes match by prefix ("GERM", "DE"). */
+function isCountryMatch(
+  item: ReturnType<typeof useFlightSearchIndex>[number],
+  query: string,
+) {
+  if (!item.country) return false
+  return (
+    item.country.name.toUpperCase().startsWith(query) ||
+    item.country.iso === query
+  )
+}
+
 function getSearchScore(
   item: ReturnType<typeof useFlightSearchIndex>[number],
   query: string,
 ) {
   if (item.icao24 === query) return 0
-  if (item.flightNumber === query) return 1
+  if (item.flightNumber === query || item.iataFlightNumber === query) return 1
   if (item.icao24.startsWith(query)) return 2
-  if (item.flightNumber.startsWith(query)) return 3
+  if (
+    item.flightNumber.startsWith(query) ||
+    item.iataFlightNumber.startsWith(query)
+  ) {
+    return 3
+  }
   if (item.icao24.includes(query)) return 4
-  return 5
+  if (item.flightNumber.includes(query)) return 5
+  return 6
 }
@@ -0,0 +1,17 @@
+import { useMemo } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { IdentifiedGeofence } from '#/lib/geofence'
+
+const EMPTY_GEOFENCES: IdentifiedGeofence[] = []
+
+/** Every geofence, kept live by the Convex subscription; empty while loading. */
+export function useGeofences(): IdentifiedGeofence[] {
+  const geofences = useQuery(api.geofences.list)
+  return useMemo(
+    () =>
+      geofences?.map((geofence) => ({ ...geofence, id: geofence._id })) ??
+      EMPTY_GEOFENCES,
+    [geofences],
+  )
+}
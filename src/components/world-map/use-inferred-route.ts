@@ -0,0 +1,60 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { InferredRoute } from '../../../convex/routes'
+import {
+  detectFlightEvents,
+  getLatestFlightEvents,
+} from '../../../convex/lib/routeInference'
+import type { CondensedTrace } from '#/actions/adsbexchange/traces'
+import { traceToRouteSamples } from './replay-manager'
+
+/** `now` is rounded to this so the inference query is not re-run every render. */
+const NOW_RESOLUTION_MS = 60_000
+
+function getRoundedNow() {
+  return Math.floor(Date.now() / NOW_RESOLUTION_MS) * NOW_RESOLUTION_MS
+}
+
+function useRoundedNow() {
+  const [now, setNow] = useState(getRoundedNow)
+  useEffect(() => {
+    const interval = setInterval(
+      () => setNow(getRoundedNow()),
+      NOW_RESOLUTION_MS,
+    )
+    return () => clearInterval(interval)
+  }, [])
+  return now
+}
+
+/**
+ * Departure / arrival airports estimated from the aircraft's stored position
+ * history, for flights without schedule data. With a replay trace, takeoff
+ * and landing are found in the trace instead and only matched to airports on
+ * the server. Pass null to skip the query.
+ */
+export function useInferredRoute(
+  icao24: string | null,
+  replayTrace: CondensedTrace | null = null,
+): InferredRoute | null {
+  const now = useRoundedNow()
+  const replayEvents = useMemo(
+    () =>
+      replayTrace
+        ? getLatestFlightEvents(
+            detectFlightEvents(traceToRouteSamples(replayTrace), now),
+          )
+        : null,
+    [now, replayTrace],
+  )
+  const liveRoute = useQuery(
+    api.routes.infer,
+    icao24 && !replayEvents ? { icao24, now } : 'skip',
+  )
+  const replayRoute = useQuery(
+    api.routes.matchEvents,
+    icao24 && replayEvents ? replayEvents : 'skip',
+  )
+  return (replayEvents ? replayRoute : liveRoute) ?? null
+}
@@ -0,0 +1,55 @@
+import { useQuery } from '@tanstack/react-query'
+import { getLiveAircraftDetailAction } from '#/actions/live-aircraft/aircraft'
+import { COMPACT_AIRCRAFT_FIELDS } from '#/lib/aircraft-codec'
+import { useLiveProviderStore } from '#/store/live-provider-store'
+import { CONVEX_PROVIDER_ID } from './convex-data-source'
+import type { AdsbAircraft } from './flights'
+
+const DETAIL_REFRESH_MS = 5000
+
+/**
+ * Full record for a hovered or selected aircraft. The live stream only
+ * carries the compact wire fields, so detail fields (registration, source
+ * type, nav targets, ...) are fetched here, one aircraft at a time.
+ */
+export function useLiveAircraftDetail(hex: string | null | undefined) {
+  const selectedProviderId = useLiveProviderStore((state) => state.providerId)
+  // Convex rows are all there is; the server's default provider has the detail.
+  const providerId =
+    selectedProviderId === CONVEX_PROVIDER_ID ? null : selectedProviderId
+  return useQuery({
+    queryKey: ['live-aircraft-detail', providerId, hex],
+    enabled: !!hex,
+    refetchInterval: DETAIL_REFRESH_MS,
+    queryFn: () =>
+      hex
+        ? getLiveAircraftDetailAction({
+            data: { provider: providerId ?? undefined, hex },
+          })
+        : null,
+  })
+}
+
+/** Registry fields `aircraft` may carry that the provider's detail lacks. */
+const REGISTRY_FIELDS = ['r', 'desc', 'ownOp', 'year', 'dbFlags'] as const
+
+/**
+ * Detail fields from `detail`, live wire fields from `aircraft`. Registry
+ * enrichment on `aircraft` survives a detail record without those fields.
+ */
+export function mergeAircraftDetail(
+  aircraft: AdsbAircraft,
+  detail: AdsbAircraft | null | undefined,
+): AdsbAircraft {
+  if (!detail || detail.hex !== aircraft.hex) return aircraft
+  const merged = { ...detail }
+  for (const field of COMPACT_AIRCRAFT_FIELDS) {
+    Object.assign(merged, { [field]: aircraft[field] })
+  }
+  for (const field of REGISTRY_FIELDS) {
+    if (merged[field] == null || merged[field] === '') {
+      Object.assign(merged, { [field]: aircraft[field] })
+    }
+  }
+  return merged
+}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query'
+import { getLiveAircraftProvidersAction } from '#/actions/live-aircraft/aircraft'
+
+/** Registered live-aircraft providers and the server's default choice. */
+export function useLiveProviders() {
+  return useQuery({
+    queryKey: ['live-aircraft-providers'],
+    staleTime: Infinity,
+    queryFn: () => getLiveAircraftProvidersAction(),
+  })
+}
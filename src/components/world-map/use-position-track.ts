@@ -0,0 +1,26 @@
+import { useQuery } from 'convex/react'
+import { useMemo } from 'react'
+import { api } from '../../../convex/_generated/api'
+
+/** How far back the selected aircraft's flown trail reaches. */
+const TRACK_HOURS = 6
+
+/**
+ * Where an aircraft has actually been over the last few hours, as
+ * [lon, lat] points oldest first, from the Convex positions history.
+ * Empty until loaded or when nothing is stored for it.
+ */
+export function usePositionTrack(icao24: string | null) {
+  const positions = useQuery(
+    api.positions.track,
+    icao24 ? { icao24, hours: TRACK_HOURS } : 'skip',
+  )
+  return useMemo<[number, number][]>(
+    () =>
+      (positions ?? []).map((position) => [
+        position.longitude,
+        position.latitude,
+      ]),
+    [positions],
+  )
+}
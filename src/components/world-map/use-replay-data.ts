@@ -3,7 +3,7 @@ import {
   getTracesIndexAction,
   getTracesAction,
 } from '#/actions/adsbexchange/traces'
-import type { Trace } from '#/actions/adsbexchange/traces'
+import type { CondensedTrace } from '#/actions/adsbexchange/traces'
 import { useReplayTimelineStore } from '#/store/replay-timeline-store'
 import { createReplayManager } from './replay-manager'
 import type { ReplayManager } from './replay-manager'
@@ -59,7 +59,7 @@ export function useReplayData(): {
         })
 
         const max = Math.min(icaoList.length, REPLAY_MAX_TRACES_PER_DAY)
-        const traces: Trace[] = []
+        const traces: CondensedTrace[] = []
 
         setReplayLoadingProgress({ loaded: 0, total: max })
 
@@ -1,6 +1,16 @@
 import { useEffect } from 'react'
-import { getFlightByIcao24Action } from '#/actions/aerodatabox/flight'
+import {
+  getFlightByIcao24Action,
+  getFlightByNumberAction,
+} from '#/actions/aerodatabox/flight'
+import type {
+  AerodataboxFlight,
+  AerodataboxFlightLookup,
+} from '#/actions/aerodatabox/flight'
+import { getIataFlightNumber, parseCallsign } from '#/lib/airlines'
+import { useFlightsStore } from '#/store/flights-store'
 import { useSelectedFlightStore } from '#/store/selected-flight.store'
+import { getCallsign } from './flights'
 
 function createAbortError() {
   return new DOMException('The request was aborted.', 'AbortError')
@@ -33,12 +43,48 @@ function isAbortError(error: unknown) {
   return error instanceof DOMException && error.name === 'AbortError'
 }
 
+/** Whether `flight` is the one the aircraft's ICAO callsign announces. */
+function matchesCallsign(flight: AerodataboxFlight, callsign: string) {
+  if (!parseCallsign(callsign)) return false
+  const flightCallsign = flight.callSign?.replace(/\s+/g, '').toUpperCase()
+  if (flightCallsign === callsign.toUpperCase()) return true
+  const iataFlightNumber = getIataFlightNumber(callsign)
+  return (
+    iataFlightNumber != null &&
+    flight.number.replace(/\s+/g, '').toUpperCase() === iataFlightNumber
+  )
+}
+
+/**
+ * Flights for the aircraft by ICAO24; when AeroDataBox doesn't know the
+ * address (no flights, or an error such as a cached 4xx), by the IATA flight
+ * number derived from its callsign instead.
+ */
+async function lookupFlights(
+  icao24: string,
+  callsign: string,
+): Promise<AerodataboxFlightLookup> {
+  const iataFlightNumber = getIataFlightNumber(callsign)
+  try {
+    const lookup = await getFlightByIcao24Action({ data: { icao24 } })
+    if (lookup.flights.length > 0 || !iataFlightNumber) return lookup
+  } catch (error) {
+    if (!iataFlightNumber) throw error
+  }
+  return getFlightByNumberAction({ data: { number: iataFlightNumber } })
+}
+
 /**
  * Fetches Aerodatabox flight data when a flight is selected by ICAO24.
  * Updates aerodataFlight, aerodataLoading, and aerodataError in the selected-flight store.
  */
 export function useSelectedFlightData() {
   const selectedIcao24 = useSelectedFlightStore((state) => state.selectedIcao24)
+  // Callsigns can arrive a poll after selection; the lookup reruns when it does.
+  const selectedCallsign = useFlightsStore((state) => {
+    const aircraft = selectedIcao24 ? state.map.get(selectedIcao24) : undefined
+    return aircraft ? getCallsign(aircraft) : ''
+  })
   const setAerodataFlight = useSelectedFlightStore(
     (state) => state.setAerodataFlight,
   )
@@ -64,10 +110,10 @@ export function useSelectedFlightData() {
     setAerodataFlight(null)
 
     void abortable(
-      getFlightByIcao24Action({ data: { icao24: selectedIcao24 } }),
+      lookupFlights(selectedIcao24, selectedCallsign),
       abortController.signal,
     )
-      .then((flights) => {
+      .then(({ flights, stale, updatedAt }) => {
         const now = new Date()
         const sortedFlights = [...flights].sort((a, b) => {
           const aTime =
@@ -107,8 +153,16 @@ export function useSelectedFlightData() {
           sortedFlights.at(0) ??
           null
 
+        // Several legs can be airborne-looking at once; the callsign decides.
+        const callsignFlight = activeFlights.find((flight) =>
+          matchesCallsign(flight, selectedCallsign),
+        )
+
         if (abortController.signal.aborted) return
-        setAerodataFlight(activeFlights[0] ?? fallbackFlight)
+        setAerodataFlight(
+          callsignFlight ?? activeFlights.at(0) ?? fallbackFlight,
+          stale ? updatedAt : null,
+        )
       })
       .catch((error) => {
         if (isAbortError(error)) return
@@ -128,6 +182,7 @@ export function useSelectedFlightData() {
     }
   }, [
     selectedIcao24,
+    selectedCallsign,
     setAerodataFlight,
     setAerodataLoading,
     setAerodataError,
@@ -0,0 +1,34 @@
+import { useMemo } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import type { Doc } from '../../../convex/_generated/dataModel'
+import { useFlightsStore } from '#/store/flights-store'
+import { createWatchMatcher } from '#/lib/watchlists'
+
+const EMPTY_WATCHLISTS: Doc<'watchlists'>[] = []
+
+/** Every watchlist, kept live by the Convex subscription; empty while loading. */
+export function useWatchlists() {
+  return useQuery(api.watchlists.list) ?? EMPTY_WATCHLISTS
+}
+
+/**
+ * Aircraft in the flights store that match at least one watchlist, keyed
+ * by lowercase ICAO24 with the names of the matching lists.
+ */
+export function useWatchedAircraft(watchlists: Doc<'watchlists'>[]) {
+  const flightsMap = useFlightsStore((state) => state.map)
+  const matchWatchlists = useMemo(
+    () => createWatchMatcher(watchlists),
+    [watchlists],
+  )
+
+  return useMemo(() => {
+    const watched = new Map<string, string[]>()
+    for (const [icao, aircraft] of flightsMap) {
+      const names = matchWatchlists(aircraft)
+      if (names.length > 0) watched.set(icao, names)
+    }
+    return watched
+  }, [flightsMap, matchWatchlists])
+}
@@ -1,41 +1,97 @@
 import { startTransition, useEffect, useMemo, useRef, useState } from 'react'
-import { getAircraftAllAction, getNearbyAircraftAction } from '#/actions/adsbexchange/aircraft'
+import { useConvex } from 'convex/react'
+import {
+  getAircraftAllAction,
+  getLiveAircraftTilesAction,
+} from '#/actions/live-aircraft/aircraft'
+import type { LiveAircraftQuery } from '#/actions/live-aircraft/types'
 import type { AdsbAircraft } from './flights'
 import { createWorldMapDataSource } from './data-source'
+import {
+  CONVEX_PROVIDER_ID,
+  createConvexWorldMapDataSource,
+} from './convex-data-source'
 import type { WorldMapDataSnapshot, WorldMapDataSource } from './data-source'
 import { createNormalFlightManager } from './normal-flight-manager'
+import { createAircraftRegistry } from './aircraft-registry'
+import { createEmergencyTracker } from './emergency-tracker'
+import type { EmergencyEpisode } from './emergency-tracker'
 import { useFlightsStore } from '#/store/flights-store'
+import { useFlightPhaseStore } from '#/store/flight-phase-store'
 import { useSelectedFlightStore } from '#/store/selected-flight.store'
+import { useEmergencyStore } from '#/store/emergency-store'
 import { toast } from 'sonner'
-import { REFRESH_INTERVAL_MS } from './world-map-config'
+import {
+  REFRESH_INTERVAL_MS,
+  STREAM_VIEWPORT_DEBOUNCE_MS,
+} from './world-map-config'
+import { createLiveAircraftStream } from './live-aircraft-stream'
 import { useCameraStateStore } from '#/store/camera-state-store'
+import { useLiveProviderStore } from '#/store/live-provider-store'
 import type { CameraState } from './map-legend'
+import {
+  boundsFromRadius,
+  haversineNm,
+  normalizeBounds,
+  normalizeLongitude,
+} from '#/lib/geo'
 
-function getViewportAircraftParams(cameraState: CameraState): {
-  lat: number
-  lon: number
-  dist: number
-} {
+function getViewportAircraftParams(cameraState: CameraState): LiveAircraftQuery {
   const { lon, lat } = cameraState
+  const bounds = normalizeBounds({
+    south: lat[0],
+    west: lon[0],
+    north: lat[1],
+    east: lon[1],
+  })
   const centerLat = (lat[0] + lat[1]) / 2
-  const centerLon = (lon[0] + lon[1]) / 2
-  const latSpanKm = Math.abs(lat[1] - lat[0]) * 111.32
-  const lonSpanKm =
-    Math.abs(lon[1] - lon[0]) * 111.32 * Math.cos((centerLat * Math.PI) / 180)
-  const dist = Math.max(
-    50,
-    Math.sqrt((latSpanKm / 2) ** 2 + (lonSpanKm / 2) ** 2) * 1.2,
-  )
-  return { lat: centerLat, lon: centerLon, dist }
+  const centerLon = normalizeLongitude((lon[0] + lon[1]) / 2)
+  return {
+    lat: centerLat,
+    lon: centerLon,
+    // Circle through the corners, for data sources that can't use the bounds.
+    dist: haversineNm(centerLat, centerLon, lat[1], normalizeLongitude(lon[1])),
+    bounds,
+  }
+}
+
+const STALE_TOAST_ID = 'live-aircraft-stale'
+const EMERGENCY_TOAST_DURATION_MS = 20_000
+
+/** One toast per episode; the episode id doubles as the toast id. */
+function notifyEmergency(episode: EmergencyEpisode) {
+  const notify = episode.severity === 'emergency' ? toast.error : toast.warning
+  const aircraftLabel = episode.callsign || episode.icao24.toUpperCase()
+  notify(`${aircraftLabel}: ${episode.label}`, {
+    id: episode.id,
+    duration:
+      episode.severity === 'emergency'
+        ? EMERGENCY_TOAST_DURATION_MS
+        : undefined,
+    action: {
+      label: 'Show',
+      onClick: () =>
+        useSelectedFlightStore.getState().setSelectedIcao24(episode.icao24),
+    },
+  })
 }
 
-function createDefaultWorldMapDataSource(): WorldMapDataSource {
+function createDefaultWorldMapDataSource(
+  providerId: string | null,
+): WorldMapDataSource {
   return createWorldMapDataSource({
-    loadAircraft: async ({ lat, lon, dist }: { lat: number, lon: number, dist: number }) => {
+    loadAircraft: async (query) => {
       const now = performance.now()
       // toast.info('Fetching nearby aircraft...')
       try {
-        const aircraft = await getNearbyAircraftAction({ data: { lat, lon, dist } })
+        const aircraft = await getLiveAircraftTilesAction({
+          data: {
+            provider: providerId ?? undefined,
+            bounds:
+              query.bounds ??
+              boundsFromRadius(query.lat, query.lon, query.dist),
+          },
+        })
         const duration = performance.now() - now
         // toast.success(`Nearby aircraft fetched successfully in ${(duration / 1000).toFixed(2)}s`)
         return aircraft
@@ -45,24 +101,35 @@ function createDefaultWorldMapDataSource(): WorldMapDataSource {
         return []
       }
     },
+    subscribeAircraft: ({ query, onAircraft, onStatus }) =>
+      createLiveAircraftStream({ providerId, query, onAircraft, onStatus }),
   })
 }
 
-
 export function useWorldMapData(
   dataSource?: WorldMapDataSource,
 ): WorldMapDataSnapshot {
   const selectedIcao24 = useSelectedFlightStore((state) => state.selectedIcao24)
+  const providerId = useLiveProviderStore((state) => state.providerId)
   const [aircraft, setAircraft] = useState<AdsbAircraft[]>([])
   const [lastUpdatedTimestamp, setLastUpdatedTimestamp] = useState(0)
   const [normalFlightIcaos, setNormalFlightIcaos] = useState<string[]>([])
   const [loading, setLoading] = useState(false)
 
-  const resolvedDataSource = useMemo(
-    () => dataSource ?? createDefaultWorldMapDataSource(),
-    [dataSource],
-  )
   const normalFlightManagerRef = useRef(createNormalFlightManager())
+  // Not cleared with the flight manager, so a provider switch doesn't re-alert.
+  const emergencyTrackerRef = useRef(createEmergencyTracker())
+  const convex = useConvex()
+  const resolvedDataSource = useMemo(() => {
+    if (dataSource) return dataSource
+    return providerId === CONVEX_PROVIDER_ID
+      ? createConvexWorldMapDataSource(convex)
+      : createDefaultWorldMapDataSource(providerId)
+  }, [convex, dataSource, providerId])
+  const aircraftRegistry = useMemo(
+    () => createAircraftRegistry(convex),
+    [convex],
+  )
 
   useEffect(() => {
     if (loading) return
@@ -71,6 +138,68 @@ export function useWorldMapData(
 
     // toast("useEffect[WorldMapData] triggered")
 
+    const applyAircraft = (feedAircraft: AdsbAircraft[]) => {
+      const nextUpdatedTimestamp = Date.now()
+      // Feeds often omit registration / type; fill them from the registry.
+      const nextAircraft = aircraftRegistry.enrich(feedAircraft)
+      normalFlightManagerRef.current.setAircraft(nextAircraft)
+      useFlightPhaseStore
+        .getState()
+        .setPhases(normalFlightManagerRef.current.getPhases())
+      const startedEmergencies =
+        emergencyTrackerRef.current.update(nextAircraft)
+      useEmergencyStore
+        .getState()
+        .setEpisodes(emergencyTrackerRef.current.getEpisodes())
+      startedEmergencies.forEach(notifyEmergency)
+      startTransition(() => {
+        setAircraft(nextAircraft)
+        setNormalFlightIcaos(normalFlightManagerRef.current.getIcaos())
+        setLastUpdatedTimestamp(nextUpdatedTimestamp)
+      })
+    }
+
+    if (resolvedDataSource.subscribeAircraft) {
+      const subscription = resolvedDataSource.subscribeAircraft({
+        query: getViewportAircraftParams(
+          useCameraStateStore.getState().cameraState,
+        ),
+        onAircraft: (nextAircraft) => {
+          if (!cancelled) applyAircraft(nextAircraft)
+        },
+        onStatus: ({ stale }) => {
+          if (cancelled) return
+          if (stale) {
+            toast.warning(
+              'Live data budget exhausted, showing cached positions',
+              { id: STALE_TOAST_ID },
+            )
+          } else {
+            toast.dismiss(STALE_TOAST_ID)
+          }
+        },
+      })
+
+      let viewportTimer: ReturnType<typeof setTimeout> | null = null
+      const unsubscribeCamera = useCameraStateStore.subscribe(
+        (state, previous) => {
+          if (state.cameraState === previous.cameraState) return
+          if (viewportTimer) clearTimeout(viewportTimer)
+          viewportTimer = setTimeout(() => {
+            subscription.setQuery(getViewportAircraftParams(state.cameraState))
+          }, STREAM_VIEWPORT_DEBOUNCE_MS)
+        },
+      )
+
+      return () => {
+        cancelled = true
+        if (viewportTimer) clearTimeout(viewportTimer)
+        unsubscribeCamera()
+        subscription.close()
+        normalFlightManagerRef.current.clear()
+      }
+    }
+
     const loadAircraft = async () => {
       try {
         setLoading(true)
@@ -78,15 +207,7 @@ export function useWorldMapData(
         const params = getViewportAircraftParams(cameraState)
         const nextAircraft = await resolvedDataSource.loadAircraft(params)
         // const nextAircraft = await resolvedDataSource.loadAircraft({ lat: 38, lon: 6, dist: 500 })
-        const nextUpdatedTimestamp = Date.now()
-        if (!cancelled) {
-          normalFlightManagerRef.current.setAircraft(nextAircraft)
-          startTransition(() => {
-            setAircraft(nextAircraft)
-            setNormalFlightIcaos(normalFlightManagerRef.current.getIcaos())
-            setLastUpdatedTimestamp(nextUpdatedTimestamp)
-          })
-        }
+        if (!cancelled) applyAircraft(nextAircraft)
       } catch (error) {
         console.error('ADSBExchange fetch failed:', error)
       } finally {
@@ -102,7 +223,7 @@ export function useWorldMapData(
       clearInterval(intervalId)
       normalFlightManagerRef.current.clear()
     }
-  }, [resolvedDataSource])
+  }, [aircraftRegistry, resolvedDataSource])
 
   useEffect(() => {
     useFlightsStore
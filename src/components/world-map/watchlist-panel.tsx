@@ -0,0 +1,222 @@
+import { useId, useState } from 'react'
+import type { FormEvent } from 'react'
+import { Popover as PopoverPrimitive } from 'radix-ui'
+import { useMutation } from 'convex/react'
+import { Eye, Plus, Trash2, X } from 'lucide-react'
+import { Button } from '#/components/ui/button'
+import { useSelectedFlightStore } from '#/store/selected-flight.store'
+import { api } from '../../../convex/_generated/api'
+import type { Doc } from '../../../convex/_generated/dataModel'
+import { WATCH_KINDS } from '../../../convex/watchlistsTypes'
+import type { WatchKind } from '../../../convex/watchlistsTypes'
+import { getCallsign } from './flights'
+import { useWatchlists } from './use-watchlists'
+import { useAirborneWatchedAircraft } from './use-airborne-watched-aircraft'
+
+const WATCH_KIND_LABELS: Record<WatchKind, string> = {
+  icao24: 'ICAO24',
+  registration: 'Registration',
+  callsign: 'Callsign',
+  typeCode: 'Type',
+}
+
+const WATCH_KIND_PLACEHOLDERS: Record<WatchKind, string> = {
+  icao24: 'a84d7b',
+  registration: 'N12345',
+  callsign: 'UAL123',
+  typeCode: 'A388',
+}
+
+const LABEL_CLASS_NAME =
+  'px-2 py-1.5 text-[11px] font-semibold tracking-[0.14em] text-neutral-400 uppercase'
+
+const INPUT_CLASS_NAME =
+  'min-w-0 flex-1 rounded-md border border-white/10 bg-white/5 px-2 py-1 text-sm text-white outline-none placeholder:text-white/35 focus:border-cyan-300/40'
+
+function WatchlistEntryForm({ watchlist }: { watchlist: Doc<'watchlists'> }) {
+  const addEntry = useMutation(api.watchlists.addEntry)
+  const [kind, setKind] = useState<WatchKind>('registration')
+  const [value, setValue] = useState('')
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (!value.trim()) return
+    void addEntry({ id: watchlist._id, kind, value })
+    setValue('')
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-1.5 flex gap-1.5">
+      <select
+        value={kind}
+        onChange={(event) => setKind(event.target.value as WatchKind)}
+        aria-label="Entry kind"
+        className="rounded-md border border-white/10 bg-neutral-900 px-1.5 py-1 text-xs text-neutral-300 outline-none"
+      >
+        {WATCH_KINDS.map((option) => (
+          <option key={option} value={option}>
+            {WATCH_KIND_LABELS[option]}
+          </option>
+        ))}
+      </select>
+      <input
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        placeholder={WATCH_KIND_PLACEHOLDERS[kind]}
+        aria-label={`${WATCH_KIND_LABELS[kind]} to watch`}
+        autoComplete="off"
+        spellCheck={false}
+        className={INPUT_CLASS_NAME}
+      />
+      <Button type="submit" variant="ghost" size="icon" aria-label="Add entry">
+        <Plus className="size-4" />
+      </Button>
+    </form>
+  )
+}
+
+function WatchlistCard({ watchlist }: { watchlist: Doc<'watchlists'> }) {
+  const removeWatchlist = useMutation(api.watchlists.remove)
+  const removeEntry = useMutation(api.watchlists.removeEntry)
+
+  return (
+    <div className="rounded-md border border-white/8 px-2 py-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate font-medium">{watchlist.name}</span>
+        <button
+          type="button"
+          onClick={() => void removeWatchlist({ id: watchlist._id })}
+          aria-label={`Delete ${watchlist.name}`}
+          className="cursor-pointer text-neutral-500 hover:text-red-300"
+        >
+          <Trash2 className="size-3.5" />
+        </button>
+      </div>
+      {watchlist.entries.length > 0 && (
+        <div className="mt-1.5 flex flex-wrap gap-1">
+          {watchlist.entries.map((entry) => (
+            <span
+              key={`${entry.kind}:${entry.value}`}
+              className="flex items-center gap-1 rounded-full border border-fuchsia-300/20 bg-fuchsia-300/10 py-0.5 pr-1 pl-2 font-mono text-[11px] text-fuchsia-100"
+            >
+              <span className="text-fuchsia-200/60">
+                {WATCH_KIND_LABELS[entry.kind]}
+              </span>
+              {entry.value}
+              <button
+                type="button"
+                onClick={() =>
+                  void removeEntry({ id: watchlist._id, ...entry })
+                }
+                aria-label={`Stop watching ${entry.value}`}
+                className="cursor-pointer rounded-full text-fuchsia-200/60 hover:text-white"
+              >
+                <X className="size-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <WatchlistEntryForm watchlist={watchlist} />
+    </div>
+  )
+}
+
+/**
+ * Toolbar popover for managing watchlists and jumping to watched aircraft
+ * that are airborne anywhere, found in the server's world snapshot. Lists
+ * update live through the Convex subscription.
+ */
+export function WatchlistPanel() {
+  const watchlists = useWatchlists()
+  const airborne = useAirborneWatchedAircraft(watchlists)
+  const setSelectedIcao24 = useSelectedFlightStore(
+    (state) => state.setSelectedIcao24,
+  )
+  const createWatchlist = useMutation(api.watchlists.create)
+  const [name, setName] = useState('')
+  const nameInputId = useId()
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault()
+    if (!name.trim()) return
+    void createWatchlist({ name })
+    setName('')
+  }
+
+  return (
+    <PopoverPrimitive.Root>
+      <PopoverPrimitive.Trigger asChild>
+        <Button
+          variant={airborne.length > 0 ? 'default' : 'ghost'}
+          size="icon"
+          aria-label="Watchlists"
+        >
+          <Eye className="size-4" />
+        </Button>
+      </PopoverPrimitive.Trigger>
+      <PopoverPrimitive.Portal>
+        <PopoverPrimitive.Content
+          align="start"
+          sideOffset={8}
+          className="z-100 max-h-[min(70vh,36rem)] w-80 overflow-y-auto rounded-lg border border-neutral-500/20 bg-neutral-900/95 p-1 text-sm text-white shadow-xl backdrop-blur-sm"
+        >
+          <div className={LABEL_CLASS_NAME}>Airborne now</div>
+          {airborne.length === 0 ? (
+            <div className="px-2 py-1.5 text-neutral-500">
+              No watched aircraft in the air
+            </div>
+          ) : (
+            airborne.map(({ icao, listNames, aircraft }) => (
+              <button
+                key={icao}
+                type="button"
+                onClick={() => setSelectedIcao24(icao)}
+                className="flex w-full cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 text-left hover:bg-white/8"
+              >
+                <span className="size-2 shrink-0 rounded-full bg-fuchsia-400" />
+                <span className="font-mono font-semibold">
+                  {getCallsign(aircraft) || icao}
+                </span>
+                <span className="flex-1 truncate text-neutral-400">
+                  {[aircraft.r, aircraft.t].filter(Boolean).join(' · ')}
+                </span>
+                <span className="truncate text-xs text-neutral-500">
+                  {listNames.join(', ')}
+                </span>
+              </button>
+            ))
+          )}
+          <div className="my-1 h-px bg-white/10" />
+          <div className={LABEL_CLASS_NAME}>Watchlists</div>
+          <div className="space-y-1.5 px-1 pb-1">
+            {watchlists.map((watchlist) => (
+              <WatchlistCard key={watchlist._id} watchlist={watchlist} />
+            ))}
+            <form onSubmit={handleCreate} className="flex gap-1.5 pt-0.5">
+              <label htmlFor={nameInputId} className="sr-only">
+                New watchlist name
+              </label>
+              <input
+                id={nameInputId}
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="New watchlist"
+                autoComplete="off"
+                className={INPUT_CLASS_NAME}
+              />
+              <Button
+                type="submit"
+                variant="ghost"
+                size="icon"
+                aria-label="Create watchlist"
+              >
+                <Plus className="size-4" />
+              </Button>
+            </form>
+          </div>
+        </PopoverPrimitive.Content>
+      </PopoverPrimitive.Portal>
+    </PopoverPrimitive.Root>
+  )
+}
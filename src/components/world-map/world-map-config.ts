@@ -44,4 +44,6 @@ export const WORLD_MAP_BACKGROUND_STYLE = {
   background: WORLD_MAP_COLORS.background,
 }
 
-export const REFRESH_INTERVAL_MS = 1500 // 10 seconds
\ No newline at end of file
+export const REFRESH_INTERVAL_MS = 1500 // 10 seconds
+/** Wait for the camera to settle before moving the live stream viewport. */
+export const STREAM_VIEWPORT_DEBOUNCE_MS = 300
\ No newline at end of file
@@ -4,7 +4,19 @@ import type { AdsbAircraft } from './flights'
 import type { NormalFlightManager } from './normal-flight-manager'
 import type { ReplayManager } from './replay-manager'
 import { getAircraftSizeScale } from './aircraft-size'
-import { WORLD_MAP_COLORS } from '@/lib/world-map-colors'
+import {
+  AIRCRAFT_SILHOUETTES,
+  getAircraftSilhouette,
+} from './aircraft-silhouette'
+import type { AircraftSilhouette } from './aircraft-silhouette'
+import {
+  AIRLINE_MARKER_COLORS,
+  FLIGHT_PHASE_COLORS,
+  WORLD_MAP_COLORS,
+} from '@/lib/world-map-colors'
+import type { FlightPhase } from '@/lib/flight-phase'
+import { getAirlineFromCallsign } from '@/lib/airlines'
+import type { MarkerColorMode } from '@/store/marker-color-store'
 
 const MARKER_SIZE_PX = 22
 const MARKER_MIN_SIZE_PX = 18
@@ -15,22 +27,46 @@ const ROUTE_STEPS = 64
 const MARKER_POSITION_TRANSITION_MS = 0
 const MARKER_ANGLE_TRANSITION_MS = 0
 
-const PLANE_SVG_PATH =
-  'M21 16.2632V14.3684L13.4211 9.63158V4.42105C13.4211 3.63474 12.7863 3 12 3C11.2137 3 10.5789 3.63474 10.5789 4.42105V9.63158L3 14.3684V16.2632L10.5789 13.8947V19.1053L8.68421 20.5263V21.9474L12 21L15.3158 21.9474V20.5263L13.4211 19.1053V13.8947L21 16.2632Z'
+/** 24×24 silhouettes, nose up; drawn as masks so markers keep their fill color. */
+const SILHOUETTE_SVG_PATHS: Record<AircraftSilhouette, string> = {
+  narrowbody:
+    'M21 16.2632V14.3684L13.4211 9.63158V4.42105C13.4211 3.63474 12.7863 3 12 3C11.2137 3 10.5789 3.63474 10.5789 4.42105V9.63158L3 14.3684V16.2632L10.5789 13.8947V19.1053L8.68421 20.5263V21.9474L12 21L15.3158 21.9474V20.5263L13.4211 19.1053V13.8947L21 16.2632Z',
+  widebody:
+    'M22.5 15.5V13.6L13.6 9.2V3.8C13.6 2.8 12.9 1.5 12 1.5C11.1 1.5 10.4 2.8 10.4 3.8V9.2L1.5 13.6V15.5L10.4 13.4V19.3L8.2 20.9V22.5L12 21.6L15.8 22.5V20.9L13.6 19.3V13.4Z',
+  quad: 'M22.5 15.5V13.6L13.6 9.2V3.8C13.6 2.8 12.9 1.5 12 1.5C11.1 1.5 10.4 2.8 10.4 3.8V9.2L1.5 13.6V15.5L10.4 13.4V19.3L8.2 20.9V22.5L12 21.6L15.8 22.5V20.9L13.6 19.3V13.4Z M4 12.4H5.4V14.8H4Z M7 10.9H8.4V13.3H7Z M18.6 12.4H20V14.8H18.6Z M15.6 10.9H17V13.3H15.6Z',
+  regional:
+    'M19 14.5V13.2L13.2 10.2V5C13.2 4 12.7 3 12 3C11.3 3 10.8 4 10.8 5V10.2L5 13.2V14.5L10.8 13V18.6L9 19.8V21.2L12 20.6L15 21.2V19.8L13.2 18.6V13Z M9.2 15.4H10.8V18.4H9.2Z M13.2 15.4H14.8V18.4H13.2Z',
+  turboprop:
+    'M11 3.5C11 2.7 11.5 2 12 2C12.5 2 13 2.7 13 3.5V9.5H21.5V11.5L13 12.2V18.5L15.5 19.5V21H8.5V19.5L11 18.5V12.2L2.5 11.5V9.5H11Z M6.3 7.5H7.9V12.5H6.3Z M16.1 7.5H17.7V12.5H16.1Z',
+  light:
+    'M11.2 5H12.8V9H22V11L12.8 11.3V18L15.5 18.8V20.5H8.5V18.8L11.2 18V11.3L2 11V9H11.2Z M9 3.6H15V4.8H9Z',
+  helicopter:
+    'M12 6.5C13.7 6.5 14.8 8 14.8 10.2C14.8 12.4 13.7 14 12 14C10.3 14 9.2 12.4 9.2 10.2C9.2 8 10.3 6.5 12 6.5Z M11.4 13.5H12.6V21H11.4Z M9.8 20H14.2V21.2H9.8Z M3.5 3.2L4.3 2.4L20.5 17.8L19.7 18.6Z M19.7 2.4L20.5 3.2L4.3 18.6L3.5 17.8Z',
+  glider:
+    'M11.4 4C11.4 3.3 11.7 2.5 12 2.5C12.3 2.5 12.6 3.3 12.6 4V9H23V10.4L12.6 10.9V19.5L14.8 20V21.3H9.2V20L11.4 19.5V10.9L1 10.4V9H11.4Z',
+  drone:
+    'M10 10H14V14H10Z M5.6 4.9L4.9 5.6L18.4 19.1L19.1 18.4Z M18.4 4.9L19.1 5.6L5.6 19.1L4.9 18.4Z M5 2.4A2.6 2.6 0 1 1 5 7.6A2.6 2.6 0 1 1 5 2.4Z M19 2.4A2.6 2.6 0 1 1 19 7.6A2.6 2.6 0 1 1 19 2.4Z M5 16.4A2.6 2.6 0 1 1 5 21.6A2.6 2.6 0 1 1 5 16.4Z M19 16.4A2.6 2.6 0 1 1 19 21.6A2.6 2.6 0 1 1 19 16.4Z',
+  ground:
+    'M8 4H16C16.6 4 17 4.4 17 5V19C17 19.6 16.6 20 16 20H8C7.4 20 7 19.6 7 19V5C7 4.4 7.4 4 8 4Z',
+}
 const PLANE_ATLAS_SIZE = 128
 const HIT_TARGET_SQUARE_SVG_PATH = 'M2 2H22V22H2Z'
 
-const PLANE_ICON_MAPPING = {
-  plane: {
-    x: 0,
-    y: 0,
-    width: PLANE_ATLAS_SIZE,
-    height: PLANE_ATLAS_SIZE,
-    anchorX: PLANE_ATLAS_SIZE / 2,
-    anchorY: PLANE_ATLAS_SIZE / 2,
-    mask: true,
-  },
-}
+/** One atlas cell per silhouette, left to right in AIRCRAFT_SILHOUETTES order. */
+const PLANE_ICON_MAPPING = Object.fromEntries(
+  AIRCRAFT_SILHOUETTES.map((silhouette, index) => [
+    silhouette,
+    {
+      x: index * PLANE_ATLAS_SIZE,
+      y: 0,
+      width: PLANE_ATLAS_SIZE,
+      height: PLANE_ATLAS_SIZE,
+      anchorX: PLANE_ATLAS_SIZE / 2,
+      anchorY: PLANE_ATLAS_SIZE / 2,
+      mask: true,
+    },
+  ]),
+)
 
 const HIT_TARGET_ICON_MAPPING = {
   hitTarget: {
@@ -44,13 +80,22 @@ const HIT_TARGET_ICON_MAPPING = {
   },
 }
 
-const PLANE_ICON_ATLAS = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
-  `<svg xmlns="http://www.w3.org/2000/svg" width="${PLANE_ATLAS_SIZE}" height="${PLANE_ATLAS_SIZE}" viewBox="0 0 24 24" fill="black"><path d="${PLANE_SVG_PATH}"/></svg>`,
-)}`
+function buildPlaneIconAtlas(pathAttributes: string) {
+  const cells = AIRCRAFT_SILHOUETTES.map(
+    (silhouette, index) =>
+      `<svg x="${index * PLANE_ATLAS_SIZE}" width="${PLANE_ATLAS_SIZE}" height="${PLANE_ATLAS_SIZE}" viewBox="0 0 24 24"><path d="${SILHOUETTE_SVG_PATHS[silhouette]}" ${pathAttributes}/></svg>`,
+  ).join('')
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${AIRCRAFT_SILHOUETTES.length * PLANE_ATLAS_SIZE}" height="${PLANE_ATLAS_SIZE}">${cells}</svg>`,
+  )}`
+}
 
-const PLANE_BORDER_ICON_ATLAS = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
-  `<svg xmlns="http://www.w3.org/2000/svg" width="${PLANE_ATLAS_SIZE}" height="${PLANE_ATLAS_SIZE}" viewBox="0 0 24 24"><path d="${PLANE_SVG_PATH}" fill="black" stroke="black" stroke-width="2.4" stroke-linejoin="round" stroke-linecap="round"/></svg>`,
-)}`
+const PLANE_ICON_ATLAS = buildPlaneIconAtlas('fill="black"')
+
+// Stroked outline drawn under the fill; the hit target stays a plain square.
+const PLANE_BORDER_ICON_ATLAS = buildPlaneIconAtlas(
+  'fill="black" stroke="black" stroke-width="2.4" stroke-linejoin="round" stroke-linecap="round"',
+)
 
 const HIT_TARGET_ICON_ATLAS = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
   `<svg xmlns="http://www.w3.org/2000/svg" width="${PLANE_ATLAS_SIZE}" height="${PLANE_ATLAS_SIZE}" viewBox="0 0 24 24"><path d="${HIT_TARGET_SQUARE_SVG_PATH}" fill="black"/></svg>`,
@@ -59,12 +104,22 @@ const HIT_TARGET_ICON_ATLAS = `data:image/svg+xml;charset=utf-8,${encodeURICompo
 const COLOR_MARKER = colorToRgba(WORLD_MAP_COLORS.marker, 255)
 const COLOR_MARKER_HOVER = colorToRgba(WORLD_MAP_COLORS.markerHover, 255)
 const COLOR_MARKER_SELECTED = colorToRgba(WORLD_MAP_COLORS.markerSelected, 255)
+const COLOR_MARKER_WATCHED = colorToRgba(WORLD_MAP_COLORS.markerWatched, 255)
 const COLOR_MARKER_BORDER = colorToRgba('#0a0a0a', 255)
 const COLOR_MARKER_BORDER_HOVER = colorToRgba(WORLD_MAP_COLORS.label, 255)
 const COLOR_MARKER_BORDER_SELECTED = colorToRgba(
   WORLD_MAP_COLORS.routeFuture,
   255,
 )
+const COLOR_MARKER_BY_PHASE = Object.fromEntries(
+  Object.entries(FLIGHT_PHASE_COLORS).map(([phase, color]) => [
+    phase,
+    colorToRgba(color, 255),
+  ]),
+) as Record<FlightPhase, [number, number, number, number]>
+const COLOR_MARKER_BY_AIRLINE = AIRLINE_MARKER_COLORS.map((color) =>
+  colorToRgba(color, 255),
+)
 
 export type RouteSegment = {
   path: [number, number][]
@@ -95,11 +150,22 @@ function colorToRgba(
   return [(int >> 16) & 255, (int >> 8) & 255, int & 255, alpha]
 }
 
+/** Stable color per airline designator; null for callsigns of unknown operators. */
+function getAirlineMarkerColor(callsign: string | null | undefined) {
+  const airline = getAirlineFromCallsign(callsign)
+  if (!airline) return null
+  let hash = 0
+  for (const char of airline.icao) hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  return COLOR_MARKER_BY_AIRLINE[hash % COLOR_MARKER_BY_AIRLINE.length]
+}
+
+/** `fill` replaces the plain marker color in the phase and airline color modes. */
 function getMarkerColor(
   aircraft: AdsbAircraft,
   selectedIcao24: string | null,
   hoveredIcao24: string | null,
   hideSelected = false,
+  fill: [number, number, number, number] | null = null,
 ): Uint8Array {
   const icao24 = aircraft.hex.toLowerCase()
   if (hideSelected && icao24 === selectedIcao24) {
@@ -111,7 +177,7 @@ function getMarkerColor(
   if (icao24 === hoveredIcao24) {
     return new Uint8Array(COLOR_MARKER_HOVER)
   }
-  return new Uint8Array(COLOR_MARKER)
+  return new Uint8Array(fill ?? COLOR_MARKER)
 }
 
 function getMarkerBorderColor(
@@ -140,7 +206,8 @@ function getMarkerSize(
   hideSelected = false,
 ) {
   const icao24 = aircraft.hex.toLowerCase()
-  const baseSize = MARKER_SIZE_PX * getAircraftSizeScale(aircraft.category)
+  const baseSize =
+    MARKER_SIZE_PX * getAircraftSizeScale(aircraft.category, aircraft.t)
 
   if (hideSelected && icao24 === selectedIcao24) return 0
   if (icao24 === selectedIcao24) return baseSize + 5
@@ -226,17 +293,39 @@ function pointsToSegments(
   return segments
 }
 
+function greatCirclePoints(
+  from: { lon: number; lat: number },
+  to: { lon: number; lat: number },
+): [number, number][] {
+  return Array.from({ length: ROUTE_STEPS + 1 }, (_, index) =>
+    greatCirclePoint(from.lon, from.lat, to.lon, to.lat, index / ROUTE_STEPS),
+  )
+}
+
 export function buildRouteSegments(params: {
   departureLocation?: { lon: number; lat: number }
   arrivalLocation?: { lon: number; lat: number }
   currentPosition?: { lon: number; lat: number }
   track?: number
+  /** Positions actually flown, oldest first; replaces the estimated past leg. */
+  trail?: [number, number][]
 }): RouteSegment[] {
-  const { departureLocation, arrivalLocation, currentPosition } = params
+  const { departureLocation, arrivalLocation, currentPosition, trail } = params
 
   const segments: RouteSegment[] = []
 
-  if (departureLocation && currentPosition) {
+  if (trail && trail.length > 0 && currentPosition) {
+    const [trailStartLon, trailStartLat] = trail[0]
+    // The stored history may start mid-flight; bridge the gap from departure.
+    const pastPoints: [number, number][] = departureLocation
+      ? greatCirclePoints(departureLocation, {
+          lon: trailStartLon,
+          lat: trailStartLat,
+        })
+      : []
+    pastPoints.push(...trail, [currentPosition.lon, currentPosition.lat])
+    segments.push(...pointsToSegments(pastPoints, 'past'))
+  } else if (departureLocation && currentPosition) {
     const pastPoints: [number, number][] = Array.from(
       { length: ROUTE_STEPS + 1 },
       (_, index) =>
@@ -288,6 +377,7 @@ export function buildRouteSegments(params: {
 }
 
 export function createWorldMapLayers({
+  colorMode,
   hoveredIcao24,
   lastUpdatedTimestamp,
   normalFlightIcaos,
@@ -297,7 +387,9 @@ export function createWorldMapLayers({
   routeSegments,
   selectedAircraft,
   selectedIcao24,
+  watchedIcaos,
 }: {
+  colorMode: MarkerColorMode
   hoveredIcao24: string | null
   lastUpdatedTimestamp: number
   normalFlightIcaos: string[]
@@ -307,7 +399,20 @@ export function createWorldMapLayers({
   routeSegments: RouteSegment[]
   selectedAircraft: AdsbAircraft | null
   selectedIcao24: string | null
+  /** Watchlist matches; drawn in the watched color whatever the color mode. */
+  watchedIcaos: Set<string>
 }) {
+  const getIcon = (icao: string) => {
+    const item = normalFlightManager.getAircraft(icao)
+    return item ? getAircraftSilhouette(item.category, item.t) : 'narrowbody'
+  }
+  const getFill = (icao: string, aircraft: AdsbAircraft) => {
+    if (watchedIcaos.has(icao)) return COLOR_MARKER_WATCHED
+    if (colorMode === 'airline') return getAirlineMarkerColor(aircraft.flight)
+    if (colorMode !== 'phase') return null
+    const phase = normalFlightManager.getPhase(icao)
+    return phase ? COLOR_MARKER_BY_PHASE[phase] : null
+  }
   const markerTransitions = {
     getAngle: {
       duration: MARKER_ANGLE_TRANSITION_MS,
@@ -343,7 +448,7 @@ export function createWorldMapLayers({
       pickable: false,
       iconAtlas: PLANE_BORDER_ICON_ATLAS,
       iconMapping: PLANE_ICON_MAPPING,
-      getIcon: () => 'plane',
+      getIcon,
       getPosition: (icao) => normalFlightManager.getPosition(icao) ?? [0, 0],
       getAngle: (icao) => -(normalFlightManager.getAngle(icao) ?? 0),
       getColor: (icao) => {
@@ -373,6 +478,8 @@ export function createWorldMapLayers({
       transitions: markerTransitions,
       updateTriggers: {
         getAngle: lastUpdatedTimestamp,
+        // Type codes can arrive later, from detail fetches or the registry.
+        getIcon: lastUpdatedTimestamp,
         getColor: [lastUpdatedTimestamp, selectedIcao24, hoveredIcao24],
         getPosition: lastUpdatedTimestamp,
         getSize: [lastUpdatedTimestamp, selectedIcao24, hoveredIcao24],
@@ -385,7 +492,7 @@ export function createWorldMapLayers({
       autoHighlight: false,
       iconAtlas: PLANE_ICON_ATLAS,
       iconMapping: PLANE_ICON_MAPPING,
-      getIcon: () => 'plane',
+      getIcon,
       getPosition: (icao) => {
         const position = normalFlightManager.getPosition(icao)
         if (!position) return [0, 0]
@@ -400,6 +507,7 @@ export function createWorldMapLayers({
           selectedIcao24,
           hoveredIcao24,
           hideSelectedInBaseLayers,
+          getFill(icao, item),
         )
       },
       getSize: (icao) => {
@@ -419,7 +527,14 @@ export function createWorldMapLayers({
       transitions: markerTransitions,
       updateTriggers: {
         getAngle: lastUpdatedTimestamp,
-        getColor: [lastUpdatedTimestamp, selectedIcao24, hoveredIcao24],
+        getIcon: lastUpdatedTimestamp,
+        getColor: [
+          lastUpdatedTimestamp,
+          selectedIcao24,
+          hoveredIcao24,
+          colorMode,
+          watchedIcaos,
+        ],
         getPosition: lastUpdatedTimestamp,
         getSize: [lastUpdatedTimestamp, selectedIcao24, hoveredIcao24],
       },
@@ -466,7 +581,8 @@ export function createWorldMapLayers({
       pickable: false,
       iconAtlas: PLANE_BORDER_ICON_ATLAS,
       iconMapping: PLANE_ICON_MAPPING,
-      getIcon: () => 'plane',
+      getIcon: (aircraft) =>
+        getAircraftSilhouette(aircraft.category, aircraft.t),
       getPosition: (item) => [item.lon, item.lat],
       getAngle: (item) => -item.track,
       getColor: (item) =>
@@ -488,7 +604,8 @@ export function createWorldMapLayers({
       autoHighlight: false,
       iconAtlas: PLANE_ICON_ATLAS,
       iconMapping: PLANE_ICON_MAPPING,
-      getIcon: () => 'plane',
+      getIcon: (aircraft) =>
+        getAircraftSilhouette(aircraft.category, aircraft.t),
       getPosition: (item) => [item.lon, item.lat],
       getAngle: (item) => -item.track,
       getColor: (item) => getMarkerColor(item, selectedIcao24, hoveredIcao24),
@@ -532,18 +649,47 @@ export function createWorldMapLayers({
 }
 
 export function createReplayMapLayers({
+  colorMode,
+  hiddenPhases,
   hoveredIcao24,
+  onSelect,
   replayIcaos,
   replayManager,
   selectedIcao24,
   timestampMs,
+  watchedIcaos,
 }: {
+  /** Traces carry no callsign, so airline mode falls back to the plain color. */
+  colorMode: MarkerColorMode
+  /** Replay phases change with the timestamp, so hidden markers get size 0. */
+  hiddenPhases: FlightPhase[]
   hoveredIcao24: string | null
+  onSelect: SelectHandler
   replayIcaos: string[]
   replayManager: ReplayManager
   selectedIcao24: string | null
   timestampMs: number
+  watchedIcaos: Set<string>
 }) {
+  const isHidden = (icao: string) => {
+    if (!replayManager.getPosition(icao, timestampMs)) return true
+    if (hiddenPhases.length === 0 || icao === selectedIcao24) return false
+    const phase = replayManager.getPhase(icao, timestampMs)
+    return phase != null && hiddenPhases.includes(phase)
+  }
+  // Traces carry no emitter category; shape and size come from the type.
+  const getIcon = (icao: string) =>
+    getAircraftSilhouette(null, replayManager.getTypeCode(icao))
+  const getSize = (icao: string) => {
+    if (isHidden(icao)) return 0
+    const baseSize =
+      MARKER_SIZE_PX *
+      getAircraftSizeScale(null, replayManager.getTypeCode(icao))
+    if (icao === selectedIcao24) return baseSize + 5
+    if (icao === hoveredIcao24) return baseSize + 3
+    return baseSize
+  }
+
   return [
     new IconLayer<string>({
       id: 'replay-flight-marker-borders',
@@ -551,7 +697,7 @@ export function createReplayMapLayers({
       pickable: false,
       iconAtlas: PLANE_BORDER_ICON_ATLAS,
       iconMapping: PLANE_ICON_MAPPING,
-      getIcon: () => 'plane',
+      getIcon,
       getPosition: (icao) =>
         replayManager.getPosition(icao, timestampMs) ?? [0, 0],
       getAngle: (icao) => -(replayManager.getAngle(icao, timestampMs) ?? 0),
@@ -563,12 +709,7 @@ export function createReplayMapLayers({
               ? COLOR_MARKER_BORDER_HOVER
               : COLOR_MARKER_BORDER,
         ),
-      getSize: (icao) => {
-        if (!replayManager.getPosition(icao, timestampMs)) return 0
-        if (icao === selectedIcao24) return MARKER_SIZE_PX + 5
-        if (icao === hoveredIcao24) return MARKER_SIZE_PX + 3
-        return MARKER_SIZE_PX
-      },
+      getSize,
       sizeUnits: 'pixels',
       sizeMinPixels: MARKER_MIN_SIZE_PX,
       sizeMaxPixels: MARKER_MAX_SIZE_PX,
@@ -577,42 +718,52 @@ export function createReplayMapLayers({
         getAngle: timestampMs,
         getColor: [selectedIcao24, hoveredIcao24],
         getPosition: timestampMs,
-        getSize: [timestampMs, selectedIcao24, hoveredIcao24],
+        getSize: [timestampMs, selectedIcao24, hoveredIcao24, hiddenPhases],
       },
     }),
     new IconLayer<string>({
       id: 'replay-flight-markers',
       data: replayIcaos,
-      pickable: false,
+      // Hidden markers have size 0, so only shown ones can be picked.
+      pickable: true,
       iconAtlas: PLANE_ICON_ATLAS,
       iconMapping: PLANE_ICON_MAPPING,
-      getIcon: () => 'plane',
+      getIcon,
       getPosition: (icao) =>
         replayManager.getPosition(icao, timestampMs) ?? [0, 0],
       getAngle: (icao) => -(replayManager.getAngle(icao, timestampMs) ?? 0),
-      getColor: (icao) =>
-        new Uint8Array(
-          icao === selectedIcao24
-            ? COLOR_MARKER_SELECTED
-            : icao === hoveredIcao24
-              ? COLOR_MARKER_HOVER
-              : COLOR_MARKER,
-        ),
-      getSize: (icao) => {
-        if (!replayManager.getPosition(icao, timestampMs)) return 0
-        if (icao === selectedIcao24) return MARKER_SIZE_PX + 5
-        if (icao === hoveredIcao24) return MARKER_SIZE_PX + 3
-        return MARKER_SIZE_PX
+      getColor: (icao) => {
+        if (icao === selectedIcao24)
+          return new Uint8Array(COLOR_MARKER_SELECTED)
+        if (icao === hoveredIcao24) return new Uint8Array(COLOR_MARKER_HOVER)
+        if (watchedIcaos.has(icao)) return new Uint8Array(COLOR_MARKER_WATCHED)
+        const phase =
+          colorMode === 'phase'
+            ? replayManager.getPhase(icao, timestampMs)
+            : null
+        return new Uint8Array(
+          phase ? COLOR_MARKER_BY_PHASE[phase] : COLOR_MARKER,
+        )
       },
+      getSize,
       sizeUnits: 'pixels',
       sizeMinPixels: MARKER_MIN_SIZE_PX,
       sizeMaxPixels: MARKER_MAX_SIZE_PX,
       alphaCutoff: 0.05,
       updateTriggers: {
         getAngle: timestampMs,
-        getColor: [selectedIcao24, hoveredIcao24],
+        getColor: [
+          timestampMs,
+          selectedIcao24,
+          hoveredIcao24,
+          colorMode,
+          watchedIcaos,
+        ],
         getPosition: timestampMs,
-        getSize: [timestampMs, selectedIcao24, hoveredIcao24],
+        getSize: [timestampMs, selectedIcao24, hoveredIcao24, hiddenPhases],
+      },
+      onClick: (info) => {
+        if (info.object) onSelect(info.object)
       },
     }),
   ]
@@ -2,6 +2,12 @@ import { PlayIcon, SearchIcon } from "lucide-react";
 import { Button } from "../ui/button";
 import { useFlightSearchStore } from "#/store/flight-search-store";
 import { useReplayTimelineStore } from "#/store/replay-timeline-store";
+import { LiveProviderSwitch } from "./live-provider-switch";
+import { FlightPhaseMenu } from "./flight-phase-menu";
+import { CountryFilterMenu } from "./country-filter-menu";
+import { WatchlistPanel } from "./watchlist-panel";
+import { EmergencyMenu } from "./emergency-menu";
+import { GeofencePanel } from "./geofence-panel";
 
 export function WorldMapToolbar() {
   const replayTimelineActive = useReplayTimelineStore((state) => state.active)
@@ -18,6 +24,12 @@ export function WorldMapToolbar() {
         <Button variant={searchOpen ? "default" : "ghost"} size="icon" onClick={() => setSearchOpen(!searchOpen)}>
           <SearchIcon className="size-4" />
         </Button>
+        <FlightPhaseMenu />
+        <CountryFilterMenu />
+        <WatchlistPanel />
+        <EmergencyMenu />
+        <GeofencePanel />
+        <LiveProviderSwitch />
       </div>
     </div>
   )
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { createAdsbAircraft } from '#/actions/live-aircraft/normalize'
+import {
+  createAircraftDeltaDecoder,
+  createAircraftDeltaEncoder,
+} from './aircraft-codec'
+
+function aircraft(hex: string, lat = 52, lon = 4) {
+  return createAdsbAircraft(hex, { lat, lon, flight: 'KLM1023 ' })
+}
+
+describe('aircraft delta codec', () => {
+  it('round-trips ICAO and non-ICAO hexes through successive frames', () => {
+    const encoder = createAircraftDeltaEncoder()
+    const decoder = createAircraftDeltaDecoder()
+
+    const first = decoder.apply(
+      encoder.encode([aircraft('4840d6'), aircraft('~4840d6', 10, 20)]),
+    )
+    expect(first.map((row) => row.hex).sort()).toEqual(['4840d6', '~4840d6'])
+    expect(first.find((row) => row.hex === '~4840d6')).toMatchObject({
+      lat: 10,
+      lon: 20,
+    })
+
+    const second = decoder.apply(encoder.encode([aircraft('~4840d6', 11, 20)]))
+    expect(second).toHaveLength(1)
+    expect(second[0]).toMatchObject({ hex: '~4840d6', lat: 11 })
+  })
+
+  it('leaves out hexes that are not exactly six digits', () => {
+    const encoder = createAircraftDeltaEncoder()
+    const decoder = createAircraftDeltaDecoder()
+    const rows = decoder.apply(
+      encoder.encode([
+        aircraft('abc'),
+        aircraft('000abc'),
+        aircraft('~12345'),
+        aircraft('4840d6f'),
+      ]),
+    )
+    expect(rows.map((row) => row.hex)).toEqual(['000abc'])
+  })
+})
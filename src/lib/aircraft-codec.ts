@@ -0,0 +1,465 @@
+/**
+ * Compact binary wire format for live aircraft.
+ *
+ * Only the fields the map renders are sent (COMPACT_AIRCRAFT_FIELDS); the rest
+ * are fetched per aircraft on demand. Frames are columnar: one hex column, a
+ * per-row change mask, then each field's values for the rows that changed,
+ * with strings (callsign, type, ...) interned in a per-frame string table.
+ * Every frame is a delta against the previous one (`baseSequence`); a decoder
+ * that sees a gap must resync from a reset frame.
+ *
+ * There is no acknowledgement from the client. One encoder serves one SSE
+ * connection, which delivers frames in order, so the last frame sent is the
+ * client's base. A reconnect opens a new stream with a new encoder whose
+ * first frame is a reset, and a decoder that detects a gap reconnects.
+ *
+ * Hexes are written as u32: the 24-bit address, with NON_ICAO_HEX_FLAG set
+ * for readsb's `~`-prefixed non-ICAO / TIS-B addresses.
+ *
+ * Layout (little endian):
+ *   u8 version, u8 flags (bit 0 = reset), u32 sequence, u32 baseSequence
+ *   u16 stringCount, { u8 byteLength, utf-8 bytes }[stringCount]
+ *   u32 upsertCount, u32 hex[upsertCount], u16 mask[upsertCount]
+ *   for each field in order: values of rows whose mask has the field's bit
+ *   u32 removedCount, u32 hex[removedCount]
+ */
+
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+
+const WIRE_VERSION = 2
+const FLAG_RESET = 1
+/** Above the 24 address bits: marks a `~` (non-ICAO) hex. */
+const NON_ICAO_HEX_FLAG = 0x1000000
+
+/** Exactly six digits: decoding pads to six, so shorter hexes would change. */
+const HEX_PATTERN = /^(~?)([0-9a-f]{6})$/
+
+/**
+ * Wire form of a lowercase hex, or null when it is not a (~)six-digit 24-bit
+ * address. Such aircraft are left out of the frame.
+ */
+function hexToWire(hex: string): number | null {
+  const match = HEX_PATTERN.exec(hex)
+  if (!match) return null
+  const address = Number.parseInt(match[2], 16)
+  return match[1] ? address | NON_ICAO_HEX_FLAG : address
+}
+
+function wireToHex(value: number) {
+  const hex = (value & 0xffffff).toString(16).padStart(6, '0')
+  return value & NON_ICAO_HEX_FLAG ? `~${hex}` : hex
+}
+
+type NumberFieldKind = 'f32' | 'u16x100' | 'u16x10' | 'i32' | 'i16'
+
+type FieldSpec =
+  | { key: CompactNumberField; kind: NumberFieldKind }
+  | { key: CompactStringField; kind: 'string' }
+
+type CompactNumberField =
+  | 'lat'
+  | 'lon'
+  | 'track'
+  | 'alt_baro'
+  | 'gs'
+  | 'baro_rate'
+  | 'seen_pos'
+type CompactStringField = 'flight' | 't' | 'category' | 'squawk' | 'emergency'
+
+const FIELD_SPECS: FieldSpec[] = [
+  { key: 'lat', kind: 'f32' },
+  { key: 'lon', kind: 'f32' },
+  { key: 'track', kind: 'u16x100' },
+  { key: 'alt_baro', kind: 'i32' },
+  { key: 'gs', kind: 'u16x10' },
+  { key: 'baro_rate', kind: 'i16' },
+  { key: 'seen_pos', kind: 'u16x10' },
+  { key: 'flight', kind: 'string' },
+  { key: 't', kind: 'string' },
+  { key: 'category', kind: 'string' },
+  { key: 'squawk', kind: 'string' },
+  { key: 'emergency', kind: 'string' },
+]
+
+/** Fields carried on the wire; everything else is detail, fetched lazily. */
+export const COMPACT_AIRCRAFT_FIELDS: Array<keyof AdsbAircraft> = [
+  'hex',
+  ...FIELD_SPECS.map((spec) => spec.key),
+]
+
+export type CompactAircraft = Pick<
+  AdsbAircraft,
+  'hex' | CompactNumberField | CompactStringField
+>
+
+// Sentinels for NaN ("unknown") in integer columns.
+const U16_MISSING = 0xffff
+const I16_MISSING = -0x8000
+const I32_MISSING = -0x80000000
+
+/** Rounds a value to what its column can represent, so change detection matches the wire. */
+function quantize(kind: NumberFieldKind, value: number) {
+  if (!Number.isFinite(value)) return Number.NaN
+  switch (kind) {
+    case 'f32':
+      return Math.fround(value)
+    case 'u16x100':
+      return (
+        Math.min(Math.max(Math.round(value * 100), 0), U16_MISSING - 1) / 100
+      )
+    case 'u16x10':
+      return Math.min(Math.max(Math.round(value * 10), 0), U16_MISSING - 1) / 10
+    case 'i32':
+      return Math.round(value)
+    case 'i16':
+      return Math.min(Math.max(Math.round(value), I16_MISSING + 1), 0x7fff)
+  }
+}
+
+function toCompactAircraft(aircraft: AdsbAircraft): CompactAircraft {
+  const compact = { hex: aircraft.hex.toLowerCase() } as CompactAircraft
+  for (const spec of FIELD_SPECS) {
+    if (spec.kind === 'string') {
+      compact[spec.key] = aircraft[spec.key] || ''
+    } else {
+      compact[spec.key] = quantize(spec.kind, aircraft[spec.key])
+    }
+  }
+  return compact
+}
+
+function createEmptyCompactAircraft(hex: string): CompactAircraft {
+  const compact = { hex } as CompactAircraft
+  for (const spec of FIELD_SPECS) {
+    if (spec.kind === 'string') compact[spec.key] = ''
+    else compact[spec.key] = Number.NaN
+  }
+  return compact
+}
+
+function isSameValue(a: number | string, b: number | string) {
+  return a === b || (Number.isNaN(a) && Number.isNaN(b))
+}
+
+function createWriter() {
+  let buffer = new ArrayBuffer(1024)
+  let view = new DataView(buffer)
+  let offset = 0
+
+  const reserve = (bytes: number) => {
+    if (offset + bytes <= buffer.byteLength) return
+    let size = buffer.byteLength * 2
+    while (offset + bytes > size) size *= 2
+    const next = new ArrayBuffer(size)
+    new Uint8Array(next).set(new Uint8Array(buffer, 0, offset))
+    buffer = next
+    view = new DataView(buffer)
+  }
+
+  return {
+    u8(value: number) {
+      reserve(1)
+      view.setUint8(offset, value)
+      offset += 1
+    },
+    u16(value: number) {
+      reserve(2)
+      view.setUint16(offset, value, true)
+      offset += 2
+    },
+    i16(value: number) {
+      reserve(2)
+      view.setInt16(offset, value, true)
+      offset += 2
+    },
+    u32(value: number) {
+      reserve(4)
+      view.setUint32(offset, value, true)
+      offset += 4
+    },
+    i32(value: number) {
+      reserve(4)
+      view.setInt32(offset, value, true)
+      offset += 4
+    },
+    f32(value: number) {
+      reserve(4)
+      view.setFloat32(offset, value, true)
+      offset += 4
+    },
+    bytes(value: Uint8Array) {
+      reserve(value.length)
+      new Uint8Array(buffer, offset, value.length).set(value)
+      offset += value.length
+    },
+    finish() {
+      return new Uint8Array(buffer.slice(0, offset))
+    },
+  }
+}
+
+function createReader(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 0
+  const advance = (size: number) => {
+    const start = offset
+    offset += size
+    if (offset > bytes.byteLength) {
+      throw new Error('Truncated aircraft frame')
+    }
+    return start
+  }
+
+  return {
+    u8: () => view.getUint8(advance(1)),
+    u16: () => view.getUint16(advance(2), true),
+    i16: () => view.getInt16(advance(2), true),
+    u32: () => view.getUint32(advance(4), true),
+    i32: () => view.getInt32(advance(4), true),
+    f32: () => view.getFloat32(advance(4), true),
+    bytes: (size: number) => {
+      const start = advance(size)
+      return bytes.subarray(start, start + size)
+    },
+  }
+}
+
+function writeNumber(
+  writer: ReturnType<typeof createWriter>,
+  kind: NumberFieldKind,
+  value: number,
+) {
+  const missing = Number.isNaN(value)
+  switch (kind) {
+    case 'f32':
+      writer.f32(value)
+      break
+    case 'u16x100':
+      writer.u16(missing ? U16_MISSING : Math.round(value * 100))
+      break
+    case 'u16x10':
+      writer.u16(missing ? U16_MISSING : Math.round(value * 10))
+      break
+    case 'i32':
+      writer.i32(missing ? I32_MISSING : value)
+      break
+    case 'i16':
+      writer.i16(missing ? I16_MISSING : value)
+      break
+  }
+}
+
+function readNumber(
+  reader: ReturnType<typeof createReader>,
+  kind: NumberFieldKind,
+) {
+  switch (kind) {
+    case 'f32':
+      return reader.f32()
+    case 'u16x100': {
+      const raw = reader.u16()
+      return raw === U16_MISSING ? Number.NaN : raw / 100
+    }
+    case 'u16x10': {
+      const raw = reader.u16()
+      return raw === U16_MISSING ? Number.NaN : raw / 10
+    }
+    case 'i32': {
+      const raw = reader.i32()
+      return raw === I32_MISSING ? Number.NaN : raw
+    }
+    case 'i16': {
+      const raw = reader.i16()
+      return raw === I16_MISSING ? Number.NaN : raw
+    }
+  }
+}
+
+/**
+ * Server side of a stream: remembers what the client was last sent and
+ * encodes each new aircraft set as a delta frame against it.
+ */
+export function createAircraftDeltaEncoder() {
+  const sent = new Map<string, CompactAircraft>()
+  let sequence = 0
+  const textEncoder = new TextEncoder()
+
+  return {
+    /** Encodes the change from the previous frame to `aircraft` (the full current set). */
+    encode(aircraft: AdsbAircraft[]): Uint8Array {
+      const baseSequence = sequence
+      sequence += 1
+      const reset = baseSequence === 0
+
+      const rows: Array<{
+        compact: CompactAircraft
+        mask: number
+        wireHex: number
+      }> = []
+      const current = new Set<string>()
+      for (const item of aircraft) {
+        const compact = toCompactAircraft(item)
+        // Malformed hexes have no wire form and could not be told apart.
+        const wireHex = hexToWire(compact.hex)
+        if (wireHex == null || current.has(compact.hex)) continue
+        current.add(compact.hex)
+
+        const previous = sent.get(compact.hex)
+        let mask = 0
+        FIELD_SPECS.forEach((spec, bit) => {
+          if (
+            !previous ||
+            !isSameValue(previous[spec.key], compact[spec.key])
+          ) {
+            mask |= 1 << bit
+          }
+        })
+        if (mask !== 0) rows.push({ compact, mask, wireHex })
+        sent.set(compact.hex, compact)
+      }
+
+      const removed: string[] = []
+      for (const hex of sent.keys()) {
+        if (current.has(hex)) continue
+        removed.push(hex)
+        sent.delete(hex)
+      }
+
+      const strings: string[] = []
+      const stringIndex = new Map<string, number>()
+      const intern = (value: string) => {
+        let index = stringIndex.get(value)
+        if (index == null) {
+          index = strings.length
+          strings.push(value)
+          stringIndex.set(value, index)
+        }
+        return index
+      }
+      for (const { compact, mask } of rows) {
+        FIELD_SPECS.forEach((spec, bit) => {
+          if (spec.kind === 'string' && mask & (1 << bit)) {
+            intern(compact[spec.key])
+          }
+        })
+      }
+
+      const writer = createWriter()
+      writer.u8(WIRE_VERSION)
+      writer.u8(reset ? FLAG_RESET : 0)
+      writer.u32(sequence)
+      writer.u32(baseSequence)
+
+      writer.u16(strings.length)
+      for (const value of strings) {
+        const encoded = textEncoder.encode(value).subarray(0, 255)
+        writer.u8(encoded.length)
+        writer.bytes(encoded)
+      }
+
+      writer.u32(rows.length)
+      for (const { wireHex } of rows) writer.u32(wireHex)
+      for (const { mask } of rows) writer.u16(mask)
+      FIELD_SPECS.forEach((spec, bit) => {
+        for (const { compact, mask } of rows) {
+          if (!(mask & (1 << bit))) continue
+          if (spec.kind === 'string') writer.u16(intern(compact[spec.key]))
+          else writeNumber(writer, spec.kind, compact[spec.key])
+        }
+      })
+
+      writer.u32(removed.length)
+      // Only hexes that were written before, so they all have a wire form.
+      for (const hex of removed) writer.u32(hexToWire(hex) ?? 0)
+
+      return writer.finish()
+    },
+  }
+}
+
+/**
+ * Client side of a stream: applies delta frames and keeps the current set.
+ * `apply` throws when a frame does not continue from the last one applied,
+ * in which case the caller should reconnect for a reset frame.
+ */
+export function createAircraftDeltaDecoder() {
+  const aircraftByHex = new Map<string, CompactAircraft>()
+  let sequence = 0
+  const textDecoder = new TextDecoder()
+
+  return {
+    apply(bytes: Uint8Array): CompactAircraft[] {
+      const reader = createReader(bytes)
+      const version = reader.u8()
+      if (version !== WIRE_VERSION) {
+        throw new Error(`Unsupported aircraft frame version ${version}`)
+      }
+      const flags = reader.u8()
+      const frameSequence = reader.u32()
+      const baseSequence = reader.u32()
+
+      if (flags & FLAG_RESET) {
+        aircraftByHex.clear()
+      } else if (baseSequence !== sequence) {
+        throw new Error(
+          `Aircraft frame ${frameSequence} expects base ${baseSequence}, have ${sequence}`,
+        )
+      }
+
+      const strings: string[] = []
+      const stringCount = reader.u16()
+      for (let i = 0; i < stringCount; i++) {
+        strings.push(textDecoder.decode(reader.bytes(reader.u8())))
+      }
+
+      const rowCount = reader.u32()
+      const rows: CompactAircraft[] = []
+      for (let i = 0; i < rowCount; i++) {
+        const hex = wireToHex(reader.u32())
+        const existing = aircraftByHex.get(hex)
+        rows.push(existing ? { ...existing } : createEmptyCompactAircraft(hex))
+      }
+      const masks = Array.from({ length: rowCount }, () => reader.u16())
+
+      FIELD_SPECS.forEach((spec, bit) => {
+        rows.forEach((row, index) => {
+          if (!(masks[index] & (1 << bit))) return
+          if (spec.kind === 'string') {
+            row[spec.key] = strings[reader.u16()] ?? ''
+          } else {
+            row[spec.key] = readNumber(reader, spec.kind)
+          }
+        })
+      })
+      for (const row of rows) aircraftByHex.set(row.hex, row)
+
+      const removedCount = reader.u32()
+      for (let i = 0; i < removedCount; i++) {
+        aircraftByHex.delete(wireToHex(reader.u32()))
+      }
+
+      sequence = frameSequence
+      return Array.from(aircraftByHex.values())
+    },
+
+    reset() {
+      aircraftByHex.clear()
+      sequence = 0
+    },
+  }
+}
+
+export function bytesToBase64(bytes: Uint8Array) {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string) {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
@@ -0,0 +1,169 @@
+/** Performance facts per ICAO aircraft type designator (ICAO Doc 8643),
+ *  as carried in `AdsbAircraft.t` and `Trace.t`. Pure and offline.
+ */
+
+/** ICAO wake turbulence category: Light, Medium, Heavy, Super (J). */
+export type WakeCategory = 'L' | 'M' | 'H' | 'J'
+
+export type EngineType = 'jet' | 'turboprop' | 'turboshaft' | 'piston'
+
+export type AircraftTypeInfo = {
+  /** ICAO type designator ("B38M"). */
+  typeCode: string
+  name: string
+  wake: WakeCategory
+  /** Wingspan in meters; main rotor diameter for helicopters. */
+  wingspanM: number
+  engines: number
+  engineType: EngineType
+  /** Typical cruise true airspeed in knots. */
+  cruiseKts: number
+}
+
+export const WAKE_CATEGORY_LABELS: Record<WakeCategory, string> = {
+  L: 'Light',
+  M: 'Medium',
+  H: 'Heavy',
+  J: 'Super',
+}
+
+type AircraftTypeRow = [
+  typeCode: string,
+  name: string,
+  wake: WakeCategory,
+  wingspanM: number,
+  engines: number,
+  engineType: EngineType,
+  cruiseKts: number,
+]
+
+const AIRCRAFT_TYPE_ROWS: AircraftTypeRow[] = [
+  // Airbus
+  ['A318', 'Airbus A318', 'M', 34.1, 2, 'jet', 447],
+  ['A319', 'Airbus A319', 'M', 35.8, 2, 'jet', 450],
+  ['A320', 'Airbus A320', 'M', 35.8, 2, 'jet', 450],
+  ['A321', 'Airbus A321', 'M', 35.8, 2, 'jet', 450],
+  ['A19N', 'Airbus A319neo', 'M', 35.8, 2, 'jet', 450],
+  ['A20N', 'Airbus A320neo', 'M', 35.8, 2, 'jet', 450],
+  ['A21N', 'Airbus A321neo', 'M', 35.8, 2, 'jet', 450],
+  ['BCS1', 'Airbus A220-100', 'M', 35.1, 2, 'jet', 447],
+  ['BCS3', 'Airbus A220-300', 'M', 35.1, 2, 'jet', 447],
+  ['A306', 'Airbus A300-600', 'H', 44.8, 2, 'jet', 470],
+  ['A310', 'Airbus A310', 'H', 43.9, 2, 'jet', 460],
+  ['A332', 'Airbus A330-200', 'H', 60.3, 2, 'jet', 470],
+  ['A333', 'Airbus A330-300', 'H', 60.3, 2, 'jet', 470],
+  ['A338', 'Airbus A330-800', 'H', 64, 2, 'jet', 470],
+  ['A339', 'Airbus A330-900', 'H', 64, 2, 'jet', 470],
+  ['A343', 'Airbus A340-300', 'H', 60.3, 4, 'jet', 475],
+  ['A346', 'Airbus A340-600', 'H', 63.5, 4, 'jet', 480],
+  ['A359', 'Airbus A350-900', 'H', 64.8, 2, 'jet', 488],
+  ['A35K', 'Airbus A350-1000', 'H', 64.8, 2, 'jet', 488],
+  ['A388', 'Airbus A380-800', 'J', 79.8, 4, 'jet', 488],
+  ['A400', 'Airbus A400M', 'H', 42.4, 4, 'turboprop', 420],
+  // Boeing
+  ['B712', 'Boeing 717-200', 'M', 28.4, 2, 'jet', 438],
+  ['B733', 'Boeing 737-300', 'M', 28.9, 2, 'jet', 430],
+  ['B734', 'Boeing 737-400', 'M', 28.9, 2, 'jet', 430],
+  ['B735', 'Boeing 737-500', 'M', 28.9, 2, 'jet', 430],
+  ['B736', 'Boeing 737-600', 'M', 34.3, 2, 'jet', 450],
+  ['B737', 'Boeing 737-700', 'M', 35.8, 2, 'jet', 450],
+  ['B738', 'Boeing 737-800', 'M', 35.8, 2, 'jet', 453],
+  ['B739', 'Boeing 737-900', 'M', 35.8, 2, 'jet', 453],
+  ['B37M', 'Boeing 737 MAX 7', 'M', 35.9, 2, 'jet', 453],
+  ['B38M', 'Boeing 737 MAX 8', 'M', 35.9, 2, 'jet', 453],
+  ['B39M', 'Boeing 737 MAX 9', 'M', 35.9, 2, 'jet', 453],
+  ['B3XM', 'Boeing 737 MAX 10', 'M', 35.9, 2, 'jet', 453],
+  ['B752', 'Boeing 757-200', 'M', 38.1, 2, 'jet', 470],
+  ['B753', 'Boeing 757-300', 'M', 38.1, 2, 'jet', 470],
+  ['B762', 'Boeing 767-200', 'H', 47.6, 2, 'jet', 470],
+  ['B763', 'Boeing 767-300', 'H', 47.6, 2, 'jet', 470],
+  ['B764', 'Boeing 767-400', 'H', 51.9, 2, 'jet', 470],
+  ['B772', 'Boeing 777-200', 'H', 60.9, 2, 'jet', 490],
+  ['B77L', 'Boeing 777-200LR', 'H', 64.8, 2, 'jet', 490],
+  ['B773', 'Boeing 777-300', 'H', 60.9, 2, 'jet', 490],
+  ['B77W', 'Boeing 777-300ER', 'H', 64.8, 2, 'jet', 490],
+  ['B778', 'Boeing 777-8', 'H', 71.8, 2, 'jet', 490],
+  ['B779', 'Boeing 777-9', 'H', 71.8, 2, 'jet', 490],
+  ['B788', 'Boeing 787-8', 'H', 60.1, 2, 'jet', 488],
+  ['B789', 'Boeing 787-9', 'H', 60.1, 2, 'jet', 488],
+  ['B78X', 'Boeing 787-10', 'H', 60.1, 2, 'jet', 488],
+  ['B744', 'Boeing 747-400', 'H', 64.4, 4, 'jet', 490],
+  ['B748', 'Boeing 747-8', 'H', 68.4, 4, 'jet', 493],
+  ['MD11', 'McDonnell Douglas MD-11', 'H', 51.7, 3, 'jet', 480],
+  ['C17', 'Boeing C-17 Globemaster III', 'H', 51.8, 4, 'jet', 450],
+  ['K35R', 'Boeing KC-135R Stratotanker', 'H', 39.9, 4, 'jet', 460],
+  // Regional jets
+  ['E170', 'Embraer E170', 'M', 26, 2, 'jet', 430],
+  ['E75S', 'Embraer E175', 'M', 26, 2, 'jet', 430],
+  ['E75L', 'Embraer E175', 'M', 28.7, 2, 'jet', 430],
+  ['E190', 'Embraer E190', 'M', 28.7, 2, 'jet', 447],
+  ['E195', 'Embraer E195', 'M', 28.7, 2, 'jet', 447],
+  ['E290', 'Embraer E190-E2', 'M', 33.7, 2, 'jet', 450],
+  ['E295', 'Embraer E195-E2', 'M', 35.1, 2, 'jet', 450],
+  ['CRJ2', 'Bombardier CRJ200', 'M', 21.2, 2, 'jet', 424],
+  ['CRJ7', 'Bombardier CRJ700', 'M', 23.2, 2, 'jet', 447],
+  ['CRJ9', 'Bombardier CRJ900', 'M', 24.9, 2, 'jet', 447],
+  ['CRJX', 'Bombardier CRJ1000', 'M', 26.2, 2, 'jet', 447],
+  // Turboprops
+  ['AT45', 'ATR 42-500', 'M', 24.6, 2, 'turboprop', 265],
+  ['AT72', 'ATR 72', 'M', 27.1, 2, 'turboprop', 275],
+  ['AT75', 'ATR 72-500', 'M', 27.1, 2, 'turboprop', 275],
+  ['AT76', 'ATR 72-600', 'M', 27.1, 2, 'turboprop', 275],
+  ['DH8A', 'De Havilland Dash 8-100', 'M', 25.9, 2, 'turboprop', 270],
+  ['DH8C', 'De Havilland Dash 8-300', 'M', 27.4, 2, 'turboprop', 285],
+  ['DH8D', 'De Havilland Dash 8-400', 'M', 28.4, 2, 'turboprop', 360],
+  ['SF34', 'Saab 340', 'M', 21.4, 2, 'turboprop', 280],
+  ['B190', 'Beechcraft 1900', 'M', 17.7, 2, 'turboprop', 270],
+  ['C130', 'Lockheed C-130 Hercules', 'M', 40.4, 4, 'turboprop', 292],
+  ['BE20', 'Beechcraft King Air 200', 'L', 16.6, 2, 'turboprop', 289],
+  ['C208', 'Cessna 208 Caravan', 'L', 15.9, 1, 'turboprop', 185],
+  ['PC12', 'Pilatus PC-12', 'L', 16.3, 1, 'turboprop', 280],
+  // Business jets
+  ['C25B', 'Cessna Citation CJ3', 'L', 16.3, 2, 'jet', 415],
+  ['C56X', 'Cessna Citation Excel', 'M', 17.2, 2, 'jet', 441],
+  ['C68A', 'Cessna Citation Latitude', 'M', 22, 2, 'jet', 446],
+  ['C700', 'Cessna Citation Longitude', 'M', 20.7, 2, 'jet', 476],
+  ['E55P', 'Embraer Phenom 300', 'M', 16.2, 2, 'jet', 453],
+  ['PC24', 'Pilatus PC-24', 'M', 17, 2, 'jet', 440],
+  ['LJ45', 'Learjet 45', 'M', 14.6, 2, 'jet', 457],
+  ['CL35', 'Bombardier Challenger 350', 'M', 19.5, 2, 'jet', 470],
+  ['CL60', 'Bombardier Challenger 600', 'M', 19.6, 2, 'jet', 459],
+  ['GLEX', 'Bombardier Global Express', 'M', 28.7, 2, 'jet', 488],
+  ['GL7T', 'Bombardier Global 7500', 'M', 31.7, 2, 'jet', 488],
+  ['GLF5', 'Gulfstream G550', 'M', 28.5, 2, 'jet', 488],
+  ['GLF6', 'Gulfstream G650', 'M', 30.4, 2, 'jet', 488],
+  ['F900', 'Dassault Falcon 900', 'M', 19.3, 3, 'jet', 459],
+  ['FA7X', 'Dassault Falcon 7X', 'M', 26.2, 3, 'jet', 488],
+  // General aviation
+  ['C152', 'Cessna 152', 'L', 10.1, 1, 'piston', 107],
+  ['C172', 'Cessna 172 Skyhawk', 'L', 11, 1, 'piston', 122],
+  ['C182', 'Cessna 182 Skylane', 'L', 11, 1, 'piston', 145],
+  ['P28A', 'Piper PA-28 Cherokee', 'L', 10.7, 1, 'piston', 125],
+  ['SR22', 'Cirrus SR22', 'L', 11.7, 1, 'piston', 183],
+  ['DA40', 'Diamond DA40', 'L', 11.9, 1, 'piston', 140],
+  ['BE58', 'Beechcraft Baron 58', 'L', 11.5, 2, 'piston', 200],
+  // Helicopters
+  ['R44', 'Robinson R44', 'L', 10.1, 1, 'piston', 110],
+  ['AS50', 'Airbus H125', 'L', 10.7, 1, 'turboshaft', 130],
+  ['EC35', 'Airbus H135', 'L', 10.2, 2, 'turboshaft', 135],
+  ['EC45', 'Airbus H145', 'L', 11, 2, 'turboshaft', 130],
+  ['A139', 'Leonardo AW139', 'M', 13.8, 2, 'turboshaft', 165],
+  ['S76', 'Sikorsky S-76', 'M', 13.4, 2, 'turboshaft', 155],
+]
+
+const AIRCRAFT_TYPES_BY_CODE = new Map<string, AircraftTypeInfo>(
+  AIRCRAFT_TYPE_ROWS.map(
+    ([typeCode, name, wake, wingspanM, engines, engineType, cruiseKts]) => [
+      typeCode,
+      { typeCode, name, wake, wingspanM, engines, engineType, cruiseKts },
+    ],
+  ),
+)
+
+/** Facts for an ICAO type designator, or null when the type is unknown. */
+export function getAircraftTypeInfo(
+  typeCode: string | null | undefined,
+): AircraftTypeInfo | null {
+  if (!typeCode) return null
+  return AIRCRAFT_TYPES_BY_CODE.get(typeCode.trim().toUpperCase()) ?? null
+}
@@ -0,0 +1,264 @@
+/** Airline identification from ICAO callsigns ("UAL123", "BAW45K").
+ *  Operators file ATC callsigns as their three-letter ICAO designator plus a
+ *  flight identifier (ICAO Doc 8585); the designator alone names the
+ *  airline. Pure and offline.
+ */
+
+export type Airline = {
+  /** ICAO three-letter designator ("UAL"). */
+  icao: string
+  /** IATA two-character code ("UA"); null for operators without one. */
+  iata: string | null
+  name: string
+  /** Radiotelephony callsign ("UNITED"). */
+  telephony: string
+  country: string
+}
+
+type AirlineRow = [
+  icao: string,
+  iata: string | null,
+  name: string,
+  telephony: string,
+  country: string,
+]
+
+const AIRLINE_ROWS: AirlineRow[] = [
+  // North America
+  ['AAL', 'AA', 'American Airlines', 'AMERICAN', 'United States'],
+  ['DAL', 'DL', 'Delta Air Lines', 'DELTA', 'United States'],
+  ['UAL', 'UA', 'United Airlines', 'UNITED', 'United States'],
+  ['SWA', 'WN', 'Southwest Airlines', 'SOUTHWEST', 'United States'],
+  ['ASA', 'AS', 'Alaska Airlines', 'ALASKA', 'United States'],
+  ['JBU', 'B6', 'JetBlue', 'JETBLUE', 'United States'],
+  ['NKS', 'NK', 'Spirit Airlines', 'SPIRIT WINGS', 'United States'],
+  ['FFT', 'F9', 'Frontier Airlines', 'FRONTIER FLIGHT', 'United States'],
+  ['AAY', 'G4', 'Allegiant Air', 'ALLEGIANT', 'United States'],
+  ['HAL', 'HA', 'Hawaiian Airlines', 'HAWAIIAN', 'United States'],
+  ['SCX', 'SY', 'Sun Country Airlines', 'SUN COUNTRY', 'United States'],
+  ['SKW', 'OO', 'SkyWest Airlines', 'SKYWEST', 'United States'],
+  ['RPA', 'YX', 'Republic Airways', 'BRICKYARD', 'United States'],
+  ['ENY', 'MQ', 'Envoy Air', 'ENVOY', 'United States'],
+  ['EDV', '9E', 'Endeavor Air', 'ENDEAVOR', 'United States'],
+  ['JIA', 'OH', 'PSA Airlines', 'BLUE STREAK', 'United States'],
+  ['PDT', 'PT', 'Piedmont Airlines', 'PIEDMONT', 'United States'],
+  ['ASH', 'YV', 'Mesa Airlines', 'AIR SHUTTLE', 'United States'],
+  ['QXE', 'QX', 'Horizon Air', 'HORIZON', 'United States'],
+  ['GJS', 'G7', 'GoJet Airlines', 'LINDBERGH', 'United States'],
+  ['FDX', 'FX', 'FedEx Express', 'FEDEX', 'United States'],
+  ['UPS', '5X', 'UPS Airlines', 'UPS', 'United States'],
+  ['GTI', '5Y', 'Atlas Air', 'GIANT', 'United States'],
+  ['ABX', 'GB', 'ABX Air', 'ABEX', 'United States'],
+  [
+    'ATN',
+    '8C',
+    'Air Transport International',
+    'AIR TRANSPORT',
+    'United States',
+  ],
+  ['CKS', 'K4', 'Kalitta Air', 'CONNIE', 'United States'],
+  ['PAC', 'PO', 'Polar Air Cargo', 'POLAR', 'United States'],
+  ['ACA', 'AC', 'Air Canada', 'AIR CANADA', 'Canada'],
+  ['JZA', 'QK', 'Jazz Aviation', 'JAZZ', 'Canada'],
+  ['ROU', 'RV', 'Air Canada Rouge', 'ROUGE', 'Canada'],
+  ['WJA', 'WS', 'WestJet', 'WESTJET', 'Canada'],
+  ['WEN', 'WR', 'WestJet Encore', 'ENCORE', 'Canada'],
+  ['TSC', 'TS', 'Air Transat', 'AIR TRANSAT', 'Canada'],
+  ['POE', 'PD', 'Porter Airlines', 'PORTER', 'Canada'],
+  ['FLE', 'F8', 'Flair Airlines', 'FLAIR', 'Canada'],
+  ['AMX', 'AM', 'Aeroméxico', 'AEROMEXICO', 'Mexico'],
+  ['VOI', 'Y4', 'Volaris', 'VOLARIS', 'Mexico'],
+  ['VIV', 'VB', 'Viva Aerobus', 'AEROENLACES', 'Mexico'],
+  // Central and South America
+  ['CMP', 'CM', 'Copa Airlines', 'COPA', 'Panama'],
+  ['AVA', 'AV', 'Avianca', 'AVIANCA', 'Colombia'],
+  ['LAN', 'LA', 'LATAM Airlines', 'LAN CHILE', 'Chile'],
+  ['TAM', 'JJ', 'LATAM Airlines Brasil', 'TAM', 'Brazil'],
+  ['GLO', 'G3', 'Gol', 'GOL TRANSPORTE', 'Brazil'],
+  ['AZU', 'AD', 'Azul', 'AZUL', 'Brazil'],
+  ['ARG', 'AR', 'Aerolíneas Argentinas', 'ARGENTINA', 'Argentina'],
+  ['SKU', 'H2', 'Sky Airline', 'AEROSKY', 'Chile'],
+  ['JAT', 'JA', 'JetSMART', 'ROCKSMART', 'Chile'],
+  // Europe
+  ['BAW', 'BA', 'British Airways', 'SPEEDBIRD', 'United Kingdom'],
+  ['SHT', 'BA', 'British Airways Shuttle', 'SHUTTLE', 'United Kingdom'],
+  ['VIR', 'VS', 'Virgin Atlantic', 'VIRGIN', 'United Kingdom'],
+  ['EZY', 'U2', 'easyJet', 'EASY', 'United Kingdom'],
+  ['EJU', 'EC', 'easyJet Europe', 'ALPINE', 'Austria'],
+  ['EZS', 'DS', 'easyJet Switzerland', 'TOPSWISS', 'Switzerland'],
+  ['EXS', 'LS', 'Jet2', 'CHANNEX', 'United Kingdom'],
+  ['TOM', 'BY', 'TUI Airways', 'TOMSON', 'United Kingdom'],
+  ['LOG', 'LM', 'Loganair', 'LOGAN', 'United Kingdom'],
+  ['RYR', 'FR', 'Ryanair', 'RYANAIR', 'Ireland'],
+  ['RUK', 'RK', 'Ryanair UK', 'BLUEJET', 'United Kingdom'],
+  ['MAY', 'FR', 'Malta Air', 'BLUE MALTA', 'Malta'],
+  ['LDM', 'OE', 'Lauda Europe', 'LAUDA MOTION', 'Malta'],
+  ['EIN', 'EI', 'Aer Lingus', 'SHAMROCK', 'Ireland'],
+  ['DLH', 'LH', 'Lufthansa', 'LUFTHANSA', 'Germany'],
+  ['CLH', 'CL', 'Lufthansa CityLine', 'HANSALINE', 'Germany'],
+  ['GEC', 'LH', 'Lufthansa Cargo', 'LUFTHANSA CARGO', 'Germany'],
+  ['EWG', 'EW', 'Eurowings', 'EUROWINGS', 'Germany'],
+  ['CFG', 'DE', 'Condor', 'CONDOR', 'Germany'],
+  ['TUI', 'X3', 'TUIfly', 'TUI JET', 'Germany'],
+  ['DHK', 'D0', 'DHL Air', 'WORLD EXPRESS', 'United Kingdom'],
+  ['BCS', 'QY', 'European Air Transport', 'EUROTRANS', 'Germany'],
+  ['SWR', 'LX', 'Swiss', 'SWISS', 'Switzerland'],
+  ['EDW', 'WK', 'Edelweiss Air', 'EDELWEISS', 'Switzerland'],
+  ['AUA', 'OS', 'Austrian Airlines', 'AUSTRIAN', 'Austria'],
+  ['BEL', 'SN', 'Brussels Airlines', 'BEELINE', 'Belgium'],
+  ['AFR', 'AF', 'Air France', 'AIRFRANS', 'France'],
+  ['HOP', 'A5', 'Air France Hop', 'AIR HOP', 'France'],
+  ['TVF', 'TO', 'Transavia France', 'FRANCE SOLEIL', 'France'],
+  ['CRL', 'SS', 'Corsair', 'CORSAIR', 'France'],
+  ['KLM', 'KL', 'KLM', 'KLM', 'Netherlands'],
+  ['KLC', 'WA', 'KLM Cityhopper', 'CITY', 'Netherlands'],
+  ['TRA', 'HV', 'Transavia', 'TRANSAVIA', 'Netherlands'],
+  ['IBE', 'IB', 'Iberia', 'IBERIA', 'Spain'],
+  ['IBS', 'I2', 'Iberia Express', 'IBEREXPRES', 'Spain'],
+  ['ANE', 'YW', 'Air Nostrum', 'AIR NOSTRUM', 'Spain'],
+  ['VLG', 'VY', 'Vueling', 'VUELING', 'Spain'],
+  ['AEA', 'UX', 'Air Europa', 'EUROPA', 'Spain'],
+  ['VOE', 'V7', 'Volotea', 'VOLOTEA', 'Spain'],
+  ['TAP', 'TP', 'TAP Air Portugal', 'AIR PORTUGAL', 'Portugal'],
+  ['ITY', 'AZ', 'ITA Airways', 'ITARROW', 'Italy'],
+  ['SAS', 'SK', 'Scandinavian Airlines', 'SCANDINAVIAN', 'Sweden'],
+  ['NOZ', 'DY', 'Norwegian', 'NORSHUTTLE', 'Norway'],
+  ['NSZ', 'D8', 'Norwegian Air Sweden', 'REDNOSE', 'Sweden'],
+  ['WIF', 'WF', 'Widerøe', 'WIDEROE', 'Norway'],
+  ['FIN', 'AY', 'Finnair', 'FINNAIR', 'Finland'],
+  ['ICE', 'FI', 'Icelandair', 'ICEAIR', 'Iceland'],
+  ['LOT', 'LO', 'LOT Polish Airlines', 'LOT', 'Poland'],
+  ['WZZ', 'W6', 'Wizz Air', 'WIZZ AIR', 'Hungary'],
+  ['WUK', 'W9', 'Wizz Air UK', 'WIZZ GO', 'United Kingdom'],
+  ['WMT', 'W4', 'Wizz Air Malta', 'WIZZ SKY', 'Malta'],
+  ['CSA', 'OK', 'Czech Airlines', 'CSA', 'Czechia'],
+  ['ROT', 'RO', 'TAROM', 'TAROM', 'Romania'],
+  ['AEE', 'A3', 'Aegean Airlines', 'AEGEAN', 'Greece'],
+  ['THY', 'TK', 'Turkish Airlines', 'TURKISH', 'Türkiye'],
+  ['PGT', 'PC', 'Pegasus Airlines', 'SUNTURK', 'Türkiye'],
+  ['SXS', 'XQ', 'SunExpress', 'SUNEXPRESS', 'Türkiye'],
+  ['AFL', 'SU', 'Aeroflot', 'AEROFLOT', 'Russia'],
+  ['SBI', 'S7', 'S7 Airlines', 'SIBERIAN AIRLINES', 'Russia'],
+  [
+    'AUI',
+    'PS',
+    'Ukraine International Airlines',
+    'UKRAINE INTERNATIONAL',
+    'Ukraine',
+  ],
+  ['ASL', 'JU', 'Air Serbia', 'AIR SERBIA', 'Serbia'],
+  ['CTN', 'OU', 'Croatia Airlines', 'CROATIA', 'Croatia'],
+  ['BTI', 'BT', 'airBaltic', 'AIRBALTIC', 'Latvia'],
+  // Middle East and Africa
+  ['UAE', 'EK', 'Emirates', 'EMIRATES', 'United Arab Emirates'],
+  ['ETD', 'EY', 'Etihad Airways', 'ETIHAD', 'United Arab Emirates'],
+  ['FDB', 'FZ', 'flydubai', 'SKY DUBAI', 'United Arab Emirates'],
+  ['ABY', 'G9', 'Air Arabia', 'ARABIA', 'United Arab Emirates'],
+  ['QTR', 'QR', 'Qatar Airways', 'QATARI', 'Qatar'],
+  ['GFA', 'GF', 'Gulf Air', 'GULF AIR', 'Bahrain'],
+  ['OMA', 'WY', 'Oman Air', 'OMAN AIR', 'Oman'],
+  ['SVA', 'SV', 'Saudia', 'SAUDIA', 'Saudi Arabia'],
+  ['KNE', 'XY', 'flynas', 'NAS EXPRESS', 'Saudi Arabia'],
+  ['KAC', 'KU', 'Kuwait Airways', 'KUWAITI', 'Kuwait'],
+  ['RJA', 'RJ', 'Royal Jordanian', 'JORDANIAN', 'Jordan'],
+  ['MEA', 'ME', 'Middle East Airlines', 'CEDAR JET', 'Lebanon'],
+  ['ELY', 'LY', 'El Al', 'ELAL', 'Israel'],
+  ['IRA', 'IR', 'Iran Air', 'IRANAIR', 'Iran'],
+  ['MSR', 'MS', 'EgyptAir', 'EGYPTAIR', 'Egypt'],
+  ['RAM', 'AT', 'Royal Air Maroc', 'ROYALAIR MAROC', 'Morocco'],
+  ['ETH', 'ET', 'Ethiopian Airlines', 'ETHIOPIAN', 'Ethiopia'],
+  ['KQA', 'KQ', 'Kenya Airways', 'KENYA', 'Kenya'],
+  ['SAA', 'SA', 'South African Airways', 'SPRINGBOK', 'South Africa'],
+  ['RWD', 'WB', 'RwandAir', 'RWANDAIR', 'Rwanda'],
+  // Asia and Oceania
+  ['CCA', 'CA', 'Air China', 'AIR CHINA', 'China'],
+  ['CES', 'MU', 'China Eastern Airlines', 'CHINA EASTERN', 'China'],
+  ['CSN', 'CZ', 'China Southern Airlines', 'CHINA SOUTHERN', 'China'],
+  ['CHH', 'HU', 'Hainan Airlines', 'HAINAN', 'China'],
+  ['CXA', 'MF', 'Xiamen Airlines', 'XIAMEN AIR', 'China'],
+  ['CSZ', 'ZH', 'Shenzhen Airlines', 'SHENZHEN AIR', 'China'],
+  ['CSC', '3U', 'Sichuan Airlines', 'SI CHUAN', 'China'],
+  ['CQH', '9C', 'Spring Airlines', 'AIR SPRING', 'China'],
+  ['CAO', 'CA', 'Air China Cargo', 'AIRCHINA FREIGHT', 'China'],
+  ['CPA', 'CX', 'Cathay Pacific', 'CATHAY', 'Hong Kong'],
+  ['HKE', 'UO', 'HK Express', 'HONGKONG SHUTTLE', 'Hong Kong'],
+  ['CRK', 'HX', 'Hong Kong Airlines', 'BAUHINIA', 'Hong Kong'],
+  ['CAL', 'CI', 'China Airlines', 'DYNASTY', 'Taiwan'],
+  ['EVA', 'BR', 'EVA Air', 'EVA', 'Taiwan'],
+  ['SJX', 'JX', 'Starlux Airlines', 'STARWALKER', 'Taiwan'],
+  ['JAL', 'JL', 'Japan Airlines', 'JAPANAIR', 'Japan'],
+  ['ANA', 'NH', 'All Nippon Airways', 'ALL NIPPON', 'Japan'],
+  ['APJ', 'MM', 'Peach Aviation', 'AIR PEACH', 'Japan'],
+  ['KAL', 'KE', 'Korean Air', 'KOREANAIR', 'South Korea'],
+  ['AAR', 'OZ', 'Asiana Airlines', 'ASIANA', 'South Korea'],
+  ['JJA', '7C', 'Jeju Air', 'JEJU AIR', 'South Korea'],
+  ['SIA', 'SQ', 'Singapore Airlines', 'SINGAPORE', 'Singapore'],
+  ['TGW', 'TR', 'Scoot', 'SCOOTER', 'Singapore'],
+  ['MAS', 'MH', 'Malaysia Airlines', 'MALAYSIAN', 'Malaysia'],
+  ['AXM', 'AK', 'AirAsia', 'RED CAP', 'Malaysia'],
+  ['THA', 'TG', 'Thai Airways', 'THAI', 'Thailand'],
+  ['AIQ', 'FD', 'Thai AirAsia', 'THAI ASIA', 'Thailand'],
+  ['TAX', 'XJ', 'Thai AirAsia X', 'EXPRESS WING', 'Thailand'],
+  ['HVN', 'VN', 'Vietnam Airlines', 'VIET NAM AIRLINES', 'Vietnam'],
+  ['VJC', 'VJ', 'VietJet Air', 'VIETJETAIR', 'Vietnam'],
+  ['PAL', 'PR', 'Philippine Airlines', 'PHILIPPINE', 'Philippines'],
+  ['CEB', '5J', 'Cebu Pacific', 'CEBU', 'Philippines'],
+  ['GIA', 'GA', 'Garuda Indonesia', 'INDONESIA', 'Indonesia'],
+  ['LNI', 'JT', 'Lion Air', 'LION INTER', 'Indonesia'],
+  ['AIC', 'AI', 'Air India', 'AIRINDIA', 'India'],
+  ['IGO', '6E', 'IndiGo', 'IFLY', 'India'],
+  ['SEJ', 'SG', 'SpiceJet', 'SPICEJET', 'India'],
+  ['AXB', 'IX', 'Air India Express', 'EXPRESS INDIA', 'India'],
+  ['PIA', 'PK', 'Pakistan International Airlines', 'PAKISTAN', 'Pakistan'],
+  ['ALK', 'UL', 'SriLankan Airlines', 'SRILANKAN', 'Sri Lanka'],
+  ['KZR', 'KC', 'Air Astana', 'ASTANALINE', 'Kazakhstan'],
+  ['UZB', 'HY', 'Uzbekistan Airways', 'UZBEK', 'Uzbekistan'],
+  ['QFA', 'QF', 'Qantas', 'QANTAS', 'Australia'],
+  ['JST', 'JQ', 'Jetstar Airways', 'JETSTAR', 'Australia'],
+  ['VOZ', 'VA', 'Virgin Australia', 'VELOCITY', 'Australia'],
+  ['ANZ', 'NZ', 'Air New Zealand', 'NEW ZEALAND', 'New Zealand'],
+  ['FJI', 'FJ', 'Fiji Airways', 'PACIFIC', 'Fiji'],
+]
+
+const AIRLINES_BY_ICAO = new Map<string, Airline>(
+  AIRLINE_ROWS.map(([icao, iata, name, telephony, country]) => [
+    icao,
+    { icao, iata, name, telephony, country },
+  ]),
+)
+
+/**
+ * Splits an ICAO callsign into designator and flight identifier:
+ * "BAW45K" → { designator: "BAW", flightId: "45K" }. Null for callsigns
+ * that aren't designator-based (registrations like "N123AB", "GABCD").
+ */
+export function parseCallsign(callsign: string | null | undefined) {
+  const match = /^([A-Z]{3})(\d[0-9A-Z]{0,3})$/.exec(
+    callsign?.replace(/\s+/g, '').toUpperCase() ?? '',
+  )
+  if (!match) return null
+  return { designator: match[1], flightId: match[2] }
+}
+
+/** Airline operating an ICAO callsign, or null when the designator is unknown. */
+export function getAirlineFromCallsign(
+  callsign: string | null | undefined,
+): Airline | null {
+  const parsed = parseCallsign(callsign)
+  if (!parsed) return null
+  return AIRLINES_BY_ICAO.get(parsed.designator) ?? null
+}
+
+/**
+ * Likely IATA flight number for an ICAO callsign: "UAL123" → "UA123",
+ * "DLH04" → "LH4". Callsigns with letters in the flight identifier
+ * ("BAW45K") are ATC-only and don't map back to a flight number, so they
+ * return null, as do unknown airlines and airlines without an IATA code.
+ */
+export function getIataFlightNumber(callsign: string | null | undefined) {
+  const parsed = parseCallsign(callsign)
+  if (!parsed || !/^\d+$/.test(parsed.flightId)) return null
+  const iata = AIRLINES_BY_ICAO.get(parsed.designator)?.iata
+  if (!iata) return null
+  return `${iata}${Number.parseInt(parsed.flightId, 10)}`
+}
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CachedFetchError, getOrSet, getOrSetMany } from './cache'
+
+let keyCount = 0
+
+/** A key no other test has written, since the memory tier is module-wide. */
+function freshKey() {
+  keyCount += 1
+  return `test:cache:${keyCount}`
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((res) => {
+    resolve = res
+  })
+  return { promise, resolve }
+}
+
+/** Lets background refreshes settle. */
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+beforeEach(() => {
+  // No Redis: every test runs against the in-process LRU tier.
+  vi.stubEnv('REDIS_URL', '')
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+function advanceSeconds(seconds: number) {
+  vi.setSystemTime(Date.now() + seconds * 1000)
+}
+
+describe('getOrSet', () => {
+  it('caches the fetched value', async () => {
+    const key = freshKey()
+    const fetcher = vi.fn().mockResolvedValue({ n: 1 })
+    expect(await getOrSet(key, fetcher, 60)).toEqual({ n: 1 })
+    expect(await getOrSet(key, fetcher, 60)).toEqual({ n: 1 })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    advanceSeconds(61)
+    await getOrSet(key, fetcher, 60)
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('shares one fetch between concurrent misses', async () => {
+    const key = freshKey()
+    const upstream = deferred<string>()
+    const fetcher = vi.fn(() => upstream.promise)
+
+    const calls = [getOrSet(key, fetcher), getOrSet(key, fetcher)]
+    await flush()
+    upstream.resolve('value')
+    expect(await Promise.all(calls)).toEqual(['value', 'value'])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('serves a soft-expired value while refreshing it in the background', async () => {
+    const key = freshKey()
+    const policy = { ttlSeconds: 600, staleAfterSeconds: 10 }
+    const fetcher = vi
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce('old')
+      .mockResolvedValueOnce('new')
+
+    await getOrSet(key, fetcher, policy)
+    advanceSeconds(5)
+    expect(await getOrSet(key, fetcher, policy)).toBe('old')
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    advanceSeconds(10)
+    expect(await getOrSet(key, fetcher, policy)).toBe('old')
+    await flush()
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    expect(await getOrSet(key, fetcher, policy)).toBe('new')
+  })
+
+  it('keeps the stale value when a background refresh fails', async () => {
+    const key = freshKey()
+    const policy = {
+      ttlSeconds: 600,
+      staleAfterSeconds: 10,
+      errorTtlSeconds: 60,
+    }
+    const fetcher = vi
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce('old')
+      .mockRejectedValueOnce(new Error('upstream down'))
+
+    await getOrSet(key, fetcher, policy)
+    advanceSeconds(11)
+    expect(await getOrSet(key, fetcher, policy)).toBe('old')
+    await flush()
+    // The failed refresh is not negative-cached over the good value.
+    expect(await getOrSet(key, fetcher, policy)).toBe('old')
+  })
+
+  it('negative-caches failures for errorTtlSeconds', async () => {
+    const key = freshKey()
+    const fetcher = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('not found'))
+      .mockResolvedValueOnce('found')
+    const policy = { errorTtlSeconds: 30 }
+
+    await expect(getOrSet(key, fetcher, policy)).rejects.toThrow('not found')
+    const cached = getOrSet(key, fetcher, policy)
+    await expect(cached).rejects.toBeInstanceOf(CachedFetchError)
+    await expect(cached).rejects.toThrow('not found')
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    advanceSeconds(31)
+    expect(await getOrSet(key, fetcher, policy)).toBe('found')
+  })
+
+  it('does not cache failures without errorTtlSeconds or when cacheError refuses', async () => {
+    const plainKey = freshKey()
+    const plain = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('blip'))
+      .mockResolvedValueOnce('ok')
+    await expect(getOrSet(plainKey, plain)).rejects.toThrow('blip')
+    expect(await getOrSet(plainKey, plain)).toBe('ok')
+
+    const filteredKey = freshKey()
+    const policy = {
+      errorTtlSeconds: 30,
+      cacheError: (error: unknown) =>
+        error instanceof Error && error.message === 'not found',
+    }
+    const filtered = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce('ok')
+    await expect(getOrSet(filteredKey, filtered, policy)).rejects.toThrow(
+      'timeout',
+    )
+    expect(await getOrSet(filteredKey, filtered, policy)).toBe('ok')
+  })
+})
+
+describe('getOrSetMany', () => {
+  it('reports failures per key without failing the rest', async () => {
+    const [hit, miss, failing] = [freshKey(), freshKey(), freshKey()]
+    await getOrSet(hit, () => Promise.resolve('cached'))
+
+    const results = await getOrSetMany<string>(
+      [
+        { key: hit, fetcher: () => Promise.reject(new Error('unused')) },
+        { key: miss, fetcher: () => Promise.resolve('fetched') },
+        { key: failing, fetcher: () => Promise.reject(new Error('boom')) },
+      ],
+      { errorTtlSeconds: 30 },
+    )
+    expect(results.slice(0, 2)).toEqual([
+      { ok: true, value: 'cached' },
+      { ok: true, value: 'fetched' },
+    ])
+    expect(results[2]).toMatchObject({ ok: false, error: { message: 'boom' } })
+
+    // The failure is now negative-cached; the fetcher is not called again.
+    const fetcher = vi.fn<() => Promise<string>>()
+    const [again] = await getOrSetMany([{ key: failing, fetcher }], {
+      errorTtlSeconds: 30,
+    })
+    expect(again.ok).toBe(false)
+    expect(!again.ok && again.error).toBeInstanceOf(CachedFetchError)
+    expect(fetcher).not.toHaveBeenCalled()
+  })
+
+  it('shares in-flight fetches with getOrSet', async () => {
+    const key = freshKey()
+    const upstream = deferred<string>()
+    const fetcher = vi.fn(() => upstream.promise)
+
+    const single = getOrSet(key, fetcher)
+    const many = getOrSetMany([{ key, fetcher }])
+    await flush()
+    upstream.resolve('value')
+    expect(await single).toBe('value')
+    expect(await many).toEqual([{ ok: true, value: 'value' }])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+})
@@ -1,83 +1,499 @@
+import { gunzipSync, gzipSync } from 'node:zlib'
+import { createLruCache } from './lru-cache'
 import { withRedis } from './redis'
 
 const DEFAULT_TTL_SECONDS = 86400 // 24 hours
+const DEFAULT_MEMORY_MAX_ENTRIES = 5000
+const DEFAULT_MEMORY_MAX_MB = 64
+/** Larger values are split across `${key}:chunk:{n}` keys to stay under Redis/Upstash value limits. */
+const CHUNK_SIZE = 256 * 1024
+
+// Stored values are JSON, which never starts with `~`, so these can't collide.
+const COMPRESSED_PREFIX = '~gz:'
+const CHUNKED_PREFIX = '~chunks:'
+
+/** Prefixes reported on their own in getCacheStats; other keys group by their first segment. */
+const STATS_PREFIXES = [
+  'trace:',
+  'traces:',
+  'aerodatabox:flight:',
+  'adsbexchange:nearby:',
+]
+
+function readPositiveEnv(name: string, fallback: number) {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
 
 /**
- * Get a value from cache or compute and store it.
- * Returns the fetcher result; cache is best-effort (no-op if Redis unavailable).
+ * In-process tier in front of Redis (CACHE_MEMORY_MAX_ENTRIES,
+ * CACHE_MEMORY_MAX_MB). Writes go to both; without Redis it is the only tier.
  */
-export async function getOrSet<T>(
+const memory = createLruCache({
+  maxEntries: readPositiveEnv(
+    'CACHE_MEMORY_MAX_ENTRIES',
+    DEFAULT_MEMORY_MAX_ENTRIES,
+  ),
+  maxBytes:
+    readPositiveEnv('CACHE_MEMORY_MAX_MB', DEFAULT_MEMORY_MAX_MB) * 1024 * 1024,
+})
+
+type CacheCounters = { memoryHits: number; redisHits: number; misses: number }
+
+const counters = new Map<string, CacheCounters>()
+
+function getStatsPrefix(key: string) {
+  const known = STATS_PREFIXES.find((prefix) => key.startsWith(prefix))
+  if (known) return known
+  const separator = key.indexOf(':')
+  return separator === -1 ? key : key.slice(0, separator + 1)
+}
+
+function count(key: string, outcome: keyof CacheCounters) {
+  const prefix = getStatsPrefix(key)
+  let entry = counters.get(prefix)
+  if (!entry) {
+    entry = { memoryHits: 0, redisHits: 0, misses: 0 }
+    counters.set(prefix, entry)
+  }
+  entry[outcome] += 1
+}
+
+/** Hit/miss counts per key prefix since the process started, plus the memory tier's size. */
+export function getCacheStats() {
+  return {
+    memory: memory.getStats(),
+    prefixes: Object.fromEntries(counters),
+  }
+}
+
+function chunkKey(key: string, index: number) {
+  return `${key}:chunk:${index}`
+}
+
+/** Chunk count from a chunk manifest, or null for a plain value. */
+function parseChunkManifest(raw: string) {
+  if (!raw.startsWith(CHUNKED_PREFIX)) return null
+  const chunkCount = Number(raw.slice(CHUNKED_PREFIX.length))
+  return Number.isInteger(chunkCount) && chunkCount > 0 ? chunkCount : null
+}
+
+/** Splits `raw` into CHUNK_SIZE pieces without cutting a surrogate pair. */
+function splitChunks(raw: string) {
+  const chunks: string[] = []
+  let start = 0
+  while (start < raw.length) {
+    let end = Math.min(start + CHUNK_SIZE, raw.length)
+    const last = raw.charCodeAt(end - 1)
+    if (end < raw.length && last >= 0xd800 && last <= 0xdbff) end -= 1
+    chunks.push(raw.slice(start, end))
+    start = end
+  }
+  return chunks
+}
+
+function encodeRaw(json: string, compress: boolean) {
+  if (!compress) return json
+  return COMPRESSED_PREFIX + gzipSync(json).toString('base64')
+}
+
+function decodeRaw(raw: string) {
+  if (!raw.startsWith(COMPRESSED_PREFIX)) return raw
+  try {
+    const payload = Buffer.from(raw.slice(COMPRESSED_PREFIX.length), 'base64')
+    return gunzipSync(payload).toString('utf8')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Values for `keys` as JSON text, memory first, then one Redis round-trip for
+ * the rest (and a second one for chunked values). Values found in Redis are
+ * copied into memory for their remaining TTL; memory keeps them encoded.
+ * A chunked value with a chunk missing counts as a miss.
+ */
+async function readRawMany(keys: string[]): Promise<Array<string | null>> {
+  const values = keys.map((key) => memory.get(key))
+  const missing = values.flatMap((value, i) => (value == null ? [i] : []))
+
+  const fromRedis = new Set<number>()
+  const found = (i: number, raw: string, ttlMs: number | undefined) => {
+    values[i] = raw
+    fromRedis.add(i)
+    if (ttlMs != null && ttlMs > 0) memory.set(keys[i], raw, ttlMs)
+  }
+
+  if (missing.length > 0) {
+    const replies = await withRedis(async (client) => {
+      const pipeline = client.multi()
+      for (const i of missing) pipeline.get(keys[i]).pTTL(keys[i])
+      return pipeline.exec()
+    })
+    const chunked: Array<{
+      i: number
+      chunkCount: number
+      ttlMs?: number
+    }> = []
+    missing.forEach((i, j) => {
+      const raw = replies?.[j * 2] as string | null | undefined
+      const ttlMs = replies?.[j * 2 + 1] as number | undefined
+      if (raw == null) return
+      const chunkCount = parseChunkManifest(raw)
+      if (chunkCount == null) found(i, raw, ttlMs)
+      else chunked.push({ i, chunkCount, ttlMs })
+    })
+
+    if (chunked.length > 0) {
+      const chunkReplies = await withRedis(async (client) => {
+        const pipeline = client.multi()
+        for (const { i, chunkCount } of chunked) {
+          for (let n = 0; n < chunkCount; n++)
+            pipeline.get(chunkKey(keys[i], n))
+        }
+        return pipeline.exec()
+      })
+      let offset = 0
+      for (const { i, chunkCount, ttlMs } of chunked) {
+        const parts = chunkReplies?.slice(offset, offset + chunkCount) ?? []
+        offset += chunkCount
+        if (parts.length !== chunkCount) continue
+        if (!parts.every((part) => typeof part === 'string')) continue
+        found(i, parts.join(''), ttlMs)
+      }
+    }
+  }
+
+  keys.forEach((key, i) => {
+    if (values[i] == null) count(key, 'misses')
+    else if (fromRedis.has(i)) count(key, 'redisHits')
+    else count(key, 'memoryHits')
+  })
+  return values.map((raw) => (raw == null ? null : decodeRaw(raw)))
+}
+
+/** Stores an encoded value; chunks (written before their manifest) past CHUNK_SIZE. */
+async function writeRaw(key: string, raw: string, ttlSeconds: number) {
+  memory.set(key, raw, ttlSeconds * 1000)
+  await withRedis(async (client) => {
+    if (raw.length <= CHUNK_SIZE) {
+      await client.set(key, raw, { EX: ttlSeconds })
+      return
+    }
+    const chunks = splitChunks(raw)
+    const pipeline = client.multi()
+    chunks.forEach((chunk, n) => {
+      pipeline.set(chunkKey(key, n), chunk, { EX: ttlSeconds })
+    })
+    pipeline.set(key, `${CHUNKED_PREFIX}${chunks.length}`, { EX: ttlSeconds })
+    await pipeline.exec()
+  })
+}
+
+/** Read a cached value. Null on a miss. */
+export async function getCached<T>(key: string): Promise<T | null> {
+  const [raw] = await readRawMany([key])
+  if (!raw) return null
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Store a value in memory and, when available, Redis. Best-effort.
+ * `compress` gzips the JSON, which pays off for large, repetitive values.
+ */
+export async function setCached<T>(
   key: string,
-  fetcher: () => Promise<T>,
+  value: T,
   ttlSeconds = DEFAULT_TTL_SECONDS,
-): Promise<T> {
-  const cached = await withRedis(async (client) => {
-    const raw = await client.get(key)
-    if (!raw) return null
+  { compress = false }: { compress?: boolean } = {},
+): Promise<void> {
+  await writeRaw(key, encodeRaw(JSON.stringify(value), compress), ttlSeconds)
+}
+
+/**
+ * Per-call caching policy. A bare number passed where a policy is expected
+ * is `ttlSeconds`.
+ */
+export type CachePolicy = {
+  /** How long the entry lives in Redis. */
+  ttlSeconds?: number
+  /**
+   * Soft TTL: entries older than this are still returned, and refreshed in
+   * the background. Leave unset for plain read-through.
+   */
+  staleAfterSeconds?: number
+  /** When set, fetcher failures are cached (and rethrown) for this long. */
+  errorTtlSeconds?: number
+  /** Which failures to cache; all of them by default. */
+  cacheError?: (error: unknown) => boolean
+  /** Store values gzipped; see setCached. */
+  compress?: boolean
+}
+
+type ResolvedCachePolicy = {
+  ttlSeconds: number
+  staleAfterSeconds: number | null
+  errorTtlSeconds: number
+  cacheError: (error: unknown) => boolean
+  compress: boolean
+}
+
+type CacheEntry<T> =
+  | { value: T; updatedAt: number }
+  | { error: string; updatedAt: number }
+
+/** Thrown for a key whose last fetch failed and is negative-cached. */
+export class CachedFetchError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CachedFetchError'
+  }
+}
+
+function resolvePolicy(
+  policy: number | CachePolicy | undefined,
+): ResolvedCachePolicy {
+  const options = typeof policy === 'number' ? { ttlSeconds: policy } : policy
+  return {
+    ttlSeconds: options?.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+    staleAfterSeconds: options?.staleAfterSeconds ?? null,
+    errorTtlSeconds: options?.errorTtlSeconds ?? 0,
+    cacheError: options?.cacheError ?? (() => true),
+    compress: options?.compress ?? false,
+  }
+}
+
+function parseEntry<T>(raw: string): CacheEntry<T> | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return null
+  }
+  if (
+    parsed != null &&
+    typeof parsed === 'object' &&
+    'updatedAt' in parsed &&
+    typeof parsed.updatedAt === 'number' &&
+    ('value' in parsed || 'error' in parsed)
+  ) {
+    return parsed as CacheEntry<T>
+  }
+  // Written before entries carried a timestamp; treat as fresh.
+  return { value: parsed as T, updatedAt: Date.now() }
+}
+
+async function readEntry<T>(key: string) {
+  const [raw] = await readRawMany([key])
+  return raw == null ? null : parseEntry<T>(raw)
+}
+
+function isSoftExpired(
+  entry: CacheEntry<unknown>,
+  policy: ResolvedCachePolicy,
+) {
+  return (
+    policy.staleAfterSeconds != null &&
+    Date.now() - entry.updatedAt > policy.staleAfterSeconds * 1000
+  )
+}
+
+/** In-flight fetches by key, so concurrent misses share one upstream call. */
+const inflight = new Map<string, Promise<unknown>>()
+
+function singleflight<T>(key: string, run: () => Promise<T>): Promise<T> {
+  const existing = inflight.get(key) as Promise<T> | undefined
+  if (existing) return existing
+  const promise = run().finally(() => inflight.delete(key))
+  inflight.set(key, promise)
+  return promise
+}
+
+/**
+ * Runs the fetcher (once per key at a time) and stores the result. Failures
+ * are negative-cached per policy, except during background refreshes, where
+ * the stale value is better than an error.
+ */
+function fetchAndStore<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  policy: ResolvedCachePolicy,
+  {
+    cacheErrors,
+    fallbackTtlSeconds,
+  }: { cacheErrors: boolean; fallbackTtlSeconds?: number },
+): Promise<{ value: T; updatedAt: number }> {
+  return singleflight(key, async () => {
+    let value: T
     try {
-      return JSON.parse(raw) as T
-    } catch {
-      return null
+      value = await fetcher()
+    } catch (error) {
+      if (
+        cacheErrors &&
+        policy.errorTtlSeconds > 0 &&
+        policy.cacheError(error)
+      ) {
+        await setCached<CacheEntry<T>>(
+          key,
+          {
+            error: error instanceof Error ? error.message : String(error),
+            updatedAt: Date.now(),
+          },
+          policy.errorTtlSeconds,
+        )
+      }
+      throw error
     }
+
+    const entry = { value, updatedAt: Date.now() }
+    const { compress } = policy
+    await setCached(key, entry, policy.ttlSeconds, { compress })
+    if (fallbackTtlSeconds != null) {
+      await setCached(`${key}:fallback`, entry, fallbackTtlSeconds, {
+        compress,
+      })
+    }
+    return entry
   })
+}
 
-  if (cached != null) return cached
+function refreshInBackground<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  policy: ResolvedCachePolicy,
+  fallbackTtlSeconds?: number,
+) {
+  fetchAndStore(key, fetcher, policy, {
+    cacheErrors: false,
+    fallbackTtlSeconds,
+  }).catch((error: unknown) => {
+    console.error(`[cache] Background refresh failed for ${key}:`, error)
+  })
+}
 
-  const value = await fetcher()
+/**
+ * Get a value from cache or compute and store it.
+ * Returns the fetcher result; cache is best-effort (memory only if Redis unavailable).
+ * Concurrent misses for a key share one fetch; see CachePolicy for soft TTL
+ * and negative caching.
+ */
+export async function getOrSet<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  policy: number | CachePolicy = DEFAULT_TTL_SECONDS,
+): Promise<T> {
+  const options = resolvePolicy(policy)
+  const entry = await readEntry<T>(key)
+  if (entry) {
+    if ('error' in entry) throw new CachedFetchError(entry.error)
+    if (isSoftExpired(entry, options)) {
+      refreshInBackground(key, fetcher, options)
+    }
+    return entry.value
+  }
 
-  await withRedis(async (client) => {
-    await client.set(key, JSON.stringify(value), { EX: ttlSeconds })
+  const fresh = await fetchAndStore(key, fetcher, options, {
+    cacheErrors: true,
   })
+  return fresh.value
+}
 
-  return value
+/** A cached value, and whether it is a fallback copy past its TTL. */
+export type CachedResult<T> = {
+  value: T
+  stale: boolean
+  updatedAt: number
 }
 
+/**
+ * Like getOrSet, but also keeps the last good value for `fallbackTtlSeconds`.
+ * When the fetcher fails with an error `canFallback` accepts (e.g. an API
+ * budget running out), that copy is returned flagged as stale instead.
+ */
+export async function getOrSetWithFallback<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  {
+    fallbackTtlSeconds,
+    canFallback,
+    ...policy
+  }: CachePolicy & {
+    fallbackTtlSeconds: number
+    canFallback: (error: unknown) => boolean
+  },
+): Promise<CachedResult<T>> {
+  const options = resolvePolicy(policy)
+  const entry = await readEntry<T>(key)
+  if (entry) {
+    if ('error' in entry) throw new CachedFetchError(entry.error)
+    if (isSoftExpired(entry, options)) {
+      refreshInBackground(key, fetcher, options, fallbackTtlSeconds)
+    }
+    return { ...entry, stale: false }
+  }
+
+  try {
+    const fresh = await fetchAndStore(key, fetcher, options, {
+      cacheErrors: true,
+      fallbackTtlSeconds,
+    })
+    return { ...fresh, stale: false }
+  } catch (error) {
+    if (!canFallback(error)) throw error
+    const fallback = await readEntry<T>(`${key}:fallback`)
+    if (fallback == null || 'error' in fallback) throw error
+    return { ...fallback, stale: true }
+  }
+}
+
+/** One key's outcome in getOrSetMany. */
+export type CacheManyResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: unknown }
+
 /**
  * Get multiple values from cache or compute and store them.
- * Uses MGET for a single Redis round-trip. Cache is best-effort.
+ * Keys not in memory are read in a single Redis round-trip (plus one for
+ * chunked values). Cache is best-effort.
+ * Misses go through the same per-key coalescing and policy as getOrSet.
+ * Results are per key, in order, so one failed (or negative-cached) key does
+ * not fail the rest.
  */
 export async function getOrSetMany<T>(
   entries: Array<{ key: string; fetcher: () => Promise<T> }>,
-  ttlSeconds = DEFAULT_TTL_SECONDS,
-): Promise<T[]> {
+  policy: number | CachePolicy = DEFAULT_TTL_SECONDS,
+): Promise<Array<CacheManyResult<T>>> {
   if (entries.length === 0) return []
 
+  const options = resolvePolicy(policy)
   const keys = entries.map((e) => e.key)
-  const rawValues = await withRedis(async (client) => {
-    return client.mGet(keys)
-  })
+  const rawValues = await readRawMany(keys)
 
-  const results: (T | null)[] = new Array(entries.length)
-  const misses: Array<{ index: number; fetcher: () => Promise<T> }> = []
-
-  for (let i = 0; i < entries.length; i++) {
-    const raw = rawValues?.[i]
-    if (raw != null) {
+  return Promise.all(
+    entries.map(async ({ key, fetcher }, i): Promise<CacheManyResult<T>> => {
+      const raw = rawValues[i]
+      const entry = raw == null ? null : parseEntry<T>(raw)
+      if (entry) {
+        if ('error' in entry) {
+          return { ok: false, error: new CachedFetchError(entry.error) }
+        }
+        if (isSoftExpired(entry, options)) {
+          refreshInBackground(key, fetcher, options)
+        }
+        return { ok: true, value: entry.value }
+      }
       try {
-        results[i] = JSON.parse(raw) as T
-      } catch {
-        misses.push({ index: i, fetcher: entries[i].fetcher })
+        const fresh = await fetchAndStore(key, fetcher, options, {
+          cacheErrors: true,
+        })
+        return { ok: true, value: fresh.value }
+      } catch (error) {
+        return { ok: false, error }
       }
-    } else {
-      misses.push({ index: i, fetcher: entries[i].fetcher })
-    }
-  }
-
-  if (misses.length === 0) return results as T[]
-
-  const fetched = await Promise.all(misses.map((m) => m.fetcher()))
-  for (let j = 0; j < misses.length; j++) {
-    results[misses[j].index] = fetched[j]
-  }
-
-  await withRedis(async (client) => {
-    const pipeline = client.multi()
-    for (let j = 0; j < misses.length; j++) {
-      const idx = misses[j].index
-      pipeline.set(keys[idx], JSON.stringify(fetched[j]), { EX: ttlSeconds })
-    }
-    await pipeline.exec()
-  })
-
-  return results as T[]
+    }),
+  )
 }
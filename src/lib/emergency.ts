@@ -0,0 +1,94 @@
+/** Emergency and alert detection from the ADS-B status fields
+ *  (`squawk`, `emergency`, `alert`, `spi`). Pure; episodes are tracked by
+ *  the caller.
+ */
+
+/**
+ * Why an aircraft is flagged. Squawks 7500/7600/7700 share a reason with
+ * the matching ADS-B emergency state, so one event raises one episode.
+ */
+export type EmergencyReason =
+  | 'unlawful'
+  | 'nordo'
+  | 'general'
+  | 'lifeguard'
+  | 'minfuel'
+  | 'downed'
+  | 'reserved'
+  | 'alert'
+  | 'spi'
+
+/** Emergencies declare distress; advisories are flags ATC may have asked for. */
+export type EmergencySeverity = 'emergency' | 'advisory'
+
+export type EmergencyDetection = {
+  reason: EmergencyReason
+  severity: EmergencySeverity
+  label: string
+}
+
+export const EMERGENCY_REASON_LABELS: Record<EmergencyReason, string> = {
+  unlawful: 'Unlawful interference',
+  nordo: 'Radio failure',
+  general: 'General emergency',
+  lifeguard: 'Medical (lifeguard)',
+  minfuel: 'Minimum fuel',
+  downed: 'Downed aircraft',
+  reserved: 'Emergency (reserved code)',
+  alert: 'Alert flag',
+  spi: 'Ident (SPI)',
+}
+
+const SQUAWK_REASONS: Record<string, EmergencyReason> = {
+  '7500': 'unlawful',
+  '7600': 'nordo',
+  '7700': 'general',
+}
+
+const EMERGENCY_STATE_REASONS: Record<string, EmergencyReason> = {
+  general: 'general',
+  lifeguard: 'lifeguard',
+  minfuel: 'minfuel',
+  nordo: 'nordo',
+  unlawful: 'unlawful',
+  downed: 'downed',
+  reserved: 'reserved',
+}
+
+function toDetection(
+  reason: EmergencyReason,
+  squawk: string | null,
+): EmergencyDetection {
+  const label = EMERGENCY_REASON_LABELS[reason]
+  return {
+    reason,
+    severity: reason === 'alert' || reason === 'spi' ? 'advisory' : 'emergency',
+    label: squawk ? `Squawk ${squawk} · ${label}` : label,
+  }
+}
+
+/**
+ * Every reason an aircraft is flagged right now, emergencies first.
+ * Empty for a normal aircraft.
+ */
+export function detectEmergencies(aircraft: {
+  squawk?: string | null
+  emergency?: string | null
+  alert?: number | null
+  spi?: number | null
+}): EmergencyDetection[] {
+  const squawk = aircraft.squawk?.trim() ?? ''
+  const squawkReason = SQUAWK_REASONS[squawk] as EmergencyReason | undefined
+  const stateReason = EMERGENCY_STATE_REASONS[
+    aircraft.emergency?.trim().toLowerCase() ?? ''
+  ] as EmergencyReason | undefined
+
+  const detections: EmergencyDetection[] = []
+  if (squawkReason) detections.push(toDetection(squawkReason, squawk))
+  if (stateReason && stateReason !== squawkReason) {
+    detections.push(toDetection(stateReason, null))
+  }
+  if (aircraft.alert === 1) detections.push(toDetection('alert', null))
+  if (aircraft.spi === 1) detections.push(toDetection('spi', null))
+  return detections
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest'
+import {
+  classifyFlightPhases,
+  inferFlightPhase,
+  updateFlightPhase,
+} from './flight-phase'
+import type { FlightPhaseSample, FlightPhaseState } from './flight-phase'
+
+const MINUTE = 60_000
+
+function ground(groundSpeed: number, time = 0): FlightPhaseSample {
+  return { time, onGround: true, altitude: 0, verticalRate: 0, groundSpeed }
+}
+
+function air(
+  altitude: number | null,
+  verticalRate: number | null,
+  time = 0,
+): FlightPhaseSample {
+  return { time, onGround: false, altitude, verticalRate, groundSpeed: 250 }
+}
+
+function stateOf(phase: FlightPhaseState['phase'], time = 0): FlightPhaseState {
+  return { phase, since: time, time, candidate: null, candidateCount: 0 }
+}
+
+describe('inferFlightPhase', () => {
+  it('classifies ground movement', () => {
+    expect(inferFlightPhase(ground(0))).toBe('parked')
+    expect(inferFlightPhase(ground(15))).toBe('taxi')
+    expect(inferFlightPhase(ground(60), 'taxi')).toBe('takeoff-roll')
+  })
+
+  it('tells a landing rollout from a takeoff roll', () => {
+    expect(inferFlightPhase(ground(90), 'landing')).toBe('landing')
+    expect(inferFlightPhase(ground(90), 'approach')).toBe('landing')
+    expect(inferFlightPhase(ground(90), 'parked')).toBe('takeoff-roll')
+  })
+
+  it('walks a departure through climb and cruise', () => {
+    expect(inferFlightPhase(air(500, 0), 'takeoff-roll')).toBe('climb')
+    expect(inferFlightPhase(air(3000, 2000), 'takeoff-roll')).toBe('climb')
+    expect(inferFlightPhase(air(36000, 0), 'climb')).toBe('cruise')
+  })
+
+  it('walks an arrival through descent, approach and landing', () => {
+    expect(inferFlightPhase(air(20000, -1500), 'cruise')).toBe('descent')
+    expect(inferFlightPhase(air(3000, -800), 'descent')).toBe('approach')
+    expect(inferFlightPhase(air(500, -700), 'approach')).toBe('landing')
+  })
+
+  it('calls a climb out of an approach a go-around, and keeps it level', () => {
+    expect(inferFlightPhase(air(1500, 1500), 'approach')).toBe('go-around')
+    expect(inferFlightPhase(air(600, 1500), 'landing')).toBe('go-around')
+    expect(inferFlightPhase(air(3000, 0), 'go-around')).toBe('go-around')
+    expect(inferFlightPhase(air(6000, 1500), 'approach')).toBe('climb')
+  })
+
+  it('keeps an approach through a low level-off', () => {
+    expect(inferFlightPhase(air(3000, 0), 'approach')).toBe('approach')
+    expect(inferFlightPhase(air(3000, 0), 'cruise')).toBe('cruise')
+  })
+})
+
+describe('dead bands', () => {
+  it('needs a lower speed to park than to stay parked', () => {
+    expect(inferFlightPhase(ground(5), 'parked')).toBe('parked')
+    expect(inferFlightPhase(ground(5), 'taxi')).toBe('taxi')
+  })
+
+  it('needs a higher speed to start a roll than to keep rolling', () => {
+    expect(inferFlightPhase(ground(35), 'takeoff-roll')).toBe('takeoff-roll')
+    expect(inferFlightPhase(ground(35), 'landing')).toBe('landing')
+    expect(inferFlightPhase(ground(35), 'taxi')).toBe('taxi')
+  })
+
+  it('needs a steeper rate to start a climb or descent than to keep it', () => {
+    expect(inferFlightPhase(air(20000, 300), 'climb')).toBe('climb')
+    expect(inferFlightPhase(air(20000, 300), 'cruise')).toBe('cruise')
+    expect(inferFlightPhase(air(20000, -300), 'descent')).toBe('descent')
+    expect(inferFlightPhase(air(20000, -300), 'cruise')).toBe('cruise')
+  })
+
+  it('needs a lower altitude to start an approach or landing than to keep it', () => {
+    expect(inferFlightPhase(air(4500, -800), 'approach')).toBe('approach')
+    expect(inferFlightPhase(air(4500, -800), 'descent')).toBe('descent')
+    expect(inferFlightPhase(air(1000, -700), 'landing')).toBe('landing')
+    expect(inferFlightPhase(air(1000, -700), 'approach')).toBe('approach')
+  })
+})
+
+describe('updateFlightPhase', () => {
+  it('starts from the sample alone', () => {
+    expect(updateFlightPhase(null, air(36000, 0, 1000))).toEqual(
+      stateOf('cruise', 1000),
+    )
+  })
+
+  it('ignores a single contradicting sample', () => {
+    let state = stateOf('cruise')
+    state = updateFlightPhase(state, air(30000, -1500, 1000))
+    expect(state).toMatchObject({
+      phase: 'cruise',
+      candidate: 'descent',
+      candidateCount: 1,
+    })
+    state = updateFlightPhase(state, air(30000, 0, 2000))
+    expect(state).toEqual({ ...stateOf('cruise'), time: 2000 })
+    state = updateFlightPhase(state, air(30000, -1500, 3000))
+    expect(state.phase).toBe('cruise')
+  })
+
+  it('switches after consecutive samples agree', () => {
+    let state = stateOf('cruise')
+    state = updateFlightPhase(state, air(30000, -1500, 1000))
+    state = updateFlightPhase(state, air(29000, -1500, 2000))
+    expect(state).toEqual(stateOf('descent', 2000))
+  })
+
+  it('leaves the state alone for a repeated or older sample', () => {
+    const state = updateFlightPhase(
+      stateOf('cruise', 5000),
+      air(30000, -1500, 6000),
+    )
+    expect(updateFlightPhase(state, air(30000, -1500, 6000))).toBe(state)
+    expect(updateFlightPhase(state, air(30000, -1500, 4000))).toBe(state)
+  })
+
+  it('starts over after a long gap', () => {
+    // A low level-off would keep `approach`, but not after five minutes' silence.
+    const state = stateOf('approach')
+    expect(updateFlightPhase(state, air(3000, 0, 4 * MINUTE)).phase).toBe(
+      'approach',
+    )
+    expect(updateFlightPhase(state, air(3000, 0, 6 * MINUTE))).toEqual(
+      stateOf('cruise', 6 * MINUTE),
+    )
+  })
+})
+
+describe('classifyFlightPhases', () => {
+  it('derives missing vertical rates from the altitude change', () => {
+    expect(
+      classifyFlightPhases([
+        air(10000, null, 0),
+        air(11000, null, MINUTE),
+        air(12000, null, 2 * MINUTE),
+      ]),
+    ).toEqual(['cruise', 'cruise', 'climb'])
+  })
+
+  it('keeps reported rates', () => {
+    expect(
+      classifyFlightPhases([
+        air(10000, 0, 0),
+        air(11000, -1500, MINUTE),
+        air(12000, -1500, 2 * MINUTE),
+      ]),
+    ).toEqual(['cruise', 'cruise', 'descent'])
+  })
+
+  it('does not derive a rate across a long gap or a missing altitude', () => {
+    expect(
+      classifyFlightPhases([
+        air(10000, null, 0),
+        air(20000, null, 3 * MINUTE),
+        air(20500, null, 3.5 * MINUTE),
+        air(21000, null, 4 * MINUTE),
+      ]),
+    ).toEqual(['cruise', 'cruise', 'cruise', 'climb'])
+    expect(
+      classifyFlightPhases([
+        air(10000, null, 0),
+        air(null, null, MINUTE),
+        air(12000, null, 2 * MINUTE),
+      ]),
+    ).toEqual(['cruise', 'cruise', 'cruise'])
+  })
+})
@@ -0,0 +1,314 @@
+/** Flight phase classification from ADS-B state.
+ *  Pure and framework-free: feed it one sample at a time per aircraft
+ *  (live polls) with `updateFlightPhase`, or a whole track (replay traces)
+ *  with `classifyFlightPhases`.
+ *
+ *  Altitudes are pressure altitudes, not height above the field, so at
+ *  high-elevation airports the final approach reads as `approach` until
+ *  touchdown rather than `landing`.
+ */
+
+export const FLIGHT_PHASES = [
+  'parked',
+  'taxi',
+  'takeoff-roll',
+  'climb',
+  'cruise',
+  'descent',
+  'approach',
+  'landing',
+  'go-around',
+] as const
+
+export type FlightPhase = (typeof FLIGHT_PHASES)[number]
+
+export const FLIGHT_PHASE_LABELS: Record<FlightPhase, string> = {
+  parked: 'Parked',
+  taxi: 'Taxi',
+  'takeoff-roll': 'Takeoff roll',
+  climb: 'Climb',
+  cruise: 'Cruise',
+  descent: 'Descent',
+  approach: 'Approach',
+  landing: 'Landing',
+  'go-around': 'Go-around',
+}
+
+/** One observation of an aircraft, in feet, ft/min and knots. */
+export type FlightPhaseSample = {
+  /** Unix ms. */
+  time: number
+  onGround: boolean
+  /** Barometric altitude in feet; null when unknown. */
+  altitude: number | null
+  /** Vertical rate in ft/min, positive climbing; null when unknown. */
+  verticalRate: number | null
+  /** Ground speed in knots; null when unknown. */
+  groundSpeed: number | null
+}
+
+/** Classifier state carried between samples of one aircraft. */
+export type FlightPhaseState = {
+  phase: FlightPhase
+  /** Unix ms the current phase was entered. */
+  since: number
+  /** Unix ms of the last sample applied. */
+  time: number
+  /** A different phase seen in the latest samples, not yet confirmed. */
+  candidate: FlightPhase | null
+  candidateCount: number
+}
+
+// ─── Thresholds ───────────────────────────────────────────────────────────────
+// Pairs of enter / stay values give each boundary a dead band, so a value
+// hovering around one threshold does not flip the label back and forth.
+
+const PARKED_SPEED_KT = 3
+const PARKED_STAY_SPEED_KT = 6
+const ROLL_SPEED_KT = 40
+const ROLL_STAY_SPEED_KT = 30
+const CLIMB_RATE_FPM = 500
+const CLIMB_STAY_RATE_FPM = 200
+const DESCENT_RATE_FPM = -500
+const DESCENT_STAY_RATE_FPM = -200
+const APPROACH_ALTITUDE_FT = 4000
+const APPROACH_STAY_ALTITUDE_FT = 5000
+const LANDING_ALTITUDE_FT = 800
+const LANDING_STAY_ALTITUDE_FT = 1200
+/** A climb out of an approach below this altitude is a go-around. */
+const GO_AROUND_MAX_ALTITUDE_FT = 5000
+
+/** Samples in a row a new phase needs before it replaces the current one. */
+const PHASE_CONFIRM_SAMPLES = 2
+/** After a gap this long, the previous state no longer says anything. */
+const PHASE_STATE_STALE_MS = 5 * 60 * 1000
+/** Derived vertical rates are only trusted across gaps shorter than this. */
+const MAX_RATE_DERIVATION_GAP_MS = 2 * 60 * 1000
+
+const AIRBORNE_PHASES = new Set<FlightPhase>([
+  'climb',
+  'cruise',
+  'descent',
+  'approach',
+  'landing',
+  'go-around',
+])
+const ARRIVAL_PHASES = new Set<FlightPhase>(['approach', 'landing'])
+const CLIMB_PHASES = new Set<FlightPhase>(['climb', 'go-around'])
+const DESCENT_PHASES = new Set<FlightPhase>(['descent', 'approach', 'landing'])
+
+function crosses(
+  value: number,
+  enter: number,
+  stay: number,
+  wasInside: boolean,
+  direction: 'above' | 'below',
+) {
+  const threshold = wasInside ? stay : enter
+  return direction === 'above' ? value > threshold : value < threshold
+}
+
+function inferGroundPhase(
+  sample: FlightPhaseSample,
+  previous: FlightPhase | null,
+): FlightPhase {
+  const speed = sample.groundSpeed ?? 0
+  if (
+    crosses(
+      speed,
+      PARKED_SPEED_KT,
+      PARKED_STAY_SPEED_KT,
+      previous === 'parked',
+      'below',
+    )
+  ) {
+    return 'parked'
+  }
+
+  const wasRolling = previous === 'takeoff-roll' || previous === 'landing'
+  if (!crosses(speed, ROLL_SPEED_KT, ROLL_STAY_SPEED_KT, wasRolling, 'above')) {
+    return 'taxi'
+  }
+  // Fast on the ground: rolling out after touchdown, or accelerating to fly.
+  return previous && AIRBORNE_PHASES.has(previous) ? 'landing' : 'takeoff-roll'
+}
+
+function inferAirbornePhase(
+  sample: FlightPhaseSample,
+  previous: FlightPhase | null,
+): FlightPhase {
+  const rate = sample.verticalRate ?? 0
+  const altitude = sample.altitude ?? Number.POSITIVE_INFINITY
+  const wasArriving = previous != null && ARRIVAL_PHASES.has(previous)
+
+  const climbing = crosses(
+    rate,
+    CLIMB_RATE_FPM,
+    CLIMB_STAY_RATE_FPM,
+    previous != null && CLIMB_PHASES.has(previous),
+    'above',
+  )
+  if (climbing) {
+    const goingAround =
+      (wasArriving || previous === 'go-around') &&
+      altitude < GO_AROUND_MAX_ALTITUDE_FT
+    return goingAround ? 'go-around' : 'climb'
+  }
+
+  const low = crosses(
+    altitude,
+    APPROACH_ALTITUDE_FT,
+    APPROACH_STAY_ALTITUDE_FT,
+    wasArriving,
+    'below',
+  )
+  if (
+    wasArriving &&
+    crosses(
+      altitude,
+      LANDING_ALTITUDE_FT,
+      LANDING_STAY_ALTITUDE_FT,
+      previous === 'landing',
+      'below',
+    )
+  ) {
+    return 'landing'
+  }
+
+  const descending = crosses(
+    rate,
+    DESCENT_RATE_FPM,
+    DESCENT_STAY_RATE_FPM,
+    previous != null && DESCENT_PHASES.has(previous),
+    'below',
+  )
+  if (descending) return low ? 'approach' : 'descent'
+
+  // Level flight: keep low-altitude arrival and go-around labels through
+  // level-offs; just after liftoff the aircraft is still climbing out.
+  if (low && previous && (wasArriving || previous === 'go-around')) {
+    return previous
+  }
+  if (previous === 'takeoff-roll') return 'climb'
+  return 'cruise'
+}
+
+/**
+ * The phase one sample suggests on its own, given the current phase.
+ * The current phase picks which side of each threshold's dead band applies
+ * and tells e.g. a rollout from a takeoff roll.
+ */
+export function inferFlightPhase(
+  sample: FlightPhaseSample,
+  previous: FlightPhase | null = null,
+): FlightPhase {
+  return sample.onGround
+    ? inferGroundPhase(sample, previous)
+    : inferAirbornePhase(sample, previous)
+}
+
+/**
+ * Applies one sample to an aircraft's classifier state. A new phase only
+ * replaces the current one after PHASE_CONFIRM_SAMPLES samples in a row
+ * agree on it, so single noisy reports do not flicker the label. Samples no
+ * newer than the last one applied (a repeated poll) leave the state as is.
+ */
+export function updateFlightPhase(
+  state: FlightPhaseState | null,
+  sample: FlightPhaseSample,
+): FlightPhaseState {
+  if (!state || sample.time - state.time > PHASE_STATE_STALE_MS) {
+    return {
+      phase: inferFlightPhase(sample),
+      since: sample.time,
+      time: sample.time,
+      candidate: null,
+      candidateCount: 0,
+    }
+  }
+  if (sample.time <= state.time) return state
+
+  const next = inferFlightPhase(sample, state.phase)
+  if (next === state.phase) {
+    return { ...state, time: sample.time, candidate: null, candidateCount: 0 }
+  }
+
+  const candidateCount = next === state.candidate ? state.candidateCount + 1 : 1
+  if (candidateCount >= PHASE_CONFIRM_SAMPLES) {
+    return {
+      phase: next,
+      since: sample.time,
+      time: sample.time,
+      candidate: null,
+      candidateCount: 0,
+    }
+  }
+  return { ...state, time: sample.time, candidate: next, candidateCount }
+}
+
+/**
+ * Phase at each sample of a track, in the order given. Samples without a
+ * vertical rate get one derived from the altitude change since the
+ * previous sample.
+ */
+export function classifyFlightPhases(
+  samples: FlightPhaseSample[],
+): FlightPhase[] {
+  const phases: FlightPhase[] = []
+  let state: FlightPhaseState | null = null
+  let previous: FlightPhaseSample | null = null
+
+  for (const sample of samples) {
+    let withRate = sample
+    if (sample.verticalRate == null && previous) {
+      const elapsedMs = sample.time - previous.time
+      if (
+        sample.altitude != null &&
+        previous.altitude != null &&
+        elapsedMs > 0 &&
+        elapsedMs <= MAX_RATE_DERIVATION_GAP_MS
+      ) {
+        withRate = {
+          ...sample,
+          verticalRate:
+            ((sample.altitude - previous.altitude) / elapsedMs) * 60_000,
+        }
+      }
+    }
+    state = updateFlightPhase(state, withRate)
+    phases.push(state.phase)
+    previous = sample
+  }
+  return phases
+}
+
+function finiteOrNull(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+/**
+ * Sample from a live aircraft record. Feeds report the surface as
+ * `alt_baro: "ground"` or, once normalized, 0. The sample time is backdated
+ * by `seen_pos` so repeated polls of an unchanged report are recognised.
+ */
+export function getAircraftPhaseSample(
+  aircraft: {
+    alt_baro?: number | string | null
+    baro_rate?: number | null
+    geom_rate?: number | null
+    gs?: number | null
+    seen_pos?: number | null
+  },
+  now = Date.now(),
+): FlightPhaseSample {
+  const altitude = finiteOrNull(aircraft.alt_baro)
+  const seenPos = finiteOrNull(aircraft.seen_pos) ?? 0
+  return {
+    time: Math.round((now - seenPos * 1000) / 1000) * 1000,
+    onGround: aircraft.alt_baro === 'ground' || altitude === 0,
+    altitude,
+    verticalRate:
+      finiteOrNull(aircraft.baro_rate) ?? finiteOrNull(aircraft.geom_rate),
+    groundSpeed: finiteOrNull(aircraft.gs),
+  }
+}
@@ -0,0 +1,100 @@
+import type { GeoBounds } from './geo'
+import { EARTH_RADIUS_KM, KM_PER_NM, haversineNm } from './geo'
+
+/** One circle of a global covering, with the lat/lon cell it is responsible for. */
+export type CoveringCell = {
+  id: string
+  lat: number
+  lon: number
+  radiusNm: number
+  bounds: GeoBounds
+}
+
+/** Half the Earth's circumference: a circle this size around any point covers the globe. */
+const GLOBE_RADIUS_NM = (Math.PI * EARTH_RADIUS_KM) / KM_PER_NM
+
+const coverings = new Map<number | null, CoveringCell[]>()
+
+function getCellRadiusNm(bounds: GeoBounds) {
+  const lat = (bounds.south + bounds.north) / 2
+  const lon = (bounds.west + bounds.east) / 2
+  // The farthest points of a lat/lon cell from its center are its corners.
+  return Math.max(
+    haversineNm(lat, lon, bounds.south, bounds.west),
+    haversineNm(lat, lon, bounds.north, bounds.west),
+  )
+}
+
+function buildCovering(maxRadiusNm: number): CoveringCell[] {
+  // Rows are sized so an equator cell as wide as it is tall fits the radius;
+  // each row then gets as few columns as its own latitude allows.
+  let rowCount = 1
+  while (
+    getCellRadiusNm({
+      south: -90 / rowCount,
+      west: -90 / rowCount,
+      north: 90 / rowCount,
+      east: 90 / rowCount,
+    }) > maxRadiusNm
+  ) {
+    rowCount += 1
+  }
+
+  const rowHeight = 180 / rowCount
+  const cells: CoveringCell[] = []
+  for (let row = 0; row < rowCount; row++) {
+    const north = 90 - row * rowHeight
+    const south = north - rowHeight
+    let columnCount = 1
+    while (
+      getCellRadiusNm({ south, west: 0, north, east: 360 / columnCount }) >
+      maxRadiusNm
+    ) {
+      columnCount += 1
+    }
+
+    const columnWidth = 360 / columnCount
+    for (let column = 0; column < columnCount; column++) {
+      const bounds = {
+        south,
+        west: -180 + column * columnWidth,
+        north,
+        east: -180 + (column + 1) * columnWidth,
+      }
+      cells.push({
+        id: `${row}/${column}`,
+        lat: (south + north) / 2,
+        lon: (bounds.west + bounds.east) / 2,
+        radiusNm: getCellRadiusNm(bounds),
+        bounds,
+      })
+    }
+  }
+  return cells
+}
+
+/**
+ * Circles that together cover the whole globe, none larger than
+ * `maxRadiusNm`. Cells are lat/lon rectangles in latitude rows, with fewer
+ * columns towards the poles. `null` (no radius limit) is a single circle.
+ * Coverings are computed once per radius and reused.
+ */
+export function getGlobalCovering(maxRadiusNm: number | null): CoveringCell[] {
+  let covering = coverings.get(maxRadiusNm)
+  if (!covering) {
+    covering =
+      maxRadiusNm == null || maxRadiusNm >= GLOBE_RADIUS_NM
+        ? [
+            {
+              id: '0/0',
+              lat: 0,
+              lon: 0,
+              radiusNm: GLOBE_RADIUS_NM,
+              bounds: { south: -90, west: -180, north: 90, east: 180 },
+            },
+          ]
+        : buildCovering(maxRadiusNm)
+    coverings.set(maxRadiusNm, covering)
+  }
+  return covering
+}
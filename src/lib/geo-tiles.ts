@@ -0,0 +1,132 @@
+import type { GeoBounds } from './geo'
+import { haversineNm, splitBoundsAtAntimeridian } from './geo'
+
+/**
+ * Equal-angle lat/lon tile grid. Level `z` has 2^z columns of 360/2^z degrees
+ * and 2^z rows of 180/2^z degrees; `y` counts down from the north pole.
+ * Tiles are stable across viewports, so they double as cache keys.
+ */
+export type GeoTile = { z: number; x: number; y: number }
+
+export const MAX_TILE_ZOOM = 12
+
+export function getTileKey({ z, x, y }: GeoTile) {
+  return `${z}/${x}/${y}`
+}
+
+export function getTileBounds({ z, x, y }: GeoTile): GeoBounds {
+  const width = 360 / 2 ** z
+  const height = 180 / 2 ** z
+  return {
+    south: 90 - (y + 1) * height,
+    west: -180 + x * width,
+    north: 90 - y * height,
+    east: -180 + (x + 1) * width,
+  }
+}
+
+export function getTileCenter(tile: GeoTile) {
+  const bounds = getTileBounds(tile)
+  return {
+    lat: (bounds.south + bounds.north) / 2,
+    lon: (bounds.west + bounds.east) / 2,
+  }
+}
+
+/** Radius (nm) of the smallest circle around the tile center that covers the tile. */
+export function getTileRadiusNm(tile: GeoTile) {
+  const bounds = getTileBounds(tile)
+  const { lat, lon } = getTileCenter(tile)
+  return Math.max(
+    haversineNm(lat, lon, bounds.south, bounds.west),
+    haversineNm(lat, lon, bounds.north, bounds.west),
+  )
+}
+
+/** Tiles at level `z` intersecting `bounds`, handling antimeridian-crossing boxes. */
+export function getTilesInBounds(bounds: GeoBounds, z: number): GeoTile[] {
+  const count = 2 ** z
+  const width = 360 / count
+  const height = 180 / count
+  const clampIndex = (value: number) =>
+    Math.min(count - 1, Math.max(0, Math.floor(value)))
+
+  const tiles: GeoTile[] = []
+  const seen = new Set<string>()
+  for (const part of splitBoundsAtAntimeridian(bounds)) {
+    const minX = clampIndex((part.west + 180) / width)
+    const maxX = clampIndex((part.east + 180) / width)
+    const minY = clampIndex((90 - part.north) / height)
+    const maxY = clampIndex((90 - part.south) / height)
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const tile = { z, x, y }
+        const key = getTileKey(tile)
+        if (seen.has(key)) continue
+        seen.add(key)
+        tiles.push(tile)
+      }
+    }
+  }
+  return tiles
+}
+
+/**
+ * The coarsest level that splits `bounds` into at least `minTiles` tiles,
+ * refined until every tile fits within `maxRadiusNm` (when the upstream caps
+ * its radius). Returns every tile at that level, however many there are.
+ */
+export function getViewportTileLevel(
+  bounds: GeoBounds,
+  {
+    minTiles = 4,
+    maxRadiusNm = null,
+  }: { minTiles?: number; maxRadiusNm?: number | null } = {},
+): GeoTile[] {
+  let z = 0
+  let tiles = getTilesInBounds(bounds, z)
+  while (z < MAX_TILE_ZOOM) {
+    const needsSplit =
+      tiles.length < minTiles ||
+      (maxRadiusNm != null &&
+        tiles.some((tile) => getTileRadiusNm(tile) > maxRadiusNm))
+    if (!needsSplit) break
+    z += 1
+    tiles = getTilesInBounds(bounds, z)
+  }
+  return tiles
+}
+
+/**
+ * Picks the tiles to request for a viewport (see `getViewportTileLevel`).
+ * When that needs more than `maxTiles`, the tiles closest to the viewport
+ * center win.
+ */
+export function getViewportTiles(
+  bounds: GeoBounds,
+  {
+    minTiles = 4,
+    maxTiles = 32,
+    maxRadiusNm = null,
+  }: { minTiles?: number; maxTiles?: number; maxRadiusNm?: number | null } = {},
+): GeoTile[] {
+  const tiles = getViewportTileLevel(bounds, { minTiles, maxRadiusNm })
+  if (tiles.length <= maxTiles) return tiles
+
+  const centerLat = (bounds.south + bounds.north) / 2
+  const centerLon =
+    bounds.west <= bounds.east
+      ? (bounds.west + bounds.east) / 2
+      : (((bounds.west + bounds.east + 360) / 2 + 180) % 360) - 180
+  return tiles
+    .map((tile) => {
+      const center = getTileCenter(tile)
+      return {
+        tile,
+        distance: haversineNm(centerLat, centerLon, center.lat, center.lon),
+      }
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, maxTiles)
+    .map(({ tile }) => tile)
+}
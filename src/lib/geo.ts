@@ -0,0 +1,96 @@
+export const EARTH_RADIUS_KM = 6371
+export const KM_PER_NM = 1.852
+export const KM_PER_DEGREE_LAT = 111.32
+
+/** Lat/lon rectangle. `west > east` means the box crosses the antimeridian. */
+export type GeoBounds = {
+  south: number
+  west: number
+  north: number
+  east: number
+}
+
+export function haversineKm(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const dLat = ((lat2 - lat1) * Math.PI) / 180
+  const dLon = ((lon2 - lon1) * Math.PI) / 180
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) ** 2
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+export function haversineNm(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  return haversineKm(lat1, lon1, lat2, lon2) / KM_PER_NM
+}
+
+/** Wraps a longitude into [-180, 180]; in-range values are returned as-is. */
+export function normalizeLongitude(lon: number) {
+  if (lon >= -180 && lon <= 180) return lon
+  return ((((lon + 180) % 360) + 360) % 360) - 180
+}
+
+/** Normalizes a west/east pair that may extend past ±180 (e.g. from a wrapped map view). */
+export function normalizeBounds(bounds: GeoBounds): GeoBounds {
+  if (bounds.east - bounds.west >= 360) {
+    return { ...bounds, west: -180, east: 180 }
+  }
+  return {
+    ...bounds,
+    west: normalizeLongitude(bounds.west),
+    east: normalizeLongitude(bounds.east),
+  }
+}
+
+/** Bounding box of a circle of `distNm` around a point (clamped at the poles). */
+export function boundsFromRadius(
+  lat: number,
+  lon: number,
+  distNm: number,
+): GeoBounds {
+  const distKm = distNm * KM_PER_NM
+  const dLat = distKm / KM_PER_DEGREE_LAT
+  const south = Math.max(-90, lat - dLat)
+  const north = Math.min(90, lat + dLat)
+  const cosLat = Math.cos(
+    (Math.max(Math.abs(south), Math.abs(north)) * Math.PI) / 180,
+  )
+  const dLon = cosLat > 1e-6 ? distKm / (KM_PER_DEGREE_LAT * cosLat) : 180
+
+  if (dLon >= 180) return { south, west: -180, north, east: 180 }
+
+  return {
+    south,
+    west: normalizeLongitude(lon - dLon),
+    north,
+    east: normalizeLongitude(lon + dLon),
+  }
+}
+
+/** Splits an antimeridian-crossing box into one or two non-crossing boxes. */
+export function splitBoundsAtAntimeridian(bounds: GeoBounds): GeoBounds[] {
+  if (bounds.west <= bounds.east) return [bounds]
+  return [
+    { ...bounds, east: 180 },
+    { ...bounds, west: -180 },
+  ]
+}
+
+export function isInBounds(lat: number, lon: number, bounds: GeoBounds) {
+  if (lat < bounds.south || lat > bounds.north) return false
+  if (bounds.west <= bounds.east) {
+    return lon >= bounds.west && lon <= bounds.east
+  }
+  return lon >= bounds.west || lon <= bounds.east
+}
@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest'
+import {
+  evaluateGeofences,
+  isInsideRing,
+  isInsideShape,
+  shapeFromPoints,
+} from './geofence'
+import type {
+  GeofenceSample,
+  GeofenceStep,
+  IdentifiedGeofence,
+} from './geofence'
+import type { LonLat } from '../../convex/geofencesTypes'
+
+const SQUARE: LonLat[] = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+]
+
+/** A "U" open to the north: the notch between x 0.4 and 0.6 is outside. */
+const U_SHAPE: LonLat[] = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0.6, 1],
+  [0.6, 0.4],
+  [0.4, 0.4],
+  [0.4, 1],
+  [0, 1],
+]
+
+const SQUARE_FENCE: IdentifiedGeofence = {
+  id: 'square',
+  name: 'Square',
+  shape: { kind: 'polygon', ring: SQUARE },
+}
+
+function sample(
+  lon: number,
+  lat: number,
+  overrides: Partial<GeofenceSample> = {},
+): GeofenceSample {
+  return {
+    icao24: 'abc123',
+    callsign: 'TEST1',
+    typeCode: null,
+    altitudeFt: 3000,
+    lon,
+    lat,
+    time: 0,
+    ...overrides,
+  }
+}
+
+/** Consecutive pairs of a synthetic track, as the ingest would see them. */
+function toSteps(track: GeofenceSample[]): GeofenceStep[] {
+  return track
+    .slice(1)
+    .map((current, index) => ({ previous: track[index], current }))
+}
+
+describe('isInsideRing', () => {
+  it('finds points inside and outside a square', () => {
+    expect(isInsideRing(SQUARE, 0.5, 0.5)).toBe(true)
+    expect(isInsideRing(SQUARE, 1.5, 0.5)).toBe(false)
+    expect(isInsideRing(SQUARE, 0.5, -0.1)).toBe(false)
+  })
+
+  it('handles concave rings', () => {
+    expect(isInsideRing(U_SHAPE, 0.2, 0.8)).toBe(true)
+    expect(isInsideRing(U_SHAPE, 0.5, 0.2)).toBe(true)
+    expect(isInsideRing(U_SHAPE, 0.5, 0.8)).toBe(false)
+  })
+
+  it('does not depend on the winding direction', () => {
+    const reversed = [...SQUARE].reverse()
+    expect(isInsideRing(reversed, 0.5, 0.5)).toBe(true)
+    expect(isInsideRing(reversed, 1.5, 0.5)).toBe(false)
+  })
+})
+
+describe('isInsideShape', () => {
+  it('measures circles in nautical miles', () => {
+    // One degree of latitude is about 60 nm.
+    const shape = { kind: 'circle' as const, center: [0, 0], radiusNm: 30 }
+    expect(isInsideShape(shape, 0, 0.4)).toBe(true)
+    expect(isInsideShape(shape, 0, 0.6)).toBe(false)
+  })
+
+  it('treats polygons with fewer than three points as empty', () => {
+    const shape = { kind: 'polygon' as const, ring: SQUARE.slice(0, 2) }
+    expect(isInsideShape(shape, 0.5, 0)).toBe(false)
+  })
+})
+
+describe('shapeFromPoints', () => {
+  it('needs three points for a polygon', () => {
+    expect(shapeFromPoints('polygon', SQUARE.slice(0, 2))).toBeNull()
+    expect(shapeFromPoints('polygon', SQUARE)).toEqual({
+      kind: 'polygon',
+      ring: SQUARE,
+    })
+  })
+
+  it('builds a circle from its center and an edge point', () => {
+    expect(shapeFromPoints('circle', [[0, 0]])).toBeNull()
+    const shape = shapeFromPoints('circle', [
+      [0, 0],
+      [0, 1],
+    ])
+    expect(shape).toMatchObject({ kind: 'circle', center: [0, 0] })
+    expect(shape?.kind === 'circle' && shape.radiusNm).toBeCloseTo(60.04, 1)
+  })
+
+  it('rejects a circle with no radius', () => {
+    expect(
+      shapeFromPoints('circle', [
+        [2, 3],
+        [2, 3],
+      ]),
+    ).toBeNull()
+  })
+})
+
+describe('evaluateGeofences', () => {
+  it('reports an enter and an exit where the track crosses the boundary', () => {
+    const track = [
+      sample(-0.5, 0.5, { time: 0 }),
+      sample(0.5, 0.5, { time: 1000 }),
+      sample(0.6, 0.5, { time: 2000 }),
+      sample(1.6, 0.5, { time: 3000 }),
+    ]
+    const crossings = evaluateGeofences([SQUARE_FENCE], toSteps(track))
+    expect(
+      crossings.map(({ kind, fenceId, time }) => ({ kind, fenceId, time })),
+    ).toEqual([
+      { kind: 'enter', fenceId: 'square', time: 500 },
+      { kind: 'exit', fenceId: 'square', time: 2400 },
+    ])
+    expect(crossings[0]).toMatchObject({
+      fenceName: 'Square',
+      icao24: 'abc123',
+      callsign: 'TEST1',
+      lon: 0,
+      lat: 0.5,
+    })
+    expect(crossings[1].lon).toBeCloseTo(1)
+  })
+
+  it('catches an aircraft that passes through between two samples', () => {
+    const steps = toSteps([
+      sample(-1, 0.5, { time: 0 }),
+      sample(2, 0.5, { time: 3000 }),
+    ])
+    const crossings = evaluateGeofences([SQUARE_FENCE], steps)
+    expect(crossings.map(({ kind, time }) => ({ kind, time }))).toEqual([
+      { kind: 'enter', time: 1000 },
+      { kind: 'exit', time: 2000 },
+    ])
+  })
+
+  it('catches a pass through a circle and through a concave notch', () => {
+    const circle: IdentifiedGeofence = {
+      id: 'circle',
+      name: 'Circle',
+      shape: { kind: 'circle', center: [0, 0], radiusNm: 30 },
+    }
+    const across = toSteps([sample(-2, 0.1), sample(2, 0.1)])
+    expect(
+      evaluateGeofences([circle], across).map((crossing) => crossing.kind),
+    ).toEqual(['enter', 'exit'])
+
+    // Through both arms of the U: in, out into the notch, in, out.
+    const u: IdentifiedGeofence = {
+      id: 'u',
+      name: 'U',
+      shape: { kind: 'polygon', ring: U_SHAPE },
+    }
+    const throughArms = toSteps([sample(-1, 0.8), sample(2, 0.8)])
+    expect(
+      evaluateGeofences([u], throughArms).map((crossing) => crossing.kind),
+    ).toEqual(['enter', 'exit', 'enter', 'exit'])
+  })
+
+  it('reports an enter for an aircraft first seen inside', () => {
+    const steps: GeofenceStep[] = [
+      { previous: null, current: sample(0.5, 0.5, { time: 7 }) },
+      { previous: null, current: sample(2, 2) },
+    ]
+    expect(evaluateGeofences([SQUARE_FENCE], steps)).toEqual([
+      expect.objectContaining({ kind: 'enter', lon: 0.5, time: 7 }),
+    ])
+  })
+
+  it('reports an exit at the last position of an aircraft that drops out', () => {
+    const steps: GeofenceStep[] = [
+      { previous: sample(0.5, 0.5, { time: 7 }), current: null },
+      { previous: sample(2, 2), current: null },
+    ]
+    expect(evaluateGeofences([SQUARE_FENCE], steps)).toEqual([
+      expect.objectContaining({ kind: 'exit', lon: 0.5, time: 7 }),
+    ])
+  })
+
+  it('reports nothing for aircraft that stay inside or outside', () => {
+    const inside = toSteps([sample(0.2, 0.2), sample(0.8, 0.8)])
+    const outside = toSteps([sample(2, 2), sample(3, 3)])
+    expect(evaluateGeofences([SQUARE_FENCE], [...inside, ...outside])).toEqual(
+      [],
+    )
+  })
+
+  it('counts only aircraft inside the altitude band', () => {
+    const fence = { ...SQUARE_FENCE, minAltitudeFt: 1000, maxAltitudeFt: 5000 }
+    const climbingOut = toSteps([
+      sample(0.5, 0.5, { altitudeFt: 4000 }),
+      sample(0.5, 0.5, { altitudeFt: 6000 }),
+    ])
+    const unknownAltitude = toSteps([
+      sample(-1, 0.5, { altitudeFt: null }),
+      sample(0.5, 0.5, { altitudeFt: null }),
+    ])
+    expect(
+      evaluateGeofences([fence], [...climbingOut, ...unknownAltitude]).map(
+        (crossing) => crossing.kind,
+      ),
+    ).toEqual(['exit'])
+  })
+
+  it('counts only the listed types, case-insensitively', () => {
+    const fence = { ...SQUARE_FENCE, typeCodes: ['B738'] }
+    const steps = [
+      ...toSteps([
+        sample(-1, 0.5, { icao24: 'aaa111', typeCode: 'b738' }),
+        sample(0.5, 0.5, { icao24: 'aaa111', typeCode: 'b738' }),
+      ]),
+      ...toSteps([
+        sample(-1, 0.5, { icao24: 'bbb222', typeCode: 'A320' }),
+        sample(0.5, 0.5, { icao24: 'bbb222', typeCode: 'A320' }),
+      ]),
+      ...toSteps([
+        sample(-1, 0.5, { icao24: 'ccc333' }),
+        sample(0.5, 0.5, { icao24: 'ccc333' }),
+      ]),
+    ]
+    expect(
+      evaluateGeofences([fence], steps).map((crossing) => crossing.icao24),
+    ).toEqual(['aaa111'])
+  })
+
+  it('evaluates every fence independently', () => {
+    const circle: IdentifiedGeofence = {
+      id: 'circle',
+      name: 'Circle',
+      shape: { kind: 'circle', center: [5, 0.5], radiusNm: 10 },
+    }
+    const steps = toSteps([sample(0.5, 0.5), sample(5, 0.5)])
+    expect(
+      evaluateGeofences([SQUARE_FENCE, circle], steps).map(
+        ({ kind, fenceId }) => `${kind}:${fenceId}`,
+      ),
+    ).toEqual(['exit:square', 'enter:circle'])
+  })
+})
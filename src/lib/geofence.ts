@@ -0,0 +1,286 @@
+/** Geofence evaluation: point-in-shape tests and enter/exit detection along
+ *  the segment between an aircraft's previous and current positions. Pure;
+ *  the caller supplies both positions, so synthetic tracks can be replayed
+ *  through it directly.
+ */
+
+import type {
+  Geofence,
+  GeofenceEvent,
+  GeofenceShape,
+  LonLat,
+} from '../../convex/geofencesTypes'
+import { EARTH_RADIUS_KM, KM_PER_NM, haversineNm } from './geo'
+
+/** A fence plus the id its events are recorded under. */
+export type IdentifiedGeofence = Geofence & { id: string }
+
+/** One aircraft position in a snapshot. */
+export type GeofenceSample = {
+  icao24: string
+  callsign: string
+  typeCode: string | null
+  /** Barometric altitude in feet; 0 on the ground, null when unknown. */
+  altitudeFt: number | null
+  lon: number
+  lat: number
+  time: number
+}
+
+/**
+ * One aircraft between two successive snapshots: `previous` is null on its
+ * first sighting, `current` is null once it has dropped out of the feed.
+ */
+export type GeofenceStep =
+  | { previous: GeofenceSample | null; current: GeofenceSample }
+  | { previous: GeofenceSample; current: null }
+
+export type GeofenceCrossing = GeofenceEvent & { fenceId: string }
+
+/**
+ * Ray casting in plain lon/lat. Fine for facility-sized fences; rings
+ * crossing the antimeridian are not supported.
+ */
+export function isInsideRing(ring: LonLat[], lon: number, lat: number) {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lonI, latI] = ring[i]
+    const [lonJ, latJ] = ring[j]
+    if (
+      latI > lat !== latJ > lat &&
+      lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+export function isInsideShape(shape: GeofenceShape, lon: number, lat: number) {
+  if (shape.kind === 'circle') {
+    const [centerLon, centerLat] = shape.center
+    return haversineNm(centerLat, centerLon, lat, lon) <= shape.radiusNm
+  }
+  return shape.ring.length >= 3 && isInsideRing(shape.ring, lon, lat)
+}
+
+/** Whether the fence counts this sample as inside: shape, altitude band and type. */
+export function isSampleInFence(fence: Geofence, sample: GeofenceSample) {
+  const { minAltitudeFt, maxAltitudeFt } = fence
+  if (minAltitudeFt != null || maxAltitudeFt != null) {
+    const altitude = sample.altitudeFt
+    if (altitude == null) return false
+    if (
+      altitude < (minAltitudeFt ?? -Infinity) ||
+      altitude > (maxAltitudeFt ?? Infinity)
+    ) {
+      return false
+    }
+  }
+  if (fence.typeCodes && fence.typeCodes.length > 0) {
+    const typeCode = sample.typeCode?.trim().toUpperCase()
+    if (!typeCode || !fence.typeCodes.includes(typeCode)) return false
+  }
+  return isInsideShape(fence.shape, sample.lon, sample.lat)
+}
+
+function toCrossing(
+  kind: GeofenceEvent['kind'],
+  fence: IdentifiedGeofence,
+  sample: GeofenceSample,
+): GeofenceCrossing {
+  return {
+    kind,
+    fenceId: fence.id,
+    fenceName: fence.name,
+    icao24: sample.icao24,
+    callsign: sample.callsign,
+    typeCode: sample.typeCode,
+    altitudeFt: sample.altitudeFt,
+    lon: sample.lon,
+    lat: sample.lat,
+    time: sample.time,
+  }
+}
+
+/**
+ * Where (0–1) the straight line from `from` to `to` crosses the shape's
+ * boundary, ascending. Circles are measured in a flat projection around
+ * their center, close enough at facility scale.
+ */
+function getBoundaryParams(
+  shape: GeofenceShape,
+  from: GeofenceSample,
+  to: GeofenceSample,
+): number[] {
+  const params: number[] = []
+  if (shape.kind === 'circle') {
+    const [centerLon, centerLat] = shape.center
+    const lonScale = 60 * Math.cos((centerLat * Math.PI) / 180)
+    const ax = (from.lon - centerLon) * lonScale
+    const ay = (from.lat - centerLat) * 60
+    const dx = (to.lon - from.lon) * lonScale
+    const dy = (to.lat - from.lat) * 60
+    const a = dx * dx + dy * dy
+    const b = 2 * (ax * dx + ay * dy)
+    const c = ax * ax + ay * ay - shape.radiusNm * shape.radiusNm
+    const discriminant = b * b - 4 * a * c
+    if (a > 0 && discriminant >= 0) {
+      const root = Math.sqrt(discriminant)
+      params.push((-b - root) / (2 * a), (-b + root) / (2 * a))
+    }
+  } else {
+    const dx = to.lon - from.lon
+    const dy = to.lat - from.lat
+    for (let i = 0, j = shape.ring.length - 1; i < shape.ring.length; j = i++) {
+      const [lonJ, latJ] = shape.ring[j]
+      const ex = shape.ring[i][0] - lonJ
+      const ey = shape.ring[i][1] - latJ
+      const denominator = dx * ey - dy * ex
+      if (denominator === 0) continue
+      const wx = lonJ - from.lon
+      const wy = latJ - from.lat
+      const edgeParam = (wx * dy - wy * dx) / denominator
+      if (edgeParam < 0 || edgeParam > 1) continue
+      params.push((wx * ey - wy * ex) / denominator)
+    }
+  }
+  return params.filter((t) => t > 0 && t < 1).sort((a, b) => a - b)
+}
+
+/** Whether any part of a step's path lies inside the shape. */
+export function doesStepTouchShape(shape: GeofenceShape, step: GeofenceStep) {
+  const { previous, current } = step
+  if (previous && isInsideShape(shape, previous.lon, previous.lat)) return true
+  if (current && isInsideShape(shape, current.lon, current.lat)) return true
+  return (
+    !!previous &&
+    !!current &&
+    getBoundaryParams(shape, previous, current).length > 0
+  )
+}
+
+/** The position a fraction `t` of the way from `from` to `to`. */
+function interpolateSample(
+  from: GeofenceSample,
+  to: GeofenceSample,
+  t: number,
+): GeofenceSample {
+  const nearest = t < 0.5 ? from : to
+  return {
+    ...to,
+    callsign: to.callsign || from.callsign,
+    typeCode: to.typeCode ?? from.typeCode,
+    altitudeFt:
+      from.altitudeFt != null && to.altitudeFt != null
+        ? Math.round(from.altitudeFt + (to.altitudeFt - from.altitudeFt) * t)
+        : nearest.altitudeFt,
+    lon: from.lon + (to.lon - from.lon) * t,
+    lat: from.lat + (to.lat - from.lat) * t,
+    time: Math.round(from.time + (to.time - from.time) * t),
+  }
+}
+
+function getStepCrossings(
+  fence: IdentifiedGeofence,
+  step: GeofenceStep,
+): GeofenceCrossing[] {
+  if (!step.current) {
+    return isSampleInFence(fence, step.previous)
+      ? [toCrossing('exit', fence, step.previous)]
+      : []
+  }
+  const { previous, current } = step
+  if (!previous) {
+    return isSampleInFence(fence, current)
+      ? [toCrossing('enter', fence, current)]
+      : []
+  }
+
+  // The segment is inside or outside throughout each stretch between
+  // boundary crossings; test the middle of every stretch.
+  const crossings: GeofenceCrossing[] = []
+  const params = [0, ...getBoundaryParams(fence.shape, previous, current), 1]
+  let wasInside = isSampleInFence(fence, previous)
+  for (let i = 0; i < params.length; i++) {
+    const isLast = i === params.length - 1
+    const isInside = isLast
+      ? isSampleInFence(fence, current)
+      : isSampleInFence(
+          fence,
+          interpolateSample(previous, current, (params[i] + params[i + 1]) / 2),
+        )
+    if (isInside !== wasInside) {
+      crossings.push(
+        toCrossing(
+          isInside ? 'enter' : 'exit',
+          fence,
+          isLast ? current : interpolateSample(previous, current, params[i]),
+        ),
+      )
+    }
+    wasInside = isInside
+  }
+  return crossings
+}
+
+/**
+ * Crossings caused by each step, fence by fence. The path between two
+ * samples is taken as a straight line, so an aircraft that passes through a
+ * fence between samples gets both an enter and an exit, at the boundary.
+ * A first sighting inside a fence is an enter, and dropping out of the feed
+ * while inside is an exit at the last known position.
+ */
+export function evaluateGeofences(
+  fences: IdentifiedGeofence[],
+  steps: GeofenceStep[],
+): GeofenceCrossing[] {
+  return fences.flatMap((fence) =>
+    steps.flatMap((step) => getStepCrossings(fence, step)),
+  )
+}
+
+/**
+ * The shape drawn by clicking `points`: a circle's center then a point on
+ * its edge, or a polygon's vertices. Null until enough points are placed.
+ */
+export function shapeFromPoints(
+  kind: GeofenceShape['kind'],
+  points: LonLat[],
+): GeofenceShape | null {
+  if (kind === 'polygon') {
+    return points.length >= 3 ? { kind, ring: points } : null
+  }
+  if (points.length < 2) return null
+  const [[centerLon, centerLat], [edgeLon, edgeLat]] = points
+  const radiusNm = haversineNm(centerLat, centerLon, edgeLat, edgeLon)
+  return radiusNm > 0 ? { kind, center: points[0], radiusNm } : null
+}
+
+/** Approximates a circle fence as a closed ring, for drawing it on the map. */
+export function circleToRing(
+  center: LonLat,
+  radiusNm: number,
+  steps = 64,
+): LonLat[] {
+  const [lon, lat] = center
+  const angular = (radiusNm * KM_PER_NM) / EARTH_RADIUS_KM
+  const lat1 = (lat * Math.PI) / 180
+  const lon1 = (lon * Math.PI) / 180
+  const ring: LonLat[] = []
+  for (let step = 0; step <= steps; step++) {
+    const bearing = (2 * Math.PI * step) / steps
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angular) +
+        Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing),
+    )
+    const lon2 =
+      lon1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+        Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2),
+      )
+    ring.push([(lon2 * 180) / Math.PI, (lat2 * 180) / Math.PI])
+  }
+  return ring
+}
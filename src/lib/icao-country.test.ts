@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { getFlagEmoji, getIcaoCountry } from './icao-country'
+
+function countryName(hex: string | null | undefined) {
+  return getIcaoCountry(hex)?.name ?? null
+}
+
+describe('getIcaoCountry', () => {
+  it.each([
+    ['004000', 'Zimbabwe'],
+    ['0043ff', 'Zimbabwe'],
+    ['3c0000', 'Germany'],
+    ['3fffff', 'Germany'],
+    ['400000', 'United Kingdom'],
+    ['a00000', 'United States'],
+    ['afffff', 'United States'],
+    ['7bffff', 'China'],
+    ['7c0000', 'Australia'],
+    ['f00000', 'ICAO (temporary)'],
+    ['f093ff', 'ICAO (special use)'],
+  ])('maps the block edge %s to %s', (hex, name) => {
+    expect(countryName(hex)).toBe(name)
+  })
+
+  it('returns the ISO code, or null for ICAO blocks', () => {
+    expect(getIcaoCountry('3c6586')).toEqual({ name: 'Germany', iso: 'DE' })
+    expect(getIcaoCountry('f00001')).toEqual({
+      name: 'ICAO (temporary)',
+      iso: null,
+    })
+  })
+
+  it('prefers Hong Kong and Macau over the China block around them', () => {
+    expect(countryName('780000')).toBe('China')
+    expect(countryName('788fff')).toBe('China')
+    expect(countryName('789000')).toBe('Hong Kong')
+    expect(countryName('789fff')).toBe('Hong Kong')
+    expect(countryName('78a000')).toBe('Macau')
+    expect(countryName('78afff')).toBe('Macau')
+    expect(countryName('78b000')).toBe('China')
+  })
+
+  it.each([
+    '000000',
+    '003fff',
+    '004400',
+    '0043ff0',
+    'b00000',
+    'f08000',
+    'ffffff',
+  ])('returns null for the unallocated address %s', (hex) => {
+    expect(getIcaoCountry(hex)).toBeNull()
+  })
+
+  it('accepts uppercase and padded input', () => {
+    expect(countryName('3C6586')).toBe('Germany')
+    expect(countryName(' A1B2C3 ')).toBe('United States')
+  })
+
+  it.each(['~3c6586', '~a1b2c3', '3c658', '3c65860', 'zzzzzz', '0x3c6586', ''])(
+    'returns null for the non-ICAO or malformed hex %j',
+    (hex) => {
+      expect(getIcaoCountry(hex)).toBeNull()
+    },
+  )
+
+  it('returns null without a hex', () => {
+    expect(getIcaoCountry(null)).toBeNull()
+    expect(getIcaoCountry(undefined)).toBeNull()
+  })
+})
+
+describe('getFlagEmoji', () => {
+  it('builds the regional-indicator pair', () => {
+    expect(getFlagEmoji('de')).toBe('🇩🇪')
+    expect(getFlagEmoji('US')).toBe('🇺🇸')
+  })
+
+  it('returns an empty string for missing or invalid codes', () => {
+    expect(getFlagEmoji(null)).toBe('')
+    expect(getFlagEmoji('USA')).toBe('')
+  })
+})
@@ -0,0 +1,72 @@
+type LruEntry = {
+  value: string
+  bytes: number
+  expiresAt: number
+}
+
+/**
+ * Bounded in-process cache of serialized values, evicting the least recently
+ * used entries once either limit is exceeded. Sizes are approximate (UTF-16
+ * string length), which is all the bound needs.
+ */
+export function createLruCache({
+  maxEntries,
+  maxBytes,
+}: {
+  maxEntries: number
+  maxBytes: number
+}) {
+  // Map iteration order is insertion order; re-inserting marks an entry as recent.
+  const entries = new Map<string, LruEntry>()
+  let bytes = 0
+
+  const remove = (key: string) => {
+    const entry = entries.get(key)
+    if (!entry) return
+    entries.delete(key)
+    bytes -= entry.bytes
+  }
+
+  return {
+    get(key: string) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        remove(key)
+        return null
+      }
+      entries.delete(key)
+      entries.set(key, entry)
+      return entry.value
+    },
+
+    set(key: string, value: string, ttlMs: number) {
+      remove(key)
+      const entryBytes = (key.length + value.length) * 2
+      if (ttlMs <= 0 || entryBytes > maxBytes) return
+      entries.set(key, {
+        value,
+        bytes: entryBytes,
+        expiresAt: Date.now() + ttlMs,
+      })
+      bytes += entryBytes
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries && bytes <= maxBytes) break
+        remove(oldest)
+      }
+    },
+
+    delete: remove,
+
+    clear() {
+      entries.clear()
+      bytes = 0
+    },
+
+    getStats() {
+      return { entries: entries.size, bytes }
+    },
+  }
+}
+
+export type LruCache = ReturnType<typeof createLruCache>
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  cprNL,
+  decodeCprGlobal,
+  decodeCprLocal,
+  isPlausibleCprMove,
+} from './cpr'
+
+// The even/odd pair of 8D40621D58C382D690C8AC2863A7 / 8D40621D58C386435CC412692AD6.
+const EVEN = { lat: 93000, lon: 51372, odd: false }
+const ODD = { lat: 74158, lon: 50194, odd: true }
+
+describe('cprNL', () => {
+  it('counts longitude zones from the equator to the poles', () => {
+    expect(cprNL(0)).toBe(59)
+    expect(cprNL(52.2572)).toBe(36)
+    expect(cprNL(-52.2572)).toBe(36)
+    expect(cprNL(87)).toBe(2)
+    expect(cprNL(89)).toBe(1)
+  })
+})
+
+describe('decodeCprGlobal', () => {
+  it('resolves a pair to the newer frame position', () => {
+    const evenNewer = decodeCprGlobal(EVEN, ODD, false)
+    expect(evenNewer?.lat).toBeCloseTo(52.2572, 4)
+    expect(evenNewer?.lon).toBeCloseTo(3.91937, 4)
+
+    const oddNewer = decodeCprGlobal(EVEN, ODD, true)
+    expect(oddNewer?.lat).toBeCloseTo(52.26578, 4)
+    expect(oddNewer?.lon).toBeCloseTo(3.93891, 4)
+  })
+
+  it('refuses a pair that straddles a longitude-zone boundary', () => {
+    expect(
+      decodeCprGlobal(EVEN, { ...ODD, lat: (ODD.lat + 60000) % 131072 }, true),
+    ).toBeNull()
+  })
+})
+
+describe('decodeCprLocal', () => {
+  it('resolves one frame against a nearby reference', () => {
+    const position = decodeCprLocal(EVEN, { lat: 52.258, lon: 3.918 })
+    expect(position.lat).toBeCloseTo(52.2572, 4)
+    expect(position.lon).toBeCloseTo(3.91937, 4)
+  })
+
+  it('agrees with the global decode for the odd frame', () => {
+    const position = decodeCprLocal(ODD, { lat: 52.258, lon: 3.918 })
+    expect(position.lat).toBeCloseTo(52.26578, 4)
+    expect(position.lon).toBeCloseTo(3.93891, 4)
+  })
+})
+
+describe('isPlausibleCprMove', () => {
+  const from = { lat: 52.2572, lon: 3.91937 }
+
+  it('accepts what a fast aircraft covers in the time', () => {
+    // About 8 nm north, 30 s later: 960 kt.
+    expect(isPlausibleCprMove(from, { lat: 52.39, lon: 3.91937 }, 30_000)).toBe(
+      true,
+    )
+    expect(isPlausibleCprMove(from, from, 0)).toBe(true)
+  })
+
+  it('rejects a fix in another zone', () => {
+    expect(
+      isPlausibleCprMove(from, { lat: -1.7184, lon: 2.3769 }, 60_000),
+    ).toBe(false)
+    expect(isPlausibleCprMove(from, { lat: 52.6, lon: 3.91937 }, 30_000)).toBe(
+      false,
+    )
+  })
+})
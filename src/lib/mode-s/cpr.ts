@@ -0,0 +1,120 @@
+/**
+ * Compact Position Reporting (CPR) decoding for airborne positions.
+ * Encoded lat/lon are 17-bit fractions of a zone; even and odd frames use
+ * different zone sizes so a pair resolves to a unique global position.
+ */
+
+import { haversineNm, normalizeLongitude } from '../geo'
+
+const NZ = 15
+const CPR_SCALE = 131072 // 2^17
+const EVEN_LAT_ZONE = 360 / (4 * NZ)
+const ODD_LAT_ZONE = 360 / (4 * NZ - 1)
+
+export type CprFrame = {
+  /** Raw 17-bit encoded latitude */
+  lat: number
+  /** Raw 17-bit encoded longitude */
+  lon: number
+  odd: boolean
+}
+
+export type CprPosition = { lat: number; lon: number }
+
+/** Fastest ground speed a new fix may imply from the previous one. */
+const MAX_PLAUSIBLE_SPEED_KT = 1000
+/** Allowance for CPR resolution and timestamp jitter on short gaps. */
+const POSITION_SLACK_NM = 5
+
+/** Positive remainder, as CPR requires for negative operands. */
+function mod(a: number, b: number) {
+  return a - b * Math.floor(a / b)
+}
+
+/** Number of longitude zones at a latitude (1-59). */
+export function cprNL(lat: number) {
+  const abs = Math.abs(lat)
+  if (abs === 0) return 59
+  if (abs === 87) return 2
+  if (abs > 87) return 1
+  const a = 1 - Math.cos(Math.PI / (2 * NZ))
+  const b = Math.cos((Math.PI / 180) * abs) ** 2
+  return Math.floor((2 * Math.PI) / Math.acos(1 - a / b))
+}
+
+/**
+ * Resolves an even/odd pair to a position. The result uses whichever frame is
+ * newer. Returns null when the pair straddles a longitude-zone boundary
+ * (the caller should wait for a fresh pair).
+ */
+export function decodeCprGlobal(
+  even: CprFrame,
+  odd: CprFrame,
+  oddIsNewer: boolean,
+): CprPosition | null {
+  const latEvenCpr = even.lat / CPR_SCALE
+  const lonEvenCpr = even.lon / CPR_SCALE
+  const latOddCpr = odd.lat / CPR_SCALE
+  const lonOddCpr = odd.lon / CPR_SCALE
+
+  const j = Math.floor(59 * latEvenCpr - 60 * latOddCpr + 0.5)
+  let latEven = EVEN_LAT_ZONE * (mod(j, 60) + latEvenCpr)
+  let latOdd = ODD_LAT_ZONE * (mod(j, 59) + latOddCpr)
+  if (latEven >= 270) latEven -= 360
+  if (latOdd >= 270) latOdd -= 360
+  if (Math.abs(latEven) > 90 || Math.abs(latOdd) > 90) return null
+
+  const nl = cprNL(latEven)
+  if (nl !== cprNL(latOdd)) return null
+
+  const lat = oddIsNewer ? latOdd : latEven
+  const ni = Math.max(oddIsNewer ? nl - 1 : nl, 1)
+  const m = Math.floor(lonEvenCpr * (nl - 1) - lonOddCpr * nl + 0.5)
+  const lon = (360 / ni) * (mod(m, ni) + (oddIsNewer ? lonOddCpr : lonEvenCpr))
+
+  return { lat, lon: normalizeLongitude(lon) }
+}
+
+/**
+ * Resolves a single frame against a reference position within ~180 NM
+ * (the aircraft's last known position, or the receiver).
+ */
+export function decodeCprLocal(
+  frame: CprFrame,
+  reference: CprPosition,
+): CprPosition {
+  const latCpr = frame.lat / CPR_SCALE
+  const lonCpr = frame.lon / CPR_SCALE
+  const latZone = frame.odd ? ODD_LAT_ZONE : EVEN_LAT_ZONE
+
+  const j =
+    Math.floor(reference.lat / latZone) +
+    Math.floor(0.5 + mod(reference.lat, latZone) / latZone - latCpr)
+  const lat = latZone * (j + latCpr)
+
+  const ni = cprNL(lat) - (frame.odd ? 1 : 0)
+  const lonZone = ni > 0 ? 360 / ni : 360
+  const m =
+    Math.floor(reference.lon / lonZone) +
+    Math.floor(0.5 + mod(reference.lon, lonZone) / lonZone - lonCpr)
+  const lon = lonZone * (m + lonCpr)
+
+  return { lat, lon: normalizeLongitude(lon) }
+}
+
+/**
+ * Whether an aircraft could have moved from `from` to `to` in `elapsedMs`.
+ * A global decode from a mismatched pair lands in the wrong zone, hundreds
+ * of miles away, and fails this.
+ */
+export function isPlausibleCprMove(
+  from: CprPosition,
+  to: CprPosition,
+  elapsedMs: number,
+) {
+  const distanceNm = haversineNm(from.lat, from.lon, to.lat, to.lon)
+  const reachNm =
+    (MAX_PLAUSIBLE_SPEED_KT * Math.max(elapsedMs, 0)) / 3_600_000 +
+    POSITION_SLACK_NM
+  return distanceNm <= reachNm
+}
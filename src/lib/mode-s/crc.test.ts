@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { modeSChecksum, modeSSyndrome } from './crc'
+import { hexToBytes } from './frames'
+
+function frame(hex: string) {
+  const bytes = hexToBytes(hex)
+  if (!bytes) throw new Error(`Bad hex ${hex}`)
+  return bytes
+}
+
+describe('modeSChecksum', () => {
+  it('matches the parity field of a clean extended squitter', () => {
+    const bytes = frame('8D4840D6202CC371C32CE0576098')
+    expect(modeSChecksum(bytes)).toBe(0x576098)
+    expect(modeSSyndrome(bytes)).toBe(0)
+  })
+
+  it('gives a non-zero syndrome when any bit is flipped', () => {
+    const clean = frame('8D40621D58C382D690C8AC2863A7')
+    for (const bit of [0, 37, 60, 87, 100]) {
+      const corrupt = clean.slice()
+      corrupt[bit >> 3] ^= 1 << (7 - (bit & 7))
+      expect(modeSSyndrome(corrupt)).not.toBe(0)
+    }
+  })
+
+  it('recovers the address from an address/parity reply', () => {
+    // DF20 and DF21 overlay the parity with the address.
+    expect(modeSSyndrome(frame('A02014B400000000000000F9D514'))).toBe(0x7582f7)
+    expect(modeSSyndrome(frame('A800292DFFBBA9383FFCEB903D01'))).toBe(0xd9938e)
+  })
+})
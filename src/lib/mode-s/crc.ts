@@ -0,0 +1,34 @@
+/** Mode-S 24-bit parity (CRC) over the generator polynomial 0x1FFF409. */
+
+const GENERATOR = 0xfff409
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 16
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x800000 ? (crc << 1) ^ GENERATOR : crc << 1
+    }
+    table[i] = crc & 0xffffff
+  }
+  return table
+})()
+
+/** Parity of every byte except the trailing 24-bit parity field. */
+export function modeSChecksum(frame: Uint8Array) {
+  let crc = 0
+  for (let i = 0; i < frame.length - 3; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >> 16) ^ frame[i]) & 0xff]) & 0xffffff
+  }
+  return crc
+}
+
+/**
+ * Computed parity XOR the transmitted parity field. Zero for a clean DF11/17/18
+ * frame; for address/parity replies (DF0/4/5/16/20/21) it is the ICAO address.
+ */
+export function modeSSyndrome(frame: Uint8Array) {
+  const n = frame.length
+  const parity = (frame[n - 3] << 16) | (frame[n - 2] << 8) | frame[n - 1]
+  return modeSChecksum(frame) ^ parity
+}
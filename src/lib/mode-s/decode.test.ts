@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { decodeAc13Altitude, decodeModeSFrame, decodeSquawk } from './decode'
+import { hexToBytes } from './frames'
+
+function decode(hex: string) {
+  const bytes = hexToBytes(hex)
+  if (!bytes) throw new Error(`Bad hex ${hex}`)
+  return decodeModeSFrame(bytes)
+}
+
+/** AC13 bit for each Gillham bit, in D2 D4 A1 A2 A4 B1 B2 B4 C1 C2 C4 order. */
+const GILLHAM_BITS = [
+  0x0004, 0x0001, 0x0800, 0x0200, 0x0080, 0x0020, 0x0008, 0x0002, 0x1000,
+  0x0400, 0x0100,
+]
+
+function gillhamAc13(code: string) {
+  return code
+    .split('')
+    .reduce((ac13, bit, i) => (bit === '1' ? ac13 | GILLHAM_BITS[i] : ac13), 0)
+}
+
+describe('decodeAc13Altitude', () => {
+  it('decodes Gillham (100 ft) altitudes', () => {
+    const cases: Array<[string, number]> = [
+      ['00000000010', -1000],
+      ['00000001010', -500],
+      ['00000011011', -100],
+      ['00000011010', 0],
+      ['00000011110', 100],
+      ['00000010011', 600],
+      ['00000110010', 1000],
+      ['00001001001', 5800],
+      ['00011100100', 10300],
+      ['01100011010', 32000],
+      ['01110000100', 46300],
+      ['11011110100', 73200],
+      ['10000000001', 126700],
+    ]
+    for (const [code, feet] of cases) {
+      expect(decodeAc13Altitude(gillhamAc13(code))).toBe(feet)
+    }
+  })
+
+  it('rejects illegal Gillham codes', () => {
+    // No C bit set.
+    expect(decodeAc13Altitude(gillhamAc13('00000000000'))).toBeNull()
+    // C1 C2 C4 all set is a hundreds value of 7.
+    expect(decodeAc13Altitude(gillhamAc13('00000000111'))).toBeNull()
+  })
+
+  it('decodes 25 ft altitudes and skips metric ones', () => {
+    // Q bit set, 11 remaining bits = 1520: 1520 * 25 - 1000.
+    const n = 1520
+    const ac13 = ((n & 0x7e0) << 2) | ((n & 0x010) << 1) | 0x0010 | (n & 0x0f)
+    expect(decodeAc13Altitude(ac13)).toBe(37000)
+    expect(decodeAc13Altitude(0x0040)).toBeNull()
+    expect(decodeAc13Altitude(0)).toBeNull()
+  })
+})
+
+describe('decodeSquawk', () => {
+  it('reorders the interleaved identity bits', () => {
+    // A4 A2 A1 set: 7, C4 set in the second digit: 0.
+    expect(decodeSquawk(0x0080 | 0x0200 | 0x0800 | 0x0100)).toBe('7040')
+    expect(decodeSquawk(0)).toBe('0000')
+  })
+})
+
+describe('decodeModeSFrame', () => {
+  it('decodes identification', () => {
+    expect(decode('8D4840D6202CC371C32CE0576098')).toEqual({
+      df: 17,
+      icao: '4840d6',
+      addressVerified: true,
+      sourceType: 'adsb_icao',
+      callsign: 'KLM1023',
+    })
+  })
+
+  it('decodes an airborne position', () => {
+    expect(decode('8D40621D58C382D690C8AC2863A7')).toMatchObject({
+      icao: '40621d',
+      altitude: 38000,
+      onGround: false,
+      cpr: { lat: 93000, lon: 51372, odd: false },
+    })
+  })
+
+  it('decodes ground speed and airspeed velocities', () => {
+    const ground = decode('8D485020994409940838175B284F')
+    expect(ground?.groundSpeed).toBeCloseTo(159.2, 1)
+    expect(ground?.track).toBeCloseTo(182.88, 2)
+    expect(ground?.geomRate).toBe(-832)
+
+    expect(decode('8DA05F219B06B6AF189400CBC33F')).toMatchObject({
+      heading: 243.984375,
+      tas: 375,
+      baroRate: -2304,
+    })
+  })
+
+  it('decodes altitude and identity replies with the address from the parity', () => {
+    expect(decode('A02014B400000000000000F9D514')).toMatchObject({
+      df: 20,
+      icao: '7582f7',
+      addressVerified: false,
+      altitude: 32300,
+      onGround: false,
+    })
+    expect(decode('A800292DFFBBA9383FFCEB903D01')).toMatchObject({
+      df: 21,
+      icao: 'd9938e',
+      squawk: '1346',
+    })
+  })
+
+  it('rejects corrupt, truncated and unsupported frames', () => {
+    expect(decode('8D4840D6202CC371C32CE0576099')).toBeNull()
+    expect(decode('8D4840D6202CC371C32CE05760')).toBeNull()
+    // DF24 (Comm-D) is not decoded.
+    expect(decode('C04840D6202CC371C32CE0576098')).toBeNull()
+  })
+})
@@ -0,0 +1,350 @@
+/**
+ * Mode-S / ADS-B frame decoder. Handles DF17/18 extended squitter
+ * (identification, airborne position, velocity, emergency status) plus the
+ * altitude and identity replies (DF0/4/5/11/16/20/21).
+ */
+
+import { modeSSyndrome } from './crc'
+import type { CprFrame } from './cpr'
+import { modeSFrameLength } from './frames'
+
+const CALLSIGN_CHARSET =
+  '#ABCDEFGHIJKLMNOPQRSTUVWXYZ##### ###############0123456789######'
+
+const EMERGENCY_STATES = [
+  'none',
+  'general',
+  'lifeguard',
+  'minfuel',
+  'nordo',
+  'unlawful',
+  'downed',
+  'reserved',
+] as const
+
+export type ModeSEmergency = (typeof EMERGENCY_STATES)[number]
+
+/** A decoded frame. Only the fields the frame actually carries are set. */
+export type ModeSMessage = {
+  df: number
+  /** 24-bit ICAO address as 6 lowercase hex digits */
+  icao: string
+  /**
+   * True when the parity check proves the address (DF11/17/18). Address/parity
+   * replies recover the address from the CRC and cannot be verified alone.
+   */
+  addressVerified: boolean
+  /** readsb-style source type, e.g. `adsb_icao`, `mode_s` */
+  sourceType: string
+  callsign?: string
+  category?: string
+  /** Barometric altitude in feet */
+  altitude?: number
+  /** GNSS altitude in feet */
+  geometricAltitude?: number
+  cpr?: CprFrame
+  /** Knots */
+  groundSpeed?: number
+  /** Degrees true */
+  track?: number
+  /** Feet per minute */
+  baroRate?: number
+  /** Feet per minute */
+  geomRate?: number
+  /** Knots */
+  ias?: number
+  /** Knots */
+  tas?: number
+  /** Degrees magnetic */
+  heading?: number
+  squawk?: string
+  emergency?: ModeSEmergency
+  alert?: boolean
+  spi?: boolean
+  onGround?: boolean
+}
+
+/** Reads `count` bits starting at bit `first` (0 = MSB of the first byte). */
+function bits(frame: Uint8Array, first: number, count: number) {
+  let value = 0
+  for (let i = first; i < first + count; i++) {
+    const bit = (frame[i >> 3] >> (7 - (i & 7))) & 1
+    value = value * 2 + bit
+  }
+  return value
+}
+
+function toIcaoHex(address: number) {
+  return address.toString(16).padStart(6, '0')
+}
+
+/**
+ * Reorders a 13-bit identity/altitude field (C1 A1 C2 A2 C4 A4 X B1 D1 B2 D2 B4 D4)
+ * into the 0xABCD nibble layout used for squawk codes.
+ */
+function id13ToModeA(id13: number) {
+  let modeA = 0
+  if (id13 & 0x1000) modeA |= 0x0010 // C1
+  if (id13 & 0x0800) modeA |= 0x1000 // A1
+  if (id13 & 0x0400) modeA |= 0x0020 // C2
+  if (id13 & 0x0200) modeA |= 0x2000 // A2
+  if (id13 & 0x0100) modeA |= 0x0040 // C4
+  if (id13 & 0x0080) modeA |= 0x4000 // A4
+  if (id13 & 0x0020) modeA |= 0x0100 // B1
+  if (id13 & 0x0010) modeA |= 0x0001 // D1
+  if (id13 & 0x0008) modeA |= 0x0200 // B2
+  if (id13 & 0x0004) modeA |= 0x0002 // D2
+  if (id13 & 0x0002) modeA |= 0x0400 // B4
+  if (id13 & 0x0001) modeA |= 0x0004 // D4
+  return modeA
+}
+
+export function decodeSquawk(id13: number) {
+  return id13ToModeA(id13).toString(16).padStart(4, '0')
+}
+
+/** Gray-coded (Gillham) 100 ft altitude, in feet. Null for illegal codes. */
+function gillhamToFeet(modeA: number) {
+  if ((modeA & 0xffff8889) !== 0 || (modeA & 0x00f0) === 0) return null
+
+  let hundreds = 0
+  if (modeA & 0x0010) hundreds ^= 0x007 // C1
+  if (modeA & 0x0020) hundreds ^= 0x003 // C2
+  if (modeA & 0x0040) hundreds ^= 0x001 // C4
+  if ((hundreds & 5) === 5) hundreds ^= 2
+  if (hundreds > 5) return null
+
+  let fiveHundreds = 0
+  if (modeA & 0x0002) fiveHundreds ^= 0x0ff // D2
+  if (modeA & 0x0004) fiveHundreds ^= 0x07f // D4
+  if (modeA & 0x1000) fiveHundreds ^= 0x03f // A1
+  if (modeA & 0x2000) fiveHundreds ^= 0x01f // A2
+  if (modeA & 0x4000) fiveHundreds ^= 0x00f // A4
+  if (modeA & 0x0100) fiveHundreds ^= 0x007 // B1
+  if (modeA & 0x0200) fiveHundreds ^= 0x003 // B2
+  if (modeA & 0x0400) fiveHundreds ^= 0x001 // B4
+  if (fiveHundreds & 1) hundreds = 6 - hundreds
+
+  return (fiveHundreds * 5 + hundreds - 13) * 100
+}
+
+/** Decodes a 13-bit AC altitude field to feet. Metric altitudes are not supported. */
+export function decodeAc13Altitude(ac13: number) {
+  if (ac13 === 0) return null
+  if (ac13 & 0x0040) return null // M bit: metres
+  if (ac13 & 0x0010) {
+    // Q bit: 25 ft increments once the M and Q bits are removed.
+    const n = ((ac13 & 0x1f80) >> 2) | ((ac13 & 0x0020) >> 1) | (ac13 & 0x000f)
+    return n * 25 - 1000
+  }
+  return gillhamToFeet(id13ToModeA(ac13))
+}
+
+/** Decodes the 12-bit ES altitude field (an AC13 field without the M bit). */
+function decodeAc12Altitude(ac12: number) {
+  return decodeAc13Altitude(((ac12 & 0x0fc0) << 1) | (ac12 & 0x003f))
+}
+
+/** Flight status (DF4/5/20/21): ground state, alert and SPI flags. */
+function decodeFlightStatus(fs: number) {
+  const status: Pick<ModeSMessage, 'onGround' | 'alert' | 'spi'> = {
+    alert: fs >= 2 && fs <= 4,
+    spi: fs === 4 || fs === 5,
+  }
+  // 4 and 5 do not say whether the aircraft is airborne.
+  if (fs <= 3) status.onGround = fs === 1 || fs === 3
+  return status
+}
+
+function sourceTypeForDf18(cf: number) {
+  switch (cf) {
+    case 0:
+      return 'adsb_icao_nt'
+    case 2:
+      return 'tisb_icao'
+    case 6:
+      return 'adsr_icao'
+    default:
+      return 'adsb_other'
+  }
+}
+
+function decodeIdentification(frame: Uint8Array, message: ModeSMessage) {
+  const typeCode = bits(frame, 32, 5)
+  const categoryCode = bits(frame, 37, 3)
+  if (categoryCode !== 0) {
+    message.category = `${'DCBA'[typeCode - 1]}${categoryCode}`
+  }
+
+  let callsign = ''
+  for (let i = 0; i < 8; i++) {
+    callsign += CALLSIGN_CHARSET[bits(frame, 40 + i * 6, 6)]
+  }
+  callsign = callsign.replace(/#/g, '').trim()
+  if (callsign) message.callsign = callsign
+}
+
+function decodeAirbornePosition(frame: Uint8Array, message: ModeSMessage) {
+  const typeCode = bits(frame, 32, 5)
+  const altitude = decodeAc12Altitude(bits(frame, 40, 12))
+  if (altitude != null) {
+    if (typeCode >= 20) message.geometricAltitude = altitude
+    else message.altitude = altitude
+  }
+  message.onGround = false
+
+  const lat = bits(frame, 54, 17)
+  const lon = bits(frame, 71, 17)
+  // All-zero CPR fields mean "no position available".
+  if (lat === 0 && lon === 0) return
+  message.cpr = { lat, lon, odd: bits(frame, 53, 1) === 1 }
+}
+
+function decodeVelocity(frame: Uint8Array, message: ModeSMessage) {
+  const subtype = bits(frame, 37, 3)
+  const scale = subtype === 2 || subtype === 4 ? 4 : 1
+
+  if (subtype === 1 || subtype === 2) {
+    const rawEw = bits(frame, 46, 10)
+    const rawNs = bits(frame, 57, 10)
+    if (rawEw !== 0 && rawNs !== 0) {
+      const ew = (rawEw - 1) * scale * (bits(frame, 45, 1) ? -1 : 1)
+      const ns = (rawNs - 1) * scale * (bits(frame, 56, 1) ? -1 : 1)
+      message.groundSpeed = Math.hypot(ew, ns)
+      message.track = ((Math.atan2(ew, ns) * 180) / Math.PI + 360) % 360
+    }
+  } else if (subtype === 3 || subtype === 4) {
+    if (bits(frame, 45, 1)) {
+      message.heading = (bits(frame, 46, 10) * 360) / 1024
+    }
+    const rawAirspeed = bits(frame, 57, 10)
+    if (rawAirspeed !== 0) {
+      const airspeed = (rawAirspeed - 1) * scale
+      if (bits(frame, 56, 1)) message.tas = airspeed
+      else message.ias = airspeed
+    }
+  } else {
+    return
+  }
+
+  const rawRate = bits(frame, 69, 9)
+  if (rawRate !== 0) {
+    const rate = (rawRate - 1) * 64 * (bits(frame, 68, 1) ? -1 : 1)
+    // Source bit: 0 = geometric (GNSS), 1 = barometric.
+    if (bits(frame, 67, 1)) message.baroRate = rate
+    else message.geomRate = rate
+  }
+}
+
+function decodeAircraftStatus(frame: Uint8Array, message: ModeSMessage) {
+  if (bits(frame, 37, 3) !== 1) return
+  message.emergency = EMERGENCY_STATES[bits(frame, 40, 3)]
+  const id13 = bits(frame, 43, 13)
+  if (id13 !== 0) message.squawk = decodeSquawk(id13)
+}
+
+function decodeExtendedSquitter(frame: Uint8Array, message: ModeSMessage) {
+  const typeCode = bits(frame, 32, 5)
+  if (typeCode >= 1 && typeCode <= 4) {
+    decodeIdentification(frame, message)
+  } else if (typeCode >= 5 && typeCode <= 8) {
+    message.onGround = true
+  } else if (
+    (typeCode >= 9 && typeCode <= 18) ||
+    (typeCode >= 20 && typeCode <= 22)
+  ) {
+    decodeAirbornePosition(frame, message)
+  } else if (typeCode === 19) {
+    decodeVelocity(frame, message)
+  } else if (typeCode === 28) {
+    decodeAircraftStatus(frame, message)
+  }
+}
+
+/**
+ * Decodes one raw Mode-S frame (7 or 14 bytes). Returns null for unsupported
+ * downlink formats and frames that fail the parity check. No error correction
+ * is attempted.
+ */
+export function decodeModeSFrame(frame: Uint8Array): ModeSMessage | null {
+  if (frame.length === 0 || frame.length !== modeSFrameLength(frame[0])) {
+    return null
+  }
+
+  const df = frame[0] >> 3
+  const syndrome = modeSSyndrome(frame)
+  const announcedAddress = toIcaoHex(
+    (frame[1] << 16) | (frame[2] << 8) | frame[3],
+  )
+
+  switch (df) {
+    case 17:
+    case 18: {
+      if (syndrome !== 0) return null
+      const cf = frame[0] & 7
+      // DF18 CF3 (coarse TIS-B) and CF4/5/7 use different ME layouts.
+      if (df === 18 && ![0, 1, 2, 6].includes(cf)) return null
+      const message: ModeSMessage = {
+        df,
+        icao: announcedAddress,
+        addressVerified: true,
+        sourceType: df === 17 ? 'adsb_icao' : sourceTypeForDf18(cf),
+      }
+      decodeExtendedSquitter(frame, message)
+      return message
+    }
+
+    case 11: {
+      // The low 7 bits may carry the interrogator identifier.
+      if ((syndrome & ~0x7f) !== 0) return null
+      const message: ModeSMessage = {
+        df,
+        icao: announcedAddress,
+        addressVerified: true,
+        sourceType: 'mode_s',
+      }
+      // Capability 4/5: airborne / on the ground.
+      const ca = frame[0] & 7
+      if (ca === 4) message.onGround = false
+      else if (ca === 5) message.onGround = true
+      return message
+    }
+
+    case 0:
+    case 4:
+    case 16:
+    case 20: {
+      const message: ModeSMessage = {
+        df,
+        icao: toIcaoHex(syndrome),
+        addressVerified: false,
+        sourceType: 'mode_s',
+      }
+      const altitude = decodeAc13Altitude(bits(frame, 19, 13))
+      if (altitude != null) message.altitude = altitude
+      if (df === 4 || df === 20) {
+        Object.assign(message, decodeFlightStatus(frame[0] & 7))
+      } else if (bits(frame, 5, 1)) {
+        message.onGround = true // VS bit
+      }
+      return message
+    }
+
+    case 5:
+    case 21: {
+      const message: ModeSMessage = {
+        df,
+        icao: toIcaoHex(syndrome),
+        addressVerified: false,
+        sourceType: 'mode_s',
+        ...decodeFlightStatus(frame[0] & 7),
+      }
+      const id13 = bits(frame, 19, 13)
+      if (id13 !== 0) message.squawk = decodeSquawk(id13)
+      return message
+    }
+
+    default:
+      return null
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { bytesToHex, createBeastDecoder, parseAvrLine } from './frames'
+
+const LONG_FRAME = '8d4840d6202cc371c32ce0576098'
+const SHORT_FRAME = '5d4840d6a1b2c3'
+
+function bytes(...values: number[]) {
+  return Uint8Array.from(values)
+}
+
+function hexBytes(hex: string) {
+  return Array.from({ length: hex.length / 2 }, (_, i) =>
+    parseInt(hex.slice(i * 2, i * 2 + 2), 16),
+  )
+}
+
+describe('parseAvrLine', () => {
+  it('reads plain and MLAT-timestamped frames', () => {
+    const plain = parseAvrLine(`*${LONG_FRAME.toUpperCase()};`)
+    expect(plain && bytesToHex(plain)).toBe(LONG_FRAME)
+    const mlat = parseAvrLine(`@0123456789AB${LONG_FRAME};`)
+    expect(mlat && bytesToHex(mlat)).toBe(LONG_FRAME)
+    const short = parseAvrLine(`  *${SHORT_FRAME};\r`)
+    expect(short && bytesToHex(short)).toBe(SHORT_FRAME)
+  })
+
+  it('rejects incomplete frames, Mode A/C replies and junk', () => {
+    expect(parseAvrLine(`*${LONG_FRAME}`)).toBeNull()
+    expect(parseAvrLine(`*${LONG_FRAME.slice(0, 14)};`)).toBeNull()
+    expect(parseAvrLine('*2000;')).toBeNull()
+    expect(parseAvrLine(`*${LONG_FRAME.slice(0, -1)}x;`)).toBeNull()
+    expect(parseAvrLine(`#${LONG_FRAME};`)).toBeNull()
+  })
+})
+
+describe('createBeastDecoder', () => {
+  function collect() {
+    const frames: string[] = []
+    const push = createBeastDecoder((frame) => frames.push(bytesToHex(frame)))
+    return { frames, push }
+  }
+
+  const TIMESTAMP = [0x00, 0x01, 0x02, 0x03, 0x04, 0x05]
+  const SIGNAL = 0x80
+
+  it('decodes long and short records and skips Mode A/C', () => {
+    const { frames, push } = collect()
+    push(
+      bytes(
+        0x1a,
+        0x31,
+        ...TIMESTAMP,
+        SIGNAL,
+        0x12,
+        0x34,
+        0x1a,
+        0x33,
+        ...TIMESTAMP,
+        SIGNAL,
+        ...hexBytes(LONG_FRAME),
+        0x1a,
+        0x32,
+        ...TIMESTAMP,
+        SIGNAL,
+        ...hexBytes(SHORT_FRAME),
+      ),
+    )
+    expect(frames).toEqual([LONG_FRAME, SHORT_FRAME])
+  })
+
+  it('un-escapes doubled 0x1a bytes, even split across chunks', () => {
+    const { frames, push } = collect()
+    // 0x1a in the timestamp, the signal level and the payload.
+    const payload = [0x8d, 0x1a, ...hexBytes(LONG_FRAME).slice(2)]
+    const escaped = payload.flatMap((byte) =>
+      byte === 0x1a ? [0x1a, 0x1a] : [byte],
+    )
+    const record = [
+      0x1a,
+      0x33,
+      0x00,
+      0x1a,
+      0x1a,
+      0x02,
+      0x03,
+      0x04,
+      0x05,
+      0x1a,
+      0x1a,
+      ...escaped,
+    ]
+    const split = record.indexOf(0x1a, 5) + 1
+    push(bytes(...record.slice(0, split)))
+    push(bytes(...record.slice(split)))
+    expect(frames).toEqual([bytesToHex(Uint8Array.from(payload))])
+  })
+
+  it('resyncs on the next record start after garbage or a cut record', () => {
+    const { frames, push } = collect()
+    push(bytes(0xff, 0x00, 0x1a, 0x33, ...TIMESTAMP, SIGNAL, 0x8d, 0x48))
+    push(bytes(0x1a, 0x32, ...TIMESTAMP, SIGNAL, ...hexBytes(SHORT_FRAME)))
+    push(bytes(0x1a, 0x39, 0x01, 0x02))
+    expect(frames).toEqual([SHORT_FRAME])
+  })
+})
@@ -0,0 +1,114 @@
+/** Framing for receiver output formats: AVR text lines and Beast binary. */
+
+export type ModeSFrameFormat = 'avr' | 'beast'
+
+/** Short (56-bit) and long (112-bit) Mode-S frame lengths in bytes. */
+export const SHORT_FRAME_BYTES = 7
+export const LONG_FRAME_BYTES = 14
+
+const BEAST_ESCAPE = 0x1a
+const BEAST_TIMESTAMP_BYTES = 6
+const BEAST_SIGNAL_BYTES = 1
+const BEAST_PAYLOAD_BYTES: Partial<Record<number, number>> = {
+  0x31: 2, // '1': Mode A/C reply
+  0x32: SHORT_FRAME_BYTES, // '2': Mode-S short
+  0x33: LONG_FRAME_BYTES, // '3': Mode-S long
+}
+
+/** Frame length implied by the downlink format in the first 5 bits. */
+export function modeSFrameLength(firstByte: number) {
+  return firstByte >> 3 >= 16 ? LONG_FRAME_BYTES : SHORT_FRAME_BYTES
+}
+
+export function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) return null
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+export function bytesToHex(bytes: Uint8Array) {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+    '',
+  )
+}
+
+/**
+ * Parses one AVR line: `*8D4840D6202CC371C32CE0576098;`, or the MLAT variant
+ * `@<12 hex digit timestamp><frame>;`. Returns null for anything that is not a
+ * complete Mode-S frame (including Mode A/C replies).
+ */
+export function parseAvrLine(line: string): Uint8Array | null {
+  const trimmed = line.trim()
+  if (!trimmed.endsWith(';')) return null
+
+  let hex: string
+  if (trimmed.startsWith('*')) hex = trimmed.slice(1, -1)
+  else if (trimmed.startsWith('@')) hex = trimmed.slice(13, -1)
+  else return null
+
+  const frame = hexToBytes(hex)
+  if (!frame || frame.length === 0) return null
+  if (frame.length !== modeSFrameLength(frame[0])) return null
+  return frame
+}
+
+/**
+ * Incremental Beast decoder. Feed it raw socket chunks; it un-escapes
+ * `0x1a 0x1a` pairs, drops Mode A/C and status records, and hands complete
+ * Mode-S frames to `onFrame`.
+ */
+export function createBeastDecoder(onFrame: (frame: Uint8Array) => void) {
+  // Unescaped bytes of the record being read (type byte first), or null
+  // while waiting for the next record start.
+  let record: number[] | null = null
+  let expected = 0
+  let escaped = false
+
+  const pushByte = (byte: number) => {
+    if (!record) return
+    record.push(byte)
+
+    if (record.length === 1) {
+      const payload = BEAST_PAYLOAD_BYTES[byte]
+      if (payload == null) {
+        record = null
+        return
+      }
+      expected = 1 + BEAST_TIMESTAMP_BYTES + BEAST_SIGNAL_BYTES + payload
+      return
+    }
+
+    if (record.length < expected) return
+    const type = record[0]
+    const frame = Uint8Array.from(
+      record.slice(1 + BEAST_TIMESTAMP_BYTES + BEAST_SIGNAL_BYTES),
+    )
+    record = null
+    if (type !== 0x31) onFrame(frame)
+  }
+
+  return (chunk: Uint8Array) => {
+    for (const byte of chunk) {
+      if (escaped) {
+        escaped = false
+        if (byte === BEAST_ESCAPE) {
+          pushByte(byte)
+        } else {
+          // A lone 0x1a starts a new record; resync on it.
+          record = []
+          pushByte(byte)
+        }
+        continue
+      }
+
+      if (byte === BEAST_ESCAPE) {
+        escaped = true
+        continue
+      }
+      pushByte(byte)
+    }
+  }
+}
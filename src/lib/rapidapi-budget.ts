@@ -0,0 +1,375 @@
+import { createHash } from 'node:crypto'
+import { withRedis } from './redis'
+
+export type RapidApiProviderId = 'adsbexchange' | 'aerodatabox'
+
+/**
+ * Who is asking. Lower classes leave part of the bucket and of the
+ * daily/monthly quota untouched so a selected-flight lookup still goes
+ * through when background polling has used up its share.
+ */
+export type RapidApiPriority = 'interactive' | 'viewport' | 'background'
+
+type RapidApiBudgetConfig = {
+  ratePerSecond: number
+  burst: number
+  dailyLimit: number | null
+  monthlyLimit: number | null
+}
+
+type BudgetDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string; retryAfterMs: number }
+
+/** Share of the bucket and quotas each class must leave for the classes above it. */
+const PRIORITY_RESERVE: Record<RapidApiPriority, number> = {
+  interactive: 0,
+  viewport: 0.2,
+  background: 0.5,
+}
+
+const DEFAULT_BUDGETS: Record<RapidApiProviderId, RapidApiBudgetConfig> = {
+  adsbexchange: {
+    ratePerSecond: 2,
+    burst: 10,
+    dailyLimit: null,
+    monthlyLimit: null,
+  },
+  aerodatabox: {
+    ratePerSecond: 1,
+    burst: 3,
+    dailyLimit: null,
+    monthlyLimit: null,
+  },
+}
+
+const MIN_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 5 * 60_000
+
+/**
+ * Refills and takes one token, checks the day/month counters and any 429
+ * backoff, all in one round-trip so concurrent servers share the budget.
+ */
+const TAKE_TOKEN_SCRIPT = `
+local now = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local burst = tonumber(ARGV[3])
+local reserve = tonumber(ARGV[4])
+local dayLimit = tonumber(ARGV[5])
+local monthLimit = tonumber(ARGV[6])
+local dayTtl = tonumber(ARGV[7])
+local monthTtl = tonumber(ARGV[8])
+
+local blockedUntil = tonumber(redis.call('GET', KEYS[4]) or '0')
+if blockedUntil > now then return {0, blockedUntil - now, 'backoff'} end
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or burst
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(burst, tokens + (now - updatedAt) / 1000 * rate)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(burst / rate * 1000) + 60000)
+if tokens - 1 < reserve then
+  return {0, math.ceil((reserve + 1 - tokens) / rate * 1000), 'rate'}
+end
+
+local day = tonumber(redis.call('GET', KEYS[2]) or '0')
+if dayLimit >= 0 and day >= dayLimit then return {0, dayTtl * 1000, 'daily'} end
+local month = tonumber(redis.call('GET', KEYS[3]) or '0')
+if monthLimit >= 0 and month >= monthLimit then
+  return {0, monthTtl * 1000, 'monthly'}
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens - 1))
+redis.call('INCR', KEYS[2])
+redis.call('EXPIRE', KEYS[2], dayTtl)
+redis.call('INCR', KEYS[3])
+redis.call('EXPIRE', KEYS[3], monthTtl)
+return {1, 0, 'ok'}
+`
+
+/** Thrown instead of calling RapidAPI when the budget says no (or the API just returned 429). */
+export class RapidApiBudgetError extends Error {
+  constructor(
+    readonly provider: RapidApiProviderId,
+    readonly reason: string,
+    readonly retryAfterMs: number,
+  ) {
+    super(
+      `RapidAPI budget for ${provider} exhausted (${reason}); retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+    )
+    this.name = 'RapidApiBudgetError'
+  }
+}
+
+export function isRapidApiBudgetError(
+  error: unknown,
+): error is RapidApiBudgetError {
+  return error instanceof RapidApiBudgetError
+}
+
+function readNumberEnv(name: string) {
+  const raw = process.env[name]?.trim()
+  if (!raw) return null
+  const value = Number(raw)
+  return Number.isFinite(value) && value >= 0 ? value : null
+}
+
+/** Defaults, overridable with RAPIDAPI_<PROVIDER>_RATE_PER_SECOND / _BURST / _DAILY_LIMIT / _MONTHLY_LIMIT. */
+function getBudgetConfig(provider: RapidApiProviderId): RapidApiBudgetConfig {
+  const defaults = DEFAULT_BUDGETS[provider]
+  const prefix = `RAPIDAPI_${provider.toUpperCase()}`
+  return {
+    ratePerSecond:
+      readNumberEnv(`${prefix}_RATE_PER_SECOND`) || defaults.ratePerSecond,
+    burst: readNumberEnv(`${prefix}_BURST`) || defaults.burst,
+    dailyLimit: readNumberEnv(`${prefix}_DAILY_LIMIT`) ?? defaults.dailyLimit,
+    monthlyLimit:
+      readNumberEnv(`${prefix}_MONTHLY_LIMIT`) ?? defaults.monthlyLimit,
+  }
+}
+
+/** Counters are per key without storing the key itself. */
+function getKeyId(apiKey: string) {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 12)
+}
+
+function getPeriods(now: number) {
+  const date = new Date(now)
+  const endOfDay = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate() + 1,
+  )
+  const endOfMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1)
+  const iso = date.toISOString()
+  return {
+    day: iso.slice(0, 10),
+    month: iso.slice(0, 7),
+    dayTtlSeconds: Math.ceil((endOfDay - now) / 1000),
+    monthTtlSeconds: Math.ceil((endOfMonth - now) / 1000),
+  }
+}
+
+function getReservedLimit(limit: number | null, priority: RapidApiPriority) {
+  if (limit == null) return -1
+  return Math.floor(limit * (1 - PRIORITY_RESERVE[priority]))
+}
+
+type LocalBudgetState = {
+  tokens: number
+  updatedAt: number
+  blockedUntil: number
+  counts: Map<string, number>
+}
+
+/** Same accounting as the Lua script, for servers running without Redis. */
+const localBudgets = new Map<string, LocalBudgetState>()
+
+function takeLocalToken(
+  scope: string,
+  config: RapidApiBudgetConfig,
+  priority: RapidApiPriority,
+  now: number,
+): BudgetDecision {
+  let state = localBudgets.get(scope)
+  if (!state) {
+    state = {
+      tokens: config.burst,
+      updatedAt: now,
+      blockedUntil: 0,
+      counts: new Map(),
+    }
+    localBudgets.set(scope, state)
+  }
+  if (state.blockedUntil > now) {
+    return {
+      allowed: false,
+      reason: 'backoff',
+      retryAfterMs: state.blockedUntil - now,
+    }
+  }
+
+  state.tokens = Math.min(
+    config.burst,
+    state.tokens + ((now - state.updatedAt) / 1000) * config.ratePerSecond,
+  )
+  state.updatedAt = now
+  const reserve = config.burst * PRIORITY_RESERVE[priority]
+  if (state.tokens - 1 < reserve) {
+    return {
+      allowed: false,
+      reason: 'rate',
+      retryAfterMs: Math.ceil(
+        ((reserve + 1 - state.tokens) / config.ratePerSecond) * 1000,
+      ),
+    }
+  }
+
+  const periods = getPeriods(now)
+  const day = state.counts.get(periods.day) ?? 0
+  const month = state.counts.get(periods.month) ?? 0
+  const dayLimit = getReservedLimit(config.dailyLimit, priority)
+  const monthLimit = getReservedLimit(config.monthlyLimit, priority)
+  if (dayLimit >= 0 && day >= dayLimit) {
+    return {
+      allowed: false,
+      reason: 'daily',
+      retryAfterMs: periods.dayTtlSeconds * 1000,
+    }
+  }
+  if (monthLimit >= 0 && month >= monthLimit) {
+    return {
+      allowed: false,
+      reason: 'monthly',
+      retryAfterMs: periods.monthTtlSeconds * 1000,
+    }
+  }
+
+  state.tokens -= 1
+  // Only the current day and month are ever read back.
+  state.counts = new Map([
+    [periods.day, day + 1],
+    [periods.month, month + 1],
+  ])
+  return { allowed: true }
+}
+
+async function takeToken(
+  provider: RapidApiProviderId,
+  keyId: string,
+  priority: RapidApiPriority,
+): Promise<BudgetDecision> {
+  const config = getBudgetConfig(provider)
+  const scope = `rapidapi:${provider}:${keyId}`
+  const now = Date.now()
+  const periods = getPeriods(now)
+  // Null when Redis is unset, down, failing or slow: use this process's budget.
+  const reply = await withRedis(
+    (client) =>
+      client.eval(TAKE_TOKEN_SCRIPT, {
+        keys: [
+          `${scope}:bucket`,
+          `${scope}:day:${periods.day}`,
+          `${scope}:month:${periods.month}`,
+          `${scope}:blocked`,
+        ],
+        arguments: [
+          String(now),
+          String(config.ratePerSecond),
+          String(config.burst),
+          String(config.burst * PRIORITY_RESERVE[priority]),
+          String(getReservedLimit(config.dailyLimit, priority)),
+          String(getReservedLimit(config.monthlyLimit, priority)),
+          String(periods.dayTtlSeconds),
+          String(periods.monthTtlSeconds),
+        ],
+      }) as Promise<[number, number, string]>,
+  )
+  if (!reply) return takeLocalToken(scope, config, priority, now)
+  const [allowed, retryAfterMs, reason] = reply
+  return allowed === 1
+    ? { allowed: true }
+    : { allowed: false, reason, retryAfterMs }
+}
+
+/** Seconds from a Retry-After header (delta-seconds or HTTP date). */
+function parseRetryAfterMs(value: string | null) {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return seconds * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : date - Date.now()
+}
+
+/** Consecutive 429s per key, for exponential backoff when no header says how long. */
+const consecutiveRateLimits = new Map<string, number>()
+
+async function blockUntil(scope: string, until: number) {
+  const local = localBudgets.get(scope)
+  if (local) local.blockedUntil = Math.max(local.blockedUntil, until)
+  await withRedis((client) =>
+    client.set(`${scope}:blocked`, String(until), {
+      PX: Math.max(1, until - Date.now()),
+    }),
+  )
+}
+
+/**
+ * Backs off after a 429 (Retry-After, else the RapidAPI reset header, else
+ * exponential) and when the quota headers report nothing left.
+ */
+async function recordResponse(
+  provider: RapidApiProviderId,
+  scope: string,
+  res: Response,
+) {
+  const remainingHeader = res.headers.get('x-ratelimit-requests-remaining')
+  const remaining = remainingHeader == null ? null : Number(remainingHeader)
+  const resetMs = parseRetryAfterMs(
+    res.headers.get('x-ratelimit-requests-reset'),
+  )
+
+  if (res.status === 429) {
+    const attempts = (consecutiveRateLimits.get(scope) ?? 0) + 1
+    consecutiveRateLimits.set(scope, attempts)
+    const backoffMs = Math.min(
+      MAX_BACKOFF_MS,
+      parseRetryAfterMs(res.headers.get('retry-after')) ??
+        (remaining === 0 ? resetMs : null) ??
+        MIN_BACKOFF_MS * 2 ** (attempts - 1),
+    )
+    console.warn(
+      `[RapidAPI budget] ${provider} rate limited, backing off ${Math.ceil(backoffMs / 1000)}s`,
+    )
+    await blockUntil(scope, Date.now() + backoffMs)
+    throw new RapidApiBudgetError(provider, 'rate-limited', backoffMs)
+  }
+
+  consecutiveRateLimits.delete(scope)
+  if (remaining === 0 && resetMs != null) {
+    await blockUntil(scope, Date.now() + resetMs)
+  }
+}
+
+/**
+ * GET a RapidAPI endpoint through the shared budget. Throws
+ * `RapidApiBudgetError` without calling the API when the caller's priority
+ * class is out of budget, and when the API answers 429.
+ */
+export async function rapidApiFetch(
+  provider: RapidApiProviderId,
+  url: string,
+  {
+    apiKey,
+    host,
+    priority,
+    headers,
+  }: {
+    apiKey: string
+    host: string
+    priority: RapidApiPriority
+    headers?: Record<string, string>
+  },
+): Promise<Response> {
+  const keyId = getKeyId(apiKey)
+  const decision = await takeToken(provider, keyId, priority)
+  if (!decision.allowed) {
+    throw new RapidApiBudgetError(
+      provider,
+      decision.reason,
+      decision.retryAfterMs,
+    )
+  }
+
+  const res = await fetch(url, {
+    method: 'GET',
+    headers: {
+      ...headers,
+      'x-rapidapi-key': apiKey,
+      'x-rapidapi-host': host,
+    },
+  })
+  await recordResponse(provider, `rapidapi:${provider}:${keyId}`, res)
+  return res
+}
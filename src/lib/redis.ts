@@ -1,40 +1,80 @@
 import { createClient  } from 'redis'
 import type {RedisClientType} from 'redis';
 
+/** How long the first connection may take before Redis counts as down. */
+const CONNECT_TIMEOUT_MS = 2000
+/** Upper bound on any one Redis call; callers fall back to memory after it. */
+const OPERATION_TIMEOUT_MS = 1000
+/** After a failed connect, Redis is skipped for this long before retrying. */
+const RETRY_AFTER_MS = 30_000
+/** Reconnect attempts after a dropped connection before the client gives up. */
+const MAX_RECONNECT_ATTEMPTS = 5
+
 let client: RedisClientType | null = null
-let connectPromise: Promise<RedisClientType> | null = null
+let connectPromise: Promise<RedisClientType | null> | null = null
+let unavailableUntil = 0
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string) {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${label} timed out after ${ms}ms`)),
+      ms,
+    )
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+async function connect(url: string): Promise<RedisClientType | null> {
+  const c: RedisClientType = createClient({
+    url,
+    // Fail commands at once while disconnected instead of queueing them.
+    disableOfflineQueue: true,
+    socket: {
+      connectTimeout: CONNECT_TIMEOUT_MS,
+      reconnectStrategy: (retries) =>
+        retries >= MAX_RECONNECT_ATTEMPTS
+          ? false
+          : Math.min(retries * 200, 2000),
+    },
+  })
+  c.on('error', (err) => console.error('[Redis]', err))
+  try {
+    await withTimeout(c.connect(), CONNECT_TIMEOUT_MS, 'Redis connect')
+    client = c
+    return c
+  } catch (err) {
+    console.error('[Redis] Failed to connect:', err)
+    unavailableUntil = Date.now() + RETRY_AFTER_MS
+    c.destroy()
+    return null
+  }
+}
 
 /**
  * Get a Redis client instance. Uses REDIS_URL from env.
- * Returns null if REDIS_URL is not set. Connects lazily on first use.
+ * Returns null if REDIS_URL is not set or Redis is not ready (down, or
+ * reconnecting), so callers fall back to memory instead of waiting.
+ * Connects lazily on first use and at most once per RETRY_AFTER_MS after a failure.
  */
 export async function getRedisClient(): Promise<RedisClientType | null> {
   const url = process.env.REDIS_URL
   if (!url) return null
 
-  if (client?.isOpen) return client
-
-  if (connectPromise) return connectPromise
-
-  connectPromise = (async () => {
-    const c = createClient({ url })
-    c.on('error', (err) => console.error('[Redis]', err))
-    await c.connect()
-    client = c
-    return c
-  })()
+  if (client?.isReady) return client
+  // Reconnecting on its own; don't wait for it.
+  if (client?.isOpen) return null
+  if (Date.now() < unavailableUntil) return null
 
-  try {
-    return await connectPromise
-  } catch (err) {
+  connectPromise ??= connect(url).finally(() => {
     connectPromise = null
-    console.error('[Redis] Failed to connect:', err)
-    return null
-  }
+  })
+  return connectPromise
 }
 
 /**
- * Execute a Redis operation. Returns null if Redis is unavailable.
+ * Execute a Redis operation. Returns null if Redis is unavailable, or the
+ * operation fails or takes longer than OPERATION_TIMEOUT_MS.
  */
 export async function withRedis<T>(
   fn: (client: RedisClientType) => Promise<T>,
@@ -42,7 +82,7 @@ export async function withRedis<T>(
   const c = await getRedisClient()
   if (!c) return null
   try {
-    return await fn(c)
+    return await withTimeout(fn(c), OPERATION_TIMEOUT_MS, 'Redis operation')
   } catch (err) {
     console.error('[Redis] Operation failed:', err)
     return null
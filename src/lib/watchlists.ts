@@ -0,0 +1,54 @@
+import { normalizeWatchValue } from '../../convex/watchlistsTypes'
+import type { WatchKind, Watchlist } from '../../convex/watchlistsTypes'
+
+/** The fields of a live aircraft (or replay trace) a watchlist can match. */
+export type WatchTarget = {
+  hex: string
+  r?: string | null
+  t?: string | null
+  flight?: string | null
+}
+
+const TARGET_FIELDS: Record<WatchKind, keyof WatchTarget> = {
+  icao24: 'hex',
+  registration: 'r',
+  callsign: 'flight',
+  typeCode: 't',
+}
+
+/**
+ * Builds a lookup from aircraft to the names of the watchlists that match
+ * it, in list order. Entries are indexed once per watchlist change so the
+ * per-aircraft check stays a few map lookups.
+ */
+export function createWatchMatcher(watchlists: Watchlist[]) {
+  const listNamesByKey = new Map<string, string[]>()
+  for (const watchlist of watchlists) {
+    for (const entry of watchlist.entries) {
+      const key = `${entry.kind}:${entry.value}`
+      const names = listNamesByKey.get(key)
+      if (!names) listNamesByKey.set(key, [watchlist.name])
+      else if (!names.includes(watchlist.name)) names.push(watchlist.name)
+    }
+  }
+
+  return (target: WatchTarget): string[] => {
+    if (listNamesByKey.size === 0) return []
+    const matches: string[] = []
+    for (const [kind, field] of Object.entries(TARGET_FIELDS) as [
+      WatchKind,
+      keyof WatchTarget,
+    ][]) {
+      const raw = target[field]
+      if (!raw) continue
+      const names = listNamesByKey.get(
+        `${kind}:${normalizeWatchValue(kind, raw)}`,
+      )
+      if (!names) continue
+      for (const name of names) {
+        if (!matches.includes(name)) matches.push(name)
+      }
+    }
+    return matches
+  }
+}
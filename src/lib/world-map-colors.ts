@@ -1,4 +1,5 @@
 import { COLORS } from './colors'
+import type { FlightPhase } from './flight-phase'
 
 export const WORLD_MAP_COLORS = {
   background: COLORS.NEUTRAL_900,
@@ -11,6 +12,35 @@ export const WORLD_MAP_COLORS = {
   marker: COLORS.NEUTRAL_300,
   markerHover: COLORS.NEUTRAL_100,
   markerSelected: COLORS.PRIMARY,
+  markerWatched: '#e879f9',
+  geofence: '#22d3ee',
+  geofenceDraft: '#fbbf24',
   routeFuture: COLORS.NEUTRAL_500,
   routePast: COLORS.PRIMARY,
 } as const
+
+export const FLIGHT_PHASE_COLORS: Record<FlightPhase, string> = {
+  parked: COLORS.NEUTRAL_500,
+  taxi: COLORS.NEUTRAL_400,
+  'takeoff-roll': '#facc15',
+  climb: '#4ade80',
+  cruise: '#38bdf8',
+  descent: '#a78bfa',
+  approach: '#f472b6',
+  landing: '#fb923c',
+  'go-around': '#f87171',
+}
+
+/** Airline markers cycle through these, keyed by a hash of the designator. */
+export const AIRLINE_MARKER_COLORS = [
+  '#38bdf8',
+  '#f472b6',
+  '#4ade80',
+  '#facc15',
+  '#a78bfa',
+  '#fb923c',
+  '#2dd4bf',
+  '#f87171',
+  '#818cf8',
+  '#a3e635',
+] as const
@@ -11,6 +11,8 @@
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as AboutRouteImport } from './routes/about'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as ApiCacheStatsRouteImport } from './routes/api/cache-stats'
+import { Route as ApiLiveAircraftStreamRouteImport } from './routes/api/live-aircraft/stream'
 
 const AboutRoute = AboutRouteImport.update({
   id: '/about',
@@ -22,31 +24,54 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiCacheStatsRoute = ApiCacheStatsRouteImport.update({
+  id: '/api/cache-stats',
+  path: '/api/cache-stats',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiLiveAircraftStreamRoute = ApiLiveAircraftStreamRouteImport.update({
+  id: '/api/live-aircraft/stream',
+  path: '/api/live-aircraft/stream',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/about': typeof AboutRoute
+  '/api/cache-stats': typeof ApiCacheStatsRoute
+  '/api/live-aircraft/stream': typeof ApiLiveAircraftStreamRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/about': typeof AboutRoute
+  '/api/cache-stats': typeof ApiCacheStatsRoute
+  '/api/live-aircraft/stream': typeof ApiLiveAircraftStreamRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/about': typeof AboutRoute
+  '/api/cache-stats': typeof ApiCacheStatsRoute
+  '/api/live-aircraft/stream': typeof ApiLiveAircraftStreamRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/about'
+  fullPaths: '/' | '/about' | '/api/cache-stats' | '/api/live-aircraft/stream'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/about'
-  id: '__root__' | '/' | '/about'
+  to: '/' | '/about' | '/api/cache-stats' | '/api/live-aircraft/stream'
+  id:
+    | '__root__'
+    | '/'
+    | '/about'
+    | '/api/cache-stats'
+    | '/api/live-aircraft/stream'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   AboutRoute: typeof AboutRoute
+  ApiCacheStatsRoute: typeof ApiCacheStatsRoute
+  ApiLiveAircraftStreamRoute: typeof ApiLiveAircraftStreamRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -65,12 +90,28 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/cache-stats': {
+      id: '/api/cache-stats'
+      path: '/api/cache-stats'
+      fullPath: '/api/cache-stats'
+      preLoaderRoute: typeof ApiCacheStatsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/live-aircraft/stream': {
+      id: '/api/live-aircraft/stream'
+      path: '/api/live-aircraft/stream'
+      fullPath: '/api/live-aircraft/stream'
+      preLoaderRoute: typeof ApiLiveAircraftStreamRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   AboutRoute: AboutRoute,
+  ApiCacheStatsRoute: ApiCacheStatsRoute,
+  ApiLiveAircraftStreamRoute: ApiLiveAircraftStreamRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
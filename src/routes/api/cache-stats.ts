@@ -0,0 +1,11 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { getCacheStats } from '#/lib/cache'
+
+/** Cache hit/miss counters per key prefix for this server process. */
+export const Route = createFileRoute('/api/cache-stats')({
+  server: {
+    handlers: {
+      GET: () => Response.json(getCacheStats()),
+    },
+  },
+})
@@ -0,0 +1,116 @@
+import { createFileRoute } from '@tanstack/react-router'
+import z from 'zod'
+import { liveAircraftHub } from '#/actions/live-aircraft/hub'
+import type { LiveAircraftSubscription } from '#/actions/live-aircraft/hub'
+import type { AdsbAircraft } from '#/actions/adsbexchange/aircraft'
+import { bytesToBase64, createAircraftDeltaEncoder } from '#/lib/aircraft-codec'
+import { normalizeBounds } from '#/lib/geo'
+
+const KEEPALIVE_INTERVAL_MS = 15_000
+
+const streamParamsSchema = z.object({
+  provider: z.string().optional(),
+  south: z.coerce.number().min(-90).max(90),
+  west: z.coerce.number(),
+  north: z.coerce.number().min(-90).max(90),
+  east: z.coerce.number(),
+})
+
+/**
+ * Server-Sent Events stream of live aircraft for a viewport.
+ * Events: `ready` ({ subscriptionId }) once, then `frame` (a base64 delta
+ * frame, see src/lib/aircraft-codec.ts) whenever aircraft in the viewport
+ * change, and `status` ({ stale }) when the data starts or stops coming from
+ * fallback copies because the upstream budget is spent. Move the viewport with setLiveAircraftStreamBoundsAction instead
+ * of reconnecting.
+ */
+export const Route = createFileRoute('/api/live-aircraft/stream')({
+  server: {
+    handlers: {
+      GET: ({ request }) => {
+        const url = new URL(request.url)
+        const parsed = streamParamsSchema.safeParse(
+          Object.fromEntries(url.searchParams),
+        )
+        if (!parsed.success) {
+          return new Response('Invalid viewport', { status: 400 })
+        }
+        const { provider, ...bounds } = parsed.data
+
+        const encoder = new TextEncoder()
+        const frameEncoder = createAircraftDeltaEncoder()
+        const tracked = new Map<string, AdsbAircraft>()
+        let stale = false
+        let controller: ReadableStreamDefaultController<Uint8Array> | null =
+          null
+        const write = (chunk: string) => {
+          controller?.enqueue(encoder.encode(chunk))
+        }
+        const send = (event: string, data: unknown) => {
+          write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        }
+
+        let subscription: LiveAircraftSubscription
+        try {
+          subscription = liveAircraftHub.subscribe({
+            providerId: provider,
+            bounds: normalizeBounds(bounds),
+            onDiff: (diff) => {
+              if (diff.stale !== stale) {
+                stale = diff.stale
+                send('status', { stale })
+              }
+              const changed = [...diff.added, ...diff.updated]
+              if (changed.length === 0 && diff.removed.length === 0) return
+              for (const hex of diff.removed) tracked.delete(hex)
+              for (const aircraft of changed) {
+                tracked.set(aircraft.hex, aircraft)
+              }
+              const frame = frameEncoder.encode(Array.from(tracked.values()))
+              write(`event: frame\ndata: ${bytesToBase64(frame)}\n\n`)
+            },
+          })
+        } catch (error) {
+          return new Response(
+            error instanceof Error ? error.message : 'Unavailable provider',
+            { status: 400 },
+          )
+        }
+
+        let keepalive: ReturnType<typeof setInterval> | null = null
+        const cleanup = () => {
+          if (keepalive) clearInterval(keepalive)
+          keepalive = null
+          controller = null
+          subscription.close()
+        }
+
+        const stream = new ReadableStream<Uint8Array>({
+          start(streamController) {
+            controller = streamController
+            send('ready', { subscriptionId: subscription.id })
+            keepalive = setInterval(
+              () => write(': keepalive\n\n'),
+              KEEPALIVE_INTERVAL_MS,
+            )
+            request.signal.addEventListener('abort', () => {
+              if (!controller) return
+              const current = controller
+              cleanup()
+              current.close()
+            })
+          },
+          cancel: cleanup,
+        })
+
+        return new Response(stream, {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+          },
+        })
+      },
+    },
+  },
+})
@@ -0,0 +1,21 @@
+import { create } from 'zustand'
+
+type CountryFilterStoreState = {
+  /** Registration countries to show, by name; empty shows every aircraft. */
+  countries: string[]
+  toggleCountry: (country: string) => void
+  clearCountries: () => void
+}
+
+export const useCountryFilterStore = create<CountryFilterStoreState>()(
+  (set) => ({
+    countries: [],
+    toggleCountry: (country) =>
+      set((state) => ({
+        countries: state.countries.includes(country)
+          ? state.countries.filter((selected) => selected !== country)
+          : [...state.countries, country],
+      })),
+    clearCountries: () => set({ countries: [] }),
+  }),
+)
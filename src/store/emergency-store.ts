@@ -0,0 +1,13 @@
+import { create } from 'zustand'
+import type { EmergencyEpisode } from '#/components/world-map/emergency-tracker'
+
+type EmergencyStoreState = {
+  /** Active emergency and alert episodes, most urgent first. */
+  episodes: EmergencyEpisode[]
+  setEpisodes: (episodes: EmergencyEpisode[]) => void
+}
+
+export const useEmergencyStore = create<EmergencyStoreState>()((set) => ({
+  episodes: [],
+  setEpisodes: (episodes) => set({ episodes }),
+}))
@@ -0,0 +1,25 @@
+import { create } from 'zustand'
+import type { FlightPhase } from '#/lib/flight-phase'
+
+type FlightPhaseStoreState = {
+  /** Latest live phase per aircraft, keyed by lowercase icao24. */
+  phases: Map<string, FlightPhase>
+  /** Phases whose markers are hidden from the map. */
+  hiddenPhases: FlightPhase[]
+  setPhases: (phases: Map<string, FlightPhase>) => void
+  togglePhaseHidden: (phase: FlightPhase) => void
+  showAllPhases: () => void
+}
+
+export const useFlightPhaseStore = create<FlightPhaseStoreState>()((set) => ({
+  phases: new Map(),
+  hiddenPhases: [],
+  setPhases: (phases) => set({ phases }),
+  togglePhaseHidden: (phase) =>
+    set((state) => ({
+      hiddenPhases: state.hiddenPhases.includes(phase)
+        ? state.hiddenPhases.filter((hidden) => hidden !== phase)
+        : [...state.hiddenPhases, phase],
+    })),
+  showAllPhases: () => set({ hiddenPhases: [] }),
+}))
@@ -0,0 +1,42 @@
+import { create } from 'zustand'
+import type { LonLat } from '../../convex/geofencesTypes'
+
+export type GeofenceDraftKind = 'circle' | 'polygon'
+
+/**
+ * A fence being drawn. Circle: the first point is the center and the
+ * second sets the radius. Polygon: every point is a vertex.
+ */
+export type GeofenceDraft = { kind: GeofenceDraftKind; points: LonLat[] }
+
+type GeofenceStoreState = {
+  draft: GeofenceDraft | null
+  startDraft: (kind: GeofenceDraftKind) => void
+  addDraftPoint: (point: LonLat) => void
+  undoDraftPoint: () => void
+  cancelDraft: () => void
+}
+
+export const useGeofenceStore = create<GeofenceStoreState>()((set) => ({
+  draft: null,
+  startDraft: (kind) => set({ draft: { kind, points: [] } }),
+  addDraftPoint: (point) =>
+    set((state) => {
+      if (!state.draft) return {}
+      // A circle is done after its center and one radius point.
+      const points =
+        state.draft.kind === 'circle' && state.draft.points.length >= 2
+          ? [state.draft.points[0], point]
+          : [...state.draft.points, point]
+      return { draft: { ...state.draft, points } }
+    }),
+  undoDraftPoint: () =>
+    set((state) =>
+      state.draft
+        ? {
+            draft: { ...state.draft, points: state.draft.points.slice(0, -1) },
+          }
+        : {},
+    ),
+  cancelDraft: () => set({ draft: null }),
+}))
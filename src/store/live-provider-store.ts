@@ -0,0 +1,12 @@
+import { create } from 'zustand'
+
+type LiveProviderState = {
+  /** Selected live-aircraft provider id; null uses the server default. */
+  providerId: string | null
+  setProviderId: (providerId: string | null) => void
+}
+
+export const useLiveProviderStore = create<LiveProviderState>()((set) => ({
+  providerId: null,
+  setProviderId: (providerId) => set({ providerId }),
+}))
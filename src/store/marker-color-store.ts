@@ -0,0 +1,14 @@
+import { create } from 'zustand'
+
+/** What marker fill color encodes; selection and hover colors always win. */
+export type MarkerColorMode = 'default' | 'phase' | 'airline'
+
+type MarkerColorStoreState = {
+  colorMode: MarkerColorMode
+  setColorMode: (colorMode: MarkerColorMode) => void
+}
+
+export const useMarkerColorStore = create<MarkerColorStoreState>()((set) => ({
+  colorMode: 'default',
+  setColorMode: (colorMode) => set({ colorMode }),
+}))
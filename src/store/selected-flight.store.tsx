@@ -8,7 +8,12 @@ export type SelectedFlightState = {
   aerodataFlight: AerodataboxFlight | null
   aerodataLoading: boolean
   aerodataError: string | null
-  setAerodataFlight: (flight: AerodataboxFlight | null) => void
+  /** When set, aerodataFlight is a cached copy from this time (API budget exhausted). */
+  aerodataStaleSince: number | null
+  setAerodataFlight: (
+    flight: AerodataboxFlight | null,
+    staleSince?: number | null,
+  ) => void
   setAerodataLoading: (loading: boolean) => void
   setAerodataError: (error: string | null) => void
 }
@@ -19,7 +24,9 @@ export const useSelectedFlightStore = create<SelectedFlightState>()((set) => ({
   aerodataFlight: null,
   aerodataLoading: false,
   aerodataError: null,
-  setAerodataFlight: (flight) => set({ aerodataFlight: flight }),
+  aerodataStaleSince: null,
+  setAerodataFlight: (flight, staleSince = null) =>
+    set({ aerodataFlight: flight, aerodataStaleSince: staleSince }),
   setAerodataLoading: (loading) => set({ aerodataLoading: loading }),
   setAerodataError: (error) => set({ aerodataError: error }),
 }))